@@ -34,6 +34,13 @@ const nextConfig = {
     return config;
   },
   
+  // Ward boundaries are read from disk by the routes that use
+  // src/lib/ward-lookup.ts (saving a lead, and correcting its ward)
+  outputFileTracingIncludes: {
+    '/api/leads': ['./public/boundaries/**'],
+    '/api/leads/[id]': ['./public/boundaries/**'],
+  },
+
   // Disable problematic features that can cause chunk issues
   poweredByHeader: false,
   generateEtags: false,
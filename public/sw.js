@@ -5,7 +5,9 @@ const DYNAMIC_CACHE = 'samsung-leads-dynamic-v1';
 // Assets to cache on install - only cache assets that exist
 const STATIC_ASSETS = [
   '/',
-  '/manifest.json'
+  '/manifest.json',
+  // Ward boundaries, so the capture form can look up wards offline
+  '/boundaries/tz-wards.geojson'
   // Remove icon paths that don't exist
 ];
 
@@ -204,29 +206,27 @@ async function syncLeads() {
   }
 }
 
-// Push notification handling (for future use)
+// Push notifications: follow-up reminders sent by /api/cron/follow-up-reminders
+// as { title, body, url, tag }
 self.addEventListener('push', (event) => {
   if (!event.data) return;
 
-  const data = event.data.json();
+  let data;
+  try {
+    data = event.data.json();
+  } catch {
+    data = { title: 'Lead Generation Tool', body: event.data.text() };
+  }
+
   const options = {
     body: data.body,
     icon: '/icons/icon-192x192.png',
     badge: '/icons/icon-72x72.png',
     vibrate: [200, 100, 200],
-    data: data.data,
-    actions: [
-      {
-        action: 'view',
-        title: 'View',
-        icon: '/icons/action-view.png'
-      },
-      {
-        action: 'close',
-        title: 'Close',
-        icon: '/icons/action-close.png'
-      }
-    ]
+    // A newer reminder replaces the last one instead of stacking
+    tag: data.tag,
+    renotify: Boolean(data.tag),
+    data: { url: data.url || '/follow-ups' },
   };
 
   event.waitUntil(
@@ -234,13 +234,21 @@ self.addEventListener('push', (event) => {
   );
 });
 
-// Handle notification clicks
+// Open the page the notification points to, reusing an open app window
 self.addEventListener('notificationclick', (event) => {
   event.notification.close();
 
-  if (event.action === 'view') {
-    event.waitUntil(
-      clients.openWindow(event.notification.data.url || '/')
-    );
-  }
-});
\ No newline at end of file
+  const url = new URL(event.notification.data?.url || '/follow-ups', self.location.origin).href;
+
+  event.waitUntil(
+    clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const appWindow = windows.find((client) => client.url.startsWith(self.location.origin));
+
+      if (appWindow) {
+        return appWindow.navigate(url).then((client) => (client || appWindow).focus());
+      }
+
+      return clients.openWindow(url);
+    })
+  );
+});
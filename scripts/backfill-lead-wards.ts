@@ -0,0 +1,108 @@
+/**
+ * Backfill the GPS ward of leads
+ * Leads saved before the ward boundaries were bundled (or before they were
+ * last rebuilt) have no GPS ward, or an outdated one; this looks each lead
+ * with a GPS fix up again and re-checks its typed ward against it.
+ *
+ * Run from the project root, after rebuilding public/boundaries/tz-wards.geojson.
+ * Dry run (prints what would change):
+ *   npx tsx scripts/backfill-lead-wards.ts
+ * Write the changes:
+ *   npx tsx scripts/backfill-lead-wards.ts --apply
+ *
+ * Needs NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { LeadWardFields, locateLeadWard } from '../src/lib/ward-lookup';
+
+const BATCH_SIZE = 1000;
+
+interface LeadRow extends LeadWardFields {
+  id: string;
+  ward: string;
+  gps_latitude: number;
+  gps_longitude: number;
+}
+
+const apply = process.argv.includes('--apply');
+
+const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!url || !serviceKey) {
+  console.error('Set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+  process.exit(1);
+}
+
+const db = createClient(url, serviceKey, { auth: { persistSession: false } });
+
+function isUnchanged(row: LeadRow, fields: LeadWardFields): boolean {
+  return (Object.keys(fields) as (keyof LeadWardFields)[]).every(key => row[key] === fields[key]);
+}
+
+async function main() {
+  console.log(apply ? 'Locating lead wards...' : 'Dry run: no changes will be written (pass --apply to write)');
+
+  let checked = 0;
+  let changed = 0;
+  let mismatched = 0;
+  let failed = 0;
+
+  // Keyset paging on id, so updated rows are not read twice
+  let lastId: string | null = null;
+
+  for (;;) {
+    let query = db
+      .from('leads')
+      .select('id, ward, gps_latitude, gps_longitude, gps_region, gps_district, gps_ward, ward_mismatch')
+      .not('gps_latitude', 'is', null)
+      .not('gps_longitude', 'is', null)
+      .order('id')
+      .limit(BATCH_SIZE);
+    if (lastId) {
+      query = query.gt('id', lastId);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    const rows = (data ?? []) as LeadRow[];
+    if (rows.length === 0) break;
+
+    for (const row of rows) {
+      checked++;
+      const fields = await locateLeadWard(row);
+      if (fields.ward_mismatch) mismatched++;
+
+      if (isUnchanged(row, fields)) continue;
+
+      changed++;
+      if (!apply) {
+        console.log(`leads ${row.id}: "${row.ward}" -> ${fields.gps_ward ?? 'no ward'}${fields.ward_mismatch ? ' (mismatch)' : ''}`);
+        continue;
+      }
+
+      const { error: updateError } = await db.from('leads').update(fields).eq('id', row.id);
+
+      if (updateError) {
+        failed++;
+        console.error(`leads ${row.id}: ${updateError.message}`);
+      }
+    }
+
+    lastId = rows[rows.length - 1].id;
+  }
+
+  console.log(
+    `leads with GPS: ${checked} checked, ${changed} ${apply ? 'updated' : 'to update'}, ${mismatched} with a mismatched ward` +
+    (failed ? `, ${failed} failed` : '')
+  );
+
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch(error => {
+  console.error('Backfill failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,126 @@
+/**
+ * Backfill phone numbers to E.164
+ * Leads captured before numbers were normalized hold 0712345678; this rewrites
+ * them, and any officer or dealer numbers, as +255712345678. Numbers that are
+ * not Tanzanian mobile numbers are listed for a person to fix.
+ *
+ * Dry run (prints what would change):
+ *   npx tsx scripts/backfill-phone-numbers.ts
+ * Write the changes:
+ *   npx tsx scripts/backfill-phone-numbers.ts --apply
+ *
+ * Needs NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { normalizePhone } from '../src/lib/phone';
+
+const TARGETS = [
+  { table: 'leads', column: 'phone_contact' },
+  { table: 'officers', column: 'phone' },
+  { table: 'dealers', column: 'phone' },
+] as const;
+
+const BATCH_SIZE = 1000;
+
+interface TargetResult {
+  checked: number;
+  changed: number;
+  failed: number;
+  invalid: { id: string; phone: string }[];
+}
+
+const apply = process.argv.includes('--apply');
+
+const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!url || !serviceKey) {
+  console.error('Set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+  process.exit(1);
+}
+
+const db = createClient(url, serviceKey, { auth: { persistSession: false } });
+
+async function backfill(table: string, column: string): Promise<TargetResult> {
+  const result: TargetResult = { checked: 0, changed: 0, failed: 0, invalid: [] };
+
+  // Keyset paging on id, so rewritten rows are not read twice
+  let lastId: string | null = null;
+
+  for (;;) {
+    let query = db.from(table).select(`id, ${column}`).order('id').limit(BATCH_SIZE);
+    if (lastId) {
+      query = query.gt('id', lastId);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    const rows = (data ?? []) as unknown as Record<string, string>[];
+    if (rows.length === 0) break;
+
+    for (const row of rows) {
+      result.checked++;
+      const phone = row[column];
+      const normalized = normalizePhone(phone ?? '');
+
+      if (!normalized) {
+        result.invalid.push({ id: row.id, phone });
+        continue;
+      }
+
+      if (normalized === phone) continue;
+
+      result.changed++;
+      if (!apply) {
+        console.log(`${table} ${row.id}: ${phone} -> ${normalized}`);
+        continue;
+      }
+
+      // Only rewrite the value that was read, in case it changed since
+      const { error: updateError } = await db
+        .from(table)
+        .update({ [column]: normalized })
+        .eq('id', row.id)
+        .eq(column, phone);
+
+      if (updateError) {
+        result.failed++;
+        console.error(`${table} ${row.id}: ${updateError.message}`);
+      }
+    }
+
+    lastId = rows[rows.length - 1].id;
+  }
+
+  return result;
+}
+
+async function main() {
+  console.log(apply ? 'Normalizing phone numbers...' : 'Dry run: no changes will be written (pass --apply to write)');
+
+  let failed = false;
+
+  for (const { table, column } of TARGETS) {
+    const result = await backfill(table, column);
+
+    console.log(
+      `${table}.${column}: ${result.checked} checked, ${result.changed} ${apply ? 'updated' : 'to update'}` +
+      (result.failed ? `, ${result.failed} failed` : '')
+    );
+
+    for (const { id, phone } of result.invalid) {
+      console.log(`  not a Tanzanian mobile number: ${table} ${id} "${phone}"`);
+    }
+
+    failed = failed || result.failed > 0;
+  }
+
+  process.exit(failed ? 1 : 0);
+}
+
+main().catch(error => {
+  console.error('Backfill failed:', error);
+  process.exit(1);
+});
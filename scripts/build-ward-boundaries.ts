@@ -0,0 +1,141 @@
+/**
+ * Build the bundled ward boundaries
+ * Converts a GeoJSON file of Tanzanian boundaries into the compact file the
+ * app looks wards up in (public/boundaries/tz-wards.geojson): one feature per
+ * area with its region, district and ward name, outlines simplified and
+ * coordinates rounded to about a meter.
+ *
+ * The source is the official ward boundaries (e.g. the National Bureau of
+ * Statistics ward shapefile), converted to GeoJSON in WGS 84 first:
+ *   ogr2ogr -f GeoJSON -t_srs EPSG:4326 wards.geojson Wards.shp
+ *
+ * Name the properties holding each name in your source (check them with
+ * ogrinfo -so Wards.shp Wards):
+ *   npx tsx scripts/build-ward-boundaries.ts wards.geojson \
+ *     --region-field=Region_Nam --district-field=District_N --ward-field=Ward_Name
+ *
+ * Leave --district-field or --ward-field empty for a source without that
+ * level. The file shipped with the app was built from the Natural Earth
+ * admin-1 regions (public domain), with each region's name added as "region":
+ *   npx tsx scripts/build-ward-boundaries.ts tz-regions.geojson \
+ *     --region-field=region --district-field= --ward-field=
+ *
+ * --tolerance sets how far, in degrees, a simplified outline may stray from
+ * the original (default 0.0001, about 11 m).
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { WARD_BOUNDARIES_PATH } from '../src/lib/constants';
+import { simplifyRing, WardBoundaries, WardFeature } from '../src/lib/ward-boundaries';
+
+type Ring = number[][];
+
+interface SourceFeature {
+  properties: Record<string, unknown> | null;
+  geometry: { type: string; coordinates: unknown } | null;
+}
+
+function option(name: string, fallback: string): string {
+  const prefix = `--${name}=`;
+  const arg = process.argv.find(value => value.startsWith(prefix));
+  return arg ? arg.slice(prefix.length) : fallback;
+}
+
+const source = process.argv.slice(2).find(arg => !arg.startsWith('--'));
+const fields = {
+  region: option('region-field', 'region'),
+  district: option('district-field', 'district'),
+  ward: option('ward-field', 'ward'),
+};
+const tolerance = Number(option('tolerance', '0.0001'));
+
+if (!source || !Number.isFinite(tolerance) || tolerance < 0) {
+  console.error('Usage: npx tsx scripts/build-ward-boundaries.ts <wards.geojson> [--region-field=] [--district-field=] [--ward-field=] [--tolerance=]');
+  process.exit(1);
+}
+
+// Shapefiles often hold names in capitals; show those as place names, and
+// keep names already written that way ("Dar es Salaam")
+function toName(value: unknown): string {
+  const name = String(value ?? '').trim().replace(/\s+/g, ' ');
+  if (name !== name.toUpperCase()) return name;
+
+  return name
+    .toLowerCase()
+    .replace(/(^|[\s-])\p{L}/gu, letter => letter.toUpperCase());
+}
+
+// An empty field name means the source has no such level
+function toOptionalName(properties: Record<string, unknown>, field: string): string | null {
+  return (field && toName(properties[field])) || null;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1e5) / 1e5;
+}
+
+function toRing(ring: Ring): Ring | null {
+  const simplified = simplifyRing(ring, tolerance).map(([longitude, latitude]) => [round(longitude), round(latitude)]);
+  return simplified.length >= 4 ? simplified : null;
+}
+
+// Holes too small to survive simplification are dropped; outlines are kept
+function toPolygon(polygon: Ring[]): Ring[] | null {
+  const [outline, ...holes] = polygon;
+  const ring = outline ? toRing(outline) : null;
+  if (!ring) return null;
+
+  return [ring, ...holes.map(toRing).filter((hole): hole is Ring => hole !== null)];
+}
+
+function toFeature(feature: SourceFeature): WardFeature | null {
+  const { geometry, properties } = feature;
+  if (!geometry || !properties) return null;
+
+  const polygons = geometry.type === 'Polygon'
+    ? [geometry.coordinates as Ring[]]
+    : geometry.type === 'MultiPolygon'
+      ? (geometry.coordinates as Ring[][])
+      : [];
+  const kept = polygons.map(toPolygon).filter((polygon): polygon is Ring[] => polygon !== null);
+
+  const region = toName(properties[fields.region]);
+  if (!region || kept.length === 0) return null;
+
+  return {
+    type: 'Feature',
+    properties: {
+      region,
+      district: toOptionalName(properties, fields.district),
+      ward: toOptionalName(properties, fields.ward),
+    },
+    geometry: kept.length === 1
+      ? { type: 'Polygon', coordinates: kept[0] }
+      : { type: 'MultiPolygon', coordinates: kept },
+  };
+}
+
+const input = JSON.parse(readFileSync(source, 'utf8')) as { features?: SourceFeature[] };
+const features = (input.features ?? []).map(toFeature).filter((feature): feature is WardFeature => feature !== null);
+const skipped = (input.features ?? []).length - features.length;
+
+if (features.length === 0) {
+  console.error(`No areas found. Check the field names: ${Object.values(fields).filter(Boolean).join(', ')}`);
+  process.exit(1);
+}
+
+const output: WardBoundaries = { type: 'FeatureCollection', features };
+const target = path.join(__dirname, '..', 'public', WARD_BOUNDARIES_PATH);
+const text = `${JSON.stringify(output)}\n`;
+writeFileSync(target, text);
+
+console.log(`Wrote ${features.length} areas to ${path.relative(process.cwd(), target)} (${(text.length / 1024 / 1024).toFixed(1)} MB)`);
+if (skipped > 0) {
+  console.log(`Skipped ${skipped} features with no region name or polygon`);
+}
+console.log(
+  `Regions: ${new Set(features.map(feature => feature.properties.region)).size}, ` +
+  `districts: ${new Set(features.filter(feature => feature.properties.district).map(feature => `${feature.properties.region}/${feature.properties.district}`)).size}, ` +
+  `wards: ${features.filter(feature => feature.properties.ward).length}`
+);
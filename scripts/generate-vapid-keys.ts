@@ -0,0 +1,14 @@
+/**
+ * Generate VAPID keys for Web Push
+ * Prints a key pair to paste into the environment. Generate once per
+ * deployment: changing keys invalidates every saved subscription.
+ *
+ *   npx tsx scripts/generate-vapid-keys.ts
+ */
+
+import { generateVapidKeys } from '../src/lib/web-push';
+
+const { publicKey, privateKey } = generateVapidKeys();
+
+console.log(`NEXT_PUBLIC_VAPID_PUBLIC_KEY=${publicKey}`);
+console.log(`VAPID_PRIVATE_KEY=${privateKey}`);
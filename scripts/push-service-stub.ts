@@ -0,0 +1,92 @@
+/**
+ * Local push service stub
+ * Stands in for a browser's push service so reminders can be tested without
+ * a browser or network access. It checks the VAPID token, decrypts each
+ * message as the browser would and prints it.
+ *
+ *   npx tsx scripts/push-service-stub.ts
+ *
+ * On start it prints a subscription. Save it for a signed-in officer by
+ * POSTing it to /api/push/subscriptions (e.g. with fetch() from the browser
+ * console on the app), then call the reminder job:
+ *
+ *   curl -H "Authorization: Bearer $CRON_SECRET" http://localhost:3000/api/cron/follow-up-reminders
+ *
+ * Messages to an unknown endpoint get 410 Gone, like an unsubscribed browser.
+ * PUSH_STUB_PORT changes the port (default 8790).
+ */
+
+import { createECDH, randomBytes } from 'crypto';
+import { createServer } from 'http';
+import { decryptPushPayload, verifyVapidAuthorization } from '../src/lib/web-push';
+
+const port = Number(process.env.PUSH_STUB_PORT || 8790);
+const origin = `http://localhost:${port}`;
+const expectedKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+
+// Browser side of each subscription handed out, by endpoint path
+const receivers = new Map<string, { privateKey: string; auth: string }>();
+
+function createSubscription() {
+  const ecdh = createECDH('prime256v1');
+  ecdh.generateKeys();
+  const auth = randomBytes(16).toString('base64url');
+  const path = `/push/${randomBytes(8).toString('hex')}`;
+
+  receivers.set(path, { privateKey: ecdh.getPrivateKey().toString('base64url'), auth });
+
+  return {
+    endpoint: `${origin}${path}`,
+    keys: { p256dh: ecdh.getPublicKey('base64url'), auth },
+  };
+}
+
+const server = createServer((request, response) => {
+  const path = request.url ?? '';
+
+  // A fresh subscription, for testing more than one officer or device
+  if (request.method === 'GET' && path === '/subscription') {
+    response.writeHead(200, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(createSubscription()));
+    return;
+  }
+
+  if (request.method !== 'POST') {
+    response.writeHead(405).end();
+    return;
+  }
+
+  const chunks: Buffer[] = [];
+  request.on('data', chunk => chunks.push(chunk));
+  request.on('end', () => {
+    const receiver = receivers.get(path);
+    if (!receiver) {
+      console.log(`410 ${path}: unknown subscription`);
+      response.writeHead(410).end();
+      return;
+    }
+
+    const senderKey = verifyVapidAuthorization(request.headers.authorization ?? '', origin);
+    if (!senderKey || (expectedKey && senderKey !== expectedKey)) {
+      console.log(`403 ${path}: invalid VAPID authorization`);
+      response.writeHead(403).end();
+      return;
+    }
+
+    try {
+      const payload = decryptPushPayload(Buffer.concat(chunks), receiver.privateKey, receiver.auth);
+      console.log(`201 ${path} (TTL ${request.headers.ttl}, topic ${request.headers.topic ?? '-'}):`);
+      console.log(`  ${payload}`);
+      response.writeHead(201).end();
+    } catch (error) {
+      console.log(`400 ${path}: could not decrypt (${(error as Error).message})`);
+      response.writeHead(400).end();
+    }
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Push service stub listening on ${origin}`);
+  console.log('Subscription:');
+  console.log(JSON.stringify(createSubscription()));
+});
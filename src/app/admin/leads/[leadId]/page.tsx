@@ -0,0 +1,16 @@
+/**
+ * Platform Admin Lead Detail Page
+ */
+
+'use client';
+
+import { useParams } from 'next/navigation';
+import { LeadDetailView } from '@/components/dashboard';
+import { useManagerSession } from '@/hooks/use-manager-session';
+
+export default function AdminLeadDetailPage() {
+  const params = useParams<{ leadId: string }>();
+  const session = useManagerSession({ roles: ['platform_admin'] });
+
+  return <LeadDetailView session={session} basePath="/admin" leadId={params?.leadId ?? ''} />;
+}
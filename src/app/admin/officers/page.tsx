@@ -1,194 +1,14 @@
 /**
- * Officers Management Page
+ * Platform Admin Officers Page - officers across every dealer
  */
 
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
-import { useRouter } from 'next/navigation';
-import { AppShell, Card, CardContent, CardHeader, CardTitle, Button, FormField } from '@/components';
-import { getCurrentDealer } from '@/lib/auth';
-import { Officer, Dealer } from '@/types';
+import { OfficersManager } from '@/components/dashboard';
+import { useManagerSession } from '@/hooks/use-manager-session';
 
 export default function OfficersPage() {
-  const [dealer, setDealer] = useState<Dealer | null>(null);
-  const [officers, setOfficers] = useState<Officer[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [showAddForm, setShowAddForm] = useState(false);
-  const [newOfficer, setNewOfficer] = useState({ name: '', phone: '' });
+  const session = useManagerSession({ roles: ['platform_admin'] });
 
-  const router = useRouter();
-
-  useEffect(() => {
-    const currentDealer = getCurrentDealer();
-    if (!currentDealer) {
-      router.push('/login');
-      return;
-    }
-    
-    setDealer(currentDealer);
-  }, [router]);
-
-  const fetchOfficers = useCallback(async () => {
-    try {
-      // Fetch officers filtered by current dealer
-      const res = await fetch(`/api/officers?dealer_id=${dealer?.id}`);
-      const data = await res.json();
-      setOfficers(data);
-    } catch (error) {
-      console.error('Error fetching officers:', error);
-    } finally {
-      setLoading(false);
-    }
-  }, [dealer?.id]);
-
-  useEffect(() => {
-    if (dealer) {
-      fetchOfficers();
-    }
-  }, [dealer, fetchOfficers]);
-
-  const handleAddOfficer = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!dealer || !newOfficer.name.trim() || !newOfficer.phone.trim()) return;
-
-    try {
-      const res = await fetch('/api/officers', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          name: newOfficer.name.trim(),
-          phone: newOfficer.phone.trim(),
-          dealer_id: dealer.id,
-        }),
-      });
-
-      if (res.ok) {
-        setNewOfficer({ name: '', phone: '' });
-        setShowAddForm(false);
-        fetchOfficers();
-      }
-    } catch (error) {
-      console.error('Error adding officer:', error);
-    }
-  };
-
-  const handleDeleteOfficer = async (officerId: string) => {
-    if (!confirm('Are you sure you want to delete this officer?')) return;
-
-    try {
-      const res = await fetch(`/api/officers/${officerId}`, {
-        method: 'DELETE',
-      });
-
-      if (res.ok) {
-        fetchOfficers();
-      }
-    } catch (error) {
-      console.error('Error deleting officer:', error);
-    }
-  };
-
-  if (!dealer) {
-    return null;
-  }
-
-  return (
-    <AppShell
-      title="Manage Officers"
-      showBackButton
-      onBackClick={() => router.push('/admin')}
-    >
-      <div className="space-y-6">
-        {/* Add Officer Button */}
-        <Button
-          fullWidth
-          onClick={() => setShowAddForm(!showAddForm)}
-        >
-          {showAddForm ? 'Cancel' : 'Add New Officer'}
-        </Button>
-
-        {/* Add Officer Form */}
-        {showAddForm && (
-          <Card>
-            <CardHeader>
-              <CardTitle>Add New Officer</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <form onSubmit={handleAddOfficer} className="space-y-4">
-                <FormField
-                  label="Officer Name"
-                  placeholder="Enter officer name"
-                  value={newOfficer.name}
-                  onChange={(e) => setNewOfficer({ ...newOfficer, name: e.target.value })}
-                  required
-                />
-                
-                <FormField
-                  label="Phone Number"
-                  type="tel"
-                  placeholder="+255 123 456 789"
-                  value={newOfficer.phone}
-                  onChange={(e) => setNewOfficer({ ...newOfficer, phone: e.target.value })}
-                  required
-                />
-
-                <Button
-                  type="submit"
-                  fullWidth
-                  disabled={!newOfficer.name.trim() || !newOfficer.phone.trim()}
-                >
-                  Add Officer
-                </Button>
-              </form>
-            </CardContent>
-          </Card>
-        )}
-
-        {/* Officers List */}
-        <Card>
-          <CardHeader>
-            <CardTitle>Your Officers ({officers.length})</CardTitle>
-          </CardHeader>
-          <CardContent>
-            {loading ? (
-              <p className="text-neutral-600">Loading officers...</p>
-            ) : officers.length === 0 ? (
-              <div className="text-center py-8">
-                <p className="text-neutral-600 mb-4">No officers yet</p>
-                <Button onClick={() => setShowAddForm(true)}>
-                  Add Your First Officer
-                </Button>
-              </div>
-            ) : (
-              <div className="space-y-3">
-                {officers.map((officer) => (
-                  <div
-                    key={officer.id}
-                    className="flex items-center justify-between p-3 bg-neutral-50 rounded-lg"
-                  >
-                    <div>
-                      <p className="font-medium text-neutral-900">{officer.name}</p>
-                      <p className="text-sm text-neutral-700">{officer.phone}</p>
-                      <p className="text-xs text-neutral-600">
-                        Added {new Date(officer.created_at).toLocaleDateString()}
-                      </p>
-                    </div>
-                    
-                    <Button
-                      size="sm"
-                      variant="destructive"
-                      onClick={() => handleDeleteOfficer(officer.id)}
-                    >
-                      Delete
-                    </Button>
-                  </div>
-                ))}
-              </div>
-            )}
-          </CardContent>
-        </Card>
-      </div>
-    </AppShell>
-  );
-}
\ No newline at end of file
+  return <OfficersManager session={session} basePath="/admin" />;
+}
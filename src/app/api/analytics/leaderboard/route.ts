@@ -0,0 +1,52 @@
+/**
+ * Leaderboard API Route - officers ranked for a date range
+ * Leads captured, share with GPS, follow-ups on time and conversion rate for
+ * each officer the session can see.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionClient } from '@/lib/supabase-server';
+import { parseWithSchema } from '@/lib/api-validation';
+import { requirePermission } from '@/lib/api-auth';
+import { getScopedOfficerIds } from '@/lib/officer-scope';
+import { getOfficerPerformance } from '@/lib/officer-performance';
+import { leaderboardQuerySchema } from '@/lib/schemas';
+import { OfficerLeaderboard } from '@/types';
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'officers:read');
+    if (!auth.success) {
+      return auth.response;
+    }
+
+    const db = getSessionClient(auth.session);
+
+    const { searchParams } = new URL(request.url);
+    const parsed = parseWithSchema(Object.fromEntries(searchParams), leaderboardQuerySchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const { from, to, rank_by, dealer_id } = parsed.data;
+
+    // Supervisors rank their team, dealers all their officers
+    const officerIds = await getScopedOfficerIds(db, auth.scope, dealer_id);
+    const officers = await getOfficerPerformance(db, officerIds, { from, to, rankBy: rank_by });
+
+    const leaderboard: OfficerLeaderboard = { from, to, rank_by, officers };
+
+    return NextResponse.json(leaderboard);
+
+  } catch (error) {
+    console.error('Error fetching leaderboard:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch leaderboard',
+        message: 'Unable to load the officer leaderboard. Please try again.',
+        code: 'LEADERBOARD_ERROR'
+      },
+      { status: 500 }
+    );
+  }
+}
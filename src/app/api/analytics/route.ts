@@ -0,0 +1,62 @@
+/**
+ * Analytics API Route - lead counts for dashboards
+ * Totals, leads per day, week or month, and breakdowns by status, officer,
+ * ward and phone model, for the leads the session can see.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionClient } from '@/lib/supabase-server';
+import { parseWithSchema } from '@/lib/api-validation';
+import { forbiddenResponse, requirePermission } from '@/lib/api-auth';
+import { getScopedOfficer, getScopedOfficerIds } from '@/lib/officer-scope';
+import { getLeadAnalytics } from '@/lib/lead-analytics';
+import { analyticsQuerySchema } from '@/lib/schemas';
+import { toBusinessDate } from '@/lib/utils';
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'leads:read');
+    if (!auth.success) {
+      return auth.response;
+    }
+
+    const db = getSessionClient(auth.session);
+
+    const { searchParams } = new URL(request.url);
+    const parsed = parseWithSchema(Object.fromEntries(searchParams), analyticsQuerySchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const { from, to, interval, dealer_id, officer_id } = parsed.data;
+
+    // Same scope as the lead list: officers count their own leads,
+    // supervisors their team's, dealers their officers'
+    let officerIds: string[] | null;
+
+    if (officer_id) {
+      const officer = await getScopedOfficer(db, auth.scope, officer_id);
+      if (!officer) {
+        return forbiddenResponse('You can only view analytics for your own team or dealership.');
+      }
+      officerIds = [officer.id];
+    } else {
+      officerIds = await getScopedOfficerIds(db, auth.scope, dealer_id);
+    }
+
+    const analytics = await getLeadAnalytics(db, officerIds, { from, to, interval, today: toBusinessDate() });
+
+    return NextResponse.json(analytics);
+
+  } catch (error) {
+    console.error('Error fetching analytics:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch analytics',
+        message: 'Unable to load the lead counts. Please try again.',
+        code: 'ANALYTICS_ERROR'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Dealer OTP request - sends a one-time login code by SMS or email
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { parseJsonBody } from '@/lib/api-validation';
+import { dealerOtpRequestSchema } from '@/lib/schemas';
+import { findDealerByLogin, resolveLoginIdentifier } from '@/lib/dealer-auth';
+import { issueOtp } from '@/lib/otp';
+import { AUTH_CONSTANTS } from '@/lib/constants';
+import { OtpRequestResult } from '@/types';
+
+// The response is the same whether or not the dealer exists, so the endpoint
+// cannot be used to discover registered phone numbers or emails. Unknown
+// identifiers get a code that is recorded but never sent, so the resend limit
+// applies to them too.
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = await parseJsonBody(request, dealerOtpRequestSchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const identifier = resolveLoginIdentifier(parsed.data.identifier);
+    const dealer = await findDealerByLogin(identifier);
+
+    const result = await issueOtp({
+      identifier: identifier.value,
+      channel: identifier.channel,
+      purpose: 'dealer_login',
+      deliver: dealer !== null,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          error: 'Too many requests',
+          message: `Please wait ${result.retryAfter} seconds before requesting another code.`,
+          code: 'OTP_RATE_LIMITED'
+        },
+        { status: 429, headers: { 'Retry-After': String(result.retryAfter) } }
+      );
+    }
+
+    const body: OtpRequestResult = {
+      success: true,
+      channel: identifier.channel,
+      expiresIn: AUTH_CONSTANTS.OTP_TTL,
+    };
+
+    return NextResponse.json(body);
+
+  } catch (error) {
+    console.error('Error sending dealer OTP:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to send code',
+        message: 'We could not send your login code. Please try again.',
+        code: 'OTP_SEND_ERROR'
+      },
+      { status: 500 }
+    );
+  }
+}
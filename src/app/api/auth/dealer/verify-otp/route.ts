@@ -0,0 +1,79 @@
+/**
+ * Dealer OTP verification - exchanges a valid code for a session cookie
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { parseJsonBody } from '@/lib/api-validation';
+import { dealerOtpVerifySchema } from '@/lib/schemas';
+import { findDealerByLogin, resolveLoginIdentifier } from '@/lib/dealer-auth';
+import { verifyOtp } from '@/lib/otp';
+import { createSession, setSessionCookie } from '@/lib/session';
+import { SessionResponse } from '@/types';
+
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = await parseJsonBody(request, dealerOtpVerifySchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const identifier = resolveLoginIdentifier(parsed.data.identifier);
+    const result = await verifyOtp(identifier.value, 'dealer_login', parsed.data.code);
+
+    if (result === 'too_many_attempts') {
+      return NextResponse.json(
+        {
+          error: 'Too many attempts',
+          message: 'Too many incorrect codes. Please request a new code.',
+          code: 'OTP_TOO_MANY_ATTEMPTS'
+        },
+        { status: 429 }
+      );
+    }
+
+    if (result === 'expired') {
+      return NextResponse.json(
+        {
+          error: 'Code expired',
+          message: 'This code has expired. Please request a new code.',
+          code: 'OTP_EXPIRED'
+        },
+        { status: 401 }
+      );
+    }
+
+    const dealer = result === 'valid' ? await findDealerByLogin(identifier) : null;
+
+    if (!dealer) {
+      return NextResponse.json(
+        {
+          error: 'Invalid code',
+          message: 'The code is incorrect. Please check it and try again.',
+          code: 'OTP_INVALID'
+        },
+        { status: 401 }
+      );
+    }
+
+    const session = createSession(dealer.role ?? 'dealer', dealer.id, dealer.id);
+    const body: SessionResponse = {
+      session: { role: session.role, exp: session.exp },
+      dealer,
+    };
+
+    const response = NextResponse.json(body);
+    setSessionCookie(response, session);
+    return response;
+
+  } catch (error) {
+    console.error('Error verifying dealer OTP:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to verify code',
+        message: 'An unexpected error occurred while signing you in. Please try again.',
+        code: 'OTP_VERIFY_ERROR'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * Officer login - phone number, plus a PIN when one is set or otherwise a
+ * one-time code. With OFFICER_LOGIN_OTP turned off, officers without a PIN
+ * cannot sign in.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { parseJsonBody } from '@/lib/api-validation';
+import { officerLoginSchema } from '@/lib/schemas';
+import {
+  claimPinAttempt,
+  clearPinAttempts,
+  findOfficerByPhone,
+  toPublicOfficer,
+  verifyPin,
+} from '@/lib/officer-auth';
+import { issueOtp, verifyOtp } from '@/lib/otp';
+import { createSession, setSessionCookie } from '@/lib/session';
+import { config } from '@/lib/config';
+import { AUTH_CONSTANTS } from '@/lib/constants';
+import { OfficerLoginResponse } from '@/types';
+
+function invalidCredentialsResponse(message: string) {
+  return NextResponse.json(
+    {
+      error: 'Invalid credentials',
+      message,
+      code: 'INVALID_CREDENTIALS'
+    },
+    { status: 401 }
+  );
+}
+
+function pinLockedResponse() {
+  return NextResponse.json(
+    {
+      error: 'PIN locked',
+      message: 'Too many incorrect PINs. Ask your dealer to set a new PIN for you.',
+      code: 'PIN_LOCKED'
+    },
+    { status: 429 }
+  );
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = await parseJsonBody(request, officerLoginSchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const { phone, pin, code } = parsed.data;
+    const officer = await findOfficerByPhone(phone);
+
+    // Unknown and deactivated numbers get the same answer, so the login does
+    // not tell which numbers are registered
+    if (!officer) {
+      return invalidCredentialsResponse(
+        'We could not sign you in with this phone number. Check it, or contact your dealer.'
+      );
+    }
+
+    if (officer.pin_hash) {
+      // Officers with a PIN must always provide it
+      if (!pin) {
+        const body: OfficerLoginResponse = { status: 'pin_required' };
+        return NextResponse.json(body);
+      }
+
+      // The attempt is counted before the PIN is checked, so parallel guesses
+      // all count against the limit
+      const attempts = await claimPinAttempt(officer.id);
+      if (attempts === null) {
+        return pinLockedResponse();
+      }
+
+      if (!(await verifyPin(pin, officer.pin_hash))) {
+        const remaining = AUTH_CONSTANTS.PIN_MAX_ATTEMPTS - attempts;
+        return remaining > 0
+          ? invalidCredentialsResponse(
+            `Incorrect PIN. ${remaining} ${remaining === 1 ? 'attempt' : 'attempts'} left before your account is locked.`
+          )
+          : pinLockedResponse();
+      }
+
+      await clearPinAttempts(officer.id);
+    } else if (config.auth.officerLoginOtp) {
+      // Without a PIN, the first request sends a code and the second verifies it
+      if (!code) {
+        const result = await issueOtp({ identifier: phone, channel: 'sms', purpose: 'officer_login' });
+
+        if (!result.success) {
+          return NextResponse.json(
+            {
+              error: 'Too many requests',
+              message: `Please wait ${result.retryAfter} seconds before requesting another code.`,
+              code: 'OTP_RATE_LIMITED'
+            },
+            { status: 429, headers: { 'Retry-After': String(result.retryAfter) } }
+          );
+        }
+
+        const body: OfficerLoginResponse = { status: 'otp_sent', expiresIn: result.expiresIn };
+        return NextResponse.json(body);
+      }
+
+      const result = await verifyOtp(phone, 'officer_login', code);
+
+      if (result === 'too_many_attempts') {
+        return NextResponse.json(
+          {
+            error: 'Too many attempts',
+            message: 'Too many incorrect codes. Please request a new code.',
+            code: 'OTP_TOO_MANY_ATTEMPTS'
+          },
+          { status: 429 }
+        );
+      }
+
+      if (result !== 'valid') {
+        return invalidCredentialsResponse(
+          result === 'expired'
+            ? 'This code has expired. Please request a new code.'
+            : 'The code is incorrect. Please check it and try again.'
+        );
+      }
+    } else {
+      // A phone number alone is never enough to sign in
+      return NextResponse.json(
+        {
+          error: 'PIN not set',
+          message: 'Your account has no PIN yet. Ask your dealer to set one for you.',
+          code: 'PIN_NOT_SET'
+        },
+        { status: 403 }
+      );
+    }
+
+    const session = createSession(officer.role ?? 'officer', officer.id, officer.dealer_id);
+    const body: OfficerLoginResponse = {
+      status: 'authenticated',
+      session: { role: session.role, exp: session.exp },
+      officer: toPublicOfficer(officer),
+    };
+
+    const response = NextResponse.json(body);
+    setSessionCookie(response, session);
+    return response;
+
+  } catch (error) {
+    console.error('Error during officer login:', error);
+    return NextResponse.json(
+      {
+        error: 'Login failed',
+        message: 'An unexpected error occurred while signing you in. Please try again.',
+        code: 'OFFICER_LOGIN_ERROR'
+      },
+      { status: 500 }
+    );
+  }
+}
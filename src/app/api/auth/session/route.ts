@@ -0,0 +1,64 @@
+/**
+ * Current session - GET returns the signed-in dealer or officer (with the
+ * dealer they work for), DELETE signs out
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireSession, unauthorizedResponse } from '@/lib/api-auth';
+import { getDealerById } from '@/lib/dealer-auth';
+import { getOfficerById } from '@/lib/officer-auth';
+import { isDealerRole } from '@/lib/permissions';
+import { clearSessionCookie } from '@/lib/session';
+import { SessionResponse } from '@/types';
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireSession(request);
+    if (!auth.success) {
+      // An officer deactivated after signing in is signed out
+      if (auth.response.status === 403) {
+        const response = unauthorizedResponse();
+        clearSessionCookie(response);
+        return response;
+      }
+      return auth.response;
+    }
+
+    const { session } = auth;
+    const body: SessionResponse = {
+      session: { role: session.role, exp: session.exp },
+    };
+
+    if (!isDealerRole(session.role)) {
+      body.officer = (await getOfficerById(session.sub)) ?? undefined;
+    }
+
+    body.dealer = (await getDealerById(session.dealerId)) ?? undefined;
+
+    // The account was removed or deactivated after the session was issued
+    if (!body.dealer || (!isDealerRole(session.role) && !body.officer?.active)) {
+      const response = unauthorizedResponse();
+      clearSessionCookie(response);
+      return response;
+    }
+
+    return NextResponse.json(body);
+
+  } catch (error) {
+    console.error('Error loading session:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: 'An unexpected error occurred while loading your session. Please try again.',
+        code: 'INTERNAL_ERROR'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE() {
+  const response = NextResponse.json({ success: true });
+  clearSessionCookie(response);
+  return response;
+}
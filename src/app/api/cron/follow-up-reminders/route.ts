@@ -0,0 +1,54 @@
+/**
+ * Follow-up Reminders Job - morning push notifications for due follow-ups
+ * Called by the scheduler (see vercel.json) with `Authorization: Bearer <CRON_SECRET>`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceClient } from '@/lib/supabase-server';
+import { requireCronSecret } from '@/lib/api-auth';
+import { config } from '@/lib/config';
+import { sendFollowUpReminders } from '@/lib/follow-up-reminders';
+import { toBusinessDate } from '@/lib/utils';
+
+export async function GET(request: NextRequest) {
+  const denied = requireCronSecret(request);
+  if (denied) {
+    return denied;
+  }
+
+  const { vapidPublicKey, vapidPrivateKey, vapidSubject } = config.push;
+
+  if (!config.features.pushNotifications || !vapidPublicKey || !vapidPrivateKey || !vapidSubject) {
+    return NextResponse.json(
+      {
+        error: 'Push notifications are off',
+        message: 'Set NEXT_PUBLIC_PUSH_NOTIFICATIONS=true and the VAPID keys to send reminders.',
+        code: 'PUSH_NOT_CONFIGURED'
+      },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const result = await sendFollowUpReminders(
+      getServiceClient(),
+      { publicKey: vapidPublicKey, privateKey: vapidPrivateKey, subject: vapidSubject },
+      { today: toBusinessDate() }
+    );
+
+    console.info('[push] follow-up reminders:', result);
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    console.error('Error sending follow-up reminders:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to send reminders',
+        message: 'An unexpected error occurred while sending follow-up reminders.',
+        code: 'FOLLOW_UP_REMINDERS_ERROR'
+      },
+      { status: 500 }
+    );
+  }
+}
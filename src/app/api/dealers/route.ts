@@ -0,0 +1,48 @@
+/**
+ * Dealers API Route - platform admins list every dealer
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionClient } from '@/lib/supabase-server';
+import { requirePermission } from '@/lib/api-auth';
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'dealers:read');
+    if (!auth.success) {
+      return auth.response;
+    }
+
+    const db = getSessionClient(auth.session);
+
+    const { data: dealers, error } = await db
+      .from('dealers')
+      .select('*')
+      .order('company', { ascending: true });
+
+    if (error) {
+      console.error('Supabase error:', error);
+      return NextResponse.json(
+        {
+          error: 'Failed to fetch dealers',
+          message: 'Unable to load dealer data from the database. Please try again.',
+          code: 'DEALERS_FETCH_ERROR'
+        },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(dealers || []);
+
+  } catch (error) {
+    console.error('Error in dealers API:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: 'An unexpected error occurred while processing your request. Please try again.',
+        code: 'INTERNAL_ERROR'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -3,10 +3,17 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { parseJsonBody } from '@/lib/api-validation';
+import { errorReportPayloadSchema } from '@/lib/schemas';
 
 export async function POST(request: NextRequest) {
   try {
-    const errorReport = await request.json();
+    const parsed = await parseJsonBody(request, errorReportPayloadSchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const errorReport = parsed.data;
     
     // Log the error report
     console.error('Error Report Received:', {
@@ -19,10 +26,9 @@ export async function POST(request: NextRequest) {
     });
 
     // In a production environment, you would:
-    // 1. Validate the error report structure
-    // 2. Store it in a database or send to an error tracking service
-    // 3. Potentially trigger alerts for critical errors
-    // 4. Aggregate error patterns for analysis
+    // 1. Store it in a database or send to an error tracking service
+    // 2. Potentially trigger alerts for critical errors
+    // 3. Aggregate error patterns for analysis
 
     // For now, we'll just acknowledge receipt
     return NextResponse.json({ 
@@ -0,0 +1,63 @@
+/**
+ * Follow-ups API Route - open leads due for contact
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionClient } from '@/lib/supabase-server';
+import { parseWithSchema } from '@/lib/api-validation';
+import { forbiddenResponse, requirePermission } from '@/lib/api-auth';
+import { getScopedOfficer, getScopedOfficerIds } from '@/lib/officer-scope';
+import { getFollowUpQueue } from '@/lib/follow-up-queue';
+import { isDealerRole } from '@/lib/permissions';
+import { followUpQueueQuerySchema } from '@/lib/schemas';
+import { toBusinessDate } from '@/lib/utils';
+
+// Overdue, due today and upcoming leads. Officers and supervisors get their
+// own queue by default; dealers get every officer's unless they name one.
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'leads:read');
+    if (!auth.success) {
+      return auth.response;
+    }
+
+    const db = getSessionClient(auth.session);
+
+    const { searchParams } = new URL(request.url);
+    const parsed = parseWithSchema(Object.fromEntries(searchParams), followUpQueueQuerySchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const { officer_id, days } = parsed.data;
+
+    let officerIds: string[] | null;
+
+    if (officer_id) {
+      const officer = await getScopedOfficer(db, auth.scope, officer_id);
+      if (!officer) {
+        return forbiddenResponse('You can only view follow-ups for your own team or dealership.');
+      }
+      officerIds = [officer.id];
+    } else if (isDealerRole(auth.session.role)) {
+      officerIds = await getScopedOfficerIds(db, auth.scope);
+    } else {
+      officerIds = [auth.session.sub];
+    }
+
+    const queue = await getFollowUpQueue(db, officerIds, { today: toBusinessDate(), days });
+
+    return NextResponse.json(queue);
+
+  } catch (error) {
+    console.error('Error fetching follow-ups:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch follow-ups',
+        message: 'Unable to load the follow-up list. Please try again.',
+        code: 'FOLLOW_UPS_ERROR'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Lead Activities API Route - the lead's timeline after capture
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionClient } from '@/lib/supabase-server';
+import { parseJsonBody } from '@/lib/api-validation';
+import { requirePermission } from '@/lib/api-auth';
+import { getScopedLead, leadNotFoundResponse } from '@/lib/lead-scope';
+import { getLeadActivities, recordActivity } from '@/lib/lead-activities';
+import { leadActivityCreateSchema } from '@/lib/schemas';
+
+// Get the timeline, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requirePermission(request, 'leads:read');
+    if (!auth.success) {
+      return auth.response;
+    }
+
+    const db = getSessionClient(auth.session);
+
+    const { id } = await params;
+
+    const lead = await getScopedLead(db, auth.scope, id);
+    if (!lead) {
+      return leadNotFoundResponse();
+    }
+
+    return NextResponse.json(await getLeadActivities(db, id));
+
+  } catch (error) {
+    console.error('Error fetching lead activities:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch activities',
+        message: 'Unable to load the lead\'s activity. Please try again.',
+        code: 'LEAD_ACTIVITIES_FETCH_ERROR'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Add a note, call attempt, visit or SMS
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requirePermission(request, 'leads:update');
+    if (!auth.success) {
+      return auth.response;
+    }
+
+    const db = getSessionClient(auth.session);
+
+    const { id } = await params;
+
+    const parsed = await parseJsonBody(request, leadActivityCreateSchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const lead = await getScopedLead(db, auth.scope, id);
+    if (!lead) {
+      return leadNotFoundResponse();
+    }
+
+    const body = parsed.data;
+
+    const activity = await recordActivity(db, auth.session, {
+      leadId: id,
+      type: body.type,
+      note: body.note || null,
+      outcome: body.type === 'call' ? body.outcome ?? null : null,
+      gps: body.type === 'visit' && body.gps_latitude !== undefined && body.gps_longitude !== undefined
+        ? { latitude: body.gps_latitude, longitude: body.gps_longitude, accuracy: body.gps_accuracy }
+        : null,
+    });
+
+    return NextResponse.json(activity, { status: 201 });
+
+  } catch (error) {
+    console.error('Error recording lead activity:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to record activity',
+        message: 'Unable to save the activity. Please try again.',
+        code: 'LEAD_ACTIVITY_ERROR'
+      },
+      { status: 500 }
+    );
+  }
+}
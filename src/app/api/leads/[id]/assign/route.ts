@@ -0,0 +1,92 @@
+/**
+ * Lead Assignment API Route - move a lead to another officer
+ * The officer who captured the lead stays recorded in captured_by.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionClient } from '@/lib/supabase-server';
+import { parseJsonBody } from '@/lib/api-validation';
+import { requirePermission } from '@/lib/api-auth';
+import { getScopedLead, leadNotFoundResponse } from '@/lib/lead-scope';
+import { getScopedOfficer } from '@/lib/officer-scope';
+import { invalidAssigneeResponse, isValidAssignee, transferLeads } from '@/lib/lead-assignment';
+import { LEAD_SELECT } from '@/lib/constants';
+import { leadAssignSchema } from '@/lib/schemas';
+
+// Reassign
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requirePermission(request, 'leads:assign');
+    if (!auth.success) {
+      return auth.response;
+    }
+
+    const db = getSessionClient(auth.session);
+
+    const { id } = await params;
+
+    const parsed = await parseJsonBody(request, leadAssignSchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const lead = await getScopedLead(db, auth.scope, id);
+    if (!lead?.officer) {
+      return leadNotFoundResponse();
+    }
+
+    const { officer_id: officerId, reason } = parsed.data;
+
+    if (officerId === lead.officer_id) {
+      return invalidAssigneeResponse('The lead is already assigned to this officer.');
+    }
+
+    const assignee = await getScopedOfficer(db, auth.scope, officerId);
+    if (!isValidAssignee(assignee, lead.officer)) {
+      return invalidAssigneeResponse();
+    }
+
+    // Only moves the lead if it is still with the officer it was read with
+    const moved = await transferLeads(db, {
+      fromOfficerId: lead.officer_id,
+      toOfficerId: assignee.id,
+      leadId: id,
+      reason,
+    });
+
+    if (moved.length === 0) {
+      return NextResponse.json(
+        {
+          error: 'Assignment conflict',
+          message: 'Someone else reassigned this lead. Reload the lead and try again.',
+          code: 'ASSIGNMENT_CONFLICT'
+        },
+        { status: 409 }
+      );
+    }
+
+    const { data, error } = await db
+      .from('leads')
+      .select(LEAD_SELECT)
+      .eq('id', id)
+      .single();
+
+    if (error) throw error;
+
+    return NextResponse.json(data);
+
+  } catch (error) {
+    console.error('Error reassigning lead:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to reassign lead',
+        message: 'Unable to move the lead to the new officer. Please try again.',
+        code: 'LEAD_ASSIGN_ERROR'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * Lead Follow-ups API Route - log the outcome of a follow-up
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionClient } from '@/lib/supabase-server';
+import { parseJsonBody } from '@/lib/api-validation';
+import { requirePermission } from '@/lib/api-auth';
+import { getScopedLead, leadNotFoundResponse } from '@/lib/lead-scope';
+import { recordFollowUp } from '@/lib/follow-up-queue';
+import { recordActivitySafely } from '@/lib/lead-activities';
+import { LEAD_SELECT, LEAD_STATUS_LABELS, OPEN_LEAD_STATUSES } from '@/lib/constants';
+import { followUpOutcomeSchema } from '@/lib/schemas';
+import { LeadStatus } from '@/types';
+
+// Log an outcome and schedule the next contact
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requirePermission(request, 'leads:update');
+    if (!auth.success) {
+      return auth.response;
+    }
+
+    const db = getSessionClient(auth.session);
+
+    const { id } = await params;
+
+    const parsed = await parseJsonBody(request, followUpOutcomeSchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const lead = await getScopedLead(db, auth.scope, id);
+    if (!lead) {
+      return leadNotFoundResponse();
+    }
+
+    if (!(OPEN_LEAD_STATUSES as readonly LeadStatus[]).includes(lead.status) || lead.merged_into_id) {
+      return NextResponse.json(
+        {
+          error: 'Lead closed',
+          message: lead.merged_into_id
+            ? 'This lead was merged into another lead. Follow up on that one instead.'
+            : `The lead is ${LEAD_STATUS_LABELS[lead.status].toLowerCase()} and needs no follow-up.`,
+          code: 'LEAD_CLOSED'
+        },
+        { status: 400 }
+      );
+    }
+
+    const { outcome, note, next_contact_date } = parsed.data;
+    const now = new Date().toISOString();
+
+    const { data, error } = await db
+      .from('leads')
+      .update({
+        next_contact_date,
+        last_follow_up_at: now,
+        last_follow_up_outcome: outcome,
+        updated_at: now,
+      })
+      .eq('id', id)
+      .is('deleted_at', null)
+      .select(LEAD_SELECT)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Supabase error:', error);
+      return NextResponse.json(
+        {
+          error: 'Failed to log follow-up',
+          message: 'Unable to save the follow-up. Please try again.',
+          code: 'FOLLOW_UP_ERROR'
+        },
+        { status: 500 }
+      );
+    }
+
+    if (!data) {
+      return leadNotFoundResponse();
+    }
+
+    try {
+      await recordFollowUp(db, auth.session, {
+        leadId: id,
+        outcome,
+        note,
+        previousContactDate: lead.next_contact_date,
+        nextContactDate: next_contact_date,
+      });
+    } catch (logError) {
+      // Keep the lead and its log in step; put the schedule back
+      console.error('Failed to record follow-up:', logError);
+      await db
+        .from('leads')
+        .update({
+          next_contact_date: lead.next_contact_date,
+          last_follow_up_at: lead.last_follow_up_at ?? null,
+          last_follow_up_outcome: lead.last_follow_up_outcome ?? null,
+          updated_at: lead.updated_at,
+        })
+        .eq('id', id);
+
+      return NextResponse.json(
+        {
+          error: 'Failed to log follow-up',
+          message: 'Unable to record the follow-up. Please try again.',
+          code: 'FOLLOW_UP_ERROR'
+        },
+        { status: 500 }
+      );
+    }
+
+    await recordActivitySafely(db, auth.session, {
+      leadId: id,
+      type: outcome === 'visited' ? 'visit' : 'call',
+      outcome,
+      note,
+    });
+
+    return NextResponse.json(data);
+
+  } catch (error) {
+    console.error('Error logging follow-up:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to log follow-up',
+        message: 'An unexpected error occurred while logging the follow-up. Please try again.',
+        code: 'FOLLOW_UP_UNEXPECTED_ERROR'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Lead History API Route - pipeline moves for one lead
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionClient } from '@/lib/supabase-server';
+import { requirePermission } from '@/lib/api-auth';
+import { getScopedLead, leadNotFoundResponse } from '@/lib/lead-scope';
+import { getStatusHistory } from '@/lib/lead-status';
+
+// Get status history, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requirePermission(request, 'leads:read');
+    if (!auth.success) {
+      return auth.response;
+    }
+
+    const db = getSessionClient(auth.session);
+
+    const { id } = await params;
+
+    const lead = await getScopedLead(db, auth.scope, id);
+    if (!lead) {
+      return leadNotFoundResponse();
+    }
+
+    return NextResponse.json(await getStatusHistory(db, id));
+
+  } catch (error) {
+    console.error('Error fetching lead history:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch lead history',
+        message: 'Unable to load the lead\'s status history. Please try again.',
+        code: 'LEAD_HISTORY_FETCH_ERROR'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Lead Merge API Route - fold a duplicate into the lead in the URL
+ * Both capture records are kept; the lead in the URL stays credited to its
+ * officer and the duplicate drops out of lists.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionClient } from '@/lib/supabase-server';
+import { parseJsonBody } from '@/lib/api-validation';
+import { requirePermission } from '@/lib/api-auth';
+import { getScopedLead, leadNotFoundResponse } from '@/lib/lead-scope';
+import { mergeLeadInto } from '@/lib/lead-duplicates';
+import { LEAD_SELECT } from '@/lib/constants';
+import { leadMergeSchema } from '@/lib/schemas';
+
+function invalidMergeResponse(message: string) {
+  return NextResponse.json(
+    {
+      error: 'Invalid merge',
+      message,
+      code: 'INVALID_MERGE'
+    },
+    { status: 400 }
+  );
+}
+
+function alreadyMergedResponse() {
+  return NextResponse.json(
+    {
+      error: 'Lead already merged',
+      message: 'One of these leads has already been merged. Reload the leads and try again.',
+      code: 'LEAD_ALREADY_MERGED'
+    },
+    { status: 409 }
+  );
+}
+
+// Merge a duplicate into this lead
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requirePermission(request, 'leads:merge');
+    if (!auth.success) {
+      return auth.response;
+    }
+
+    const db = getSessionClient(auth.session);
+
+    const { id } = await params;
+
+    const parsed = await parseJsonBody(request, leadMergeSchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const { duplicate_id: duplicateId } = parsed.data;
+    if (duplicateId === id) {
+      return invalidMergeResponse('A lead cannot be merged into itself.');
+    }
+
+    const [kept, duplicate] = await Promise.all([
+      getScopedLead(db, auth.scope, id),
+      getScopedLead(db, auth.scope, duplicateId),
+    ]);
+
+    if (!kept || !duplicate) {
+      return leadNotFoundResponse();
+    }
+
+    if (kept.officer?.dealer_id !== duplicate.officer?.dealer_id) {
+      return invalidMergeResponse('Only leads at the same dealer can be merged.');
+    }
+
+    if (kept.merged_into_id || duplicate.merged_into_id) {
+      return alreadyMergedResponse();
+    }
+
+    const merged = await mergeLeadInto(db, auth.session, id, duplicateId);
+    if (!merged) {
+      return alreadyMergedResponse();
+    }
+
+    const { data, error } = await db
+      .from('leads')
+      .select(LEAD_SELECT)
+      .eq('id', id)
+      .single();
+
+    if (error) throw error;
+
+    return NextResponse.json(data);
+
+  } catch (error) {
+    console.error('Error merging leads:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to merge leads',
+        message: 'An unexpected error occurred while merging the leads. Please try again.',
+        code: 'LEAD_MERGE_ERROR'
+      },
+      { status: 500 }
+    );
+  }
+}
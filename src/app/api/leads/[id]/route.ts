@@ -0,0 +1,176 @@
+/**
+ * Individual Lead API Route - Read, Update and Delete
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionClient } from '@/lib/supabase-server';
+import { parseJsonBody } from '@/lib/api-validation';
+import { requirePermission } from '@/lib/api-auth';
+import { getScopedLead, leadNotFoundResponse } from '@/lib/lead-scope';
+import { LEAD_SELECT } from '@/lib/constants';
+import { leadUpdateSchema } from '@/lib/schemas';
+import { locateLeadWard } from '@/lib/ward-lookup';
+
+// Get lead
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requirePermission(request, 'leads:read');
+    if (!auth.success) {
+      return auth.response;
+    }
+
+    const db = getSessionClient(auth.session);
+
+    const { id } = await params;
+
+    const lead = await getScopedLead(db, auth.scope, id);
+    if (!lead) {
+      return leadNotFoundResponse();
+    }
+
+    return NextResponse.json(lead);
+
+  } catch (error) {
+    console.error('Error fetching lead:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch lead',
+        message: 'An unexpected error occurred while loading the lead. Please try again.',
+        code: 'LEAD_FETCH_ERROR'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Update lead
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requirePermission(request, 'leads:update');
+    if (!auth.success) {
+      return auth.response;
+    }
+
+    const db = getSessionClient(auth.session);
+
+    const { id } = await params;
+
+    const parsed = await parseJsonBody(request, leadUpdateSchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const lead = await getScopedLead(db, auth.scope, id);
+    if (!lead) {
+      return leadNotFoundResponse();
+    }
+
+    // A corrected ward is checked against the ward the GPS fix is in, looked
+    // up again in case the boundaries were rebuilt since the lead was saved
+    const wardFields = parsed.data.ward === undefined
+      ? {}
+      : await locateLeadWard({ ...lead, ward: parsed.data.ward });
+
+    const { data, error } = await db
+      .from('leads')
+      .update({ ...parsed.data, ...wardFields, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .is('deleted_at', null)
+      .select(LEAD_SELECT)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Supabase error:', error);
+      return NextResponse.json(
+        {
+          error: 'Failed to update lead',
+          message: 'Unable to save lead changes to the database. Please try again.',
+          code: 'LEAD_UPDATE_ERROR'
+        },
+        { status: 500 }
+      );
+    }
+
+    if (!data) {
+      return leadNotFoundResponse();
+    }
+
+    return NextResponse.json(data);
+
+  } catch (error) {
+    console.error('Error updating lead:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update lead',
+        message: 'An unexpected error occurred while updating the lead. Please try again.',
+        code: 'LEAD_UPDATE_UNEXPECTED_ERROR'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Delete lead (soft delete: the row stays, hidden from every list)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requirePermission(request, 'leads:delete');
+    if (!auth.success) {
+      return auth.response;
+    }
+
+    const db = getSessionClient(auth.session);
+
+    const { id } = await params;
+
+    const lead = await getScopedLead(db, auth.scope, id);
+    if (!lead) {
+      return leadNotFoundResponse();
+    }
+
+    const now = new Date().toISOString();
+    const { data, error } = await db
+      .from('leads')
+      .update({ deleted_at: now, updated_at: now })
+      .eq('id', id)
+      .is('deleted_at', null)
+      .select('id');
+
+    if (error) {
+      console.error('Supabase error:', error);
+      return NextResponse.json(
+        {
+          error: 'Failed to delete lead',
+          message: 'Unable to delete the lead. Please try again.',
+          code: 'LEAD_DELETE_ERROR'
+        },
+        { status: 500 }
+      );
+    }
+
+    if (!data || data.length === 0) {
+      return leadNotFoundResponse();
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Error deleting lead:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to delete lead',
+        message: 'An unexpected error occurred while deleting the lead. Please try again.',
+        code: 'LEAD_DELETE_UNEXPECTED_ERROR'
+      },
+      { status: 500 }
+    );
+  }
+}
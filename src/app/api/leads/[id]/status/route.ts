@@ -0,0 +1,93 @@
+/**
+ * Lead Status API Route - move a lead through the pipeline
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionClient } from '@/lib/supabase-server';
+import { parseJsonBody } from '@/lib/api-validation';
+import { requirePermission } from '@/lib/api-auth';
+import { getScopedLead, leadNotFoundResponse } from '@/lib/lead-scope';
+import { changeLeadStatus } from '@/lib/lead-status';
+import { LEAD_SELECT, LEAD_STATUS_LABELS } from '@/lib/constants';
+import { leadStatusChangeSchema } from '@/lib/schemas';
+
+// Change status
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requirePermission(request, 'leads:update');
+    if (!auth.success) {
+      return auth.response;
+    }
+
+    const db = getSessionClient(auth.session);
+
+    const { id } = await params;
+
+    const parsed = await parseJsonBody(request, leadStatusChangeSchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const lead = await getScopedLead(db, auth.scope, id);
+    if (!lead) {
+      return leadNotFoundResponse();
+    }
+
+    const { status, note } = parsed.data;
+    const lostReason = status === 'lost' ? parsed.data.lost_reason ?? null : null;
+
+    if (status === lead.status && lostReason === lead.lost_reason) {
+      return NextResponse.json(
+        {
+          error: 'Status unchanged',
+          message: `The lead is already ${LEAD_STATUS_LABELS[status].toLowerCase()}.`,
+          code: 'STATUS_UNCHANGED'
+        },
+        { status: 400 }
+      );
+    }
+
+    const changed = await changeLeadStatus(db, {
+      leadId: id,
+      fromStatus: lead.status,
+      toStatus: status,
+      lostReason,
+      note,
+    });
+
+    if (!changed) {
+      return NextResponse.json(
+        {
+          error: 'Status conflict',
+          message: 'Someone else changed this lead\'s status. Reload the lead and try again.',
+          code: 'STATUS_CONFLICT'
+        },
+        { status: 409 }
+      );
+    }
+
+    const { data, error } = await db
+      .from('leads')
+      .select(LEAD_SELECT)
+      .eq('id', id)
+      .single();
+
+    if (error) throw error;
+
+    return NextResponse.json(data);
+
+  } catch (error) {
+    console.error('Error changing lead status:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to change status',
+        message: 'An unexpected error occurred while changing the status. Please try again.',
+        code: 'LEAD_STATUS_UNEXPECTED_ERROR'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Lead Duplicates API Route - leads at the dealer with the same phone number
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionClient } from '@/lib/supabase-server';
+import { parseWithSchema } from '@/lib/api-validation';
+import { requirePermission } from '@/lib/api-auth';
+import { findDuplicateLeads } from '@/lib/lead-duplicates';
+import { leadDuplicateQuerySchema } from '@/lib/schemas';
+
+// Find duplicates, oldest first. Used by the capture form before saving.
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'leads:read');
+    if (!auth.success) {
+      return auth.response;
+    }
+
+    const db = getSessionClient(auth.session);
+
+    const { searchParams } = new URL(request.url);
+    const parsed = parseWithSchema(Object.fromEntries(searchParams), leadDuplicateQuerySchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const { phone, dealer_id, exclude_id } = parsed.data;
+
+    // The database holds everyone but platform admins to their own dealer
+    const duplicates = await findDuplicateLeads(db, phone, {
+      dealerId: dealer_id,
+      excludeId: exclude_id,
+    });
+
+    return NextResponse.json(duplicates);
+
+  } catch (error) {
+    console.error('Error finding duplicate leads:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to check for duplicates',
+        message: 'Unable to check whether this number was already captured. Please try again.',
+        code: 'LEAD_DUPLICATES_ERROR'
+      },
+      { status: 500 }
+    );
+  }
+}
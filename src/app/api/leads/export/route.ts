@@ -0,0 +1,60 @@
+/**
+ * Lead Export API Route - download every lead matching the list filters
+ * The file is written while the leads are read, a page at a time, so large
+ * exports start straight away and never time out building in memory.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionClient } from '@/lib/supabase-server';
+import { parseWithSchema } from '@/lib/api-validation';
+import { requirePermission } from '@/lib/api-auth';
+import { getScopedOfficerIds } from '@/lib/officer-scope';
+import { findOfficerIdsByName, LeadListScope } from '@/lib/lead-query';
+import { LEAD_EXPORT_FILES, openLeadExport } from '@/lib/lead-export';
+import { leadExportQuerySchema } from '@/lib/schemas';
+import { toBusinessDate } from '@/lib/utils';
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'leads:read');
+    if (!auth.success) {
+      return auth.response;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const parsedQuery = parseWithSchema(Object.fromEntries(searchParams), leadExportQuerySchema);
+    if (!parsedQuery.success) {
+      return parsedQuery.response;
+    }
+
+    const query = parsedQuery.data;
+    const db = getSessionClient(auth.session);
+
+    // The same scope as GET /api/leads: an export never holds more than the list
+    const scope: LeadListScope = {
+      officerIds: await getScopedOfficerIds(db, auth.scope, query.dealer_id),
+      searchOfficerIds: query.q ? await findOfficerIdsByName(db, query.q) : [],
+    };
+
+    const file = LEAD_EXPORT_FILES[query.format];
+    const body = await openLeadExport(db, query, scope);
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="leads-${toBusinessDate()}.${file.extension}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting leads:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to export leads',
+        message: 'Unable to export the leads. Please try again.',
+        code: 'LEAD_EXPORT_ERROR'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Lead Import API Route - add leads collected on paper or in other tools
+ * dry_run checks the rows and returns a report without saving. Otherwise the
+ * accepted rows are saved together and the rejected ones reported back.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionClient } from '@/lib/supabase-server';
+import { parseJsonBody } from '@/lib/api-validation';
+import { forbiddenResponse, requirePermission } from '@/lib/api-auth';
+import { invalidAssigneeResponse } from '@/lib/lead-assignment';
+import { checkLeadImport, getImportOfficers, importLeads } from '@/lib/lead-import';
+import { leadImportSchema } from '@/lib/schemas';
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'leads:import');
+    if (!auth.success) {
+      return auth.response;
+    }
+
+    const db = getSessionClient(auth.session);
+
+    const parsed = await parseJsonBody(request, leadImportSchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const { session, scope } = auth;
+    const {
+      rows,
+      default_officer_id: defaultOfficerId,
+      source_detail: sourceDetail,
+      skip_duplicates: skipDuplicates = false,
+      dry_run: dryRun = false,
+    } = parsed.data;
+
+    // Only platform admins may import into another dealer
+    if (parsed.data.dealer_id && parsed.data.dealer_id !== session.dealerId && scope.type !== 'platform') {
+      return forbiddenResponse('You can only import leads into your own dealership.');
+    }
+
+    const dealerId = parsed.data.dealer_id ?? session.dealerId;
+
+    const officers = await getImportOfficers(db, dealerId);
+    const defaultOfficer = officers.find(officer => officer.id === defaultOfficerId);
+
+    if (defaultOfficerId && !defaultOfficer) {
+      return invalidAssigneeResponse('Choose an active officer at this dealer for leads without one.');
+    }
+
+    const checked = await checkLeadImport(db, rows, { dealerId, officers, defaultOfficer, skipDuplicates });
+
+    if (dryRun) {
+      return NextResponse.json({ rows: checked.rows, imported: 0 });
+    }
+
+    const imported = await importLeads(db, checked.leads, sourceDetail || null);
+
+    return NextResponse.json({ rows: checked.rows, imported });
+
+  } catch (error) {
+    console.error('Error importing leads:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to import leads',
+        message: 'Unable to save the leads. Nothing was imported; please try again.',
+        code: 'LEAD_IMPORT_ERROR'
+      },
+      { status: 500 }
+    );
+  }
+}
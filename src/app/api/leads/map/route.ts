@@ -0,0 +1,48 @@
+/**
+ * Lead Map API Route - leads with a GPS fix matching the list filters
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionClient } from '@/lib/supabase-server';
+import { parseWithSchema } from '@/lib/api-validation';
+import { requirePermission } from '@/lib/api-auth';
+import { getScopedOfficerIds } from '@/lib/officer-scope';
+import { findOfficerIdsByName, LeadListScope } from '@/lib/lead-query';
+import { getLeadMapPoints } from '@/lib/lead-map';
+import { leadMapQuerySchema } from '@/lib/schemas';
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'leads:read');
+    if (!auth.success) {
+      return auth.response;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const parsedQuery = parseWithSchema(Object.fromEntries(searchParams), leadMapQuerySchema);
+    if (!parsedQuery.success) {
+      return parsedQuery.response;
+    }
+
+    const query = parsedQuery.data;
+    const db = getSessionClient(auth.session);
+
+    // The same scope as GET /api/leads: the map never shows more than the list
+    const scope: LeadListScope = {
+      officerIds: await getScopedOfficerIds(db, auth.scope, query.dealer_id),
+      searchOfficerIds: query.q ? await findOfficerIdsByName(db, query.q) : [],
+    };
+
+    return NextResponse.json(await getLeadMapPoints(db, query, scope));
+  } catch (error) {
+    console.error('Error loading lead map:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to load lead map',
+        message: 'Unable to load the lead map. Please try again.',
+        code: 'LEAD_MAP_ERROR'
+      },
+      { status: 500 }
+    );
+  }
+}
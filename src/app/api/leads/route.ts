@@ -3,70 +3,82 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabase';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getSessionClient } from '@/lib/supabase-server';
+import { IDEMPOTENCY_HEADER, LEAD_SELECT } from '@/lib/constants';
+import { parseJsonBody, parseWithSchema } from '@/lib/api-validation';
+import { forbiddenResponse, officerInactiveResponse, requirePermission } from '@/lib/api-auth';
+import { getScopedOfficerIds } from '@/lib/officer-scope';
+import { findDuplicateLeads } from '@/lib/lead-duplicates';
+import { locateLeadWard } from '@/lib/ward-lookup';
+import { clientSubmissionIdSchema, leadCreateSchema, leadListQuerySchema } from '@/lib/schemas';
+import {
+  countLeads,
+  decodeLeadCursor,
+  findOfficerIdsByName,
+  LeadListScope,
+  selectLeadPage,
+  toLeadListResponse,
+} from '@/lib/lead-query';
+import { Lead } from '@/types';
 
-// Helper function to get dealer from request headers
-function getDealerFromRequest(request: NextRequest): string | null {
-  const dealerHeader = request.headers.get('x-dealer-id');
-  return dealerHeader;
-}
+// Postgres unique_violation error code
+const UNIQUE_VIOLATION = '23505';
 
 export async function GET(request: NextRequest) {
   try {
+    const { searchParams } = new URL(request.url);
+    const parsedQuery = parseWithSchema(Object.fromEntries(searchParams), leadListQuerySchema);
+    if (!parsedQuery.success) {
+      return parsedQuery.response;
+    }
+
+    const query = parsedQuery.data;
+
     // Check if Supabase is properly configured
     if (!process.env.NEXT_PUBLIC_SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL.includes('placeholder')) {
       console.log('Supabase not configured, returning mock data');
-      return NextResponse.json([]);
+      return NextResponse.json(toLeadListResponse([], 0, query));
     }
 
-    const { searchParams } = new URL(request.url);
-    const officerId = searchParams.get('officer_id');
-    const isPublic = searchParams.get('public') === 'true';
-    
-    // Get dealer ID from request header (set by frontend)
-    const dealerId = getDealerFromRequest(request) || searchParams.get('dealer_id');
-
+    const auth = await requirePermission(request, 'leads:read');
+    if (!auth.success) {
+      return auth.response;
+    }
 
+    const db = getSessionClient(auth.session);
 
-    let query = supabase
-      .from('leads')
-      .select(`
-        *,
-        officer:officers(
-          *,
-          dealer:dealers(*)
-        )
-      `)
-      .order('created_at', { ascending: false });
-
-    // For public access (officers using main app), show all leads
-    // For admin access, filter by dealer ID
-    if (!isPublic && dealerId) {
-      // First get officers for this dealer
-      const { data: dealerOfficers } = await supabase
-        .from('officers')
-        .select('id')
-        .eq('dealer_id', dealerId);
-      
-      if (dealerOfficers && dealerOfficers.length > 0) {
-        const officerIds = dealerOfficers.map(o => o.id);
-        query = query.in('officer_id', officerIds);
-      } else {
-        // No officers for this dealer, return empty
-        return NextResponse.json([]);
-      }
-    } else if (!isPublic) {
-      // Admin access without dealer ID, return empty
-      return NextResponse.json([]);
+    const cursor = query.cursor ? decodeLeadCursor(query.cursor, query) : null;
+    if (query.cursor && !cursor) {
+      return NextResponse.json(
+        {
+          error: 'Invalid cursor',
+          message: 'The page cursor is invalid or was issued for a different sort order.',
+          code: 'INVALID_CURSOR'
+        },
+        { status: 400 }
+      );
     }
 
-    // Filter by officer if provided
-    if (officerId) {
-      query = query.eq('officer_id', officerId);
+    // Scope comes from the signed session, never from the request:
+    // officers see the leads they captured, supervisors their team's,
+    // dealers their officers', platform admins every dealer's
+    const scopedOfficerIds = await getScopedOfficerIds(db, auth.scope, query.dealer_id);
+    if (scopedOfficerIds && scopedOfficerIds.length === 0) {
+      return NextResponse.json(toLeadListResponse([], 0, query));
     }
 
-    const { data: leads, error } = await query;
+    const scope: LeadListScope = {
+      officerIds: scopedOfficerIds,
+      searchOfficerIds: query.q ? await findOfficerIdsByName(db, query.q) : [],
+    };
+
+    const [page, count] = await Promise.all([
+      selectLeadPage(db, LEAD_SELECT, query, scope, cursor),
+      countLeads(db, query, scope),
+    ]);
 
+    const error = page.error || count.error;
     if (error) {
       console.error('Supabase error:', error);
       return NextResponse.json(
@@ -79,7 +91,9 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    return NextResponse.json(leads || []);
+    return NextResponse.json(
+      toLeadListResponse((page.data ?? []) as unknown as Lead[], count.count ?? 0, query)
+    );
     
   } catch (error) {
     console.error('Error in leads API:', error);
@@ -94,17 +108,96 @@ export async function GET(request: NextRequest) {
   }
 }
 
+// Find a lead previously created with the same client submission ID
+async function findLeadBySubmissionId(db: SupabaseClient, submissionId: string) {
+  const { data } = await db
+    .from('leads')
+    .select(LEAD_SELECT)
+    .eq('client_submission_id', submissionId)
+    .maybeSingle();
+
+  return data;
+}
+
+// Replays of an idempotent create return the original row
+function replayResponse(lead: unknown) {
+  return NextResponse.json(lead, {
+    status: 200,
+    headers: { 'Idempotent-Replayed': 'true' },
+  });
+}
+
 // POST endpoint for creating leads
+// Accepts an Idempotency-Key header or a client_submission_id body field
 export async function POST(request: NextRequest) {
   try {
-    const leadData = await request.json();
+    // Leads are always attributed to the signed-in officer or supervisor
+    const auth = await requirePermission(request, 'leads:create');
+    if (!auth.success) {
+      return auth.response;
+    }
+
+    const db = getSessionClient(auth.session);
+
+    const parsed = await parseJsonBody(request, leadCreateSchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const { officer_id: claimedOfficerId, ...leadFields } = parsed.data;
+
+    // A lead queued offline by another officer must not be credited to this one
+    if (claimedOfficerId && claimedOfficerId !== auth.session.sub) {
+      return forbiddenResponse('This lead was captured by a different officer.');
+    }
+
+    const leadData = { ...leadFields, officer_id: auth.session.sub, captured_by: auth.session.sub };
+
+    // The header becomes the lead's client_submission_id, so it follows the same rules
+    const idempotencyKey = request.headers.get(IDEMPOTENCY_HEADER);
+    if (idempotencyKey !== null && !clientSubmissionIdSchema.safeParse(idempotencyKey).success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid idempotency key',
+          message: 'The Idempotency-Key header must be 1 to 100 letters, digits, "-" or "_".',
+          code: 'INVALID_IDEMPOTENCY_KEY'
+        },
+        { status: 400 }
+      );
+    }
+
+    const submissionId: string | null = idempotencyKey || leadData.client_submission_id || null;
+
+    if (
+      submissionId &&
+      leadData.client_submission_id &&
+      leadData.client_submission_id !== submissionId
+    ) {
+      return NextResponse.json(
+        {
+          error: 'Conflicting submission ID',
+          message: 'The Idempotency-Key header does not match client_submission_id.',
+          code: 'IDEMPOTENCY_KEY_MISMATCH'
+        },
+        { status: 400 }
+      );
+    }
+
+    if (submissionId) {
+      leadData.client_submission_id = submissionId;
+
+      const existing = await findLeadBySubmissionId(db, submissionId);
+      if (existing) {
+        return replayResponse(existing);
+      }
+    }
     
-    // Verify that the officer exists (no dealer validation needed for lead submission)
-    const { data: officer, error: officerError } = await supabase
+    // The officer may have been removed or deactivated after the session was issued
+    const { data: officer, error: officerError } = await db
       .from('officers')
-      .select('dealer_id')
+      .select('id, active')
       .eq('id', leadData.officer_id)
-      .single();
+      .maybeSingle();
 
     if (officerError || !officer) {
       return NextResponse.json(
@@ -116,19 +209,48 @@ export async function POST(request: NextRequest) {
         { status: 400 }
       );
     }
-    
-    const { data, error } = await supabase
+
+    if (!officer.active) {
+      return officerInactiveResponse();
+    }
+
+    // Officers are warned before saving, but leads queued offline never saw
+    // the warning. Flag the lead so the dealer can merge it later.
+    let duplicateOfId: string | null = null;
+    try {
+      const duplicates = await findDuplicateLeads(db, leadData.phone_contact);
+      duplicateOfId = duplicates[0]?.id ?? null;
+    } catch (duplicateError) {
+      console.error('Failed to check for duplicate leads:', duplicateError);
+    }
+
+    // The ward the GPS fix is in, so a mistyped ward can be spotted
+    const wardFields = await locateLeadWard(leadData);
+
+    const { data, error } = await db
       .from('leads')
-      .insert([leadData])
-      .select(`
-        *,
-        officer:officers(
-          *,
-          dealer:dealers(*)
-        )
-      `)
+      .insert([{ ...leadData, ...wardFields, duplicate_of_id: duplicateOfId }])
+      .select(LEAD_SELECT)
       .single();
 
+    // A concurrent request with the same key won the insert race
+    if (error?.code === UNIQUE_VIOLATION && submissionId) {
+      const existing = await findLeadBySubmissionId(db, submissionId);
+      if (existing) {
+        return replayResponse(existing);
+      }
+
+      // The key belongs to a lead this session cannot see
+      return NextResponse.json(
+        {
+          error: 'Submission ID in use',
+          message: 'This submission ID was already used for another lead.',
+          code: 'SUBMISSION_ID_IN_USE'
+        },
+        { status: 409 }
+      );
+    }
+
     if (error) {
       console.error('Supabase error:', error);
       return NextResponse.json(
@@ -141,7 +263,7 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    return NextResponse.json(data);
+    return NextResponse.json(data, { status: 201 });
     
   } catch (error) {
     console.error('Error creating lead:', error);
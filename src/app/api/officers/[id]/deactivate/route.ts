@@ -0,0 +1,61 @@
+/**
+ * Officer Deactivation API Route - stop an officer signing in, keeping their
+ * leads and history. Their leads stay with them until transferred.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionClient } from '@/lib/supabase-server';
+import { parseJsonBody } from '@/lib/api-validation';
+import { requirePermission } from '@/lib/api-auth';
+import { getScopedOfficer, officerNotFoundResponse } from '@/lib/officer-scope';
+import { deactivateOfficer, officerStatusUnchangedResponse } from '@/lib/officer-status';
+import { officerDeactivateSchema } from '@/lib/schemas';
+
+// Deactivate
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requirePermission(request, 'officers:delete');
+    if (!auth.success) {
+      return auth.response;
+    }
+
+    const db = getSessionClient(auth.session);
+
+    const { id } = await params;
+
+    const parsed = await parseJsonBody(request, officerDeactivateSchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const officer = await getScopedOfficer(db, auth.scope, id);
+    if (!officer) {
+      return officerNotFoundResponse();
+    }
+
+    if (!officer.active) {
+      return officerStatusUnchangedResponse(false);
+    }
+
+    const deactivated = await deactivateOfficer(db, id, parsed.data.reason);
+    if (!deactivated) {
+      return officerStatusUnchangedResponse(false);
+    }
+
+    return NextResponse.json(deactivated);
+
+  } catch (error) {
+    console.error('Error deactivating officer:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to deactivate officer',
+        message: 'Unable to deactivate the officer. Please try again.',
+        code: 'OFFICER_DEACTIVATE_ERROR'
+      },
+      { status: 500 }
+    );
+  }
+}
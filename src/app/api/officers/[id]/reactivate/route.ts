@@ -0,0 +1,58 @@
+/**
+ * Officer Reactivation API Route - let a deactivated officer sign in again
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionClient } from '@/lib/supabase-server';
+import { requirePermission } from '@/lib/api-auth';
+import { getScopedOfficer, isPhoneInUseError, officerNotFoundResponse, phoneInUseResponse } from '@/lib/officer-scope';
+import { officerStatusUnchangedResponse, reactivateOfficer } from '@/lib/officer-status';
+
+// Reactivate
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requirePermission(request, 'officers:delete');
+    if (!auth.success) {
+      return auth.response;
+    }
+
+    const db = getSessionClient(auth.session);
+
+    const { id } = await params;
+
+    const officer = await getScopedOfficer(db, auth.scope, id);
+    if (!officer) {
+      return officerNotFoundResponse();
+    }
+
+    if (officer.active) {
+      return officerStatusUnchangedResponse(true);
+    }
+
+    const reactivated = await reactivateOfficer(db, id);
+    if (!reactivated) {
+      return officerStatusUnchangedResponse(true);
+    }
+
+    return NextResponse.json(reactivated);
+
+  } catch (error) {
+    // Their number was given to another officer while they were inactive
+    if (isPhoneInUseError(error)) {
+      return phoneInUseResponse();
+    }
+
+    console.error('Error reactivating officer:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to reactivate officer',
+        message: 'Unable to reactivate the officer. Please try again.',
+        code: 'OFFICER_REACTIVATE_ERROR'
+      },
+      { status: 500 }
+    );
+  }
+}
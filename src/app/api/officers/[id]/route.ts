@@ -1,9 +1,25 @@
 /**
  * Individual Officer API Route - Update and Delete
+ * Deleting deactivates the officer; their leads and history are kept.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabase';
+import { getSessionClient } from '@/lib/supabase-server';
+import { parseJsonBody } from '@/lib/api-validation';
+import { forbiddenResponse, requirePermission } from '@/lib/api-auth';
+import { hashPin } from '@/lib/officer-auth';
+import {
+  getScopedOfficer,
+  invalidSupervisorResponse,
+  isPhoneInUseError,
+  isSupervisorAtDealer,
+  officerNotFoundResponse,
+  phoneInUseResponse,
+} from '@/lib/officer-scope';
+import { deactivateOfficer, officerStatusUnchangedResponse } from '@/lib/officer-status';
+import { hasPermission } from '@/lib/permissions';
+import { OFFICER_COLUMNS } from '@/lib/constants';
+import { officerUpdateSchema } from '@/lib/schemas';
 
 // Update officer
 export async function PUT(
@@ -11,54 +27,138 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const auth = await requirePermission(request, 'officers:update');
+    if (!auth.success) {
+      return auth.response;
+    }
+
+    const db = getSessionClient(auth.session);
+
     const { id } = await params;
-    const { name, phone } = await request.json();
+
+    const parsed = await parseJsonBody(request, officerUpdateSchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const officer = await getScopedOfficer(db, auth.scope, id);
+    if (!officer) {
+      return officerNotFoundResponse();
+    }
+    
+    const { pin, role, supervisor_id: supervisorId, ...changes } = parsed.data;
+    const update: Record<string, unknown> = { ...changes, updated_at: new Date().toISOString() };
+
+    // pin: null removes the PIN, a new PIN replaces it; either one unlocks
+    // an officer locked out by wrong PINs
+    if (pin !== undefined) {
+      update.pin_hash = pin === null ? null : await hashPin(pin);
+      update.pin_failed_attempts = 0;
+      update.pin_locked_at = null;
+    }
+
+    if (role !== undefined || supervisorId !== undefined) {
+      if (!hasPermission(auth.session.role, 'officers:assign')) {
+        return forbiddenResponse('Only the dealer can change an officer\'s role or supervisor.');
+      }
+
+      const nextRole = role ?? officer.role;
+      // Promoting an officer to supervisor takes them off their old team
+      const nextSupervisorId = supervisorId !== undefined
+        ? supervisorId
+        : nextRole === 'supervisor' ? null : officer.supervisor_id;
+
+      if (nextSupervisorId) {
+        if (nextRole === 'supervisor' || nextSupervisorId === officer.id) {
+          return invalidSupervisorResponse('A supervisor cannot be placed on another supervisor\'s team.');
+        }
+
+        if (!(await isSupervisorAtDealer(db, nextSupervisorId, officer.dealer_id))) {
+          return invalidSupervisorResponse();
+        }
+      }
+
+      update.role = nextRole;
+      update.supervisor_id = nextSupervisorId;
+    }
     
-    const { data, error } = await supabase
+    const { data, error } = await db
       .from('officers')
-      .update({ name, phone, updated_at: new Date().toISOString() })
+      .update(update)
       .eq('id', id)
-      .select()
-      .single();
+      .select(OFFICER_COLUMNS)
+      .maybeSingle();
+
+    if (isPhoneInUseError(error)) {
+      return phoneInUseResponse();
+    }
 
     if (error) {
       console.error('Supabase error:', error);
       return NextResponse.json(
-        { error: 'Failed to update officer' },
+        {
+          error: 'Failed to update officer',
+          message: 'Unable to save officer changes to the database. Please try again.',
+          code: 'OFFICER_UPDATE_ERROR'
+        },
         { status: 500 }
       );
     }
+
+    if (!data) {
+      return officerNotFoundResponse();
+    }
+
+    // A supervisor who steps down no longer leads a team
+    if (officer.role === 'supervisor' && data.role !== 'supervisor') {
+      await db
+        .from('officers')
+        .update({ supervisor_id: null, updated_at: new Date().toISOString() })
+        .eq('supervisor_id', id);
+    }
     
     return NextResponse.json(data);
     
   } catch (error) {
     console.error('Error updating officer:', error);
     return NextResponse.json(
-      { error: 'Failed to update officer' },
+      {
+        error: 'Failed to update officer',
+        message: 'An unexpected error occurred while updating the officer. Please try again.',
+        code: 'OFFICER_UPDATE_UNEXPECTED_ERROR'
+      },
       { status: 500 }
     );
   }
 }
 
-// Delete officer
+// Delete officer: deactivates without a reason (POST /deactivate records one)
 export async function DELETE(
-  _request: NextRequest,
+  request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const auth = await requirePermission(request, 'officers:delete');
+    if (!auth.success) {
+      return auth.response;
+    }
+
+    const db = getSessionClient(auth.session);
+
     const { id } = await params;
+
+    const officer = await getScopedOfficer(db, auth.scope, id);
+    if (!officer) {
+      return officerNotFoundResponse();
+    }
     
-    const { error } = await supabase
-      .from('officers')
-      .delete()
-      .eq('id', id);
+    if (!officer.active) {
+      return officerStatusUnchangedResponse(false);
+    }
 
-    if (error) {
-      console.error('Supabase error:', error);
-      return NextResponse.json(
-        { error: 'Failed to delete officer' },
-        { status: 500 }
-      );
+    const deactivated = await deactivateOfficer(db, id, null);
+    if (!deactivated) {
+      return officerStatusUnchangedResponse(false);
     }
     
     return NextResponse.json({ success: true });
@@ -66,7 +166,11 @@ export async function DELETE(
   } catch (error) {
     console.error('Error deleting officer:', error);
     return NextResponse.json(
-      { error: 'Failed to delete officer' },
+      {
+        error: 'Failed to delete officer',
+        message: 'An unexpected error occurred while deleting the officer. Please try again.',
+        code: 'OFFICER_DELETE_UNEXPECTED_ERROR'
+      },
       { status: 500 }
     );
   }
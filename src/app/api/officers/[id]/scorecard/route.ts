@@ -0,0 +1,73 @@
+/**
+ * Officer Scorecard API Route
+ * One officer's results for a date range and where they rank among the
+ * officers the session can see. Officers can read their own.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionClient } from '@/lib/supabase-server';
+import { parseWithSchema } from '@/lib/api-validation';
+import { requirePermission } from '@/lib/api-auth';
+import { getScopedOfficer, getScopedOfficerIds, officerNotFoundResponse } from '@/lib/officer-scope';
+import { emptyPerformance, getOfficerPerformance, rankOfficers } from '@/lib/officer-performance';
+import { scorecardQuerySchema } from '@/lib/schemas';
+import { OfficerScorecard } from '@/types';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requirePermission(request, 'officers:read');
+    if (!auth.success) {
+      return auth.response;
+    }
+
+    const db = getSessionClient(auth.session);
+
+    const { id } = await params;
+
+    const { searchParams } = new URL(request.url);
+    const parsed = parseWithSchema(Object.fromEntries(searchParams), scorecardQuerySchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const { from, to } = parsed.data;
+
+    const officer = await getScopedOfficer(db, auth.scope, id);
+    if (!officer) {
+      return officerNotFoundResponse();
+    }
+
+    // Ranked against the rest of the officer's dealership, as far as the
+    // session can see it
+    const officerIds = await getScopedOfficerIds(db, auth.scope, officer.dealer_id);
+    let officers = await getOfficerPerformance(db, officerIds, { from, to, rankBy: 'leads_captured' });
+
+    if (!officers.some(row => row.officer_id === officer.id)) {
+      officers = rankOfficers([...officers, emptyPerformance(officer)], 'leads_captured');
+    }
+
+    const scorecard: OfficerScorecard = {
+      from,
+      to,
+      officer,
+      performance: officers.find(row => row.officer_id === officer.id)!,
+      ranked_officers: officers.length,
+    };
+
+    return NextResponse.json(scorecard);
+
+  } catch (error) {
+    console.error('Error fetching officer scorecard:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch scorecard',
+        message: 'Unable to load the officer\'s results. Please try again.',
+        code: 'SCORECARD_ERROR'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Officer Transfer API Route - move an officer's whole book of leads to
+ * another officer, e.g. before they leave. Every lead moves, including
+ * removed and merged ones, so nothing is left with a deactivated officer.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionClient } from '@/lib/supabase-server';
+import { parseJsonBody } from '@/lib/api-validation';
+import { requirePermission } from '@/lib/api-auth';
+import { getScopedOfficer, officerNotFoundResponse } from '@/lib/officer-scope';
+import { invalidAssigneeResponse, isValidAssignee, transferLeads } from '@/lib/lead-assignment';
+import { officerTransferSchema } from '@/lib/schemas';
+
+// Transfer all leads
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requirePermission(request, 'leads:assign');
+    if (!auth.success) {
+      return auth.response;
+    }
+
+    const db = getSessionClient(auth.session);
+
+    const { id } = await params;
+
+    const parsed = await parseJsonBody(request, officerTransferSchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const officer = await getScopedOfficer(db, auth.scope, id);
+    if (!officer) {
+      return officerNotFoundResponse();
+    }
+
+    const { to_officer_id: toOfficerId, reason } = parsed.data;
+
+    const assignee = await getScopedOfficer(db, auth.scope, toOfficerId);
+    if (!isValidAssignee(assignee, officer)) {
+      return invalidAssigneeResponse();
+    }
+
+    const moved = await transferLeads(db, {
+      fromOfficerId: officer.id,
+      toOfficerId: assignee.id,
+      reason,
+    });
+
+    return NextResponse.json({ transferred: moved.length });
+
+  } catch (error) {
+    console.error('Error transferring leads:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to transfer leads',
+        message: 'Unable to move the officer\'s leads. Please try again.',
+        code: 'LEAD_TRANSFER_ERROR'
+      },
+      { status: 500 }
+    );
+  }
+}
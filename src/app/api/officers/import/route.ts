@@ -0,0 +1,81 @@
+/**
+ * Officer Import API Route - add many officers from a spreadsheet
+ * dry_run checks the rows and returns a report without saving. Otherwise the
+ * rows are saved together, and only when every row is ready.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionClient } from '@/lib/supabase-server';
+import { parseJsonBody } from '@/lib/api-validation';
+import { forbiddenResponse, requirePermission } from '@/lib/api-auth';
+import { checkOfficerImport, importOfficers } from '@/lib/officer-import';
+import { isPhoneInUseError, phoneInUseResponse } from '@/lib/officer-scope';
+import { officerImportSchema } from '@/lib/schemas';
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'officers:create');
+    if (!auth.success) {
+      return auth.response;
+    }
+
+    const db = getSessionClient(auth.session);
+
+    const parsed = await parseJsonBody(request, officerImportSchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const { session, scope } = auth;
+    const { rows, dry_run: dryRun = false } = parsed.data;
+
+    // Only platform admins may add officers to another dealer
+    if (parsed.data.dealer_id && parsed.data.dealer_id !== session.dealerId && scope.type !== 'platform') {
+      return forbiddenResponse('You can only add officers to your own dealership.');
+    }
+
+    const dealerId = parsed.data.dealer_id ?? session.dealerId;
+
+    const report = await checkOfficerImport(db, rows);
+    const problems = report.filter(row => row.status !== 'ready').length;
+
+    if (dryRun) {
+      return NextResponse.json({ rows: report, imported: 0 });
+    }
+
+    if (problems > 0) {
+      return NextResponse.json(
+        {
+          error: 'Import has problems',
+          message: `${problems} ${problems === 1 ? 'row needs' : 'rows need'} fixing before the officers can be imported. Nothing was saved.`,
+          code: 'OFFICER_IMPORT_INVALID',
+          rows: report,
+        },
+        { status: 422 }
+      );
+    }
+
+    const officers = await importOfficers(db, report, {
+      dealerId,
+      supervisorId: scope.type === 'team' ? scope.supervisorId : null,
+    });
+
+    return NextResponse.json({ rows: report, imported: officers.length });
+
+  } catch (error) {
+    // A number was taken between the check and the insert
+    if (isPhoneInUseError(error)) {
+      return phoneInUseResponse();
+    }
+
+    console.error('Error importing officers:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to import officers',
+        message: 'Unable to save the officers. Nothing was imported; please try again.',
+        code: 'OFFICER_IMPORT_ERROR'
+      },
+      { status: 500 }
+    );
+  }
+}
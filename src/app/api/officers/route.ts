@@ -3,13 +3,20 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabase';
-
-// Helper function to get dealer from request headers
-function getDealerFromRequest(request: NextRequest): string | null {
-  const dealerHeader = request.headers.get('x-dealer-id');
-  return dealerHeader;
-}
+import { getSessionClient } from '@/lib/supabase-server';
+import { parseJsonBody } from '@/lib/api-validation';
+import { forbiddenResponse, requirePermission } from '@/lib/api-auth';
+import { hashPin } from '@/lib/officer-auth';
+import {
+  getScopedOfficerIds,
+  invalidSupervisorResponse,
+  isPhoneInUseError,
+  isSupervisorAtDealer,
+  phoneInUseResponse,
+} from '@/lib/officer-scope';
+import { OFFICER_COLUMNS } from '@/lib/constants';
+import { officerCreateSchema } from '@/lib/schemas';
+import { toPhoneSearchDigits } from '@/lib/phone';
 
 export async function GET(request: NextRequest) {
   try {
@@ -23,31 +30,40 @@ export async function GET(request: NextRequest) {
       ]);
     }
 
+    const auth = await requirePermission(request, 'officers:read');
+    if (!auth.success) {
+      return auth.response;
+    }
+
+    const db = getSessionClient(auth.session);
+
     const { searchParams } = new URL(request.url);
     const search = searchParams.get('search')?.toLowerCase();
-    const isPublic = searchParams.get('public') === 'true';
-    
-    // Get dealer ID from request header (set by frontend)
-    const dealerId = getDealerFromRequest(request) || searchParams.get('dealer_id');
-
+    const dealerId = searchParams.get('dealer_id');
+    // Pickers get active officers; the officers page asks for all of them
+    const status = searchParams.get('status') ?? 'active';
 
+    // Scope comes from the signed session, never from the request:
+    // dealers see their own officers, supervisors their team,
+    // officers only themselves, platform admins every dealer's officers
+    const scopedOfficerIds = await getScopedOfficerIds(db, auth.scope, dealerId);
+    if (scopedOfficerIds && scopedOfficerIds.length === 0) {
+      return NextResponse.json([]);
+    }
 
-    let query = supabase
+    let query = db
       .from('officers')
       .select(`
-        *,
+        ${OFFICER_COLUMNS},
         dealer:dealers(*)
       `);
 
-    // For public access (officers using main app), show all officers
-    // For admin access, filter by dealer ID
-    if (!isPublic) {
-      if (dealerId) {
-        query = query.eq('dealer_id', dealerId);
-      } else {
-        // If no dealer ID provided for admin access, return empty array
-        return NextResponse.json([]);
-      }
+    if (scopedOfficerIds) {
+      query = query.in('id', scopedOfficerIds);
+    }
+
+    if (status === 'active' || status === 'inactive') {
+      query = query.eq('active', status === 'active');
     }
 
     const { data: officers, error } = await query;
@@ -67,9 +83,10 @@ export async function GET(request: NextRequest) {
     // Filter by search query if provided
     let filteredOfficers = officers || [];
     if (search) {
+      const phoneDigits = toPhoneSearchDigits(search);
       filteredOfficers = officers?.filter(officer =>
         officer.name.toLowerCase().includes(search) ||
-        officer.phone.toLowerCase().includes(search)
+        (phoneDigits.length > 0 && officer.phone.includes(phoneDigits))
       ) || [];
     }
 
@@ -91,14 +108,65 @@ export async function GET(request: NextRequest) {
 // POST endpoint for creating officers
 export async function POST(request: NextRequest) {
   try {
-    const { name, phone, dealer_id } = await request.json();
+    const auth = await requirePermission(request, 'officers:create');
+    if (!auth.success) {
+      return auth.response;
+    }
+
+    const db = getSessionClient(auth.session);
+
+    const parsed = await parseJsonBody(request, officerCreateSchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const { session, scope } = auth;
+    const { name, phone, pin, territory = null, role = 'officer', supervisor_id: supervisorId = null } = parsed.data;
+
+    // Only platform admins may add officers to another dealer
+    if (parsed.data.dealer_id && parsed.data.dealer_id !== session.dealerId && scope.type !== 'platform') {
+      return forbiddenResponse('You can only add officers to your own dealership.');
+    }
+
+    const dealerId = parsed.data.dealer_id ?? session.dealerId;
+
+    // Supervisors add officers to their own team
+    if (scope.type === 'team') {
+      if (role !== 'officer' || (supervisorId && supervisorId !== scope.supervisorId)) {
+        return forbiddenResponse('Supervisors can only add officers to their own team.');
+      }
+    }
+
+    const teamSupervisorId = scope.type === 'team' ? scope.supervisorId : supervisorId;
+
+    if (teamSupervisorId) {
+      if (role === 'supervisor') {
+        return invalidSupervisorResponse('A supervisor cannot be placed on another supervisor\'s team.');
+      }
+
+      if (!(await isSupervisorAtDealer(db, teamSupervisorId, dealerId))) {
+        return invalidSupervisorResponse();
+      }
+    }
     
-    const { data, error } = await supabase
+    const { data, error } = await db
       .from('officers')
-      .insert([{ name, phone, dealer_id }])
-      .select()
+      .insert([{
+        name,
+        phone,
+        dealer_id: dealerId,
+        role,
+        supervisor_id: teamSupervisorId,
+        territory,
+        pin_hash: pin ? await hashPin(pin) : null,
+      }])
+      .select(OFFICER_COLUMNS)
       .single();
 
+    if (isPhoneInUseError(error)) {
+      return phoneInUseResponse();
+    }
+
     if (error) {
       console.error('Supabase error:', error);
       return NextResponse.json(
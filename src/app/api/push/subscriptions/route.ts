@@ -0,0 +1,116 @@
+/**
+ * Push Subscriptions API Route - follow-up reminders on this browser
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionClient } from '@/lib/supabase-server';
+import { parseJsonBody } from '@/lib/api-validation';
+import { requireSession } from '@/lib/api-auth';
+import { pushSubscriptionSchema, pushUnsubscribeSchema } from '@/lib/schemas';
+
+// Save the browser's subscription for the signed-in officer. Browsers hand
+// out new keys from time to time, so saving again updates them.
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireSession(request, ['officer', 'supervisor']);
+    if (!auth.success) {
+      return auth.response;
+    }
+
+    const db = getSessionClient(auth.session);
+
+    const parsed = await parseJsonBody(request, pushSubscriptionSchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const { endpoint, keys } = parsed.data;
+
+    const { error } = await db
+      .from('push_subscriptions')
+      .upsert(
+        {
+          officer_id: auth.session.sub,
+          endpoint,
+          p256dh: keys.p256dh,
+          auth: keys.auth,
+          user_agent: request.headers.get('user-agent'),
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'officer_id,endpoint' }
+      );
+
+    if (error) {
+      console.error('Supabase error:', error);
+      return NextResponse.json(
+        {
+          error: 'Failed to turn on reminders',
+          message: 'Unable to save this device for reminders. Please try again.',
+          code: 'PUSH_SUBSCRIPTION_ERROR'
+        },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error saving push subscription:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to turn on reminders',
+        message: 'An unexpected error occurred while saving this device. Please try again.',
+        code: 'PUSH_SUBSCRIPTION_UNEXPECTED_ERROR'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Stop reminders on this browser
+export async function DELETE(request: NextRequest) {
+  try {
+    const auth = await requireSession(request, ['officer', 'supervisor']);
+    if (!auth.success) {
+      return auth.response;
+    }
+
+    const db = getSessionClient(auth.session);
+
+    const parsed = await parseJsonBody(request, pushUnsubscribeSchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const { error } = await db
+      .from('push_subscriptions')
+      .delete()
+      .eq('officer_id', auth.session.sub)
+      .eq('endpoint', parsed.data.endpoint);
+
+    if (error) {
+      console.error('Supabase error:', error);
+      return NextResponse.json(
+        {
+          error: 'Failed to turn off reminders',
+          message: 'Unable to remove this device from reminders. Please try again.',
+          code: 'PUSH_SUBSCRIPTION_ERROR'
+        },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Error removing push subscription:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to turn off reminders',
+        message: 'An unexpected error occurred while removing this device. Please try again.',
+        code: 'PUSH_SUBSCRIPTION_UNEXPECTED_ERROR'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Individual Target API Route - Delete
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionClient } from '@/lib/supabase-server';
+import { requirePermission } from '@/lib/api-auth';
+import { targetNotFoundResponse } from '@/lib/officer-targets';
+
+// Remove a target; RLS limits it to the dealer's own officers
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requirePermission(request, 'officers:targets');
+    if (!auth.success) {
+      return auth.response;
+    }
+
+    const db = getSessionClient(auth.session);
+
+    const { id } = await params;
+
+    const { data, error } = await db
+      .from('officer_targets')
+      .delete()
+      .eq('id', id)
+      .select('id');
+
+    if (error) throw error;
+
+    if (!data || data.length === 0) {
+      return targetNotFoundResponse();
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Error deleting target:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to delete target',
+        message: 'Unable to remove the target. Please try again.',
+        code: 'TARGET_DELETE_ERROR'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * Targets API Route - lead targets and progress towards them
+ * Dealers set daily, weekly or monthly targets for an officer or a
+ * supervisor's team; everyone sees the targets of the officers in their scope.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionClient } from '@/lib/supabase-server';
+import { parseJsonBody, parseWithSchema } from '@/lib/api-validation';
+import { forbiddenResponse, requirePermission } from '@/lib/api-auth';
+import {
+  getScopedOfficer,
+  getScopedOfficerIds,
+  invalidSupervisorResponse,
+  officerNotFoundResponse,
+} from '@/lib/officer-scope';
+import { getTargetAttainment, saveOfficerTarget } from '@/lib/officer-targets';
+import { targetQuerySchema, targetSetSchema } from '@/lib/schemas';
+import { toBusinessDate } from '@/lib/utils';
+import { TargetAttainmentReport } from '@/types';
+
+// Targets with the leads captured towards them
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'officers:read');
+    if (!auth.success) {
+      return auth.response;
+    }
+
+    const db = getSessionClient(auth.session);
+
+    const { searchParams } = new URL(request.url);
+    const parsed = parseWithSchema(Object.fromEntries(searchParams), targetQuerySchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const { dealer_id, officer_id } = parsed.data;
+    const today = toBusinessDate();
+    const date = parsed.data.date ?? today;
+
+    let officerIds: string[] | null;
+
+    if (officer_id) {
+      const officer = await getScopedOfficer(db, auth.scope, officer_id);
+      if (!officer) {
+        return forbiddenResponse('You can only view targets for your own team or dealership.');
+      }
+      officerIds = [officer.id];
+    } else {
+      officerIds = await getScopedOfficerIds(db, auth.scope, dealer_id);
+    }
+
+    const report: TargetAttainmentReport = {
+      date,
+      today,
+      targets: await getTargetAttainment(db, officerIds, { date, today }),
+    };
+
+    return NextResponse.json(report);
+
+  } catch (error) {
+    console.error('Error fetching targets:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch targets',
+        message: 'Unable to load the lead targets. Please try again.',
+        code: 'TARGETS_ERROR'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Set a target; setting one again for the same officer and period replaces it
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'officers:targets');
+    if (!auth.success) {
+      return auth.response;
+    }
+
+    const db = getSessionClient(auth.session);
+
+    const parsed = await parseJsonBody(request, targetSetSchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const officer = await getScopedOfficer(db, auth.scope, parsed.data.officer_id);
+    if (!officer) {
+      return officerNotFoundResponse();
+    }
+
+    if (!officer.active) {
+      return NextResponse.json(
+        {
+          error: 'Officer inactive',
+          message: 'Targets can only be set for active officers.',
+          code: 'OFFICER_INACTIVE'
+        },
+        { status: 400 }
+      );
+    }
+
+    if (parsed.data.applies_to === 'team' && officer.role !== 'supervisor') {
+      return invalidSupervisorResponse('Team targets are set on the team\'s supervisor.');
+    }
+
+    const target = await saveOfficerTarget(db, auth.session.sub, parsed.data);
+
+    return NextResponse.json(target);
+
+  } catch (error) {
+    console.error('Error setting target:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to set target',
+        message: 'Unable to save the target. Please try again.',
+        code: 'TARGET_SAVE_ERROR'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * Dealer Lead Detail Page
+ */
+
+'use client';
+
+import { useParams } from 'next/navigation';
+import { LeadDetailView } from '@/components/dashboard';
+import { useManagerSession } from '@/hooks/use-manager-session';
+
+export default function DealerLeadDetailPage() {
+  const params = useParams<{ dealerId: string; leadId: string }>();
+  const dealerId = params?.dealerId ?? '';
+  const session = useManagerSession({ dealerId });
+
+  return <LeadDetailView session={session} basePath={`/dealer/${dealerId}`} leadId={params?.leadId ?? ''} />;
+}
@@ -0,0 +1,18 @@
+/**
+ * Dealer Lead Map Page
+ * The leads list opened on its map view, with the same filters
+ */
+
+'use client';
+
+import { useParams } from 'next/navigation';
+import { LeadsBrowser } from '@/components/dashboard';
+import { useManagerSession } from '@/hooks/use-manager-session';
+
+export default function DealerLeadMapPage() {
+  const params = useParams<{ dealerId: string }>();
+  const dealerId = params?.dealerId ?? '';
+  const session = useManagerSession({ dealerId });
+
+  return <LeadsBrowser session={session} basePath={`/dealer/${dealerId}`} dealerId={dealerId} initialView="map" />;
+}
@@ -0,0 +1,19 @@
+/**
+ * Dealer Officer Scorecard Page
+ */
+
+'use client';
+
+import { useParams } from 'next/navigation';
+import { OfficerScorecardView } from '@/components/dashboard';
+import { useManagerSession } from '@/hooks/use-manager-session';
+
+export default function DealerOfficerScorecardPage() {
+  const params = useParams<{ dealerId: string; officerId: string }>();
+  const dealerId = params?.dealerId ?? '';
+  const session = useManagerSession({ dealerId });
+
+  return (
+    <OfficerScorecardView session={session} basePath={`/dealer/${dealerId}`} officerId={params?.officerId ?? ''} />
+  );
+}
@@ -0,0 +1,18 @@
+/**
+ * Dealer Targets Page
+ * Supervisors see their team's targets and progress
+ */
+
+'use client';
+
+import { useParams } from 'next/navigation';
+import { TargetsManager } from '@/components/dashboard';
+import { useManagerSession } from '@/hooks/use-manager-session';
+
+export default function DealerTargetsPage() {
+  const params = useParams<{ dealerId: string }>();
+  const dealerId = params?.dealerId ?? '';
+  const session = useManagerSession({ dealerId });
+
+  return <TargetsManager session={session} basePath={`/dealer/${dealerId}`} dealerId={dealerId} />;
+}
@@ -0,0 +1,9 @@
+/**
+ * My Follow-ups Page
+ */
+
+import { FollowUpList } from '@/components/follow-ups/follow-up-list';
+
+export default function FollowUpsPage() {
+  return <FollowUpList />;
+}
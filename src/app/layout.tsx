@@ -3,6 +3,7 @@ import './globals.css';
 import ErrorBoundary from '@/components/error-boundary';
 import { ToastProvider } from '@/components/ui/toast';
 import { PWAProvider } from '@/components/pwa-provider';
+import { SyncProvider } from '@/components/sync-provider';
 import { ErrorHandlerInitializer } from '@/components/error-handler-initializer';
 
 export const metadata: Metadata = {
@@ -61,11 +62,13 @@ export default function RootLayout({
         <ErrorBoundary>
           <ToastProvider>
             <PWAProvider>
-              <div className="min-h-screen">
-                <main id="main-content" className="focus:outline-none" tabIndex={-1}>
-                  {children}
-                </main>
-              </div>
+              <SyncProvider>
+                <div className="min-h-screen">
+                  <main id="main-content" className="focus:outline-none" tabIndex={-1}>
+                    {children}
+                  </main>
+                </div>
+              </SyncProvider>
             </PWAProvider>
           </ToastProvider>
         </ErrorBoundary>
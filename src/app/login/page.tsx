@@ -1,5 +1,6 @@
 /**
- * Simple Dealer Login Page
+ * Dealer Login Page
+ * Step 1 sends a one-time code to the dealer's phone or email, step 2 verifies it
  */
 
 'use client';
@@ -7,15 +8,28 @@
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { AppShell, Card, CardContent, CardHeader, CardTitle, Button, FormField } from '@/components';
-import { loginDealer } from '@/lib/auth';
+import { requestDealerOtp, verifyDealerOtp } from '@/lib/auth';
+import { getHomePath } from '@/lib/permissions';
+import { ApiClientError } from '@/lib/api-client';
+import { OtpChannel } from '@/types';
+
+// Prefer the server's explanation (expired code, rate limit) over a generic message
+function getErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof ApiClientError && error.status && error.status < 500) {
+    return error.message;
+  }
+  return fallback;
+}
 
 export default function LoginPage() {
   const [identifier, setIdentifier] = useState('');
+  const [code, setCode] = useState('');
+  const [codeChannel, setCodeChannel] = useState<OtpChannel | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const router = useRouter();
 
-  const handleLogin = async (e: React.FormEvent) => {
+  const handleRequestCode = async (e: React.FormEvent) => {
     e.preventDefault();
 
     if (!identifier.trim()) {
@@ -27,17 +41,38 @@ export default function LoginPage() {
     setError('');
 
     try {
-      const dealer = await loginDealer(identifier);
-      if (dealer) {
-        router.push(`/dealer/${dealer.id}`);
-      }
-    } catch {
-      setError('Dealer not found. Please check your phone number or email.');
+      const result = await requestDealerOtp(identifier);
+      setCodeChannel(result.channel);
+      setCode('');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Could not send a login code. Please try again.'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleVerifyCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setLoading(true);
+    setError('');
+
+    try {
+      const dealer = await verifyDealerOtp(identifier, code.trim());
+      router.push(getHomePath(dealer.role ?? 'dealer', dealer.id));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Could not verify the code. Please try again.'));
     } finally {
       setLoading(false);
     }
   };
 
+  const handleChangeIdentifier = () => {
+    setCodeChannel(null);
+    setCode('');
+    setError('');
+  };
+
   return (
     <AppShell>
       <div className="min-h-screen flex items-center justify-center">
@@ -47,7 +82,7 @@ export default function LoginPage() {
               Dealer Login
             </h1>
             <p className="text-neutral-700">
-              Enter your phone number or email to access the admin panel
+              We will send a one-time code to your phone or email
             </p>
           </div>
 
@@ -56,33 +91,82 @@ export default function LoginPage() {
               <CardTitle>Sign In</CardTitle>
             </CardHeader>
             <CardContent>
-              <form onSubmit={handleLogin} className="space-y-4">
-                <FormField
-                  label="Phone Number or Email"
-                  type="text"
-                  placeholder="0714276111 or dealer@company.com"
-                  value={identifier}
-                  onChange={(e) => setIdentifier(e.target.value)}
-                  error={error}
-                  required
-                />
-                
-                <div className="text-xs text-neutral-600 space-y-1">
-                  <p>Supported phone formats:</p>
-                  <p>• 0714276111 (most common)</p>
-                  <p>• 714276111</p>
-                  <p>• +255714276111</p>
-                </div>
-
-                <Button
-                  type="submit"
-                  fullWidth
-                  loading={loading}
-                  disabled={!identifier.trim()}
-                >
-                  Sign In
-                </Button>
-              </form>
+              {codeChannel ? (
+                <form onSubmit={handleVerifyCode} className="space-y-4">
+                  <p className="text-sm text-neutral-700">
+                    If <span className="font-medium">{identifier}</span> belongs to a dealer
+                    account, we sent a 6-digit code by {codeChannel === 'email' ? 'email' : 'SMS'}.
+                  </p>
+
+                  <FormField
+                    label="Login Code"
+                    type="text"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    placeholder="123456"
+                    maxLength={6}
+                    value={code}
+                    onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+                    error={error}
+                    required
+                  />
+
+                  <Button
+                    type="submit"
+                    fullWidth
+                    loading={loading}
+                    disabled={code.length !== 6}
+                  >
+                    Verify and Sign In
+                  </Button>
+
+                  <div className="flex justify-between text-sm">
+                    <button
+                      type="button"
+                      onClick={handleChangeIdentifier}
+                      className="text-primary-600 hover:text-primary-700 font-medium"
+                    >
+                      Use a different number
+                    </button>
+                    <button
+                      type="button"
+                      onClick={handleRequestCode}
+                      disabled={loading}
+                      className="text-primary-600 hover:text-primary-700 font-medium"
+                    >
+                      Resend code
+                    </button>
+                  </div>
+                </form>
+              ) : (
+                <form onSubmit={handleRequestCode} className="space-y-4">
+                  <FormField
+                    label="Phone Number or Email"
+                    type="text"
+                    placeholder="0714276111 or dealer@company.com"
+                    value={identifier}
+                    onChange={(e) => setIdentifier(e.target.value)}
+                    error={error}
+                    required
+                  />
+
+                  <div className="text-xs text-neutral-600 space-y-1">
+                    <p>Supported phone formats:</p>
+                    <p>• 0714276111 (most common)</p>
+                    <p>• 714276111</p>
+                    <p>• +255714276111</p>
+                  </div>
+
+                  <Button
+                    type="submit"
+                    fullWidth
+                    loading={loading}
+                    disabled={!identifier.trim()}
+                  >
+                    Send Login Code
+                  </Button>
+                </form>
+              )}
 
               <div className="mt-6 text-center">
                 <p className="text-sm text-neutral-700">
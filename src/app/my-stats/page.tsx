@@ -0,0 +1,9 @@
+/**
+ * My Stats Page
+ */
+
+import { MyStats } from '@/components/stats/my-stats';
+
+export default function MyStatsPage() {
+  return <MyStats />;
+}
@@ -8,30 +8,38 @@ import { Skeleton } from '@/components/ui/loading-indicator';
 // import { useToast } from '@/components/ui/toast';
 // import { useApi } from '@/hooks/use-api';
 import { useNetworkStatus } from '@/hooks/use-network-status';
-import { Officer, Lead } from '@/types';
-
-// Simple officer login functions
-function getCurrentOfficer(): Officer | null {
-  if (typeof window === 'undefined') return null;
-  try {
-    const stored = localStorage.getItem('currentOfficer');
-    return stored ? JSON.parse(stored) : null;
-  } catch {
-    return null;
-  }
-}
-
-function setCurrentOfficer(officer: Officer) {
-  localStorage.setItem('currentOfficer', JSON.stringify(officer));
-}
-
-function clearCurrentOfficer() {
-  localStorage.removeItem('currentOfficer');
-}
+import { useOfflineSync } from '@/hooks/use-offline-sync';
+import { useOfficerSession } from '@/hooks/use-officer-session';
+import { useAppStore } from '@/stores/app-store';
+import { loginOfficer } from '@/lib/auth';
+import { ApiClientError } from '@/lib/api-client';
+import { buildLeadExportUrl, fetchLeadAnalytics, fetchTargetAttainment } from '@/lib/leads';
+import { formatPhone } from '@/lib/phone';
+import { toBusinessDate } from '@/lib/utils';
+import { LeadExportColumn, Officer, TargetAttainment } from '@/types';
+
+// Columns in an officer's own lead export, with where each lead was captured
+const OFFICER_EXPORT_COLUMNS: LeadExportColumn[] = [
+  'lead_name',
+  'phone_contact',
+  'residence',
+  'interested_phone_model',
+  'next_contact_date',
+  'area_of_activity',
+  'ward',
+  'gps_latitude',
+  'gps_longitude',
+  'officer_name',
+  'officer_phone',
+  'created_at',
+];
 
 // Officer Login Component
+// The server checks the phone number and asks for a PIN or one-time code when needed
 function OfficerLogin({ onLogin }: { onLogin: (officer: Officer) => void }) {
   const [phone, setPhone] = useState('');
+  const [secret, setSecret] = useState('');
+  const [step, setStep] = useState<'phone' | 'pin' | 'otp'>('phone');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
 
@@ -46,67 +54,34 @@ function OfficerLogin({ onLogin }: { onLogin: (officer: Officer) => void }) {
     setError('');
 
     try {
-      // Normalize phone number to +255 format
-      let normalizedPhone = phone.replace(/\D/g, '');
-
-      if (normalizedPhone.startsWith('0')) {
-        // 0714276444 -> 714276444 -> +255714276444
-        normalizedPhone = '255' + normalizedPhone.substring(1);
-      } else if (normalizedPhone.startsWith('255')) {
-        // 255714276444 -> +255714276444
-        normalizedPhone = normalizedPhone;
-      } else if (normalizedPhone.length === 9) {
-        // 714276444 -> +255714276444
-        normalizedPhone = '255' + normalizedPhone;
-      } else {
-        // Default: assume it needs 255 prefix
-        normalizedPhone = '255' + normalizedPhone;
-      }
-
-      normalizedPhone = '+' + normalizedPhone;
+      const result = await loginOfficer(phone, {
+        pin: step === 'pin' ? secret : undefined,
+        code: step === 'otp' ? secret : undefined,
+      });
 
-      // Find officer by phone
-      const response = await fetch('/api/officers?public=true');
-      const officers = await response.json();
-
-      // Debug: log what we're looking for and what we have
-      console.log('Looking for phone:', normalizedPhone);
-      console.log('Available officers:', officers.map((o: Officer) => ({ name: o.name, phone: o.phone })));
-
-      // Try to find officer with flexible phone matching
-      let officer = officers.find((o: Officer) => o.phone === normalizedPhone);
-
-      // If not found, try other formats
-      if (!officer) {
-        const phoneWithoutPlus = normalizedPhone.replace('+', '');
-        const phoneWithoutCountryCode = normalizedPhone.replace('+255', '0');
-        const phoneJustDigits = normalizedPhone.replace(/\D/g, '').substring(3); // Remove +255
-
-        officer = officers.find((o: Officer) =>
-          o.phone === phoneWithoutPlus ||
-          o.phone === phoneWithoutCountryCode ||
-          o.phone === ('0' + phoneJustDigits) ||
-          o.phone === phoneJustDigits
-        );
-
-        if (officer) {
-          console.log('Found officer with alternative format:', officer.phone);
-        }
-      }
-
-      if (officer) {
-        setCurrentOfficer(officer);
-        onLogin(officer);
+      if (result.status === 'authenticated') {
+        onLogin(result.officer);
       } else {
-        setError('Officer not found. Please check your phone number.');
+        setStep(result.status === 'pin_required' ? 'pin' : 'otp');
+        setSecret('');
       }
-    } catch {
-      setError('Failed to login. Please try again.');
+    } catch (err) {
+      setError(
+        err instanceof ApiClientError && err.status && err.status < 500
+          ? err.message
+          : 'Failed to login. Please try again.'
+      );
     } finally {
       setLoading(false);
     }
   };
 
+  const handleChangePhone = () => {
+    setStep('phone');
+    setSecret('');
+    setError('');
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center p-4">
       <Card className="w-full max-w-md">
@@ -116,34 +91,63 @@ function OfficerLogin({ onLogin }: { onLogin: (officer: Officer) => void }) {
               Officer Login
             </h1>
             <p className="text-neutral-600">
-              Enter your phone number to continue
+              {step === 'pin' && 'Enter your PIN to continue'}
+              {step === 'otp' && 'Enter the code we sent to your phone'}
+              {step === 'phone' && 'Enter your phone number to continue'}
             </p>
           </div>
 
           <form onSubmit={handleLogin} className="space-y-4">
-            <FormField
-              label="Phone Number"
-              type="tel"
-              placeholder="0714276444"
-              value={phone}
-              onChange={(e) => setPhone(e.target.value)}
-              error={error}
-              required
-            />
-
-            <div className="text-xs text-neutral-600 space-y-1">
-              <p>Supported formats:</p>
-              <p>• 0714276444 • 714276444 • +255714276444</p>
-            </div>
+            {step === 'phone' ? (
+              <>
+                <FormField
+                  label="Phone Number"
+                  type="tel"
+                  placeholder="0714276444"
+                  value={phone}
+                  onChange={(e) => setPhone(e.target.value)}
+                  error={error}
+                  required
+                />
+
+                <div className="text-xs text-neutral-600 space-y-1">
+                  <p>Supported formats:</p>
+                  <p>• 0714276444 • 714276444 • +255714276444</p>
+                </div>
+              </>
+            ) : (
+              <FormField
+                label={step === 'pin' ? 'PIN' : 'Login Code'}
+                type={step === 'pin' ? 'password' : 'text'}
+                inputMode="numeric"
+                autoComplete={step === 'otp' ? 'one-time-code' : 'current-password'}
+                maxLength={6}
+                value={secret}
+                onChange={(e) => setSecret(e.target.value.replace(/\D/g, ''))}
+                error={error}
+                hint={`Signing in as ${phone}`}
+                required
+              />
+            )}
 
             <Button
               type="submit"
               fullWidth
               loading={loading}
-              disabled={!phone.trim()}
+              disabled={step === 'phone' ? !phone.trim() : secret.length < 4}
             >
               Login
             </Button>
+
+            {step !== 'phone' && (
+              <button
+                type="button"
+                onClick={handleChangePhone}
+                className="w-full text-sm text-primary-600 hover:text-primary-700 font-medium"
+              >
+                Use a different phone number
+              </button>
+            )}
           </form>
         </CardContent>
       </Card>
@@ -151,98 +155,122 @@ function OfficerLogin({ onLogin }: { onLogin: (officer: Officer) => void }) {
   );
 }
 
-// Simple stat components with error handling
-function LeadCount() {
-  const [count, setCount] = useState<number>(0);
-  const [loading, setLoading] = useState(true);
+// The officer's lead totals, counted on the server, and progress towards
+// their daily target when the dealer has set one
+function LeadTotals({ officerId }: { officerId: string }) {
+  const [totals, setTotals] = useState<{ all: number; today: number } | null>(null);
+  const [dailyTarget, setDailyTarget] = useState<TargetAttainment | null>(null);
   const [error, setError] = useState(false);
 
   useEffect(() => {
     let mounted = true;
 
-    const loadCount = async () => {
+    const loadTotals = async () => {
       try {
-        const response = await fetch('/api/leads?public=true');
-        if (response.ok && mounted) {
-          const leads = await response.json();
-          setCount(leads.length || 0);
+        // Supervisors can read their team's leads; the home screen counts their own
+        const today = toBusinessDate();
+        const [analytics, targets] = await Promise.all([
+          fetchLeadAnalytics({ officer_id: officerId, from: today, to: today }),
+          // Without the targets the counts still show
+          fetchTargetAttainment({ officer_id: officerId }).catch(() => null),
+        ]);
+        if (mounted) {
+          setTotals({ all: analytics.totals.all_time, today: analytics.totals.today });
+          setDailyTarget(targets?.targets.find(target => target.applies_to === 'officer' && target.period === 'day') ?? null);
           setError(false);
         }
       } catch {
         if (mounted) setError(true);
-      } finally {
-        if (mounted) setLoading(false);
       }
     };
 
-    loadCount();
+    loadTotals();
 
     return () => { mounted = false; };
-  }, []);
+  }, [officerId]);
+
+  const show = (count: number | undefined) => {
+    if (error) return <span className="text-red-600">--</span>;
+    if (count === undefined) return <Skeleton className="w-8 h-4" />;
+    return <span>{count}</span>;
+  };
 
-  if (error) return <span className="text-red-600">--</span>;
-  if (loading) return <Skeleton className="w-8 h-4" />;
-  return <span>{count}</span>;
+  return (
+    <>
+      <div className="flex flex-col items-center">
+        <div className="text-5xl font-extrabold text-primary-600 mb-2">
+          {show(totals?.all)}
+        </div>
+        <p className="uppercase text-sm tracking-wider text-primary-800 font-bold">Your Leads</p>
+      </div>
+      <div className="h-12 w-px bg-primary-100 mx-8 hidden md:block" />
+      <div className="flex flex-col items-center">
+        <div className="text-4xl font-bold text-primary-400 mb-2">
+          {show(totals?.today)}
+        </div>
+        <p className="uppercase text-xs tracking-wide text-neutral-500 font-semibold">Added Today</p>
+        {dailyTarget && (
+          // Progress counts the leads the officer captured, including any since handed on
+          <div className="mt-2 w-32 text-center">
+            <div className="h-2 rounded-full bg-primary-100">
+              <div
+                className="h-2 rounded-full bg-primary-500"
+                style={{ width: `${Math.min(dailyTarget.achieved / dailyTarget.lead_count, 1) * 100}%` }}
+              />
+            </div>
+            <p className="mt-1 text-xs text-neutral-600">
+              {dailyTarget.achieved} of {dailyTarget.lead_count} today&apos;s target
+            </p>
+          </div>
+        )}
+      </div>
+    </>
+  );
 }
 
-function TodayLeadCount() {
-  const [count, setCount] = useState<number>(0);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState(false);
+// Outbox notice for leads captured offline that have not reached the server
+function PendingSyncNotice() {
+  const pendingSyncCount = useAppStore(state => state.pendingSyncCount);
+  const syncStatus = useAppStore(state => state.syncStatus);
+  const isOnline = useAppStore(state => state.isOnline);
+  const { syncNow, retryFailed } = useOfflineSync();
 
-  useEffect(() => {
-    let mounted = true;
+  if (pendingSyncCount === 0) return null;
 
-    const loadCount = async () => {
-      try {
-        const response = await fetch('/api/leads?public=true');
-        if (response.ok && mounted) {
-          const leads = await response.json();
-          const today = new Date().toISOString().split('T')[0];
-          const todayLeads = leads.filter((lead: Lead) =>
-            lead.created_at?.startsWith(today)
-          );
-          setCount(todayLeads.length || 0);
-          setError(false);
-        }
-      } catch {
-        if (mounted) setError(true);
-      } finally {
-        if (mounted) setLoading(false);
-      }
-    };
-
-    loadCount();
-
-    return () => { mounted = false; };
-  }, []);
+  const hasFailures = syncStatus === 'error';
 
-  if (error) return <span className="text-red-600">--</span>;
-  if (loading) return <Skeleton className="w-8 h-4" />;
-  return <span>{count}</span>;
+  return (
+    <div
+      className={`flex items-center justify-between gap-3 rounded-lg border p-3 ${
+        hasFailures ? 'bg-red-50 border-red-200' : 'bg-amber-50 border-amber-200'
+      }`}
+    >
+      <p className={`text-sm ${hasFailures ? 'text-red-800' : 'text-amber-800'}`}>
+        {hasFailures
+          ? `${pendingSyncCount} lead${pendingSyncCount === 1 ? '' : 's'} could not be saved to the server.`
+          : `${pendingSyncCount} lead${pendingSyncCount === 1 ? '' : 's'} waiting to sync.`}
+      </p>
+      <Button
+        size="sm"
+        variant="outline"
+        disabled={!isOnline || syncStatus === 'syncing'}
+        onClick={() => (hasFailures ? retryFailed() : syncNow())}
+      >
+        {hasFailures ? 'Retry' : 'Sync now'}
+      </Button>
+    </div>
+  );
 }
 
 export default function Home() {
   const { isOnline, isConnected, checkConnection } = useNetworkStatus();
   const router = useRouter();
-  const [currentOfficer, setCurrentOfficerState] = useState<Officer | null>(null);
-  const [loading, setLoading] = useState(true);
-
-  // Check if officer is already logged in
-  useEffect(() => {
-    const officer = getCurrentOfficer();
-    setCurrentOfficerState(officer);
-    setLoading(false);
-  }, []);
-
-  const handleOfficerLogin = (officer: Officer) => {
-    setCurrentOfficerState(officer);
-  };
-
-  const handleLogout = () => {
-    clearCurrentOfficer();
-    setCurrentOfficerState(null);
-  };
+  const {
+    officer: currentOfficer,
+    loading,
+    setOfficer: handleOfficerLogin,
+    logout: handleLogout,
+  } = useOfficerSession();
 
   // Show loading
   if (loading) {
@@ -265,11 +293,7 @@ export default function Home() {
   }
 
   return (
-    <AppShell
-      isOnline={isOnline}
-      syncStatus="idle"
-      pendingCount={0}
-    >
+    <AppShell isOnline={isOnline}>
       <div className="space-y-6">
         {/* Network Status */}
         <NetworkStatus
@@ -277,35 +301,35 @@ export default function Home() {
           isConnected={isConnected}
           onRetryConnection={checkConnection}
         />
+        <PendingSyncNotice />
         {/* Welcome Section */}
         <div className="text-center space-y-2 mt-8 mb-2">
           <h1 className="text-3xl font-extrabold text-neutral-900 mb-1">
             Welcome, <span className="underline decoration-primary-400 decoration-4 underline-offset-4">{currentOfficer.name}</span>
           </h1>
-          <p className="text-neutral-600 text-lg">{currentOfficer.phone}</p>
+          <p className="text-neutral-600 text-lg">{formatPhone(currentOfficer.phone)}</p>
           <button
             onClick={handleLogout}
             className="text-sm text-neutral-500 hover:text-neutral-700 underline"
           >
             Switch Officer
           </button>
+          {currentOfficer.role === 'supervisor' && (
+            <div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => router.push(`/dealer/${currentOfficer.dealer_id}`)}
+              >
+                Team Dashboard
+              </Button>
+            </div>
+          )}
         </div>
         {/* Stats Card (Refreshed) */}
         <Card>
           <CardContent className="flex flex-col md:flex-row items-center justify-center gap-8 p-8">
-            <div className="flex flex-col items-center">
-              <div className="text-5xl font-extrabold text-primary-600 mb-2">
-                <LeadCount />
-              </div>
-              <p className="uppercase text-sm tracking-wider text-primary-800 font-bold">Total Leads</p>
-            </div>
-            <div className="h-12 w-px bg-primary-100 mx-8 hidden md:block" />
-            <div className="flex flex-col items-center">
-              <div className="text-4xl font-bold text-primary-400 mb-2">
-                <TodayLeadCount />
-              </div>
-              <p className="uppercase text-xs tracking-wide text-neutral-500 font-semibold">Added Today</p>
-            </div>
+            <LeadTotals officerId={currentOfficer.id} />
           </CardContent>
         </Card>
         {/* Action Buttons and rest as before */}
@@ -327,70 +351,37 @@ export default function Home() {
             variant="outline"
             size="lg"
             className="h-12"
-            onClick={async () => {
-              try {
-                const response = await fetch('/api/leads?public=true');
-                if (response.ok) {
-                  const leads: Lead[] = await response.json();
-
-                  // Convert to CSV
-                  if (leads.length === 0) {
-                    alert('No leads to export');
-                    return;
-                  }
-
-                  // CSV headers
-                  const headers = [
-                    'Lead Name',
-                    'Phone Contact',
-                    'Residence',
-                    'Interested Phone Model',
-                    'Next Contact Date',
-                    'Area of Activity',
-                    'Ward',
-                    'GPS Latitude',
-                    'GPS Longitude',
-                    'Officer Name',
-                    'Officer Phone',
-                    'Created Date'
-                  ];
-
-                  // CSV rows
-                  const csvRows = leads.map((lead) => [
-                    lead.lead_name ?? '',
-                    lead.phone_contact ?? '',
-                    lead.residence ?? '',
-                    lead.interested_phone_model ?? '',
-                    lead.next_contact_date ?? '',
-                    lead.area_of_activity ?? '',
-                    lead.ward ?? '',
-                    lead.gps_latitude?.toString() ?? '',
-                    lead.gps_longitude?.toString() ?? '',
-                    lead.officer?.name ?? '',
-                    lead.officer?.phone ?? '',
-                    lead.created_at ? new Date(lead.created_at).toLocaleDateString() : ''
-                  ]);
-
-                  // Combine headers and rows
-                  const csvContent = [headers, ...csvRows]
-                    .map((row: string[]) => row.map((field: string) => `"${String(field).replace(/"/g, '""')}"`).join(','))
-                    .join('\n');
-
-                  // Create and download CSV
-                  if (typeof window !== 'undefined' && typeof document !== 'undefined') {
-                    const dataBlob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-                    const url = URL.createObjectURL(dataBlob);
-                    const link = document.createElement('a');
-                    link.href = url;
-                    link.download = `leads-export-${new Date().toISOString().split('T')[0]}.csv`;
-                    link.click();
-                    URL.revokeObjectURL(url);
-                  }
-                }
-              } catch (error) {
-                console.error('Export failed:', error);
-                alert('Export failed. Please try again.');
-              }
+            onClick={() => router.push('/follow-ups')}
+          >
+            <svg className="mr-2 h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 5a2 2 0 012-2h3.28a1 1 0 01.948.684l1.498 4.493a1 1 0 01-.502 1.21l-2.257 1.13a11.042 11.042 0 005.516 5.516l1.13-2.257a1 1 0 011.21-.502l4.493 1.498a1 1 0 01.684.949V19a2 2 0 01-2 2h-1C9.716 21 3 14.284 3 6V5z" />
+            </svg>
+            My Follow-ups
+          </Button>
+          <Button
+            fullWidth
+            variant="outline"
+            size="lg"
+            className="h-12"
+            onClick={() => router.push('/my-stats')}
+          >
+            <svg className="mr-2 h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+            </svg>
+            My Stats
+          </Button>
+          <Button
+            fullWidth
+            variant="outline"
+            size="lg"
+            className="h-12"
+            onClick={() => {
+              // Supervisors can read their team's leads; export only their own here
+              window.location.assign(buildLeadExportUrl({
+                officer_id: currentOfficer.id,
+                format: 'csv',
+                columns: OFFICER_EXPORT_COLUMNS.join(','),
+              }));
             }}
           >
             <svg className="mr-2 h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
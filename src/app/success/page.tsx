@@ -4,13 +4,24 @@
 
 'use client';
 
-import { useRouter } from 'next/navigation';
-import { useEffect } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { Suspense, useEffect } from 'react';
 import { AppShell, Card, CardContent, Button } from '@/components';
-import { CheckCircle } from 'lucide-react';
+import { CheckCircle, CloudOff } from 'lucide-react';
 
 export default function SuccessPage() {
+  return (
+    <Suspense>
+      <SuccessContent />
+    </Suspense>
+  );
+}
+
+function SuccessContent() {
   const router = useRouter();
+  const searchParams = useSearchParams();
+  // Set when the lead was stored in the offline outbox but not yet synced
+  const isQueued = searchParams.get('queued') === '1';
 
   // Auto-redirect after 5 seconds
   useEffect(() => {
@@ -22,28 +33,32 @@ export default function SuccessPage() {
   }, [router]);
 
   return (
-    <AppShell
-      title="Success"
-      isOnline={true}
-      syncStatus="idle"
-    >
+    <AppShell title="Success">
       <div className="flex items-center justify-center min-h-[60vh]">
         <Card className="w-full max-w-md">
           <CardContent className="text-center space-y-6 py-8">
             {/* Success Icon */}
             <div className="flex justify-center">
-              <div className="w-16 h-16 bg-green-100 rounded-full flex items-center justify-center">
-                <CheckCircle className="w-8 h-8 text-green-600" />
-              </div>
+              {isQueued ? (
+                <div className="w-16 h-16 bg-amber-100 rounded-full flex items-center justify-center">
+                  <CloudOff className="w-8 h-8 text-amber-600" />
+                </div>
+              ) : (
+                <div className="w-16 h-16 bg-green-100 rounded-full flex items-center justify-center">
+                  <CheckCircle className="w-8 h-8 text-green-600" />
+                </div>
+              )}
             </div>
 
             {/* Success Message */}
             <div className="space-y-2">
               <h1 className="text-2xl font-bold text-neutral-900">
-                Lead Saved Successfully!
+                {isQueued ? 'Lead Saved on This Device' : 'Lead Saved Successfully!'}
               </h1>
               <p className="text-neutral-600">
-                Your lead has been saved to the database and is now available for follow-up.
+                {isQueued
+                  ? 'The lead could not be sent yet, so it is saved on this device and will sync automatically.'
+                  : 'Your lead has been saved to the database and is now available for follow-up.'}
               </p>
             </div>
 
@@ -51,7 +66,7 @@ export default function SuccessPage() {
             <div className="space-y-3">
               <Button
                 fullWidth
-                onClick={() => router.push('/lead/officer')}
+                onClick={() => router.push('/lead/route')}
               >
                 Add Another Lead
               </Button>
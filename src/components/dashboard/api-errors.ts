@@ -0,0 +1,24 @@
+/**
+ * Error bodies returned by the API routes
+ */
+
+export interface ApiErrorBody {
+  message?: string;
+  code?: string;
+  fieldErrors?: Record<string, string[]>;
+}
+
+// Read the error body of a failed response; empty when it is not JSON
+export async function readErrorBody(res: Response): Promise<ApiErrorBody> {
+  try {
+    return await res.json();
+  } catch {
+    return {};
+  }
+}
+
+// Read the message from an API error body
+export async function readErrorMessage(res: Response, fallback: string): Promise<string> {
+  const body = await readErrorBody(res);
+  return body.message || fallback;
+}
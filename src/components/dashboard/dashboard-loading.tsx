@@ -0,0 +1,31 @@
+/**
+ * Full-page loading state for dashboard pages
+ */
+
+'use client';
+
+import { AppShell } from '@/components/layout';
+
+export interface DashboardLoadingProps {
+  title: string;
+  message: string;
+  onBackClick?: () => void;
+}
+
+export function DashboardLoading({ title, message, onBackClick }: DashboardLoadingProps) {
+  return (
+    <AppShell title={title} showBackButton={Boolean(onBackClick)} onBackClick={onBackClick}>
+      <div className="flex items-center justify-center min-h-64">
+        <div className="text-center">
+          <div className="inline-flex items-center gap-2 text-neutral-600">
+            <svg className="h-5 w-5 animate-spin" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+            </svg>
+            {message}
+          </div>
+        </div>
+      </div>
+    </AppShell>
+  );
+}
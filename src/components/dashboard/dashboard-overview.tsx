@@ -0,0 +1,279 @@
+/**
+ * Management dashboard shared by platform admins, dealers and supervisors
+ */
+
+'use client';
+
+import * as React from 'react';
+import { useRouter } from 'next/navigation';
+import { AppShell } from '@/components/layout';
+import { Button, Card, CardContent, CardHeader, CardTitle } from '@/components/ui';
+import { UseManagerSessionReturn } from '@/hooks/use-manager-session';
+import { fetchLeadAnalytics } from '@/lib/leads';
+import { formatPhone } from '@/lib/phone';
+import { toBusinessDate } from '@/lib/utils';
+import { AnalyticsInterval, Dealer, LeadAnalytics } from '@/types';
+import { DashboardLoading } from './dashboard-loading';
+import { withDealerFilter } from './dealer-filter';
+import { LeadAnalyticsPanel } from './lead-analytics';
+import { OfficerLeaderboard } from './officer-performance';
+
+// Days charted for each grouping, ending today
+const ANALYTICS_RANGE_DAYS: Record<AnalyticsInterval, number> = {
+  day: 30,
+  week: 12 * 7,
+  month: 365,
+};
+
+export interface DashboardOverviewProps {
+  session: UseManagerSessionReturn;
+  basePath: string; // '/admin' or '/dealer/<id>'
+  dealerId?: string; // limit the dashboard to one dealer
+}
+
+export function DashboardOverview({ session, basePath, dealerId }: DashboardOverviewProps) {
+  const router = useRouter();
+  const { role, dealer, officer, loading: sessionLoading, can, logout } = session;
+  const canReadDealers = can('dealers:read');
+
+  const [officerCount, setOfficerCount] = React.useState(0);
+  const [dealers, setDealers] = React.useState<Dealer[]>([]);
+  const [analytics, setAnalytics] = React.useState<LeadAnalytics | null>(null);
+  const [analyticsInterval, setAnalyticsInterval] = React.useState<AnalyticsInterval>('day');
+  const [analyticsLoading, setAnalyticsLoading] = React.useState(true);
+  const [statsLoading, setStatsLoading] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    if (!role) return;
+
+    const loadStats = async () => {
+      try {
+        // The API scopes every list to the session
+        const [officersResponse, dealersResponse] = await Promise.all([
+          fetch(withDealerFilter('/api/officers', dealerId)),
+          canReadDealers ? fetch('/api/dealers') : null,
+        ]);
+
+        if (!officersResponse.ok || (dealersResponse && !dealersResponse.ok)) {
+          throw new Error('Failed to load dashboard data');
+        }
+
+        const officers: unknown[] = await officersResponse.json();
+        setOfficerCount(officers.length);
+
+        if (dealersResponse) {
+          setDealers(await dealersResponse.json());
+        }
+      } catch (err) {
+        setError('Failed to load dashboard data');
+        console.error('Error loading dashboard data:', err);
+      } finally {
+        setStatsLoading(false);
+      }
+    };
+
+    loadStats();
+  }, [role, dealerId, canReadDealers]);
+
+  // Lead counts are made on the server, so this stays quick however many leads there are
+  React.useEffect(() => {
+    if (!role) return;
+
+    let cancelled = false;
+    setAnalyticsLoading(true);
+
+    fetchLeadAnalytics({
+      dealer_id: dealerId,
+      interval: analyticsInterval,
+      from: toBusinessDate(new Date(), 1 - ANALYTICS_RANGE_DAYS[analyticsInterval]),
+    })
+      .then(result => {
+        if (!cancelled) setAnalytics(result);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        setError('Failed to load dashboard data');
+        console.error('Error loading analytics:', err);
+      })
+      .finally(() => {
+        if (!cancelled) setAnalyticsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [role, dealerId, analyticsInterval]);
+
+  if (error) {
+    return (
+      <AppShell title="Error">
+        <div className="text-center py-8">
+          <div className="bg-red-50 border border-red-200 rounded-lg p-6">
+            <h3 className="text-lg font-medium text-red-900 mb-2">{error}</h3>
+            <Button onClick={() => typeof window !== 'undefined' && window.location.reload()}>
+              Try Again
+            </Button>
+          </div>
+        </div>
+      </AppShell>
+    );
+  }
+
+  if (sessionLoading || !role || !dealer || statsLoading || !analytics) {
+    return <DashboardLoading title="Dashboard" message="Loading dashboard..." />;
+  }
+
+  // Platform admins can open any dealer; everyone else sees their own
+  const shownDealer = (dealerId && dealers.find(d => d.id === dealerId)) || dealer;
+  const showBack = role === 'platform_admin' && Boolean(dealerId);
+
+  let title = shownDealer.name;
+  let subtitle = `${shownDealer.company} • ${formatPhone(shownDealer.phone)}`;
+
+  if (role === 'platform_admin' && !dealerId) {
+    title = 'Platform';
+    subtitle = `${dealers.length} dealers`;
+  } else if (role === 'supervisor') {
+    title = officer?.name ?? 'Team';
+    subtitle = `Supervisor • ${dealer.company}`;
+  }
+
+  return (
+    <AppShell
+      title={role === 'supervisor' ? 'Team Dashboard' : `${title} Dashboard`}
+      showBackButton={showBack}
+      onBackClick={showBack ? () => router.push('/admin') : undefined}
+    >
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex-1">
+            <h1 className="text-2xl font-bold text-neutral-900">{title}</h1>
+            <p className="text-neutral-600">{subtitle}</p>
+          </div>
+          <Button variant="outline" onClick={logout}>
+            Logout
+          </Button>
+        </div>
+
+        {/* Stats Cards */}
+        <div className="grid grid-cols-2 gap-3">
+          <div className="bg-gradient-to-br from-blue-50 to-blue-100/50 rounded-2xl p-4 border border-blue-200/50 shadow-sm">
+            <div className="text-2xl font-bold text-blue-900 tracking-tight">{analytics.totals.all_time}</div>
+            <div className="text-xs font-medium text-blue-700 mt-0.5">Total Leads</div>
+          </div>
+
+          <div className="bg-gradient-to-br from-emerald-50 to-emerald-100/50 rounded-2xl p-4 border border-emerald-200/50 shadow-sm">
+            <div className="text-2xl font-bold text-emerald-900 tracking-tight">{officerCount}</div>
+            <div className="text-xs font-medium text-emerald-700 mt-0.5">
+              {role === 'supervisor' ? 'Team Members' : 'Officers'}
+            </div>
+          </div>
+
+          <div className="bg-gradient-to-br from-orange-50 to-orange-100/50 rounded-2xl p-4 border border-orange-200/50 shadow-sm">
+            <div className="text-2xl font-bold text-orange-900 tracking-tight">{analytics.totals.today}</div>
+            <div className="text-xs font-medium text-orange-700 mt-0.5">Today</div>
+          </div>
+
+          <div className="bg-gradient-to-br from-purple-50 to-purple-100/50 rounded-2xl p-4 border border-purple-200/50 shadow-sm">
+            <div className="text-2xl font-bold text-purple-900 tracking-tight">{analytics.totals.last_7_days}</div>
+            <div className="text-xs font-medium text-purple-700 mt-0.5">Last 7 Days</div>
+          </div>
+        </div>
+
+        <LeadAnalyticsPanel
+          analytics={analytics}
+          interval={analyticsInterval}
+          onIntervalChange={setAnalyticsInterval}
+          loading={analyticsLoading}
+        />
+
+        {/* Officer leaderboard, per dealer */}
+        {(role !== 'platform_admin' || dealerId) && (
+          <OfficerLeaderboard basePath={basePath} dealerId={dealerId} />
+        )}
+
+        {/* Quick Actions */}
+        <Card>
+          <CardContent className="space-y-3">
+            <Button fullWidth onClick={() => router.push(`${basePath}/leads`)}>
+              <svg className="mr-2 h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+              </svg>
+              View All Leads
+            </Button>
+
+            <Button fullWidth variant="outline" onClick={() => router.push(`${basePath}/officers`)}>
+              <svg className="mr-2 h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
+              </svg>
+              {role === 'supervisor' ? 'Manage Team' : 'Manage Officers'}
+            </Button>
+
+            {(role !== 'platform_admin' || dealerId) && (
+              <Button fullWidth variant="outline" onClick={() => router.push(`${basePath}/map`)}>
+                <svg className="mr-2 h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7" />
+                </svg>
+                Lead Map
+              </Button>
+            )}
+
+            {(role !== 'platform_admin' || dealerId) && (
+              <Button fullWidth variant="outline" onClick={() => router.push(`${basePath}/targets`)}>
+                <svg className="mr-2 h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+                Targets
+              </Button>
+            )}
+
+            {can('leads:create') && (
+              <Button fullWidth variant="outline" onClick={() => router.push('/')}>
+                <svg className="mr-2 h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+                </svg>
+                Capture a Lead
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Dealers (platform admins) */}
+        {canReadDealers && !dealerId && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Dealers ({dealers.length})</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {dealers.length === 0 ? (
+                <p className="text-center py-4 text-neutral-500">No dealers yet</p>
+              ) : (
+                <div className="space-y-2">
+                  {dealers.map(d => (
+                    <button
+                      key={d.id}
+                      onClick={() => router.push(`/dealer/${d.id}`)}
+                      className="w-full flex items-center justify-between p-3 bg-neutral-50 hover:bg-neutral-100 rounded-lg text-left transition-colors"
+                    >
+                      <div>
+                        <p className="font-medium text-neutral-900">{d.company}</p>
+                        <p className="text-sm text-neutral-700">{d.name} • {formatPhone(d.phone)}</p>
+                      </div>
+                      {d.role === 'platform_admin' && (
+                        <span className="text-xs font-medium text-primary-700 bg-primary-50 rounded-full px-2 py-0.5">
+                          Admin
+                        </span>
+                      )}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </AppShell>
+  );
+}
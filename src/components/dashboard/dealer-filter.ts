@@ -0,0 +1,9 @@
+/**
+ * Dealer filter for dashboard API calls
+ */
+
+// Narrow a list endpoint to one dealer (the API still applies the session scope)
+export function withDealerFilter(endpoint: string, dealerId?: string): string {
+  if (!dealerId) return endpoint;
+  return `${endpoint}${endpoint.includes('?') ? '&' : '?'}dealer_id=${encodeURIComponent(dealerId)}`;
+}
@@ -0,0 +1,39 @@
+/**
+ * Dashboard Components exports
+ */
+
+export { DashboardOverview } from './dashboard-overview';
+export { OfficersManager } from './officers-manager';
+export { LeadsBrowser } from './leads-browser';
+export { LeadDetailView } from './lead-detail-view';
+export { LeadStatusBadge, LeadStatusPanel } from './lead-status';
+export { LeadDuplicatesPanel } from './lead-duplicates';
+export { LeadActivityTimeline } from './lead-activities';
+export { LeadAssignmentPanel } from './lead-assignment';
+export { LeadImportPanel } from './lead-import';
+export { LeadExportPanel } from './lead-export';
+export { LeadMapPanel } from './lead-map';
+export { LeadAnalyticsPanel } from './lead-analytics';
+export { OfficerLeaderboard, OfficerScorecardCard, OfficerStats } from './officer-performance';
+export { OfficerScorecardView } from './officer-scorecard-view';
+export { TargetsManager } from './targets-manager';
+export { OfficerImportPanel } from './officer-import';
+export { DashboardLoading } from './dashboard-loading';
+
+export type { DashboardOverviewProps } from './dashboard-overview';
+export type { OfficersManagerProps } from './officers-manager';
+export type { LeadsBrowserProps, LeadsView } from './leads-browser';
+export type { LeadDetailViewProps } from './lead-detail-view';
+export type { LeadStatusBadgeProps, LeadStatusPanelProps } from './lead-status';
+export type { LeadDuplicatesPanelProps } from './lead-duplicates';
+export type { LeadActivityTimelineProps } from './lead-activities';
+export type { LeadAssignmentPanelProps } from './lead-assignment';
+export type { LeadImportPanelProps } from './lead-import';
+export type { LeadExportPanelProps } from './lead-export';
+export type { LeadMapPanelProps } from './lead-map';
+export type { LeadAnalyticsPanelProps } from './lead-analytics';
+export type { OfficerLeaderboardProps, OfficerScorecardCardProps, OfficerStatsProps } from './officer-performance';
+export type { OfficerScorecardViewProps } from './officer-scorecard-view';
+export type { TargetsManagerProps } from './targets-manager';
+export type { OfficerImportPanelProps } from './officer-import';
+export type { DashboardLoadingProps } from './dashboard-loading';
@@ -0,0 +1,323 @@
+/**
+ * Lead activity timeline: what happened after capture, with quick-add
+ * actions for notes, calls, visits and SMS
+ */
+
+'use client';
+
+import * as React from 'react';
+import { ArrowRightLeft, MapPin, MessageSquare, Phone, StickyNote, UserCheck, UserPlus } from 'lucide-react';
+import { Button, Card, CardContent, CardHeader, CardTitle, FormField } from '@/components/ui';
+import { useGeolocation } from '@/hooks/use-geolocation';
+import {
+  CALL_OUTCOMES,
+  FOLLOW_UP_OUTCOME_LABELS,
+  LEAD_ACTIVITY_LABELS,
+  LEAD_SOURCE_LABELS,
+  MANUAL_LEAD_ACTIVITY_TYPES,
+} from '@/lib/constants';
+import { cn } from '@/lib/utils';
+import { FollowUpOutcome, Lead, LeadActivity, LeadActivityType } from '@/types';
+import { LeadStatusBadge } from './lead-status';
+import { readErrorMessage } from './api-errors';
+
+type ManualActivityType = (typeof MANUAL_LEAD_ACTIVITY_TYPES)[number];
+
+const SELECT_CLASS = 'w-full h-12 text-sm rounded-lg border border-neutral-300 bg-white px-3 text-neutral-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-500/20';
+
+const ACTIVITY_ICONS: Record<LeadActivityType, React.ComponentType<{ className?: string }>> = {
+  note: StickyNote,
+  call: Phone,
+  visit: MapPin,
+  sms: MessageSquare,
+  status_change: ArrowRightLeft,
+  reassignment: UserCheck,
+};
+
+const ACTIVITY_ICON_CLASSES: Record<LeadActivityType, string> = {
+  note: 'bg-neutral-100 text-neutral-700',
+  call: 'bg-sky-50 text-sky-700',
+  visit: 'bg-emerald-50 text-emerald-700',
+  sms: 'bg-purple-50 text-purple-700',
+  status_change: 'bg-amber-50 text-amber-700',
+  reassignment: 'bg-blue-50 text-blue-700',
+};
+
+function mapsUrl(latitude: number, longitude: number): string {
+  return `https://www.google.com/maps?q=${latitude},${longitude}`;
+}
+
+// Inline form for one kind of entry. Notes need text; calls may record how
+// the call went; visits may carry the user's current location.
+function ActivityForm({ leadId, type, onAdded, onCancel }: {
+  leadId: string;
+  type: ManualActivityType;
+  onAdded: (activity: LeadActivity) => void;
+  onCancel: () => void;
+}) {
+  const [note, setNote] = React.useState('');
+  const [outcome, setOutcome] = React.useState<FollowUpOutcome | ''>('');
+  const [saving, setSaving] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const { coordinates, loading: locating, error: locationError, supported, getCurrentPosition } = useGeolocation();
+
+  const canSubmit = type !== 'note' || Boolean(note.trim());
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/leads/${leadId}/activities`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          type,
+          ...(note.trim() && { note: note.trim() }),
+          ...(type === 'call' && outcome && { outcome }),
+          ...(type === 'visit' && coordinates && {
+            gps_latitude: coordinates.latitude,
+            gps_longitude: coordinates.longitude,
+            gps_accuracy: coordinates.accuracy,
+          }),
+        }),
+      });
+
+      if (!res.ok) {
+        setError(await readErrorMessage(res, 'Failed to save the activity'));
+        return;
+      }
+
+      onAdded(await res.json());
+    } catch (err) {
+      console.error('Error recording lead activity:', err);
+      setError('Failed to save the activity');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 rounded-lg border border-neutral-200 p-3">
+      <p className="text-sm font-medium text-neutral-900">{LEAD_ACTIVITY_LABELS[type]}</p>
+
+      {type === 'call' && (
+        <select
+          value={outcome}
+          onChange={(e) => setOutcome(e.target.value as FollowUpOutcome | '')}
+          className={SELECT_CLASS}
+          aria-label="Call outcome"
+        >
+          <option value="">How did the call go?</option>
+          {CALL_OUTCOMES.map(value => (
+            <option key={value} value={value}>{FOLLOW_UP_OUTCOME_LABELS[value]}</option>
+          ))}
+        </select>
+      )}
+
+      {type === 'visit' && supported && (
+        coordinates ? (
+          <p className="text-xs text-neutral-600">
+            📍 {coordinates.latitude.toFixed(4)}, {coordinates.longitude.toFixed(4)}
+            {' '}(±{Math.round(coordinates.accuracy)}m)
+          </p>
+        ) : (
+          <div className="space-y-1">
+            <Button type="button" size="sm" variant="outline" loading={locating} onClick={getCurrentPosition}>
+              Add My Location
+            </Button>
+            {locationError && <p className="text-xs text-red-700">{locationError}</p>}
+          </div>
+        )
+      )}
+
+      <FormField
+        placeholder={type === 'note' ? 'What should others know?' : 'Note (optional)'}
+        value={note}
+        maxLength={1000}
+        onChange={(e) => setNote(e.target.value)}
+        required={type === 'note'}
+      />
+
+      {error && <p className="text-sm text-red-700">{error}</p>}
+
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" fullWidth onClick={onCancel} disabled={saving}>
+          Cancel
+        </Button>
+        <Button type="submit" fullWidth loading={saving} disabled={!canSubmit}>
+          Save
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+function ActivityItem({ activity }: { activity: LeadActivity }) {
+  const Icon = ACTIVITY_ICONS[activity.type] ?? StickyNote;
+  const hasLocation = activity.gps_latitude !== null && activity.gps_longitude !== null;
+
+  return (
+    <li className="flex gap-3">
+      <span
+        className={cn(
+          'flex h-8 w-8 shrink-0 items-center justify-center rounded-full',
+          ACTIVITY_ICON_CLASSES[activity.type] ?? ACTIVITY_ICON_CLASSES.note
+        )}
+      >
+        <Icon className="h-4 w-4" />
+      </span>
+      <div className="min-w-0 flex-1 space-y-1 text-xs">
+        <div className="flex items-center gap-1 flex-wrap text-sm">
+          <span className="font-medium text-neutral-900">{LEAD_ACTIVITY_LABELS[activity.type] ?? activity.type}</span>
+          {activity.outcome && (
+            <span className="text-neutral-600">• {FOLLOW_UP_OUTCOME_LABELS[activity.outcome]}</span>
+          )}
+        </div>
+        {activity.type === 'status_change' && activity.to_status && (
+          <div className="flex items-center gap-1 flex-wrap">
+            {activity.from_status && (
+              <>
+                <LeadStatusBadge status={activity.from_status} />
+                <span className="text-neutral-400">→</span>
+              </>
+            )}
+            <LeadStatusBadge status={activity.to_status} />
+          </div>
+        )}
+        {activity.type === 'reassignment' && (
+          <p className="text-neutral-700">
+            {activity.from_officer_name ?? 'Another officer'} → {activity.to_officer_name ?? 'another officer'}
+          </p>
+        )}
+        {activity.note && <p className="text-neutral-700 whitespace-pre-line break-words">{activity.note}</p>}
+        {hasLocation && (
+          <a
+            href={mapsUrl(Number(activity.gps_latitude), Number(activity.gps_longitude))}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-primary-700 hover:underline"
+          >
+            📍 {Number(activity.gps_latitude).toFixed(4)}, {Number(activity.gps_longitude).toFixed(4)}
+          </a>
+        )}
+        <p className="text-neutral-500">
+          {activity.created_by_name ?? 'Another user'} • {new Date(activity.created_at).toLocaleString()}
+        </p>
+      </div>
+    </li>
+  );
+}
+
+export interface LeadActivityTimelineProps {
+  lead: Lead;
+  canAdd: boolean;
+  className?: string;
+}
+
+export function LeadActivityTimeline({ lead, canAdd, className }: LeadActivityTimelineProps) {
+  const [activities, setActivities] = React.useState<LeadActivity[]>([]);
+  const [loading, setLoading] = React.useState(true);
+  const [loadError, setLoadError] = React.useState<string | null>(null);
+  const [adding, setAdding] = React.useState<ManualActivityType | null>(null);
+
+  const load = React.useCallback(async () => {
+    setLoadError(null);
+
+    try {
+      const res = await fetch(`/api/leads/${lead.id}/activities`);
+      if (!res.ok) {
+        setLoadError(await readErrorMessage(res, 'Failed to load activity'));
+        return;
+      }
+      setActivities(await res.json());
+    } catch (err) {
+      console.error('Error fetching lead activities:', err);
+      setLoadError('Failed to load activity');
+    } finally {
+      setLoading(false);
+    }
+  }, [lead.id]);
+
+  // Reloaded when the lead changes, so status changes made elsewhere on the
+  // page show up here
+  const leadUpdatedAt = lead.updated_at;
+  React.useEffect(() => {
+    load();
+  }, [load, leadUpdatedAt]);
+
+  const handleAdded = (activity: LeadActivity) => {
+    setActivities(current => [activity, ...current]);
+    setAdding(null);
+  };
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle>Activity</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {canAdd && !lead.merged_into_id && (
+          adding ? (
+            <ActivityForm
+              key={adding}
+              leadId={lead.id}
+              type={adding}
+              onAdded={handleAdded}
+              onCancel={() => setAdding(null)}
+            />
+          ) : (
+            <div className="grid grid-cols-4 gap-2">
+              {MANUAL_LEAD_ACTIVITY_TYPES.map(type => {
+                const Icon = ACTIVITY_ICONS[type];
+                return (
+                  <Button key={type} type="button" size="sm" variant="outline" onClick={() => setAdding(type)}>
+                    <Icon className="h-4 w-4 mr-1" />
+                    {type === 'sms' ? 'SMS' : LEAD_ACTIVITY_LABELS[type]}
+                  </Button>
+                );
+              })}
+            </div>
+          )
+        )}
+
+        {loadError && (
+          <div className="flex items-center justify-between gap-3 text-sm text-red-700">
+            <span>{loadError}</span>
+            <Button size="sm" variant="outline" onClick={load}>
+              Retry
+            </Button>
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-sm text-neutral-500">Loading activity...</p>
+        ) : (
+          <ol className="space-y-4">
+            {activities.map(activity => (
+              <ActivityItem key={activity.id} activity={activity} />
+            ))}
+            <li className="flex gap-3">
+              <span className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-blue-50 text-blue-700">
+                <UserPlus className="h-4 w-4" />
+              </span>
+              <div className="text-xs space-y-1">
+                <p className="text-sm font-medium text-neutral-900">
+                  {lead.source === 'import' ? LEAD_SOURCE_LABELS.import : 'Captured'}
+                </p>
+                <p className="text-neutral-500">
+                  {lead.source === 'import'
+                    ? lead.source_detail ?? 'From a spreadsheet'
+                    : lead.captured_by_officer?.name ?? 'Officer'} • {new Date(lead.created_at).toLocaleString()}
+                </p>
+              </div>
+            </li>
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
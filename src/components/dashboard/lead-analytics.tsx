@@ -0,0 +1,212 @@
+/**
+ * Lead analytics charts: leads per day, week or month, and where they stand
+ * by status, officer, ward and phone model. Counts come from GET /api/analytics.
+ */
+
+'use client';
+
+import * as React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui';
+import { ANALYTICS_INTERVALS, LEAD_STATUS_LABELS } from '@/lib/constants';
+import { cn } from '@/lib/utils';
+import { AnalyticsInterval, LeadAnalytics, LeadStatus } from '@/types';
+
+const INTERVAL_LABELS: Record<AnalyticsInterval, string> = {
+  day: 'Daily',
+  week: 'Weekly',
+  month: 'Monthly',
+};
+
+const STATUS_BAR_CLASSES: Record<LeadStatus, string> = {
+  new: 'bg-blue-500',
+  contacted: 'bg-sky-500',
+  follow_up: 'bg-amber-500',
+  negotiating: 'bg-purple-500',
+  won: 'bg-emerald-500',
+  lost: 'bg-red-500',
+};
+
+// Period start dates are calendar days, so format them without shifting zones
+function formatPeriod(period: string, interval: AnalyticsInterval): string {
+  const date = new Date(`${period}T00:00:00Z`);
+
+  if (interval === 'month') {
+    return date.toLocaleDateString(undefined, { month: 'short', year: 'numeric', timeZone: 'UTC' });
+  }
+
+  const day = date.toLocaleDateString(undefined, { day: 'numeric', month: 'short', timeZone: 'UTC' });
+  return interval === 'week' ? `Week of ${day}` : day;
+}
+
+interface BarListItem {
+  key: string;
+  label: string;
+  count: number;
+  barClass?: string;
+}
+
+function BarList({ items, empty }: { items: BarListItem[]; empty: string }) {
+  const max = Math.max(1, ...items.map(item => item.count));
+
+  if (items.every(item => item.count === 0)) {
+    return <p className="text-sm text-neutral-500">{empty}</p>;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {items.map(item => (
+        <li key={item.key}>
+          <div className="flex justify-between text-sm">
+            <span className="truncate text-neutral-800">{item.label}</span>
+            <span className="ml-2 font-medium text-neutral-900">{item.count}</span>
+          </div>
+          <div className="mt-1 h-2 rounded-full bg-neutral-100">
+            <div
+              className={cn('h-2 rounded-full', item.barClass ?? 'bg-primary-500')}
+              style={{ width: `${(item.count / max) * 100}%` }}
+            />
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export interface LeadAnalyticsPanelProps {
+  analytics: LeadAnalytics;
+  interval: AnalyticsInterval;
+  onIntervalChange: (interval: AnalyticsInterval) => void;
+  loading?: boolean; // a new interval is loading
+  showOfficers?: boolean; // leave out for a single officer's own leads
+}
+
+export function LeadAnalyticsPanel({
+  analytics,
+  interval,
+  onIntervalChange,
+  loading = false,
+  showOfficers = true,
+}: LeadAnalyticsPanelProps) {
+  const max = Math.max(1, ...analytics.series.map(point => point.count));
+  const first = analytics.series[0];
+  const last = analytics.series[analytics.series.length - 1];
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Leads Captured</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="flex gap-2" role="group" aria-label="Group leads by">
+            {ANALYTICS_INTERVALS.map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => onIntervalChange(option)}
+                aria-pressed={interval === option}
+                className={cn(
+                  'flex-1 rounded-lg border px-3 py-1.5 text-sm font-medium transition-colors',
+                  interval === option
+                    ? 'border-primary-500 bg-primary-50 text-primary-700'
+                    : 'border-neutral-300 bg-white text-neutral-700 hover:bg-neutral-50'
+                )}
+              >
+                {INTERVAL_LABELS[option]}
+              </button>
+            ))}
+          </div>
+
+          <p className="text-sm text-neutral-700">
+            {analytics.totals.in_range} {analytics.totals.in_range === 1 ? 'lead' : 'leads'} from{' '}
+            {formatPeriod(analytics.from, 'day')} to {formatPeriod(analytics.to, 'day')}
+          </p>
+
+          <div
+            className={cn('flex h-32 items-end gap-px', loading && 'opacity-50')}
+            role="img"
+            aria-label={`Leads per ${interval}`}
+          >
+            {analytics.series.map(point => (
+              <div
+                key={point.period}
+                className="flex-1 rounded-t bg-primary-500"
+                style={{ height: `${Math.max((point.count / max) * 100, point.count > 0 ? 4 : 1)}%` }}
+                title={`${formatPeriod(point.period, interval)}: ${point.count}`}
+              />
+            ))}
+          </div>
+          {first && last && (
+            <div className="flex justify-between text-xs text-neutral-500">
+              <span>{formatPeriod(first.period, interval)}</span>
+              <span>{formatPeriod(last.period, interval)}</span>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>By Status</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <BarList
+            empty="No leads in this period"
+            items={analytics.by_status.map(row => ({
+              key: row.status,
+              label: LEAD_STATUS_LABELS[row.status] ?? row.status,
+              count: row.count,
+              barClass: STATUS_BAR_CLASSES[row.status],
+            }))}
+          />
+        </CardContent>
+      </Card>
+
+      {showOfficers && (
+        <Card>
+          <CardHeader>
+            <CardTitle>By Officer</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <BarList
+              empty="No leads in this period"
+              items={analytics.by_officer.map(row => ({
+                key: row.officer_id,
+                label: row.officer_name ?? 'Unknown officer',
+                count: row.count,
+              }))}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Top Wards</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <BarList
+            empty="No leads in this period"
+            items={analytics.by_ward.map(row => ({ key: row.ward, label: row.ward, count: row.count }))}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Top Phone Models</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <BarList
+            empty="No leads in this period"
+            items={analytics.by_phone_model.map(row => ({
+              key: row.phone_model,
+              label: row.phone_model,
+              count: row.count,
+            }))}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+/**
+ * Lead assignment: which officer works the lead, and moving it to another.
+ * The officer who captured it stays credited with the capture.
+ */
+
+'use client';
+
+import * as React from 'react';
+import { Button, FormField } from '@/components/ui';
+import { Lead, Officer } from '@/types';
+import { readErrorMessage } from './api-errors';
+import { withDealerFilter } from './dealer-filter';
+
+const SELECT_CLASS = 'w-full h-12 text-sm rounded-lg border border-neutral-300 bg-white px-3 text-neutral-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-500/20';
+
+export interface LeadAssignmentPanelProps {
+  lead: Lead;
+  onReassigned: (lead: Lead) => void;
+}
+
+export function LeadAssignmentPanel({ lead, onReassigned }: LeadAssignmentPanelProps) {
+  const [officers, setOfficers] = React.useState<Officer[]>([]);
+  const [officerId, setOfficerId] = React.useState('');
+  const [reason, setReason] = React.useState('');
+  const [saving, setSaving] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const dealerId = lead.officer?.dealer_id;
+
+  React.useEffect(() => {
+    let cancelled = false;
+
+    // The API scopes the list to the session; platform admins narrow it to
+    // the lead's dealer
+    fetch(withDealerFilter('/api/officers', dealerId))
+      .then(res => (res.ok ? res.json() : []))
+      .then((found: Officer[]) => {
+        if (!cancelled) setOfficers(found);
+      })
+      .catch(err => console.error('Error fetching officers:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dealerId]);
+
+  const candidates = officers.filter(o => o.id !== lead.officer_id && o.dealer_id === dealerId);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!officerId) return;
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/leads/${lead.id}/assign`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          officer_id: officerId,
+          ...(reason.trim() && { reason: reason.trim() }),
+        }),
+      });
+
+      if (!res.ok) {
+        setError(await readErrorMessage(res, 'Failed to reassign the lead'));
+        return;
+      }
+
+      onReassigned(await res.json());
+      setOfficerId('');
+      setReason('');
+    } catch (err) {
+      console.error('Error reassigning lead:', err);
+      setError('Failed to reassign the lead');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (candidates.length === 0) {
+    return <p className="text-sm text-neutral-500">No other officers to reassign to</p>;
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <select
+        value={officerId}
+        onChange={(e) => setOfficerId(e.target.value)}
+        className={SELECT_CLASS}
+        aria-label="New officer"
+      >
+        <option value="">Move to officer...</option>
+        {candidates.map(officer => (
+          <option key={officer.id} value={officer.id}>{officer.name}</option>
+        ))}
+      </select>
+
+      {officerId && (
+        <FormField
+          placeholder="Reason (optional)"
+          value={reason}
+          maxLength={200}
+          onChange={(e) => setReason(e.target.value)}
+        />
+      )}
+
+      {error && <p className="text-sm text-red-700">{error}</p>}
+
+      <Button type="submit" fullWidth disabled={!officerId || saving}>
+        {saving ? 'Reassigning...' : 'Reassign Lead'}
+      </Button>
+    </form>
+  );
+}
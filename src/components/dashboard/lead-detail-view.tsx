@@ -0,0 +1,382 @@
+/**
+ * Lead detail page shared by platform admins, dealers and supervisors
+ * Shows one lead and lets users with the permission correct or remove it.
+ */
+
+'use client';
+
+import * as React from 'react';
+import { useRouter } from 'next/navigation';
+import { AppShell } from '@/components/layout';
+import { Button, Card, CardContent, CardHeader, CardTitle, FormField } from '@/components/ui';
+import { UseManagerSessionReturn } from '@/hooks/use-manager-session';
+import { LEAD_SOURCE_LABELS } from '@/lib/constants';
+import { formatPhone, getPhoneCarrier, PHONE_CARRIER_LABELS } from '@/lib/phone';
+import { Lead } from '@/types';
+import { readErrorBody, readErrorMessage } from './api-errors';
+import { DashboardLoading } from './dashboard-loading';
+import { LeadActivityTimeline } from './lead-activities';
+import { LeadAssignmentPanel } from './lead-assignment';
+import { LeadDuplicatesPanel } from './lead-duplicates';
+import { LeadStatusPanel } from './lead-status';
+
+export interface LeadDetailViewProps {
+  session: UseManagerSessionReturn;
+  basePath: string; // '/admin' or '/dealer/<id>'
+  leadId: string;
+}
+
+// Fields that can be corrected after capture
+const EDITABLE_FIELDS = [
+  { key: 'lead_name', label: 'Lead Name', type: 'text' },
+  { key: 'phone_contact', label: 'Phone Number', type: 'tel' },
+  { key: 'residence', label: 'Residence', type: 'text' },
+  { key: 'interested_phone_model', label: 'Interested Phone Model', type: 'text' },
+  { key: 'next_contact_date', label: 'Next Contact Date', type: 'date' },
+  { key: 'area_of_activity', label: 'Area of Activity', type: 'text' },
+  { key: 'ward', label: 'Ward', type: 'text' },
+] as const;
+
+type EditableField = typeof EDITABLE_FIELDS[number]['key'];
+type LeadForm = Record<EditableField, string>;
+
+function toForm(lead: Lead): LeadForm {
+  return {
+    lead_name: lead.lead_name,
+    phone_contact: lead.phone_contact,
+    residence: lead.residence,
+    interested_phone_model: lead.interested_phone_model,
+    next_contact_date: lead.next_contact_date,
+    area_of_activity: lead.area_of_activity,
+    ward: lead.ward,
+  };
+}
+
+export function LeadDetailView({ session, basePath, leadId }: LeadDetailViewProps) {
+  const router = useRouter();
+  const { role, can } = session;
+  const listPath = `${basePath}/leads`;
+
+  const [lead, setLead] = React.useState<Lead | null>(null);
+  const [loading, setLoading] = React.useState(true);
+  const [loadError, setLoadError] = React.useState<string | null>(null);
+  const [editing, setEditing] = React.useState(false);
+  const [form, setForm] = React.useState<LeadForm | null>(null);
+  const [saving, setSaving] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = React.useState<Record<string, string[]>>({});
+
+  React.useEffect(() => {
+    if (!role) return;
+
+    const loadLead = async () => {
+      try {
+        const res = await fetch(`/api/leads/${leadId}`);
+        if (!res.ok) {
+          setLoadError(await readErrorMessage(res, 'Failed to load lead'));
+          return;
+        }
+
+        setLead(await res.json());
+      } catch (err) {
+        console.error('Error fetching lead:', err);
+        setLoadError('Failed to load lead');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadLead();
+  }, [role, leadId]);
+
+  const startEditing = () => {
+    if (!lead) return;
+    setForm(toForm(lead));
+    setFieldErrors({});
+    setError(null);
+    setEditing(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!lead || !form) return;
+
+    // Send only what changed
+    const original = toForm(lead);
+    const changes = Object.fromEntries(
+      Object.entries(form)
+        .map(([key, value]) => [key, value.trim()])
+        .filter(([key, value]) => value !== original[key as EditableField])
+    );
+
+    if (Object.keys(changes).length === 0) {
+      setEditing(false);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    setFieldErrors({});
+
+    try {
+      const res = await fetch(`/api/leads/${lead.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+
+      if (!res.ok) {
+        const body = await readErrorBody(res);
+        setError(body.message || 'Failed to save lead');
+        setFieldErrors(body.fieldErrors ?? {});
+        return;
+      }
+
+      setLead(await res.json());
+      setEditing(false);
+    } catch (err) {
+      console.error('Error updating lead:', err);
+      setError('Failed to save lead');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Merging this lead away leaves the kept one as the place to work on
+  const handleMerged = (kept: Lead, mergedId: string) => {
+    if (mergedId === lead?.id) {
+      router.push(`${basePath}/leads/${kept.id}`);
+    } else {
+      setLead(kept);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!lead || !confirm('Are you sure you want to delete this lead?')) return;
+
+    try {
+      setError(null);
+      const res = await fetch(`/api/leads/${lead.id}`, { method: 'DELETE' });
+
+      if (!res.ok) {
+        setError(await readErrorMessage(res, 'Failed to delete lead'));
+        return;
+      }
+
+      router.push(listPath);
+    } catch (err) {
+      console.error('Error deleting lead:', err);
+      setError('Failed to delete lead');
+    }
+  };
+
+  if (loading) {
+    return (
+      <DashboardLoading
+        title="Lead"
+        message="Loading lead..."
+        onBackClick={() => router.push(listPath)}
+      />
+    );
+  }
+
+  if (loadError || !lead) {
+    return (
+      <AppShell title="Lead" showBackButton onBackClick={() => router.push(listPath)}>
+        <div className="text-center py-8">
+          <div className="bg-red-50 border border-red-200 rounded-lg p-6">
+            <h3 className="text-lg font-medium text-red-900 mb-2">Lead Unavailable</h3>
+            <p className="text-red-700 mb-4">{loadError || 'Failed to load lead'}</p>
+            <Button onClick={() => router.push(listPath)}>Back to Leads</Button>
+          </div>
+        </div>
+      </AppShell>
+    );
+  }
+
+  const carrier = getPhoneCarrier(lead.phone_contact);
+
+  return (
+    <AppShell title="Lead" showBackButton onBackClick={() => router.push(listPath)}>
+      <div className="space-y-4">
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        {lead.merged_into_id && (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-900 space-y-2">
+            <p>This lead was merged into another lead and no longer appears in lists.</p>
+            <Button size="sm" variant="outline" onClick={() => router.push(`${basePath}/leads/${lead.merged_into_id}`)}>
+              Open Kept Lead
+            </Button>
+          </div>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{editing ? 'Edit Lead' : lead.lead_name}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {editing && form ? (
+              <form onSubmit={handleSave} className="space-y-4">
+                {EDITABLE_FIELDS.map(field => (
+                  <FormField
+                    key={field.key}
+                    label={field.label}
+                    type={field.type}
+                    placeholder={field.type === 'tel' ? '0712345678' : undefined}
+                    value={form[field.key]}
+                    error={fieldErrors[field.key]?.[0]}
+                    onChange={(e) => setForm({ ...form, [field.key]: e.target.value })}
+                    required
+                  />
+                ))}
+
+                <div className="flex gap-2">
+                  <Button type="submit" fullWidth disabled={saving}>
+                    {saving ? 'Saving...' : 'Save Changes'}
+                  </Button>
+                  <Button type="button" variant="outline" fullWidth onClick={() => setEditing(false)}>
+                    Cancel
+                  </Button>
+                </div>
+              </form>
+            ) : (
+              <div className="grid grid-cols-2 gap-3 text-sm">
+                {EDITABLE_FIELDS.filter(field => field.key !== 'lead_name').map(field => (
+                  <div key={field.key}>
+                    <span className="text-neutral-600 font-medium text-xs">{field.label}</span>
+                    <div className="font-semibold text-neutral-900">
+                      {field.type === 'date'
+                        ? new Date(lead[field.key]).toLocaleDateString()
+                        : field.type === 'tel'
+                          ? formatPhone(lead[field.key], 'national')
+                          : lead[field.key]}
+                    </div>
+                    {field.type === 'tel' && carrier && (
+                      <span className="text-xs text-neutral-500">{PHONE_CARRIER_LABELS[carrier]}</span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {!editing && (
+          <LeadStatusPanel lead={lead} canUpdate={can('leads:update')} onChanged={setLead} />
+        )}
+
+        {!editing && (
+          <LeadActivityTimeline lead={lead} canAdd={can('leads:update')} />
+        )}
+
+        {!editing && !lead.merged_into_id && can('leads:merge') && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Duplicates</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <LeadDuplicatesPanel key={lead.id} lead={lead} onMerged={handleMerged} />
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardContent className="space-y-2 text-sm">
+            <div className="flex items-center justify-between">
+              <span className="text-neutral-600">
+                {lead.captured_by && lead.captured_by === lead.officer_id ? 'Captured by' : 'Assigned to'}
+              </span>
+              <span className="font-medium text-neutral-900">
+                {lead.officer?.name ?? 'Unknown'}
+                {lead.officer?.phone && <span className="text-neutral-500"> • {formatPhone(lead.officer.phone)}</span>}
+              </span>
+            </div>
+            {lead.captured_by !== lead.officer_id && (
+              <div className="flex items-center justify-between">
+                <span className="text-neutral-600">Captured by</span>
+                <span className="font-medium text-neutral-900">
+                  {lead.captured_by_officer?.name ?? (lead.captured_by ? 'Another officer' : 'Removed officer')}
+                </span>
+              </div>
+            )}
+            {role === 'platform_admin' && lead.officer?.dealer && (
+              <div className="flex items-center justify-between">
+                <span className="text-neutral-600">Dealer</span>
+                <span className="font-medium text-neutral-900">{lead.officer.dealer.company}</span>
+              </div>
+            )}
+            <div className="flex items-center justify-between">
+              <span className="text-neutral-600">{lead.source === 'import' ? 'Imported on' : 'Captured on'}</span>
+              <span className="font-medium text-neutral-900">{new Date(lead.created_at).toLocaleString()}</span>
+            </div>
+            {lead.source === 'import' && (
+              <div className="flex items-center justify-between">
+                <span className="text-neutral-600">Source</span>
+                <span className="font-medium text-neutral-900">
+                  {lead.source_detail ?? LEAD_SOURCE_LABELS.import}
+                </span>
+              </div>
+            )}
+            {lead.updated_at !== lead.created_at && (
+              <div className="flex items-center justify-between">
+                <span className="text-neutral-600">Last changed</span>
+                <span className="font-medium text-neutral-900">{new Date(lead.updated_at).toLocaleString()}</span>
+              </div>
+            )}
+            {lead.gps_latitude && lead.gps_longitude && (
+              <div className="flex items-center justify-between">
+                <span className="text-neutral-600">Location</span>
+                <span className="font-medium text-neutral-900">
+                  📍 {Number(lead.gps_latitude).toFixed(4)}, {Number(lead.gps_longitude).toFixed(4)}
+                </span>
+              </div>
+            )}
+            {lead.gps_region && (
+              <div className="flex items-center justify-between">
+                <span className="text-neutral-600">{lead.gps_ward ? 'GPS ward' : 'GPS area'}</span>
+                <span className={`font-medium ${lead.ward_mismatch ? 'text-amber-800' : 'text-neutral-900'}`}>
+                  {[lead.gps_ward, lead.gps_district, lead.gps_region].filter(Boolean).join(', ')}
+                </span>
+              </div>
+            )}
+            {lead.ward_mismatch && (
+              <p className="text-xs text-amber-800">
+                The ward typed for this lead is not the ward its GPS location is in.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {!editing && !lead.merged_into_id && can('leads:assign') && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Reassign</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <LeadAssignmentPanel lead={lead} onReassigned={setLead} />
+            </CardContent>
+          </Card>
+        )}
+
+        {!editing && (
+          <div className="space-y-3">
+            {can('leads:update') && (
+              <Button fullWidth onClick={startEditing}>
+                Edit Lead
+              </Button>
+            )}
+            {can('leads:delete') && (
+              <Button fullWidth variant="destructive" onClick={handleDelete}>
+                Delete Lead
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+    </AppShell>
+  );
+}
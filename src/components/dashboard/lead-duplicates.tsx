@@ -0,0 +1,136 @@
+/**
+ * Duplicate leads: other leads at the dealer with the same phone number,
+ * and merging them. The lead that is kept decides which officer is credited;
+ * the other capture record stays on file, merged into it.
+ */
+
+'use client';
+
+import * as React from 'react';
+import { Button } from '@/components/ui';
+import { fetchLeadDuplicates } from '@/lib/leads';
+import { Lead, LeadDuplicate } from '@/types';
+import { readErrorMessage } from './api-errors';
+import { LeadStatusBadge } from './lead-status';
+
+export interface LeadDuplicatesPanelProps {
+  lead: Lead;
+  onMerged: (kept: Lead, mergedId: string) => void;
+}
+
+export function LeadDuplicatesPanel({ lead, onMerged }: LeadDuplicatesPanelProps) {
+  const [duplicates, setDuplicates] = React.useState<LeadDuplicate[]>([]);
+  const [loading, setLoading] = React.useState(true);
+  const [merging, setMerging] = React.useState<string | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const dealerId = lead.officer?.dealer_id;
+
+  React.useEffect(() => {
+    let cancelled = false;
+
+    fetchLeadDuplicates(lead.phone_contact, { dealerId, excludeId: lead.id })
+      .then(found => {
+        if (!cancelled) setDuplicates(found);
+      })
+      .catch(err => {
+        console.error('Error fetching duplicate leads:', err);
+        if (!cancelled) setError('Failed to check for duplicates');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [lead.id, lead.phone_contact, dealerId]);
+
+  // Keep one lead and merge the other into it
+  const merge = async (keptId: string, mergedId: string, creditedName: string) => {
+    if (!confirm(`Merge these leads and credit ${creditedName}? The other record is kept but hidden from lists.`)) {
+      return;
+    }
+
+    setMerging(keptId === lead.id ? mergedId : keptId);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/leads/${keptId}/merge`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ duplicate_id: mergedId }),
+      });
+
+      if (!res.ok) {
+        setError(await readErrorMessage(res, 'Failed to merge leads'));
+        return;
+      }
+
+      setDuplicates(current => current.filter(duplicate => duplicate.id !== mergedId));
+      onMerged(await res.json(), mergedId);
+    } catch (err) {
+      console.error('Error merging leads:', err);
+      setError('Failed to merge leads');
+    } finally {
+      setMerging(null);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-xs text-neutral-500">Checking for duplicates...</p>;
+  }
+
+  if (duplicates.length === 0) {
+    return error
+      ? <p className="text-xs text-red-700">{error}</p>
+      : <p className="text-xs text-neutral-500">No other leads with this number</p>;
+  }
+
+  const officerName = lead.officer?.name ?? 'this officer';
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs font-medium text-amber-900">
+        Same number captured {duplicates.length === 1 ? 'once more' : `${duplicates.length} more times`}
+      </p>
+
+      {duplicates.map(duplicate => (
+        <div key={duplicate.id} className="bg-amber-50 border border-amber-200 rounded-lg p-2 space-y-2">
+          <div className="flex items-center justify-between gap-2 text-xs">
+            <div className="min-w-0">
+              <div className="font-semibold text-neutral-900 truncate">{duplicate.lead_name}</div>
+              <div className="text-neutral-600">
+                {duplicate.officer_name} • {duplicate.ward} • {new Date(duplicate.created_at).toLocaleDateString()}
+              </div>
+            </div>
+            <LeadStatusBadge status={duplicate.status} />
+          </div>
+
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              fullWidth
+              disabled={merging !== null}
+              onClick={() => merge(lead.id, duplicate.id, officerName)}
+            >
+              Keep this, credit {officerName}
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              fullWidth
+              disabled={merging !== null}
+              onClick={() => merge(duplicate.id, lead.id, duplicate.officer_name)}
+            >
+              Keep other, credit {duplicate.officer_name}
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      {error && <p className="text-xs text-red-700">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+/**
+ * Lead export: pick a format, the columns and a capture date range, then
+ * download every lead matching the list's filters. The server streams the
+ * file, so the browser saves it as it arrives.
+ */
+
+'use client';
+
+import * as React from 'react';
+import { Button } from '@/components/ui';
+import {
+  LEAD_EXPORT_COLUMN_KEYS,
+  LEAD_EXPORT_COLUMNS,
+  LEAD_EXPORT_DEFAULT_COLUMNS,
+  LEAD_EXPORT_FORMAT_LABELS,
+  LEAD_EXPORT_FORMATS,
+} from '@/lib/constants';
+import { buildLeadExportUrl } from '@/lib/leads';
+import { LeadExportColumn, LeadExportFormat, LeadListParams } from '@/types';
+
+const SELECT_CLASS = 'w-full h-10 text-sm rounded-lg border border-neutral-300 bg-white px-2 text-neutral-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-500/20';
+
+export interface LeadExportPanelProps {
+  params: Omit<LeadListParams, 'limit' | 'cursor'>; // the list's filters and sort
+  total: number; // leads matching the filters
+}
+
+export function LeadExportPanel({ params, total }: LeadExportPanelProps) {
+  const [format, setFormat] = React.useState<LeadExportFormat>('csv');
+  const [columns, setColumns] = React.useState<Set<LeadExportColumn>>(new Set(LEAD_EXPORT_DEFAULT_COLUMNS));
+  const [createdFrom, setCreatedFrom] = React.useState(params.created_from ?? '');
+  const [createdTo, setCreatedTo] = React.useState(params.created_to ?? '');
+
+  // Follow the list's date filter when it changes
+  React.useEffect(() => {
+    setCreatedFrom(params.created_from ?? '');
+    setCreatedTo(params.created_to ?? '');
+  }, [params.created_from, params.created_to]);
+
+  const datesInOrder = !createdFrom || !createdTo || createdFrom <= createdTo;
+  const datesChanged = createdFrom !== (params.created_from ?? '') || createdTo !== (params.created_to ?? '');
+
+  const toggleColumn = (column: LeadExportColumn) => {
+    const next = new Set(columns);
+    if (next.has(column)) {
+      next.delete(column);
+    } else {
+      next.add(column);
+    }
+    setColumns(next);
+  };
+
+  const handleExport = () => {
+    window.location.assign(buildLeadExportUrl({
+      ...params,
+      created_from: createdFrom,
+      created_to: createdTo,
+      format,
+      // Keep the column order of the export, not the order they were ticked
+      columns: LEAD_EXPORT_COLUMN_KEYS.filter(column => columns.has(column)).join(','),
+    }));
+  };
+
+  return (
+    <div className="space-y-4">
+      <label className="block text-xs font-medium text-neutral-700">
+        Format
+        <select
+          value={format}
+          onChange={(e) => setFormat(e.target.value as LeadExportFormat)}
+          className={`${SELECT_CLASS} mt-1`}
+        >
+          {LEAD_EXPORT_FORMATS.map(option => (
+            <option key={option} value={option}>{LEAD_EXPORT_FORMAT_LABELS[option]}</option>
+          ))}
+        </select>
+      </label>
+      {format === 'geojson' && (
+        <p className="text-xs text-neutral-600">Only leads captured with a GPS location are included.</p>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        <label className="block text-xs font-medium text-neutral-700">
+          Captured from
+          <input
+            type="date"
+            value={createdFrom}
+            onChange={(e) => setCreatedFrom(e.target.value)}
+            className={`${SELECT_CLASS} mt-1`}
+          />
+        </label>
+        <label className="block text-xs font-medium text-neutral-700">
+          Captured to
+          <input
+            type="date"
+            value={createdTo}
+            onChange={(e) => setCreatedTo(e.target.value)}
+            className={`${SELECT_CLASS} mt-1`}
+          />
+        </label>
+      </div>
+      {!datesInOrder && <p className="text-sm text-red-700">The start date must not be after the end date.</p>}
+
+      <fieldset>
+        <legend className="text-xs font-medium text-neutral-700">Columns</legend>
+        <div className="mt-1 grid grid-cols-2 gap-x-3 gap-y-1">
+          {LEAD_EXPORT_COLUMN_KEYS.map(column => (
+            <label key={column} className="flex items-center gap-2 text-sm text-neutral-700">
+              <input type="checkbox" checked={columns.has(column)} onChange={() => toggleColumn(column)} />
+              {LEAD_EXPORT_COLUMNS[column]}
+            </label>
+          ))}
+        </div>
+        <div className="mt-2 flex gap-3 text-xs">
+          <button type="button" className="text-primary-700 underline" onClick={() => setColumns(new Set(LEAD_EXPORT_COLUMN_KEYS))}>
+            All
+          </button>
+          <button type="button" className="text-primary-700 underline" onClick={() => setColumns(new Set(LEAD_EXPORT_DEFAULT_COLUMNS))}>
+            Default
+          </button>
+        </div>
+      </fieldset>
+
+      <Button fullWidth onClick={handleExport} disabled={columns.size === 0 || !datesInOrder}>
+        {datesChanged
+          ? 'Export Leads'
+          : `Export ${total} ${total === 1 ? 'Lead' : 'Leads'}`}
+      </Button>
+    </div>
+  );
+}
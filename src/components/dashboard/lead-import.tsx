@@ -0,0 +1,370 @@
+/**
+ * Lead import: read a spreadsheet, map its columns onto lead fields, preview
+ * every row, then save the accepted ones. Rejected rows can be downloaded
+ * with their problems, fixed and imported again.
+ */
+
+'use client';
+
+import * as React from 'react';
+import { Button, FormField } from '@/components/ui';
+import { findCsvColumn, parseCsv, toCsv, toCsvRecords } from '@/lib/csv';
+import { LEAD_IMPORT_COLUMNS, LEAD_IMPORT_FIELD_LABELS, LEAD_IMPORT_MAX_ROWS } from '@/lib/constants';
+import { formatPhone, isValidPhone } from '@/lib/phone';
+import { LeadImportRow, Officer } from '@/types';
+import { readErrorMessage } from './api-errors';
+import { withDealerFilter } from './dealer-filter';
+
+type LeadImportField = keyof typeof LEAD_IMPORT_COLUMNS;
+
+const FIELDS = Object.keys(LEAD_IMPORT_COLUMNS) as LeadImportField[];
+
+const SELECT_CLASS = 'w-full h-10 text-sm rounded-lg border border-neutral-300 bg-white px-2 text-neutral-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-500/20';
+
+const STATUS_LABELS: Record<LeadImportRow['status'], string> = {
+  ready: 'Ready',
+  duplicate: 'Duplicate',
+  rejected: 'Rejected',
+};
+
+const STATUS_CLASSES: Record<LeadImportRow['status'], string> = {
+  ready: 'text-emerald-700',
+  duplicate: 'text-amber-700',
+  rejected: 'text-red-700',
+};
+
+interface ImportResult {
+  rows: LeadImportRow[];
+  imported: number;
+}
+
+export interface LeadImportPanelProps {
+  dealerId?: string; // platform admins import into the dealer they opened
+  onImported: (count: number) => void;
+}
+
+export function LeadImportPanel({ dealerId, onImported }: LeadImportPanelProps) {
+  const [officers, setOfficers] = React.useState<Officer[]>([]);
+  const [text, setText] = React.useState('');
+  const [fileName, setFileName] = React.useState('');
+  const [table, setTable] = React.useState<string[][] | null>(null); // header first
+  const [mapping, setMapping] = React.useState<Record<LeadImportField, number>>(
+    {} as Record<LeadImportField, number>
+  );
+  const [defaultOfficerId, setDefaultOfficerId] = React.useState('');
+  const [sourceDetail, setSourceDetail] = React.useState('');
+  const [skipDuplicates, setSkipDuplicates] = React.useState(false);
+  const [report, setReport] = React.useState<ImportResult | null>(null);
+  const [imported, setImported] = React.useState(false);
+  const [busy, setBusy] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    let cancelled = false;
+
+    fetch(withDealerFilter('/api/officers', dealerId))
+      .then(res => (res.ok ? res.json() : []))
+      .then((found: Officer[]) => {
+        if (!cancelled) setOfficers(found);
+      })
+      .catch(err => console.error('Error fetching officers:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dealerId]);
+
+  const header = table?.[0] ?? [];
+  const rejected = report?.rows.filter(row => row.status === 'rejected') ?? [];
+  const accepted = (report?.rows.length ?? 0) - rejected.length;
+
+  const reset = () => {
+    setTable(null);
+    setReport(null);
+    setImported(false);
+    setError(null);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setText(await file.text());
+    setFileName(file.name);
+    setSourceDetail(current => current || file.name);
+    reset();
+    e.target.value = '';
+  };
+
+  // Read the header and guess which column holds each field
+  const handleRead = () => {
+    setError(null);
+
+    const parsed = parseCsv(text);
+    if (parsed.length < 2) {
+      setError('Add a heading row and at least one lead.');
+      return;
+    }
+    if (parsed.length - 1 > LEAD_IMPORT_MAX_ROWS) {
+      setError(`Import at most ${LEAD_IMPORT_MAX_ROWS} leads at a time.`);
+      return;
+    }
+
+    const guessed = {} as Record<LeadImportField, number>;
+    for (const field of FIELDS) {
+      guessed[field] = findCsvColumn(parsed[0], LEAD_IMPORT_COLUMNS[field]);
+    }
+
+    setTable(parsed);
+    setMapping(guessed);
+    setReport(null);
+  };
+
+  const send = async (dryRun: boolean) => {
+    if (!table) return;
+
+    const records = toCsvRecords(table.slice(1), mapping, FIELDS);
+    if (records.length === 0) {
+      setError('There are no leads below the headings.');
+      return;
+    }
+
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/leads/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          rows: records.map(({ row, values }) => ({
+            row,
+            ...values,
+            officer: values.officer || undefined,
+          })),
+          ...(defaultOfficerId && { default_officer_id: defaultOfficerId }),
+          ...(sourceDetail.trim() && { source_detail: sourceDetail.trim() }),
+          ...(dealerId && { dealer_id: dealerId }),
+          skip_duplicates: skipDuplicates,
+          dry_run: dryRun,
+        }),
+      });
+
+      if (!res.ok) {
+        setError(await readErrorMessage(res, 'Failed to import the leads'));
+        return;
+      }
+
+      const result: ImportResult = await res.json();
+      setReport(result);
+
+      if (!dryRun) {
+        setImported(true);
+        onImported(result.imported);
+      }
+    } catch (err) {
+      console.error('Error importing leads:', err);
+      setError('Failed to import the leads');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // The rejected rows as they were in the file, with a column saying what to fix
+  const downloadRejections = () => {
+    if (!table) return;
+
+    const csv = toCsv([
+      [...header, 'Problems'],
+      ...rejected.map(row => [...(table[row.row - 1] ?? []), row.errors.join('; ')]),
+    ]);
+
+    const blob = new Blob(['\uFEFF', csv], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `rejected-${fileName.replace(/\.\w+$/, '') || 'leads'}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (!table) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-neutral-700">
+          Upload a CSV of leads, or paste the cells from Excel or Google Sheets with the heading row.
+          You can match the columns to lead fields next.
+        </p>
+
+        <input
+          type="file"
+          accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+          onChange={handleFile}
+          className="block w-full text-sm text-neutral-700"
+          aria-label="Lead spreadsheet"
+        />
+
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          rows={6}
+          placeholder={'name,phone,area,ward,residence,phone model,next contact,officer'}
+          className="w-full rounded-lg border border-neutral-300 bg-white p-3 font-mono text-xs text-neutral-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-500/20"
+          aria-label="Lead rows"
+        />
+
+        {error && <p className="text-sm text-red-700">{error}</p>}
+
+        <Button fullWidth onClick={handleRead} disabled={!text.trim()}>
+          Match Columns
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {!imported && (
+        <>
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+            {FIELDS.map(field => (
+              <label key={field} className="block text-xs font-medium text-neutral-700">
+                {LEAD_IMPORT_FIELD_LABELS[field]}
+                <select
+                  value={mapping[field]}
+                  onChange={(e) => {
+                    setMapping({ ...mapping, [field]: Number(e.target.value) });
+                    setReport(null);
+                  }}
+                  className={`${SELECT_CLASS} mt-1`}
+                >
+                  <option value={-1}>Not in the file</option>
+                  {header.map((column, index) => (
+                    <option key={index} value={index}>{column || `Column ${index + 1}`}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+
+          <label className="block text-xs font-medium text-neutral-700">
+            Officer for leads without one
+            <select
+              value={defaultOfficerId}
+              onChange={(e) => {
+                setDefaultOfficerId(e.target.value);
+                setReport(null);
+              }}
+              className={`${SELECT_CLASS} mt-1`}
+            >
+              <option value="">None; reject those rows</option>
+              {officers.map(officer => (
+                <option key={officer.id} value={officer.id}>{officer.name}</option>
+              ))}
+            </select>
+          </label>
+
+          <FormField
+            label="Source"
+            placeholder="e.g. Mwenge roadshow, paper sheets"
+            maxLength={200}
+            value={sourceDetail}
+            onChange={(e) => setSourceDetail(e.target.value)}
+            hint="Saved on every imported lead"
+          />
+
+          <label className="flex items-center gap-2 text-sm text-neutral-700">
+            <input
+              type="checkbox"
+              checked={skipDuplicates}
+              onChange={(e) => {
+                setSkipDuplicates(e.target.checked);
+                setReport(null);
+              }}
+            />
+            Skip numbers that are already a lead (otherwise they are flagged for merging)
+          </label>
+        </>
+      )}
+
+      {error && <p className="text-sm text-red-700">{error}</p>}
+
+      {report && (
+        <>
+          <p className="text-sm text-neutral-700">
+            {imported
+              ? `Imported ${report.imported} ${report.imported === 1 ? 'lead' : 'leads'}`
+              : `${accepted} will be imported`}
+            {rejected.length > 0 && `, ${rejected.length} rejected`}
+          </p>
+
+          <div className="max-h-80 overflow-y-auto rounded-lg border border-neutral-200">
+            <table className="w-full text-left text-xs">
+              <thead className="bg-neutral-50 text-neutral-600">
+                <tr>
+                  <th className="px-2 py-1">Row</th>
+                  <th className="px-2 py-1">Lead</th>
+                  <th className="px-2 py-1">Officer</th>
+                  <th className="px-2 py-1">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.rows.map(row => (
+                  <tr key={row.row} className="border-t border-neutral-100 align-top">
+                    <td className="px-2 py-1 text-neutral-500">{row.row}</td>
+                    <td className="px-2 py-1 text-neutral-900">
+                      {row.lead_name}
+                      <div className="text-neutral-600">
+                        {isValidPhone(row.phone_contact) ? formatPhone(row.phone_contact) : row.phone_contact}
+                      </div>
+                    </td>
+                    <td className="px-2 py-1 text-neutral-700">{row.officer_name}</td>
+                    <td className={`px-2 py-1 ${STATUS_CLASSES[row.status]}`}>
+                      {STATUS_LABELS[row.status]}
+                      {row.errors.length > 0 && (
+                        <div className="text-neutral-600">{row.errors.join('; ')}</div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {rejected.length > 0 && (
+            <Button variant="outline" fullWidth onClick={downloadRejections}>
+              Download Rejected Rows
+            </Button>
+          )}
+        </>
+      )}
+
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          onClick={() => {
+            if (imported) {
+              setText('');
+              setFileName('');
+              setSourceDetail('');
+            }
+            reset();
+          }}
+          disabled={busy}
+        >
+          {imported ? 'Import Another File' : 'Back'}
+        </Button>
+        {!imported && (
+          !report ? (
+            <Button fullWidth onClick={() => send(true)} disabled={busy}>
+              {busy ? 'Checking...' : 'Check Rows'}
+            </Button>
+          ) : (
+            <Button fullWidth onClick={() => send(false)} disabled={busy || accepted === 0}>
+              {busy ? 'Importing...' : `Import ${accepted} ${accepted === 1 ? 'Lead' : 'Leads'}`}
+            </Button>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,473 @@
+/**
+ * Map of the leads matching the list's filters
+ * Leads captured with a GPS fix are drawn over tiles from the configured tile
+ * server, grouped into numbered clusters when zoomed out, and colored by
+ * status or officer. Fixes less accurate than the GPS threshold get a circle
+ * showing how far off they may be.
+ */
+
+'use client';
+
+import * as React from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui';
+import { config } from '@/lib/config';
+import { GPS_CONSTANTS, LEAD_STATUS_LABELS, LEAD_STATUSES, MAP_CONSTANTS } from '@/lib/constants';
+import { fetchLeadMap } from '@/lib/leads';
+import {
+  clusterPoints,
+  fitView,
+  MapCluster,
+  MapView,
+  metersPerPixel,
+  project,
+  tileUrl,
+  unproject,
+  visibleTiles,
+} from '@/lib/map';
+import { cn } from '@/lib/utils';
+import { LeadMapParams, LeadMapPoint, LeadMapResponse, LeadStatus } from '@/types';
+import { LeadStatusBadge } from './lead-status';
+
+type ColorBy = 'status' | 'officer';
+
+interface MarkerClasses {
+  fill: string;
+  halo: string; // accuracy circle
+}
+
+const STATUS_MARKER_CLASSES: Record<LeadStatus, MarkerClasses> = {
+  new: { fill: 'bg-blue-500', halo: 'border-blue-500 bg-blue-500/10' },
+  contacted: { fill: 'bg-sky-500', halo: 'border-sky-500 bg-sky-500/10' },
+  follow_up: { fill: 'bg-amber-500', halo: 'border-amber-500 bg-amber-500/10' },
+  negotiating: { fill: 'bg-purple-500', halo: 'border-purple-500 bg-purple-500/10' },
+  won: { fill: 'bg-emerald-500', halo: 'border-emerald-500 bg-emerald-500/10' },
+  lost: { fill: 'bg-red-500', halo: 'border-red-500 bg-red-500/10' },
+};
+
+// Officers share these colors; the legend says whose is whose
+const OFFICER_MARKER_CLASSES: MarkerClasses[] = [
+  { fill: 'bg-indigo-500', halo: 'border-indigo-500 bg-indigo-500/10' },
+  { fill: 'bg-orange-500', halo: 'border-orange-500 bg-orange-500/10' },
+  { fill: 'bg-teal-500', halo: 'border-teal-500 bg-teal-500/10' },
+  { fill: 'bg-pink-500', halo: 'border-pink-500 bg-pink-500/10' },
+  { fill: 'bg-lime-600', halo: 'border-lime-600 bg-lime-600/10' },
+  { fill: 'bg-cyan-600', halo: 'border-cyan-600 bg-cyan-600/10' },
+  { fill: 'bg-rose-700', halo: 'border-rose-700 bg-rose-700/10' },
+  { fill: 'bg-slate-600', halo: 'border-slate-600 bg-slate-600/10' },
+];
+
+const MARKER_SIZE = 14; // pixels, a single lead
+const DRAG_THRESHOLD = 4; // pixels moved before a press becomes a drag
+const WHEEL_INTERVAL = 250; // milliseconds between wheel zoom steps
+
+// The same officer keeps the same color whatever the filters
+function officerMarker(officerId: string): MarkerClasses {
+  let hash = 0;
+  for (const char of officerId) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return OFFICER_MARKER_CLASSES[hash % OFFICER_MARKER_CLASSES.length];
+}
+
+function markerFor(point: LeadMapPoint, colorBy: ColorBy): MarkerClasses {
+  return colorBy === 'status' ? STATUS_MARKER_CLASSES[point.status] : officerMarker(point.officer_id);
+}
+
+// A cluster takes the color most of its leads have
+function clusterMarker(cluster: MapCluster<LeadMapPoint>, colorBy: ColorBy): MarkerClasses {
+  const counts = new Map<string, number>();
+  let top = cluster.points[0];
+
+  for (const point of cluster.points) {
+    const key = colorBy === 'status' ? point.status : point.officer_id;
+    const count = (counts.get(key) ?? 0) + 1;
+    counts.set(key, count);
+
+    const topKey = colorBy === 'status' ? top.status : top.officer_id;
+    if (count > (counts.get(topKey) ?? 0)) {
+      top = point;
+    }
+  }
+
+  return markerFor(top, colorBy);
+}
+
+function clusterSize(count: number): number {
+  if (count < 10) return 28;
+  if (count < 100) return 36;
+  return 44;
+}
+
+export interface LeadMapPanelProps {
+  params: LeadMapParams; // the list's filters
+  basePath: string; // '/admin' or '/dealer/<id>'
+}
+
+export function LeadMapPanel({ params, basePath }: LeadMapPanelProps) {
+  const router = useRouter();
+  const { maxZoom, tileUrl: tileTemplate, tileAttribution } = config.map;
+
+  const containerRef = React.useRef<HTMLDivElement>(null);
+  const dragRef = React.useRef<{ x: number; y: number; centerX: number; centerY: number; dragging: boolean } | null>(null);
+  const lastWheelRef = React.useRef(0);
+
+  const [data, setData] = React.useState<LeadMapResponse | null>(null);
+  const [loading, setLoading] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
+  const [colorBy, setColorBy] = React.useState<ColorBy>('status');
+  const [size, setSize] = React.useState({ width: 0, height: 0 });
+  const [view, setView] = React.useState<MapView | null>(null);
+  const [selected, setSelected] = React.useState<LeadMapPoint[]>([]);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    fetchLeadMap(params)
+      .then(response => {
+        if (cancelled) return;
+        setData(response);
+        setSelected([]);
+        setError(null);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('Error loading lead map:', err);
+        setError('Failed to load the map');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [params]);
+
+  // Follow the size of the map as the screen turns or resizes
+  React.useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const measure = () => setSize({ width: container.clientWidth, height: container.clientHeight });
+    measure();
+
+    if (typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const hasSize = size.width > 0 && size.height > 0;
+
+  const fitToLeads = React.useCallback(() => {
+    if (!data || !hasSize) return;
+    setView(fitView(data.points, size.width, size.height, { maxZoom }));
+  }, [data, hasSize, size.width, size.height, maxZoom]);
+
+  // Show every lead whenever a new set arrives, but not on every resize
+  const fittedRef = React.useRef<LeadMapResponse | null>(null);
+  React.useEffect(() => {
+    if (data && hasSize && fittedRef.current !== data) {
+      fittedRef.current = data;
+      fitToLeads();
+    }
+  }, [data, hasSize, fitToLeads]);
+
+  // Zoom keeping the given spot of the map (relative to its center) in place
+  const zoomBy = React.useCallback((delta: number, offsetX = 0, offsetY = 0) => {
+    setView(current => {
+      if (!current) return current;
+
+      const zoom = Math.min(Math.max(current.zoom + delta, MAP_CONSTANTS.MIN_ZOOM), maxZoom);
+      if (zoom === current.zoom) return current;
+
+      const center = project(current.center, current.zoom);
+      const scale = 2 ** (zoom - current.zoom);
+      const anchorX = (center.x + offsetX) * scale;
+      const anchorY = (center.y + offsetY) * scale;
+
+      return { zoom, center: unproject({ x: anchorX - offsetX, y: anchorY - offsetY }, zoom) };
+    });
+  }, [maxZoom]);
+
+  // React's wheel handler is passive, so it cannot stop the page scrolling
+  React.useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+
+      const now = Date.now();
+      if (event.deltaY === 0 || now - lastWheelRef.current < WHEEL_INTERVAL) return;
+      lastWheelRef.current = now;
+
+      const rect = container.getBoundingClientRect();
+      zoomBy(
+        event.deltaY < 0 ? 1 : -1,
+        event.clientX - rect.left - rect.width / 2,
+        event.clientY - rect.top - rect.height / 2
+      );
+    };
+
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, [zoomBy]);
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!view) return;
+    const center = project(view.center, view.zoom);
+    dragRef.current = { x: event.clientX, y: event.clientY, centerX: center.x, centerY: center.y, dragging: false };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag || !view) return;
+
+    const dx = event.clientX - drag.x;
+    const dy = event.clientY - drag.y;
+
+    // Capture only once it is a drag, so a tap on a marker still clicks it
+    if (!drag.dragging) {
+      if (Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+      drag.dragging = true;
+      event.currentTarget.setPointerCapture(event.pointerId);
+    }
+
+    setView({ zoom: view.zoom, center: unproject({ x: drag.centerX - dx, y: drag.centerY - dy }, view.zoom) });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  // Clusters only change with the zoom, not while panning
+  const zoom = view?.zoom;
+  const points = React.useMemo(() => data?.points ?? [], [data]);
+  const clusters = React.useMemo(
+    () => (zoom === undefined ? [] : clusterPoints(points, zoom)),
+    [points, zoom]
+  );
+
+  const officers = React.useMemo(() => {
+    const names = new Map<string, string>();
+    for (const point of points) {
+      names.set(point.officer_id, point.officer_name ?? 'Unknown officer');
+    }
+    return Array.from(names, ([id, name]) => ({ id, name })).sort((a, b) => a.name.localeCompare(b.name));
+  }, [points]);
+
+  const handleClusterClick = (cluster: MapCluster<LeadMapPoint>) => {
+    if (!view) return;
+
+    // Leads at the same spot never split, so list them instead
+    if (cluster.points.length === 1 || view.zoom >= maxZoom) {
+      setSelected(cluster.points);
+      return;
+    }
+
+    setView({ center: cluster, zoom: Math.min(view.zoom + 2, maxZoom) });
+  };
+
+  const origin = view ? project(view.center, view.zoom) : null;
+  const left = origin ? origin.x - size.width / 2 : 0;
+  const top = origin ? origin.y - size.height / 2 : 0;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex gap-1" role="group" aria-label="Color leads by">
+          {(['status', 'officer'] as const).map(option => (
+            <button
+              key={option}
+              type="button"
+              aria-pressed={colorBy === option}
+              onClick={() => setColorBy(option)}
+              className={cn(
+                'h-8 px-3 text-xs font-medium rounded-full border transition-colors duration-200',
+                colorBy === option
+                  ? 'bg-primary-600 border-primary-600 text-white'
+                  : 'bg-white border-neutral-300 text-neutral-700 hover:bg-neutral-50'
+              )}
+            >
+              By {option}
+            </button>
+          ))}
+        </div>
+        <Button size="sm" variant="outline" onClick={fitToLeads} disabled={!data || points.length === 0}>
+          Show all
+        </Button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{error}</div>
+      )}
+
+      <div
+        ref={containerRef}
+        className="relative h-96 overflow-hidden rounded-lg border border-neutral-200 bg-neutral-100 touch-none select-none cursor-grab active:cursor-grabbing"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        {view && visibleTiles(view, size.width, size.height).map(tile => (
+          <div
+            key={tile.key}
+            aria-hidden="true"
+            className="absolute bg-cover"
+            style={{
+              left: tile.left,
+              top: tile.top,
+              width: MAP_CONSTANTS.TILE_SIZE,
+              height: MAP_CONSTANTS.TILE_SIZE,
+              backgroundImage: `url("${tileUrl(tileTemplate, tile)}")`,
+            }}
+          />
+        ))}
+
+        {view && clusters.map(cluster => {
+          const world = project(cluster, view.zoom);
+          const x = world.x - left;
+          const y = world.y - top;
+
+          // Leave out markers well off screen
+          if (x < -200 || y < -200 || x > size.width + 200 || y > size.height + 200) return null;
+
+          if (cluster.points.length === 1) {
+            const point = cluster.points[0];
+            const marker = markerFor(point, colorBy);
+            const accuracy = point.accuracy ?? 0;
+            const haloSize = (2 * accuracy) / metersPerPixel(point.latitude, view.zoom);
+
+            return (
+              <React.Fragment key={cluster.key}>
+                {accuracy > GPS_CONSTANTS.ACCURACY_THRESHOLD && haloSize > MARKER_SIZE && (
+                  <div
+                    aria-hidden="true"
+                    className={cn('absolute rounded-full border pointer-events-none', marker.halo)}
+                    style={{ left: x - haloSize / 2, top: y - haloSize / 2, width: haloSize, height: haloSize }}
+                  />
+                )}
+                <button
+                  type="button"
+                  title={point.lead_name}
+                  aria-label={point.lead_name}
+                  onClick={() => handleClusterClick(cluster)}
+                  className={cn('absolute rounded-full border-2 border-white shadow', marker.fill)}
+                  style={{ left: x - MARKER_SIZE / 2, top: y - MARKER_SIZE / 2, width: MARKER_SIZE, height: MARKER_SIZE }}
+                />
+              </React.Fragment>
+            );
+          }
+
+          const diameter = clusterSize(cluster.points.length);
+          return (
+            <button
+              key={cluster.key}
+              type="button"
+              aria-label={`${cluster.points.length} leads`}
+              onClick={() => handleClusterClick(cluster)}
+              className={cn(
+                'absolute flex items-center justify-center rounded-full border-2 border-white text-xs font-semibold text-white shadow',
+                clusterMarker(cluster, colorBy).fill
+              )}
+              style={{ left: x - diameter / 2, top: y - diameter / 2, width: diameter, height: diameter }}
+            >
+              {cluster.points.length}
+            </button>
+          );
+        })}
+
+        <div className="absolute right-2 top-2 flex flex-col gap-1">
+          <button
+            type="button"
+            aria-label="Zoom in"
+            onClick={() => zoomBy(1)}
+            disabled={!view || view.zoom >= maxZoom}
+            className="h-8 w-8 rounded bg-white text-lg leading-none text-neutral-700 shadow disabled:opacity-50"
+          >
+            +
+          </button>
+          <button
+            type="button"
+            aria-label="Zoom out"
+            onClick={() => zoomBy(-1)}
+            disabled={!view || view.zoom <= MAP_CONSTANTS.MIN_ZOOM}
+            className="h-8 w-8 rounded bg-white text-lg leading-none text-neutral-700 shadow disabled:opacity-50"
+          >
+            −
+          </button>
+        </div>
+
+        {loading && (
+          <div className="absolute inset-x-0 top-2 text-center">
+            <span className="rounded-full bg-white/90 px-3 py-1 text-xs text-neutral-600 shadow">Loading map...</span>
+          </div>
+        )}
+
+        {tileAttribution && (
+          <div className="absolute bottom-0 right-0 bg-white/80 px-1 text-[10px] text-neutral-600">
+            {tileAttribution}
+          </div>
+        )}
+      </div>
+
+      {data && (
+        <p className={cn('text-xs', data.truncated ? 'text-amber-700' : 'text-neutral-500')}>
+          {data.truncated
+            ? `Showing the newest ${data.points.length} of ${data.total} leads with GPS. Narrow the filters to see the rest.`
+            : `${data.total} ${data.total === 1 ? 'lead' : 'leads'} with GPS. Leads captured without a fix are not shown.`}
+        </p>
+      )}
+
+      {/* Legend */}
+      <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-neutral-700">
+        {colorBy === 'status'
+          ? LEAD_STATUSES.map(status => (
+              <span key={status} className="inline-flex items-center gap-1">
+                <span className={cn('h-2.5 w-2.5 rounded-full', STATUS_MARKER_CLASSES[status].fill)} />
+                {LEAD_STATUS_LABELS[status]}
+              </span>
+            ))
+          : officers.map(officer => (
+              <span key={officer.id} className="inline-flex items-center gap-1">
+                <span className={cn('h-2.5 w-2.5 rounded-full', officerMarker(officer.id).fill)} />
+                {officer.name}
+              </span>
+            ))}
+        <span className="inline-flex items-center gap-1 text-neutral-500">
+          <span className="h-2.5 w-2.5 rounded-full border border-neutral-400" />
+          GPS off by more than {GPS_CONSTANTS.ACCURACY_THRESHOLD} m
+        </span>
+      </div>
+
+      {selected.length > 0 && (
+        <div className="space-y-2">
+          {selected.map(point => (
+            <div
+              key={point.id}
+              className="flex items-center justify-between gap-2 rounded-lg border border-neutral-200 bg-white p-2"
+            >
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="truncate text-sm font-semibold text-neutral-900">{point.lead_name}</span>
+                  <LeadStatusBadge status={point.status} />
+                </div>
+                <div className="text-xs text-neutral-600">
+                  {point.officer_name ?? 'Unknown officer'}
+                  {point.accuracy !== null && ` • GPS ±${Math.round(point.accuracy)} m`}
+                </div>
+              </div>
+              <Button size="sm" variant="outline" onClick={() => router.push(`${basePath}/leads/${point.id}`)}>
+                Open
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+/**
+ * Lead pipeline status: badge, status changes and history
+ */
+
+'use client';
+
+import * as React from 'react';
+import { Button, Card, CardContent, CardHeader, CardTitle, FormField } from '@/components/ui';
+import { LEAD_STATUS_LABELS, LEAD_STATUSES, LOST_REASONS } from '@/lib/constants';
+import { cn } from '@/lib/utils';
+import { Lead, LeadStatus, LeadStatusChange } from '@/types';
+import { readErrorBody } from './api-errors';
+
+const STATUS_BADGE_CLASSES: Record<LeadStatus, string> = {
+  new: 'bg-blue-50 text-blue-700',
+  contacted: 'bg-sky-50 text-sky-700',
+  follow_up: 'bg-amber-50 text-amber-700',
+  negotiating: 'bg-purple-50 text-purple-700',
+  won: 'bg-emerald-50 text-emerald-700',
+  lost: 'bg-red-50 text-red-700',
+};
+
+const SELECT_CLASS = 'w-full h-12 text-sm rounded-lg border border-neutral-300 bg-white px-3 text-neutral-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-500/20';
+
+// Value of the reason select when the user types their own
+const OTHER_REASON = 'other';
+
+export interface LeadStatusBadgeProps {
+  status: LeadStatus;
+  className?: string;
+}
+
+export function LeadStatusBadge({ status, className }: LeadStatusBadgeProps) {
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center text-xs font-medium rounded-full px-2 py-0.5 whitespace-nowrap',
+        STATUS_BADGE_CLASSES[status] ?? STATUS_BADGE_CLASSES.new,
+        className
+      )}
+    >
+      {LEAD_STATUS_LABELS[status] ?? status}
+    </span>
+  );
+}
+
+export interface LeadStatusPanelProps {
+  lead: Lead;
+  canUpdate: boolean;
+  onChanged: (lead: Lead) => void;
+}
+
+export function LeadStatusPanel({ lead, canUpdate, onChanged }: LeadStatusPanelProps) {
+  const [history, setHistory] = React.useState<LeadStatusChange[]>([]);
+  const [historyLoading, setHistoryLoading] = React.useState(true);
+  const [status, setStatus] = React.useState<LeadStatus>(lead.status);
+  const [reason, setReason] = React.useState('');
+  const [otherReason, setOtherReason] = React.useState('');
+  const [note, setNote] = React.useState('');
+  const [saving, setSaving] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const loadHistory = React.useCallback(async () => {
+    try {
+      const res = await fetch(`/api/leads/${lead.id}/history`);
+      if (res.ok) {
+        setHistory(await res.json());
+      }
+    } catch (err) {
+      console.error('Error fetching lead history:', err);
+    } finally {
+      setHistoryLoading(false);
+    }
+  }, [lead.id]);
+
+  React.useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  const lostReason = reason === OTHER_REASON ? otherReason.trim() : reason;
+  const canSubmit = status !== lead.status && (status !== 'lost' || Boolean(lostReason));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/leads/${lead.id}/status`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          status,
+          ...(status === 'lost' && { lost_reason: lostReason }),
+          ...(note.trim() && { note: note.trim() }),
+        }),
+      });
+
+      if (!res.ok) {
+        const body = await readErrorBody(res);
+        setError(body.message || 'Failed to change status');
+        return;
+      }
+
+      const updated: Lead = await res.json();
+      onChanged(updated);
+      setStatus(updated.status);
+      setReason('');
+      setOtherReason('');
+      setNote('');
+      loadHistory();
+    } catch (err) {
+      console.error('Error changing lead status:', err);
+      setError('Failed to change status');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span>Status</span>
+          <LeadStatusBadge status={lead.status} />
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {lead.status === 'lost' && lead.lost_reason && (
+          <p className="text-sm text-neutral-700">
+            <span className="font-medium">Lost:</span> {lead.lost_reason}
+          </p>
+        )}
+
+        {canUpdate && (
+          <form onSubmit={handleSubmit} className="space-y-3">
+            <select
+              value={status}
+              onChange={(e) => setStatus(e.target.value as LeadStatus)}
+              className={SELECT_CLASS}
+              aria-label="New status"
+            >
+              {LEAD_STATUSES.map(option => (
+                <option key={option} value={option}>{LEAD_STATUS_LABELS[option]}</option>
+              ))}
+            </select>
+
+            {status === 'lost' && status !== lead.status && (
+              <>
+                <select
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  className={SELECT_CLASS}
+                  aria-label="Lost reason"
+                  required
+                >
+                  <option value="">Why was the lead lost?</option>
+                  {LOST_REASONS.map(option => (
+                    <option key={option} value={option}>{option}</option>
+                  ))}
+                  <option value={OTHER_REASON}>Other...</option>
+                </select>
+
+                {reason === OTHER_REASON && (
+                  <FormField
+                    placeholder="Describe the reason"
+                    value={otherReason}
+                    maxLength={200}
+                    onChange={(e) => setOtherReason(e.target.value)}
+                    required
+                  />
+                )}
+              </>
+            )}
+
+            {status !== lead.status && (
+              <FormField
+                placeholder="Note (optional)"
+                value={note}
+                maxLength={500}
+                onChange={(e) => setNote(e.target.value)}
+              />
+            )}
+
+            {error && <p className="text-sm text-red-700">{error}</p>}
+
+            <Button type="submit" fullWidth disabled={!canSubmit || saving}>
+              {saving ? 'Saving...' : 'Update Status'}
+            </Button>
+          </form>
+        )}
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium text-neutral-900">History</h4>
+          {historyLoading ? (
+            <p className="text-sm text-neutral-500">Loading history...</p>
+          ) : history.length === 0 ? (
+            <p className="text-sm text-neutral-500">No status changes yet</p>
+          ) : (
+            <ol className="space-y-2">
+              {history.map(change => (
+                <li key={change.id} className="text-xs bg-neutral-50 rounded-lg p-2 space-y-1">
+                  <div className="flex items-center gap-1 flex-wrap">
+                    {change.from_status && (
+                      <>
+                        <LeadStatusBadge status={change.from_status} />
+                        <span className="text-neutral-400">→</span>
+                      </>
+                    )}
+                    <LeadStatusBadge status={change.to_status} />
+                  </div>
+                  {change.lost_reason && (
+                    <p className="text-neutral-700">Reason: {change.lost_reason}</p>
+                  )}
+                  {change.note && <p className="text-neutral-700">{change.note}</p>}
+                  <p className="text-neutral-500">
+                    {change.changed_by_name ?? 'Another user'} • {new Date(change.created_at).toLocaleString()}
+                  </p>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,661 @@
+/**
+ * Lead list shared by platform admins, dealers and supervisors
+ * Filtering and paging happen on the server; more leads load as the list
+ * scrolls. The same filters drive the map view.
+ */
+
+'use client';
+
+import * as React from 'react';
+import { useRouter } from 'next/navigation';
+import { AppShell } from '@/components/layout';
+import { Button, Card, CardContent, CardHeader, CardTitle, FormField } from '@/components/ui';
+import { useLeadList } from '@/hooks/use-lead-list';
+import { UseManagerSessionReturn } from '@/hooks/use-manager-session';
+import { LEAD_STATUS_LABELS, LEAD_STATUSES, OPEN_LEAD_STATUSES } from '@/lib/constants';
+import { formatPhone } from '@/lib/phone';
+import { cn, toBusinessDate } from '@/lib/utils';
+import { LeadListParams, LeadMapParams, Officer } from '@/types';
+import { DashboardLoading } from './dashboard-loading';
+import { withDealerFilter } from './dealer-filter';
+import { LeadDuplicatesPanel } from './lead-duplicates';
+import { LeadExportPanel } from './lead-export';
+import { LeadImportPanel } from './lead-import';
+import { LeadMapPanel } from './lead-map';
+import { LeadStatusBadge } from './lead-status';
+
+export interface LeadsBrowserProps {
+  session: UseManagerSessionReturn;
+  basePath: string; // '/admin' or '/dealer/<id>'
+  dealerId?: string; // limit the list to one dealer
+  initialView?: LeadsView;
+}
+
+export type LeadsView = 'list' | 'map';
+
+type SortOption = 'newest' | 'oldest' | 'next_contact' | 'name';
+type NextContactWindow = '' | 'overdue' | 'today' | 'week';
+
+const SORT_OPTIONS: Record<SortOption, Pick<LeadListParams, 'sort' | 'order'>> = {
+  newest: { sort: 'created_at', order: 'desc' },
+  oldest: { sort: 'created_at', order: 'asc' },
+  next_contact: { sort: 'next_contact_date', order: 'asc' },
+  name: { sort: 'lead_name', order: 'asc' },
+};
+
+// Status filter chips; values are comma-separated status lists
+const STATUS_FILTERS = [
+  { value: '', label: 'All' },
+  { value: OPEN_LEAD_STATUSES.join(','), label: 'Open' },
+  ...LEAD_STATUSES.map(status => ({ value: status, label: LEAD_STATUS_LABELS[status] })),
+];
+
+const EMPTY_FILTERS = {
+  search: '',
+  status: '',
+  duplicates: false,
+  wardMismatch: false,
+  officerId: '',
+  createdFrom: '',
+  createdTo: '',
+  ward: '',
+  area: '',
+  phoneModel: '',
+  nextContact: '' as NextContactWindow,
+  sort: 'newest' as SortOption,
+};
+
+type Filters = typeof EMPTY_FILTERS;
+
+// Wait for typing to pause before asking the server
+const FILTER_DELAY = 300; // milliseconds
+
+const SELECT_CLASS = 'flex-1 h-12 text-sm rounded-lg border border-neutral-300 bg-white px-3 text-neutral-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-500/20';
+const DATE_CLASS = 'w-full h-12 text-sm rounded-lg border border-neutral-300 bg-white px-3 text-neutral-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-500/20';
+
+function nextContactRange(window: NextContactWindow): Pick<LeadListParams, 'next_contact_from' | 'next_contact_to'> {
+  const today = toBusinessDate();
+
+  switch (window) {
+    case 'overdue':
+      return { next_contact_to: toBusinessDate(new Date(), -1) };
+    case 'today':
+      return { next_contact_from: today, next_contact_to: today };
+    case 'week':
+      return { next_contact_from: today, next_contact_to: toBusinessDate(new Date(), 6) };
+    default:
+      return {};
+  }
+}
+
+function toFilterParams(filters: Filters, dealerId?: string): LeadMapParams {
+  return {
+    dealer_id: dealerId,
+    officer_id: filters.officerId,
+    q: filters.search.trim(),
+    status: filters.status,
+    duplicates: filters.duplicates || undefined,
+    ward_mismatch: filters.wardMismatch || undefined,
+    ward: filters.ward.trim(),
+    area: filters.area.trim(),
+    phone_model: filters.phoneModel.trim(),
+    created_from: filters.createdFrom,
+    created_to: filters.createdTo,
+    ...nextContactRange(filters.nextContact),
+  };
+}
+
+export function LeadsBrowser({ session, basePath, dealerId, initialView = 'list' }: LeadsBrowserProps) {
+  const router = useRouter();
+  const { role, can } = session;
+  // Platform admins looking across dealers see which dealer each lead belongs to
+  const showDealer = role === 'platform_admin' && !dealerId;
+  const title = role === 'supervisor' ? 'Team Leads' : showDealer ? 'All Leads' : 'Your Leads';
+  // Platform admins pick a dealer before importing leads into it
+  const canImport = can('leads:import') && (role !== 'platform_admin' || Boolean(dealerId));
+
+  const [officers, setOfficers] = React.useState<Officer[]>([]);
+  const [filters, setFilters] = React.useState<Filters>(EMPTY_FILTERS);
+  const [appliedFilters, setAppliedFilters] = React.useState<Filters>(EMPTY_FILTERS);
+  const [showMoreFilters, setShowMoreFilters] = React.useState(false);
+  const [showExport, setShowExport] = React.useState(false);
+  const [showImport, setShowImport] = React.useState(false);
+  const [hasLoaded, setHasLoaded] = React.useState(false);
+  const [view, setView] = React.useState<LeadsView>(initialView);
+
+  // Expandable cards state
+  const [expandedCards, setExpandedCards] = React.useState<Set<string>>(new Set());
+
+  const filterParams = React.useMemo(
+    () => toFilterParams(appliedFilters, dealerId),
+    [appliedFilters, dealerId]
+  );
+  const listParams = React.useMemo<LeadListParams>(
+    () => ({ ...filterParams, ...SORT_OPTIONS[appliedFilters.sort] }),
+    [filterParams, appliedFilters.sort]
+  );
+  const { leads, total, loading, loadingMore, error, hasMore, loadMore, reload } = useLeadList(listParams, {
+    enabled: Boolean(role),
+  });
+
+  const hasFilters = JSON.stringify({ ...filters, sort: EMPTY_FILTERS.sort }) !== JSON.stringify(EMPTY_FILTERS);
+  const sentinelRef = React.useRef<HTMLDivElement>(null);
+
+  React.useEffect(() => {
+    const timeout = setTimeout(() => setAppliedFilters(filters), FILTER_DELAY);
+    return () => clearTimeout(timeout);
+  }, [filters]);
+
+  React.useEffect(() => {
+    if (!loading) {
+      setHasLoaded(true);
+    }
+  }, [loading]);
+
+  // Officers for the filter, including deactivated ones who still have leads;
+  // the API scopes the list to the session
+  React.useEffect(() => {
+    if (!role) return;
+
+    fetch(withDealerFilter('/api/officers?status=all', dealerId))
+      .then(res => (res.ok ? res.json() : []))
+      .then(setOfficers)
+      .catch(err => console.error('Error fetching officers:', err));
+  }, [role, dealerId]);
+
+  // Load the next page when the end of the list scrolls into view (watched
+  // again when the list comes back from the map)
+  React.useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || typeof IntersectionObserver === 'undefined') return;
+
+    const observer = new IntersectionObserver(
+      entries => {
+        if (entries.some(entry => entry.isIntersecting)) {
+          loadMore();
+        }
+      },
+      { rootMargin: '200px' }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadMore, view]);
+
+  const updateFilter = <K extends keyof Filters>(key: K, value: Filters[K]) => {
+    setFilters(current => ({ ...current, [key]: value }));
+  };
+
+  // Toggle card expansion
+  const toggleCard = (leadId: string) => {
+    const newExpanded = new Set(expandedCards);
+    if (newExpanded.has(leadId)) {
+      newExpanded.delete(leadId);
+    } else {
+      newExpanded.add(leadId);
+    }
+    setExpandedCards(newExpanded);
+  };
+
+  if (!hasLoaded) {
+    return (
+      <DashboardLoading
+        title={title}
+        message="Loading leads..."
+        onBackClick={() => router.push(basePath)}
+      />
+    );
+  }
+
+  if (error && leads.length === 0 && !hasFilters) {
+    return (
+      <AppShell title={title} showBackButton onBackClick={() => router.push(basePath)}>
+        <div className="text-center py-8">
+          <div className="bg-red-50 border border-red-200 rounded-lg p-6">
+            <svg className="mx-auto h-12 w-12 text-red-500 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            <h3 className="text-lg font-medium text-red-900 mb-2">Failed to Load Leads</h3>
+            <p className="text-red-700 mb-4">{error}</p>
+            <Button onClick={() => typeof window !== 'undefined' && window.location.reload()}>Try Again</Button>
+          </div>
+        </div>
+      </AppShell>
+    );
+  }
+
+  return (
+    <AppShell title={title} showBackButton onBackClick={() => router.push(basePath)}>
+      <div className="space-y-4">
+        {/* Stats Cards */}
+        <div className="flex items-center gap-3">
+          <div className="flex-1 bg-gradient-to-br from-blue-50 to-blue-100/50 rounded-2xl p-4 border border-blue-200/50 shadow-sm">
+            <div className="flex items-center justify-between">
+              <div>
+                <div className="text-2xl font-bold text-blue-900 tracking-tight">
+                  {total}
+                </div>
+                <div className="text-xs font-medium text-blue-700 mt-0.5">
+                  {hasFilters ? 'Filtered' : 'Total Leads'}
+                </div>
+              </div>
+              <div className="w-8 h-8 bg-blue-500/10 rounded-full flex items-center justify-center">
+                <svg className="w-4 h-4 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
+                </svg>
+              </div>
+            </div>
+          </div>
+
+          <div className="flex-1 bg-gradient-to-br from-emerald-50 to-emerald-100/50 rounded-2xl p-4 border border-emerald-200/50 shadow-sm">
+            <div className="flex items-center justify-between">
+              <div>
+                <div className="text-2xl font-bold text-emerald-900 tracking-tight">
+                  {officers.filter(officer => officer.active !== false).length}
+                </div>
+                <div className="text-xs font-medium text-emerald-700 mt-0.5">
+                  Officers
+                </div>
+              </div>
+              <div className="w-8 h-8 bg-emerald-500/10 rounded-full flex items-center justify-center">
+                <svg className="w-4 h-4 text-emerald-600" fill="currentColor" viewBox="0 0 20 20">
+                  <path fillRule="evenodd" d="M10 9a3 3 0 100-6 3 3 0 000 6zm-7 9a7 7 0 1114 0H3z" clipRule="evenodd" />
+                </svg>
+              </div>
+            </div>
+          </div>
+
+          <button
+            onClick={() => setShowExport(!showExport)}
+            aria-expanded={showExport}
+            className="h-12 px-4 bg-gradient-to-br from-purple-50 to-purple-100/50 rounded-2xl border border-purple-200/50 shadow-sm flex items-center justify-center gap-2 hover:from-purple-100 hover:to-purple-150/50 transition-all duration-200 active:scale-95 disabled:opacity-50"
+          >
+            <svg className="w-4 h-4 text-purple-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+            </svg>
+            <span className="text-sm font-medium text-purple-700">Export</span>
+          </button>
+        </div>
+
+        {showExport && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Export Leads</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <LeadExportPanel params={listParams} total={total} />
+            </CardContent>
+          </Card>
+        )}
+
+        {canImport && (
+          <Button fullWidth variant="outline" onClick={() => setShowImport(!showImport)}>
+            {showImport ? 'Close Import' : 'Import Leads'}
+          </Button>
+        )}
+
+        {canImport && showImport && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Import Leads</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <LeadImportPanel
+                dealerId={dealerId}
+                onImported={(count) => {
+                  if (count > 0) reload();
+                }}
+              />
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Filters */}
+        <div className="space-y-2">
+          <div className="flex gap-2 overflow-x-auto pb-1 -mx-1 px-1">
+            {STATUS_FILTERS.map(option => (
+              <button
+                key={option.label}
+                onClick={() => updateFilter('status', option.value)}
+                className={`h-8 px-3 text-xs font-medium rounded-full border whitespace-nowrap transition-colors duration-200 ${
+                  filters.status === option.value
+                    ? 'bg-primary-600 border-primary-600 text-white'
+                    : 'bg-white border-neutral-300 text-neutral-700 hover:bg-neutral-50'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+            {can('leads:merge') && (
+              <button
+                onClick={() => updateFilter('duplicates', !filters.duplicates)}
+                className={`h-8 px-3 text-xs font-medium rounded-full border whitespace-nowrap transition-colors duration-200 ${
+                  filters.duplicates
+                    ? 'bg-amber-500 border-amber-500 text-white'
+                    : 'bg-white border-amber-300 text-amber-800 hover:bg-amber-50'
+                }`}
+              >
+                Possible duplicates
+              </button>
+            )}
+            <button
+              onClick={() => updateFilter('wardMismatch', !filters.wardMismatch)}
+              className={`h-8 px-3 text-xs font-medium rounded-full border whitespace-nowrap transition-colors duration-200 ${
+                filters.wardMismatch
+                  ? 'bg-amber-500 border-amber-500 text-white'
+                  : 'bg-white border-amber-300 text-amber-800 hover:bg-amber-50'
+              }`}
+            >
+              Ward mismatch
+            </button>
+          </div>
+
+          <FormField
+            placeholder="Search name, phone or officer..."
+            value={filters.search}
+            onChange={(e) => updateFilter('search', e.target.value)}
+          />
+
+          <div className="flex gap-2">
+            <select
+              value={filters.officerId}
+              onChange={(e) => updateFilter('officerId', e.target.value)}
+              className={SELECT_CLASS}
+            >
+              <option value="">All Officers</option>
+              {officers.map(officer => (
+                <option key={officer.id} value={officer.id}>
+                  {officer.name}{officer.active === false ? ' (inactive)' : ''}
+                </option>
+              ))}
+            </select>
+
+            <select
+              value={filters.nextContact}
+              onChange={(e) => updateFilter('nextContact', e.target.value as NextContactWindow)}
+              className={SELECT_CLASS}
+            >
+              <option value="">Any follow-up</option>
+              <option value="overdue">Overdue</option>
+              <option value="today">Due today</option>
+              <option value="week">Due this week</option>
+            </select>
+          </div>
+
+          <div className="flex gap-2">
+            <select
+              value={filters.sort}
+              onChange={(e) => updateFilter('sort', e.target.value as SortOption)}
+              className={SELECT_CLASS}
+            >
+              <option value="newest">Newest first</option>
+              <option value="oldest">Oldest first</option>
+              <option value="next_contact">Next contact</option>
+              <option value="name">Name A–Z</option>
+            </select>
+
+            <button
+              onClick={() => setShowMoreFilters(!showMoreFilters)}
+              className="h-12 px-4 text-sm bg-white hover:bg-neutral-50 text-neutral-700 rounded-lg border border-neutral-300 transition-colors duration-200 font-medium"
+            >
+              {showMoreFilters ? 'Fewer filters' : 'More filters'}
+            </button>
+
+            {hasFilters && (
+              <button
+                onClick={() => setFilters({ ...EMPTY_FILTERS, sort: filters.sort })}
+                className="h-12 px-4 text-sm bg-neutral-100 hover:bg-neutral-200 text-neutral-700 rounded-lg border border-neutral-300 transition-colors duration-200 font-medium"
+              >
+                Clear
+              </button>
+            )}
+          </div>
+
+          {showMoreFilters && (
+            <div className="space-y-2 p-3 bg-neutral-50 rounded-lg">
+              <div className="grid grid-cols-2 gap-2">
+                <label className="text-xs font-medium text-neutral-600">
+                  Captured from
+                  <input
+                    type="date"
+                    value={filters.createdFrom}
+                    max={filters.createdTo || undefined}
+                    onChange={(e) => updateFilter('createdFrom', e.target.value)}
+                    className={DATE_CLASS}
+                  />
+                </label>
+                <label className="text-xs font-medium text-neutral-600">
+                  Captured to
+                  <input
+                    type="date"
+                    value={filters.createdTo}
+                    min={filters.createdFrom || undefined}
+                    onChange={(e) => updateFilter('createdTo', e.target.value)}
+                    className={DATE_CLASS}
+                  />
+                </label>
+              </div>
+
+              <FormField
+                placeholder="Ward"
+                value={filters.ward}
+                onChange={(e) => updateFilter('ward', e.target.value)}
+              />
+              <FormField
+                placeholder="Area of activity"
+                value={filters.area}
+                onChange={(e) => updateFilter('area', e.target.value)}
+              />
+              <FormField
+                placeholder="Phone model"
+                value={filters.phoneModel}
+                onChange={(e) => updateFilter('phoneModel', e.target.value)}
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-1" role="group" aria-label="Show leads as">
+          {(['list', 'map'] as const).map(option => (
+            <button
+              key={option}
+              type="button"
+              aria-pressed={view === option}
+              onClick={() => setView(option)}
+              className={cn(
+                'flex-1 h-10 text-sm font-medium rounded-lg border transition-colors duration-200',
+                view === option
+                  ? 'bg-primary-600 border-primary-600 text-white'
+                  : 'bg-white border-neutral-300 text-neutral-700 hover:bg-neutral-50'
+              )}
+            >
+              {option === 'list' ? 'List' : 'Map'}
+            </button>
+          ))}
+        </div>
+
+        {view === 'map' && <LeadMapPanel params={filterParams} basePath={basePath} />}
+
+        {view === 'list' && error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        {/* Leads List */}
+        {view === 'list' && (
+          <div className="space-y-2">
+            {loading ? (
+              <p className="text-center py-8 text-sm text-neutral-500">Loading leads...</p>
+            ) : leads.length === 0 ? (
+              <div className="text-center py-8 text-neutral-500">
+                <svg className="mx-auto h-8 w-8 text-neutral-400 mb-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M9 12h6m-6 4h6" />
+                </svg>
+                <p className="text-sm">
+                  {hasFilters ? 'No matches' : 'No leads yet'}
+                </p>
+              </div>
+            ) : (
+              leads.map((lead) => {
+                const isExpanded = expandedCards.has(lead.id);
+                return (
+                  <Card key={lead.id} className="overflow-hidden">
+                    <CardContent className="p-3">
+                      <div
+                        className="flex items-center justify-between cursor-pointer"
+                        onClick={() => toggleCard(lead.id)}
+                      >
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center gap-2">
+                            <h3 className="font-semibold text-sm text-neutral-900 truncate">
+                              {lead.lead_name}
+                            </h3>
+                            <span className="text-xs text-neutral-700 font-medium">
+                              {formatPhone(lead.phone_contact, 'national')}
+                            </span>
+                          </div>
+                          <div className="flex items-center gap-2 mt-1">
+                            <span className="text-xs text-neutral-800 truncate font-medium">
+                              {lead.interested_phone_model}
+                            </span>
+                            <span className="text-xs text-neutral-400">•</span>
+                            <span className="text-xs text-neutral-700">
+                              {lead.officer?.name}
+                            </span>
+                            {showDealer && lead.officer?.dealer && (
+                              <>
+                                <span className="text-xs text-neutral-400">•</span>
+                                <span className="text-xs text-neutral-500 truncate">
+                                  {lead.officer.dealer.company}
+                                </span>
+                              </>
+                            )}
+                          </div>
+                        </div>
+
+                        <div className="flex items-center gap-2">
+                          {lead.duplicate_of_id && (
+                            <span className="text-xs font-medium rounded-full px-2 py-0.5 bg-amber-50 text-amber-800 whitespace-nowrap">
+                              Duplicate?
+                            </span>
+                          )}
+                          {lead.ward_mismatch && (
+                            <span className="text-xs font-medium rounded-full px-2 py-0.5 bg-amber-50 text-amber-800 whitespace-nowrap">
+                              Ward?
+                            </span>
+                          )}
+                          <LeadStatusBadge status={lead.status} />
+                          <span className="text-xs text-neutral-400">
+                            {new Date(lead.created_at).toLocaleDateString('en-US', {
+                              month: 'short',
+                              day: 'numeric'
+                            })}
+                          </span>
+                          <svg
+                            className={`h-4 w-4 text-neutral-400 transition-transform ${isExpanded ? 'rotate-180' : ''}`}
+                            fill="none"
+                            stroke="currentColor"
+                            viewBox="0 0 24 24"
+                          >
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                          </svg>
+                        </div>
+                      </div>
+
+                      {isExpanded && (
+                        <div className="mt-3 pt-3 border-t border-neutral-100 space-y-2">
+                          <div className="grid grid-cols-2 gap-2 text-xs">
+                            <div>
+                              <span className="text-neutral-600 font-medium">Residence:</span>
+                              <div className="font-semibold text-neutral-900">{lead.residence}</div>
+                            </div>
+                            <div>
+                              <span className="text-neutral-600 font-medium">Next Contact:</span>
+                              <div className="font-semibold text-neutral-900">
+                                {new Date(lead.next_contact_date).toLocaleDateString()}
+                              </div>
+                            </div>
+                            <div>
+                              <span className="text-neutral-600 font-medium">Area:</span>
+                              <div className="font-semibold text-neutral-900">{lead.area_of_activity}</div>
+                            </div>
+                            <div>
+                              <span className="text-neutral-600 font-medium">Ward:</span>
+                              <div className="font-semibold text-neutral-900">{lead.ward}</div>
+                            </div>
+                            {lead.gps_region && (
+                              <div>
+                                <span className="text-neutral-600 font-medium">{lead.gps_ward ? 'GPS Ward:' : 'GPS Area:'}</span>
+                                <div className={`font-semibold ${lead.ward_mismatch ? 'text-amber-800' : 'text-neutral-900'}`}>
+                                  {lead.gps_ward ?? lead.gps_district ?? lead.gps_region}
+                                </div>
+                              </div>
+                            )}
+                          </div>
+
+                          {lead.status === 'lost' && lead.lost_reason && (
+                            <div className="text-xs text-red-700">
+                              <span className="font-medium">Lost:</span> {lead.lost_reason}
+                            </div>
+                          )}
+
+                          <div className="bg-primary-50 rounded p-2">
+                            <div className="flex items-center gap-2">
+                              <svg className="h-3 w-3 text-primary-600" fill="currentColor" viewBox="0 0 20 20">
+                                <path fillRule="evenodd" d="M10 9a3 3 0 100-6 3 3 0 000 6zm-7 9a7 7 0 1114 0H3z" clipRule="evenodd" />
+                              </svg>
+                              <span className="text-xs font-medium text-primary-900">
+                                {lead.officer?.name}
+                              </span>
+                              <span className="text-xs text-primary-700">
+                                {lead.officer?.phone && formatPhone(lead.officer.phone)}
+                              </span>
+                            </div>
+                          </div>
+
+                          {lead.gps_latitude && lead.gps_longitude && (
+                            <div className="text-xs text-neutral-500">
+                              📍 {lead.gps_latitude.toFixed(4)}, {lead.gps_longitude.toFixed(4)}
+                            </div>
+                          )}
+
+                          {lead.duplicate_of_id && can('leads:merge') && (
+                            <LeadDuplicatesPanel lead={lead} onMerged={reload} />
+                          )}
+
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            fullWidth
+                            onClick={() => router.push(`${basePath}/leads/${lead.id}`)}
+                          >
+                            {can('leads:update') ? 'Open & Edit' : 'Open Details'}
+                          </Button>
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                );
+              })
+            )}
+
+            {!loading && hasMore && (
+              <div ref={sentinelRef} className="text-center py-2">
+                <Button variant="outline" size="sm" onClick={loadMore} disabled={loadingMore}>
+                  {loadingMore ? 'Loading...' : 'Load more'}
+                </Button>
+              </div>
+            )}
+
+            {!loading && leads.length > 0 && (
+              <p className="text-center text-xs text-neutral-500">
+                Showing {leads.length} of {total}
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </AppShell>
+  );
+}
@@ -0,0 +1,218 @@
+/**
+ * Officer import: read a spreadsheet, preview every row with its problems,
+ * then add the ready rows in one go
+ */
+
+'use client';
+
+import * as React from 'react';
+import { Button } from '@/components/ui';
+import { readCsvRecords } from '@/lib/csv';
+import { OFFICER_IMPORT_COLUMNS, OFFICER_IMPORT_MAX_ROWS } from '@/lib/constants';
+import { formatPhone, isValidPhone } from '@/lib/phone';
+import { OfficerImportRow } from '@/types';
+import { readErrorBody, readErrorMessage } from './api-errors';
+
+const TEMPLATE = 'name,phone,territory\nAsha Mussa,0714276444,Kariakoo\n';
+
+interface ImportInputRow {
+  row: number;
+  name: string;
+  phone: string;
+  territory?: string;
+}
+
+export interface OfficerImportPanelProps {
+  dealerId?: string; // platform admins import into the dealer they opened
+  onImported: (count: number) => void;
+}
+
+export function OfficerImportPanel({ dealerId, onImported }: OfficerImportPanelProps) {
+  const [text, setText] = React.useState('');
+  const [rows, setRows] = React.useState<ImportInputRow[]>([]);
+  const [report, setReport] = React.useState<OfficerImportRow[] | null>(null);
+  const [busy, setBusy] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const ready = report?.filter(row => row.status === 'ready') ?? [];
+  const problems = (report?.length ?? 0) - ready.length;
+
+  const send = (body: { rows: ImportInputRow[]; dry_run: boolean }) =>
+    fetch('/api/officers/import', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...body, ...(dealerId && { dealer_id: dealerId }) }),
+    });
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setText(await file.text());
+    setReport(null);
+    e.target.value = '';
+  };
+
+  const handleCheck = async () => {
+    setError(null);
+    setReport(null);
+
+    const { records, missing } = readCsvRecords(text, OFFICER_IMPORT_COLUMNS);
+    if (missing.includes('name') || missing.includes('phone')) {
+      setError('The first row needs "name" and "phone" column headings.');
+      return;
+    }
+    if (records.length === 0) {
+      setError('There are no officers below the headings.');
+      return;
+    }
+    if (records.length > OFFICER_IMPORT_MAX_ROWS) {
+      setError(`Import at most ${OFFICER_IMPORT_MAX_ROWS} officers at a time.`);
+      return;
+    }
+
+    const input = records.map(({ row, values }) => ({
+      row,
+      name: values.name,
+      phone: values.phone,
+      ...(values.territory && { territory: values.territory }),
+    }));
+
+    setBusy(true);
+    try {
+      const res = await send({ rows: input, dry_run: true });
+      if (!res.ok) {
+        setError(await readErrorMessage(res, 'Failed to check the officers'));
+        return;
+      }
+
+      const checked: { rows: OfficerImportRow[] } = await res.json();
+      setRows(input);
+      setReport(checked.rows);
+    } catch (err) {
+      console.error('Error checking officer import:', err);
+      setError('Failed to check the officers');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    const readyRows = new Set(ready.map(row => row.row));
+
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await send({ rows: rows.filter(row => readyRows.has(row.row)), dry_run: false });
+
+      if (!res.ok) {
+        // Someone added one of the numbers since the check
+        const body = await readErrorBody(res) as { message?: string; rows?: OfficerImportRow[] };
+        if (body.rows) setReport(body.rows);
+        setError(body.message || 'Failed to import the officers');
+        return;
+      }
+
+      const result: { imported: number } = await res.json();
+      setText('');
+      setRows([]);
+      setReport(null);
+      onImported(result.imported);
+    } catch (err) {
+      console.error('Error importing officers:', err);
+      setError('Failed to import the officers');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-neutral-700">
+        Upload a CSV with <strong>name</strong>, <strong>phone</strong> and an optional{' '}
+        <strong>territory</strong> column, or paste the cells from Excel or Google Sheets.{' '}
+        <a
+          href={`data:text/csv;charset=utf-8,${encodeURIComponent(TEMPLATE)}`}
+          download="officers.csv"
+          className="text-primary-700 underline"
+        >
+          Download a template
+        </a>
+      </p>
+
+      <input
+        type="file"
+        accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+        onChange={handleFile}
+        className="block w-full text-sm text-neutral-700"
+        aria-label="Officer spreadsheet"
+      />
+
+      <textarea
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          setReport(null);
+        }}
+        rows={6}
+        placeholder={'name,phone,territory\nAsha Mussa,0714276444,Kariakoo'}
+        className="w-full rounded-lg border border-neutral-300 bg-white p-3 font-mono text-xs text-neutral-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-500/20"
+        aria-label="Officer rows"
+      />
+
+      {error && <p className="text-sm text-red-700">{error}</p>}
+
+      {!report ? (
+        <Button fullWidth onClick={handleCheck} disabled={!text.trim() || busy}>
+          {busy ? 'Checking...' : 'Check Rows'}
+        </Button>
+      ) : (
+        <>
+          <p className="text-sm text-neutral-700">
+            {ready.length} ready{problems > 0 && `, ${problems} with problems that will be skipped`}
+          </p>
+
+          <div className="max-h-80 overflow-y-auto rounded-lg border border-neutral-200">
+            <table className="w-full text-left text-xs">
+              <thead className="bg-neutral-50 text-neutral-600">
+                <tr>
+                  <th className="px-2 py-1">Row</th>
+                  <th className="px-2 py-1">Name</th>
+                  <th className="px-2 py-1">Phone</th>
+                  <th className="px-2 py-1">Territory</th>
+                  <th className="px-2 py-1">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.map(row => (
+                  <tr key={row.row} className="border-t border-neutral-100 align-top">
+                    <td className="px-2 py-1 text-neutral-500">{row.row}</td>
+                    <td className="px-2 py-1 text-neutral-900">{row.name}</td>
+                    <td className="px-2 py-1 text-neutral-900">
+                      {isValidPhone(row.phone) ? formatPhone(row.phone) : row.phone}
+                    </td>
+                    <td className="px-2 py-1 text-neutral-700">{row.territory}</td>
+                    <td className={`px-2 py-1 ${row.status === 'ready' ? 'text-emerald-700' : 'text-red-700'}`}>
+                      {row.status === 'ready' ? 'Ready' : row.errors.join('; ')}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setReport(null)} disabled={busy}>
+              Edit
+            </Button>
+            <Button fullWidth onClick={handleImport} disabled={ready.length === 0 || busy}>
+              {busy
+                ? 'Importing...'
+                : `Import ${ready.length} ${ready.length === 1 ? 'Officer' : 'Officers'}`}
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,293 @@
+/**
+ * Officer performance: the dealer's leaderboard and one officer's stats.
+ * Results come from GET /api/analytics/leaderboard and
+ * GET /api/officers/[id]/scorecard; the officer's charts from GET /api/analytics.
+ */
+
+'use client';
+
+import * as React from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui';
+import { LEADERBOARD_METRIC_LABELS, LEADERBOARD_METRICS } from '@/lib/constants';
+import { fetchLeadAnalytics, fetchOfficerLeaderboard, fetchOfficerScorecard } from '@/lib/leads';
+import { cn, toBusinessDate } from '@/lib/utils';
+import {
+  AnalyticsInterval,
+  LeadAnalytics,
+  LeaderboardMetric,
+  OfficerLeaderboard as OfficerLeaderboardResult,
+  OfficerScorecard,
+} from '@/types';
+import { LeadAnalyticsPanel } from './lead-analytics';
+
+const SELECT_CLASS = 'h-10 text-sm rounded-lg border border-neutral-300 bg-white px-2 text-neutral-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-500/20';
+
+// Periods results can be shown for, ending today
+const PERIOD_DAYS = [7, 30, 90] as const;
+
+type PeriodDays = typeof PERIOD_DAYS[number];
+
+function periodStart(days: PeriodDays): string {
+  return toBusinessDate(new Date(), 1 - days);
+}
+
+function formatRate(rate: number | null): string {
+  return rate === null ? '–' : `${Math.round(rate * 100)}%`;
+}
+
+function PeriodPicker({ value, onChange }: { value: PeriodDays; onChange: (days: PeriodDays) => void }) {
+  return (
+    <div className="flex gap-2" role="group" aria-label="Period">
+      {PERIOD_DAYS.map(days => (
+        <button
+          key={days}
+          type="button"
+          onClick={() => onChange(days)}
+          aria-pressed={value === days}
+          className={cn(
+            'flex-1 rounded-lg border px-3 py-1.5 text-sm font-medium transition-colors',
+            value === days
+              ? 'border-primary-500 bg-primary-50 text-primary-700'
+              : 'border-neutral-300 bg-white text-neutral-700 hover:bg-neutral-50'
+          )}
+        >
+          {days} Days
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function MetricTile({ label, value, detail }: { label: string; value: string; detail: string }) {
+  return (
+    <div className="rounded-lg border border-neutral-200 p-3">
+      <p className="text-xs font-medium uppercase tracking-wide text-neutral-500">{label}</p>
+      <p className="mt-1 text-2xl font-bold text-neutral-900">{value}</p>
+      <p className="text-xs text-neutral-600">{detail}</p>
+    </div>
+  );
+}
+
+export interface OfficerScorecardCardProps {
+  scorecard: OfficerScorecard;
+}
+
+export function OfficerScorecardCard({ scorecard }: OfficerScorecardCardProps) {
+  const { performance, ranked_officers: rankedOfficers } = scorecard;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{scorecard.officer.name}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {!scorecard.officer.active && <p className="text-sm text-neutral-600">Deactivated</p>}
+        {rankedOfficers > 1 && (
+          <p className="text-sm text-neutral-700">
+            Ranked {performance.rank} of {rankedOfficers} by leads captured
+          </p>
+        )}
+        <div className="grid grid-cols-2 gap-3">
+          <MetricTile
+            label="Leads Captured"
+            value={String(performance.leads_captured)}
+            detail={`${scorecard.from} to ${scorecard.to}`}
+          />
+          <MetricTile
+            label="With GPS"
+            value={formatRate(performance.gps_rate)}
+            detail={`${performance.leads_with_gps} of ${performance.leads_captured} leads`}
+          />
+          <MetricTile
+            label="Follow-ups On Time"
+            value={formatRate(performance.on_time_rate)}
+            detail={`${performance.follow_ups_on_time} of ${performance.follow_ups_logged} follow-ups`}
+          />
+          <MetricTile
+            label="Conversion Rate"
+            value={formatRate(performance.conversion_rate)}
+            detail={`${performance.leads_won} won of ${performance.leads_assigned} leads`}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export interface OfficerStatsProps {
+  officerId: string;
+}
+
+/**
+ * An officer's scorecard and lead charts for a period they pick
+ */
+export function OfficerStats({ officerId }: OfficerStatsProps) {
+  const [days, setDays] = React.useState<PeriodDays>(30);
+  const [analyticsInterval, setAnalyticsInterval] = React.useState<AnalyticsInterval>('day');
+  const [scorecard, setScorecard] = React.useState<OfficerScorecard | null>(null);
+  const [analytics, setAnalytics] = React.useState<LeadAnalytics | null>(null);
+  const [loading, setLoading] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    if (!officerId) return;
+
+    let cancelled = false;
+    setLoading(true);
+
+    const from = periodStart(days);
+
+    Promise.all([
+      fetchOfficerScorecard(officerId, { from }),
+      fetchLeadAnalytics({ officer_id: officerId, from, interval: analyticsInterval }),
+    ])
+      .then(([nextScorecard, nextAnalytics]) => {
+        if (cancelled) return;
+        setScorecard(nextScorecard);
+        setAnalytics(nextAnalytics);
+        setError(null);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('Error loading officer stats:', err);
+        setError('Failed to load stats');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [officerId, days, analyticsInterval]);
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{error}</div>
+    );
+  }
+
+  if (!scorecard || !analytics) {
+    return <p className="text-sm text-neutral-500">Loading stats...</p>;
+  }
+
+  return (
+    <div className={cn('space-y-4', loading && 'opacity-75')}>
+      <PeriodPicker value={days} onChange={setDays} />
+      <OfficerScorecardCard scorecard={scorecard} />
+      <LeadAnalyticsPanel
+        analytics={analytics}
+        interval={analyticsInterval}
+        onIntervalChange={setAnalyticsInterval}
+        loading={loading}
+        showOfficers={false}
+      />
+    </div>
+  );
+}
+
+export interface OfficerLeaderboardProps {
+  basePath: string; // '/dealer/<id>'; scorecards are under its officers
+  dealerId?: string; // platform admins rank one dealer's officers
+}
+
+/**
+ * Officers ranked for a period by the metric the reader picks
+ */
+export function OfficerLeaderboard({ basePath, dealerId }: OfficerLeaderboardProps) {
+  const [days, setDays] = React.useState<PeriodDays>(30);
+  const [rankBy, setRankBy] = React.useState<LeaderboardMetric>('leads_captured');
+  const [leaderboard, setLeaderboard] = React.useState<OfficerLeaderboardResult | null>(null);
+  const [loading, setLoading] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    fetchOfficerLeaderboard({ dealer_id: dealerId, from: periodStart(days), rank_by: rankBy })
+      .then(result => {
+        if (cancelled) return;
+        setLeaderboard(result);
+        setError(null);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('Error loading leaderboard:', err);
+        setError('Failed to load the leaderboard');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dealerId, days, rankBy]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Leaderboard</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <PeriodPicker value={days} onChange={setDays} />
+        <label className="block text-xs font-medium text-neutral-700">
+          Rank by
+          <select
+            value={rankBy}
+            onChange={(e) => setRankBy(e.target.value as LeaderboardMetric)}
+            className={`${SELECT_CLASS} mt-1 w-full`}
+          >
+            {LEADERBOARD_METRICS.map(metric => (
+              <option key={metric} value={metric}>{LEADERBOARD_METRIC_LABELS[metric]}</option>
+            ))}
+          </select>
+        </label>
+
+        {error && <p className="text-sm text-red-700">{error}</p>}
+
+        {!error && !leaderboard && <p className="text-sm text-neutral-500">Loading leaderboard...</p>}
+
+        {!error && leaderboard && leaderboard.officers.length === 0 && (
+          <p className="text-sm text-neutral-500">No officers to rank</p>
+        )}
+
+        {!error && leaderboard && leaderboard.officers.length > 0 && (
+          <div className={cn('overflow-x-auto rounded-lg border border-neutral-200', loading && 'opacity-50')}>
+            <table className="w-full text-left text-xs">
+              <thead className="bg-neutral-50 text-neutral-600">
+                <tr>
+                  <th className="px-2 py-1">#</th>
+                  <th className="px-2 py-1">Officer</th>
+                  <th className="px-2 py-1 text-right">Leads</th>
+                  <th className="px-2 py-1 text-right">GPS</th>
+                  <th className="px-2 py-1 text-right">On Time</th>
+                  <th className="px-2 py-1 text-right">Won</th>
+                </tr>
+              </thead>
+              <tbody>
+                {leaderboard.officers.map(officer => (
+                  <tr key={officer.officer_id} className="border-t border-neutral-100">
+                    <td className="px-2 py-1 text-neutral-500">{officer.rank}</td>
+                    <td className="px-2 py-1">
+                      <Link href={`${basePath}/officers/${officer.officer_id}`} className="text-primary-700 underline">
+                        {officer.officer_name}
+                      </Link>
+                      {!officer.active && <span className="ml-1 text-neutral-500">(inactive)</span>}
+                    </td>
+                    <td className="px-2 py-1 text-right text-neutral-900">{officer.leads_captured}</td>
+                    <td className="px-2 py-1 text-right text-neutral-700">{formatRate(officer.gps_rate)}</td>
+                    <td className="px-2 py-1 text-right text-neutral-700">{formatRate(officer.on_time_rate)}</td>
+                    <td className="px-2 py-1 text-right text-neutral-700">{formatRate(officer.conversion_rate)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,39 @@
+/**
+ * Officer scorecard page for dealers, supervisors and platform admins
+ * One officer's results and lead charts, from the officers list or leaderboard.
+ */
+
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { AppShell } from '@/components/layout';
+import { UseManagerSessionReturn } from '@/hooks/use-manager-session';
+import { DashboardLoading } from './dashboard-loading';
+import { OfficerStats } from './officer-performance';
+
+export interface OfficerScorecardViewProps {
+  session: UseManagerSessionReturn;
+  basePath: string; // '/dealer/<id>'
+  officerId: string;
+}
+
+export function OfficerScorecardView({ session, basePath, officerId }: OfficerScorecardViewProps) {
+  const router = useRouter();
+  const officersPath = `${basePath}/officers`;
+
+  if (session.loading || !session.role) {
+    return (
+      <DashboardLoading
+        title="Scorecard"
+        message="Loading scorecard..."
+        onBackClick={() => router.push(officersPath)}
+      />
+    );
+  }
+
+  return (
+    <AppShell title="Scorecard" showBackButton onBackClick={() => router.push(officersPath)}>
+      <OfficerStats officerId={officerId} />
+    </AppShell>
+  );
+}
@@ -0,0 +1,571 @@
+/**
+ * Officer management shared by platform admins, dealers and supervisors
+ */
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { AppShell } from '@/components/layout';
+import { Button, Card, CardContent, CardHeader, CardTitle, FormField } from '@/components/ui';
+import { UseManagerSessionReturn } from '@/hooks/use-manager-session';
+import { formatPhone } from '@/lib/phone';
+import { Officer, OfficerRole } from '@/types';
+import { readErrorMessage } from './api-errors';
+import { withDealerFilter } from './dealer-filter';
+import { OfficerImportPanel } from './officer-import';
+
+export interface OfficersManagerProps {
+  session: UseManagerSessionReturn;
+  basePath: string; // '/admin' or '/dealer/<id>'
+  dealerId?: string; // limit the list to one dealer
+}
+
+const EMPTY_OFFICER = { name: '', phone: '', pin: '', territory: '', role: 'officer' as OfficerRole, supervisorId: '' };
+
+export function OfficersManager({ session, basePath, dealerId }: OfficersManagerProps) {
+  const router = useRouter();
+  const { role, officer: self, can } = session;
+  const isTeamView = role === 'supervisor';
+  const canAssign = can('officers:assign');
+  const canTransfer = can('leads:assign');
+  // Platform admins pick a dealer before adding officers to it
+  const canCreate = can('officers:create') && (role !== 'platform_admin' || Boolean(dealerId));
+
+  const [officers, setOfficers] = useState<Officer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [newOfficer, setNewOfficer] = useState(EMPTY_OFFICER);
+  const [transfer, setTransfer] = useState<{ fromId: string; toId: string } | null>(null);
+  const [transferring, setTransferring] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // Inactive officers are listed separately and cannot be picked for anything
+  const activeOfficers = officers.filter(o => o.active !== false);
+  const inactiveOfficers = officers.filter(o => o.active === false);
+  const supervisors = activeOfficers.filter(o => o.role === 'supervisor');
+
+  const fetchOfficers = useCallback(async () => {
+    try {
+      // The API scopes the list to the session
+      const res = await fetch(withDealerFilter('/api/officers?status=all', dealerId));
+      const data = await res.json();
+      setOfficers(data);
+    } catch (error) {
+      console.error('Error fetching officers:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [dealerId]);
+
+  useEffect(() => {
+    if (role) {
+      fetchOfficers();
+    }
+  }, [role, fetchOfficers]);
+
+  const handleAddOfficer = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newOfficer.name.trim() || !newOfficer.phone.trim()) return;
+
+    try {
+      setError(null);
+      const res = await fetch('/api/officers', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: newOfficer.name.trim(),
+          phone: newOfficer.phone.trim(),
+          ...(newOfficer.pin && { pin: newOfficer.pin }),
+          ...(newOfficer.territory.trim() && { territory: newOfficer.territory.trim() }),
+          ...(canAssign && { role: newOfficer.role }),
+          ...(canAssign && newOfficer.role === 'officer' && newOfficer.supervisorId && {
+            supervisor_id: newOfficer.supervisorId,
+          }),
+          ...(dealerId && { dealer_id: dealerId }),
+        }),
+      });
+
+      if (!res.ok) {
+        setError(await readErrorMessage(res, 'Failed to add officer'));
+        return;
+      }
+
+      setNewOfficer(EMPTY_OFFICER);
+      setShowAddForm(false);
+      fetchOfficers();
+    } catch (error) {
+      console.error('Error adding officer:', error);
+    }
+  };
+
+  const handleUpdateOfficer = async (
+    officerId: string,
+    changes: { role?: OfficerRole; supervisor_id?: string | null; pin?: string }
+  ) => {
+    try {
+      setError(null);
+      const res = await fetch(`/api/officers/${officerId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+
+      if (!res.ok) {
+        setError(await readErrorMessage(res, 'Failed to update officer'));
+        return;
+      }
+
+      fetchOfficers();
+    } catch (error) {
+      console.error('Error updating officer:', error);
+    }
+  };
+
+  // A new PIN also unlocks an officer locked out by wrong PINs
+  const handleResetPin = (officer: Officer) => {
+    const pin = prompt(`New login PIN for ${officer.name} (4 to 6 digits)`);
+    if (pin === null) return;
+
+    if (!/^\d{4,6}$/.test(pin.trim())) {
+      setError('PIN must be 4 to 6 digits');
+      return;
+    }
+
+    handleUpdateOfficer(officer.id, { pin: pin.trim() });
+  };
+
+  // Deactivated officers cannot sign in; their leads and history are kept
+  const handleDeactivateOfficer = async (officer: Officer) => {
+    const reason = prompt(`Why is ${officer.name} being deactivated? They will no longer be able to log in.`);
+    if (!reason?.trim()) return;
+
+    try {
+      setError(null);
+      const res = await fetch(`/api/officers/${officer.id}/deactivate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason: reason.trim() }),
+      });
+
+      if (!res.ok) {
+        setError(await readErrorMessage(res, 'Failed to deactivate officer'));
+        return;
+      }
+
+      fetchOfficers();
+    } catch (error) {
+      console.error('Error deactivating officer:', error);
+    }
+  };
+
+  const handleReactivateOfficer = async (officerId: string) => {
+    try {
+      setError(null);
+      const res = await fetch(`/api/officers/${officerId}/reactivate`, {
+        method: 'POST',
+      });
+
+      if (!res.ok) {
+        setError(await readErrorMessage(res, 'Failed to reactivate officer'));
+        return;
+      }
+
+      fetchOfficers();
+    } catch (error) {
+      console.error('Error reactivating officer:', error);
+    }
+  };
+
+  // Move every lead the officer has to another officer at the same dealer
+  const handleTransferLeads = async () => {
+    if (!transfer?.toId) return;
+
+    const from = officers.find(o => o.id === transfer.fromId);
+    const to = officers.find(o => o.id === transfer.toId);
+    if (!confirm(`Move all of ${from?.name ?? 'this officer'}'s leads to ${to?.name ?? 'the new officer'}?`)) return;
+
+    setTransferring(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const res = await fetch(`/api/officers/${transfer.fromId}/transfer`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ to_officer_id: transfer.toId }),
+      });
+
+      if (!res.ok) {
+        setError(await readErrorMessage(res, 'Failed to transfer leads'));
+        return;
+      }
+
+      const { transferred } = await res.json();
+      setNotice(`Moved ${transferred} lead${transferred === 1 ? '' : 's'} to ${to?.name ?? 'the new officer'}.`);
+      setTransfer(null);
+    } catch (error) {
+      console.error('Error transferring leads:', error);
+      setError('Failed to transfer leads');
+    } finally {
+      setTransferring(false);
+    }
+  };
+
+  const title = isTeamView ? 'Manage Team' : 'Manage Officers';
+
+  const renderTransfer = (officer: Officer, toId: string) => (
+    <div className="flex gap-2">
+      <select
+        value={toId}
+        onChange={(e) => setTransfer({ fromId: officer.id, toId: e.target.value })}
+        className="flex-1 h-9 text-xs rounded-lg border border-neutral-300 bg-white px-2 text-neutral-900"
+        aria-label="Transfer leads to"
+      >
+        <option value="">Move all leads to...</option>
+        {activeOfficers
+          .filter(o => o.id !== officer.id && o.dealer_id === officer.dealer_id)
+          .map(o => (
+            <option key={o.id} value={o.id}>{o.name}</option>
+          ))}
+      </select>
+      <Button
+        size="sm"
+        onClick={handleTransferLeads}
+        disabled={!toId || transferring}
+      >
+        {transferring ? 'Moving...' : 'Move'}
+      </Button>
+      <Button size="sm" variant="outline" onClick={() => setTransfer(null)}>
+        Cancel
+      </Button>
+    </div>
+  );
+
+  return (
+    <AppShell
+      title={title}
+      showBackButton
+      onBackClick={() => router.push(basePath)}
+    >
+      <div className="space-y-6">
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        {notice && (
+          <div className="bg-emerald-50 border border-emerald-200 rounded-lg p-3 text-sm text-emerald-800">
+            {notice}
+          </div>
+        )}
+
+        {/* Add Officer Button */}
+        {canCreate && (
+          <Button
+            fullWidth
+            onClick={() => setShowAddForm(!showAddForm)}
+          >
+            {showAddForm ? 'Cancel' : 'Add New Officer'}
+          </Button>
+        )}
+
+        {canCreate && (
+          <Button
+            fullWidth
+            variant="outline"
+            onClick={() => setShowImport(!showImport)}
+          >
+            {showImport ? 'Close Import' : 'Import from Spreadsheet'}
+          </Button>
+        )}
+
+        {role === 'platform_admin' && !dealerId && (
+          <p className="text-sm text-neutral-600 text-center">
+            Open a dealer from the dashboard to add officers to it.
+          </p>
+        )}
+
+        {canCreate && showImport && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Import Officers</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <OfficerImportPanel
+                dealerId={dealerId}
+                onImported={(count) => {
+                  setShowImport(false);
+                  setNotice(`Imported ${count} ${count === 1 ? 'officer' : 'officers'}.`);
+                  fetchOfficers();
+                }}
+              />
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Add Officer Form */}
+        {canCreate && showAddForm && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Add New Officer</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleAddOfficer} className="space-y-4">
+                <FormField
+                  label="Officer Name"
+                  placeholder="Enter officer name"
+                  value={newOfficer.name}
+                  onChange={(e) => setNewOfficer({ ...newOfficer, name: e.target.value })}
+                  required
+                />
+
+                <FormField
+                  label="Phone Number (10 digits)"
+                  type="tel"
+                  placeholder="0715123456"
+                  value={newOfficer.phone}
+                  onChange={(e) => setNewOfficer({ ...newOfficer, phone: e.target.value })}
+                  required
+                />
+
+                <FormField
+                  label="Territory (optional)"
+                  placeholder="e.g. Kariakoo"
+                  maxLength={100}
+                  value={newOfficer.territory}
+                  onChange={(e) => setNewOfficer({ ...newOfficer, territory: e.target.value })}
+                />
+
+                <FormField
+                  label="Login PIN (optional)"
+                  type="password"
+                  inputMode="numeric"
+                  placeholder="4-6 digits"
+                  maxLength={6}
+                  value={newOfficer.pin}
+                  onChange={(e) => setNewOfficer({ ...newOfficer, pin: e.target.value.replace(/\D/g, '') })}
+                  hint="If set, the officer must enter this PIN when logging in"
+                />
+
+                {canAssign && (
+                  <div className="flex gap-2">
+                    <select
+                      value={newOfficer.role}
+                      onChange={(e) => setNewOfficer({ ...newOfficer, role: e.target.value as OfficerRole })}
+                      className="flex-1 h-12 text-sm rounded-lg border border-neutral-300 bg-white px-3 text-neutral-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-500/20"
+                    >
+                      <option value="officer">Officer</option>
+                      <option value="supervisor">Supervisor</option>
+                    </select>
+
+                    {newOfficer.role === 'officer' && (
+                      <select
+                        value={newOfficer.supervisorId}
+                        onChange={(e) => setNewOfficer({ ...newOfficer, supervisorId: e.target.value })}
+                        className="flex-1 h-12 text-sm rounded-lg border border-neutral-300 bg-white px-3 text-neutral-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-500/20"
+                      >
+                        <option value="">No supervisor</option>
+                        {supervisors.map(s => (
+                          <option key={s.id} value={s.id}>{s.name}</option>
+                        ))}
+                      </select>
+                    )}
+                  </div>
+                )}
+
+                <Button
+                  type="submit"
+                  fullWidth
+                  disabled={!newOfficer.name.trim() || !newOfficer.phone.trim()}
+                >
+                  Add Officer
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Officers List */}
+        <Card>
+          <CardHeader>
+            <CardTitle>{isTeamView ? 'Your Team' : 'Officers'} ({activeOfficers.length})</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <p className="text-neutral-600">Loading officers...</p>
+            ) : activeOfficers.length === 0 ? (
+              <div className="text-center py-8">
+                <p className="text-neutral-600 mb-4">No officers yet</p>
+                {canCreate && (
+                  <Button onClick={() => setShowAddForm(true)}>
+                    Add Your First Officer
+                  </Button>
+                )}
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {activeOfficers.map((officer) => (
+                  <div
+                    key={officer.id}
+                    className="p-3 bg-neutral-50 rounded-lg space-y-2"
+                  >
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="font-medium text-neutral-900">
+                          {officer.name}
+                          {officer.id === self?.id && <span className="text-neutral-500"> (you)</span>}
+                          {officer.role === 'supervisor' && (
+                            <span className="ml-2 text-xs font-medium text-primary-700 bg-primary-50 rounded-full px-2 py-0.5">
+                              Supervisor
+                            </span>
+                          )}
+                          {officer.pin_locked_at && (
+                            <span className="ml-2 text-xs font-medium text-amber-800 bg-amber-50 rounded-full px-2 py-0.5">
+                              PIN locked
+                            </span>
+                          )}
+                        </p>
+                        <p className="text-sm text-neutral-700">{formatPhone(officer.phone)}</p>
+                        <p className="text-xs text-neutral-600">
+                          {role === 'platform_admin' && !dealerId && officer.dealer
+                            ? `${officer.dealer.company} • `
+                            : ''}
+                          {officer.territory && `${officer.territory} • `}
+                          Added {new Date(officer.created_at).toLocaleDateString()}
+                        </p>
+                      </div>
+
+                      <div className="flex gap-2">
+                        {/* Scorecards live under the officer's dealer, also for platform admins */}
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => router.push(`/dealer/${officer.dealer_id}/officers/${officer.id}`)}
+                        >
+                          Scorecard
+                        </Button>
+
+                        {officer.pin_locked_at && can('officers:update') && (
+                          <Button size="sm" variant="outline" onClick={() => handleResetPin(officer)}>
+                            Set New PIN
+                          </Button>
+                        )}
+
+                        {canTransfer && transfer?.fromId !== officer.id && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setTransfer({ fromId: officer.id, toId: '' })}
+                          >
+                            Transfer Leads
+                          </Button>
+                        )}
+
+                        {can('officers:delete') && (
+                          <Button
+                            size="sm"
+                            variant="destructive"
+                            onClick={() => handleDeactivateOfficer(officer)}
+                          >
+                            Deactivate
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+
+                    {transfer?.fromId === officer.id && renderTransfer(officer, transfer.toId)}
+
+                    {canAssign && (
+                      <div className="flex gap-2">
+                        <select
+                          value={officer.role}
+                          onChange={(e) => handleUpdateOfficer(officer.id, { role: e.target.value as OfficerRole })}
+                          className="flex-1 h-9 text-xs rounded-lg border border-neutral-300 bg-white px-2 text-neutral-900"
+                        >
+                          <option value="officer">Officer</option>
+                          <option value="supervisor">Supervisor</option>
+                        </select>
+
+                        {officer.role === 'officer' && (
+                          <select
+                            value={officer.supervisor_id ?? ''}
+                            onChange={(e) => handleUpdateOfficer(officer.id, { supervisor_id: e.target.value || null })}
+                            className="flex-1 h-9 text-xs rounded-lg border border-neutral-300 bg-white px-2 text-neutral-900"
+                          >
+                            <option value="">No supervisor</option>
+                            {supervisors
+                              .filter(s => s.dealer_id === officer.dealer_id)
+                              .map(s => (
+                                <option key={s.id} value={s.id}>{s.name}</option>
+                              ))}
+                          </select>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {inactiveOfficers.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Inactive ({inactiveOfficers.length})</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {inactiveOfficers.map((officer) => (
+                  <div
+                    key={officer.id}
+                    className="p-3 bg-neutral-50 rounded-lg space-y-2"
+                  >
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="font-medium text-neutral-700">{officer.name}</p>
+                        <p className="text-sm text-neutral-600">{formatPhone(officer.phone)}</p>
+                        <p className="text-xs text-neutral-600">
+                          {officer.deactivated_at && `Deactivated ${new Date(officer.deactivated_at).toLocaleDateString()}`}
+                          {officer.deactivation_reason && ` • ${officer.deactivation_reason}`}
+                        </p>
+                      </div>
+
+                      <div className="flex gap-2">
+                        {canTransfer && transfer?.fromId !== officer.id && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setTransfer({ fromId: officer.id, toId: '' })}
+                          >
+                            Transfer Leads
+                          </Button>
+                        )}
+
+                        {can('officers:delete') && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleReactivateOfficer(officer.id)}
+                          >
+                            Reactivate
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+
+                    {transfer?.fromId === officer.id && renderTransfer(officer, transfer.toId)}
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </AppShell>
+  );
+}
@@ -0,0 +1,304 @@
+/**
+ * Lead targets page for dealers, supervisors and platform admins
+ * An attainment report for the periods containing a chosen date, with
+ * officers and teams behind their pace highlighted. Dealers set and remove
+ * targets here; supervisors see their team's.
+ */
+
+'use client';
+
+import * as React from 'react';
+import { useRouter } from 'next/navigation';
+import { AppShell } from '@/components/layout';
+import { Button, Card, CardContent, CardHeader, CardTitle } from '@/components/ui';
+import { UseManagerSessionReturn } from '@/hooks/use-manager-session';
+import { ApiClientError } from '@/lib/api-client';
+import { TARGET_PERIOD_LABELS, TARGET_PERIODS, TARGET_STATUS_LABELS } from '@/lib/constants';
+import { deleteOfficerTarget, fetchTargetAttainment, setOfficerTarget } from '@/lib/leads';
+import { cn, toBusinessDate } from '@/lib/utils';
+import { Officer, TargetAppliesTo, TargetAttainment, TargetAttainmentReport, TargetPeriod, TargetStatus } from '@/types';
+import { DashboardLoading } from './dashboard-loading';
+import { withDealerFilter } from './dealer-filter';
+
+const SELECT_CLASS = 'w-full h-10 text-sm rounded-lg border border-neutral-300 bg-white px-2 text-neutral-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-500/20';
+
+const STATUS_CLASSES: Record<TargetStatus, string> = {
+  met: 'text-emerald-700',
+  on_track: 'text-neutral-700',
+  behind: 'text-red-700 font-medium',
+};
+
+const EMPTY_TARGET = { officerId: '', appliesTo: 'officer' as TargetAppliesTo, period: 'day' as TargetPeriod, leadCount: '' };
+
+function targetName(target: TargetAttainment): string {
+  return target.applies_to === 'team' ? `${target.officer_name}'s team` : target.officer_name;
+}
+
+export interface TargetsManagerProps {
+  session: UseManagerSessionReturn;
+  basePath: string; // '/dealer/<id>'
+  dealerId?: string; // limit the report to one dealer
+}
+
+export function TargetsManager({ session, basePath, dealerId }: TargetsManagerProps) {
+  const router = useRouter();
+  const { role, loading: sessionLoading, can } = session;
+  const canSetTargets = can('officers:targets');
+
+  const [date, setDate] = React.useState(() => toBusinessDate());
+  const [report, setReport] = React.useState<TargetAttainmentReport | null>(null);
+  const [officers, setOfficers] = React.useState<Officer[]>([]);
+  const [form, setForm] = React.useState(EMPTY_TARGET);
+  const [saving, setSaving] = React.useState(false);
+  const [loadError, setLoadError] = React.useState<string | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const loadReport = React.useCallback(async () => {
+    try {
+      setReport(await fetchTargetAttainment({ dealer_id: dealerId, date }));
+      setLoadError(null);
+    } catch (err) {
+      console.error('Error loading targets:', err);
+      setLoadError('Failed to load targets');
+    }
+  }, [dealerId, date]);
+
+  React.useEffect(() => {
+    if (role) {
+      loadReport();
+    }
+  }, [role, loadReport]);
+
+  // Active officers to set targets for
+  React.useEffect(() => {
+    if (!role || !canSetTargets) return;
+
+    fetch(withDealerFilter('/api/officers', dealerId))
+      .then(res => (res.ok ? res.json() : []))
+      .then(setOfficers)
+      .catch(err => console.error('Error fetching officers:', err));
+  }, [role, dealerId, canSetTargets]);
+
+  const selectedOfficer = officers.find(officer => officer.id === form.officerId);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.officerId || !form.leadCount) return;
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      await setOfficerTarget({
+        officer_id: form.officerId,
+        applies_to: form.appliesTo,
+        period: form.period,
+        lead_count: Number(form.leadCount),
+      });
+      setForm(EMPTY_TARGET);
+      await loadReport();
+    } catch (err) {
+      console.error('Error setting target:', err);
+      setError(err instanceof ApiClientError && err.message ? err.message : 'Failed to set target');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (target: TargetAttainment) => {
+    if (!confirm(`Remove the ${TARGET_PERIOD_LABELS[target.period].toLowerCase()} target for ${targetName(target)}?`)) return;
+
+    setError(null);
+
+    try {
+      await deleteOfficerTarget(target.target_id);
+      await loadReport();
+    } catch (err) {
+      console.error('Error removing target:', err);
+      setError('Failed to remove target');
+    }
+  };
+
+  if (sessionLoading || !role || (!report && !loadError)) {
+    return (
+      <DashboardLoading title="Targets" message="Loading targets..." onBackClick={() => router.push(basePath)} />
+    );
+  }
+
+  const behind = report?.targets.filter(target => target.status === 'behind') ?? [];
+
+  return (
+    <AppShell title="Targets" showBackButton onBackClick={() => router.push(basePath)}>
+      <div className="space-y-4">
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{error}</div>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Attainment</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <label className="block text-xs font-medium text-neutral-700">
+              Periods containing
+              <input
+                type="date"
+                value={date}
+                onChange={(e) => e.target.value && setDate(e.target.value)}
+                className={`${SELECT_CLASS} mt-1`}
+              />
+            </label>
+
+            {loadError && <p className="text-sm text-red-700">{loadError}</p>}
+
+            {report && report.targets.length === 0 && (
+              <p className="text-sm text-neutral-500">No targets set yet</p>
+            )}
+
+            {report && report.targets.length > 0 && (
+              <>
+                <p className={cn('text-sm', behind.length > 0 ? 'text-red-700' : 'text-neutral-700')}>
+                  {behind.length === 0
+                    ? 'Everyone is on track.'
+                    : `${behind.length} of ${report.targets.length} ${report.targets.length === 1 ? 'target is' : 'targets are'} behind pace.`}
+                </p>
+
+                <div className="overflow-x-auto rounded-lg border border-neutral-200">
+                  <table className="w-full text-left text-xs">
+                    <thead className="bg-neutral-50 text-neutral-600">
+                      <tr>
+                        <th className="px-2 py-1">Officer</th>
+                        <th className="px-2 py-1">Period</th>
+                        <th className="px-2 py-1 text-right">Leads</th>
+                        <th className="px-2 py-1 text-right">Pace</th>
+                        <th className="px-2 py-1">Status</th>
+                        {canSetTargets && <th className="px-2 py-1" />}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.targets.map(target => (
+                        <tr
+                          key={target.target_id}
+                          className={cn('border-t border-neutral-100', target.status === 'behind' && 'bg-red-50')}
+                        >
+                          <td className="px-2 py-1 text-neutral-900">
+                            {targetName(target)}
+                            {!target.active && <span className="ml-1 text-neutral-500">(inactive)</span>}
+                          </td>
+                          <td className="px-2 py-1 text-neutral-700">
+                            {TARGET_PERIOD_LABELS[target.period]}
+                            <div className="text-neutral-500">
+                              {target.period_start === target.period_end
+                                ? target.period_start
+                                : `${target.period_start} to ${target.period_end}`}
+                            </div>
+                          </td>
+                          <td className="px-2 py-1 text-right text-neutral-900">
+                            {target.achieved} / {target.lead_count}
+                          </td>
+                          <td className="px-2 py-1 text-right text-neutral-700">{target.expected}</td>
+                          <td className={cn('px-2 py-1', STATUS_CLASSES[target.status])}>
+                            {TARGET_STATUS_LABELS[target.status]}
+                          </td>
+                          {canSetTargets && (
+                            <td className="px-2 py-1 text-right">
+                              <button
+                                type="button"
+                                className="text-red-700 underline"
+                                onClick={() => handleDelete(target)}
+                              >
+                                Remove
+                              </button>
+                            </td>
+                          )}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <p className="text-xs text-neutral-500">
+                  Pace is the leads due by the end of yesterday if the target is spread evenly over the period.
+                </p>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        {canSetTargets && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Set a Target</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSave} className="space-y-3">
+                <label className="block text-xs font-medium text-neutral-700">
+                  Officer
+                  <select
+                    value={form.officerId}
+                    onChange={(e) => setForm({ ...form, officerId: e.target.value, appliesTo: 'officer' })}
+                    className={`${SELECT_CLASS} mt-1`}
+                    required
+                  >
+                    <option value="">Choose an officer</option>
+                    {officers.map(officer => (
+                      <option key={officer.id} value={officer.id}>{officer.name}</option>
+                    ))}
+                  </select>
+                </label>
+
+                {selectedOfficer?.role === 'supervisor' && (
+                  <label className="block text-xs font-medium text-neutral-700">
+                    Counts
+                    <select
+                      value={form.appliesTo}
+                      onChange={(e) => setForm({ ...form, appliesTo: e.target.value as TargetAppliesTo })}
+                      className={`${SELECT_CLASS} mt-1`}
+                    >
+                      <option value="officer">Their own leads</option>
+                      <option value="team">Their whole team&apos;s leads</option>
+                    </select>
+                  </label>
+                )}
+
+                <div className="grid grid-cols-2 gap-3">
+                  <label className="block text-xs font-medium text-neutral-700">
+                    Period
+                    <select
+                      value={form.period}
+                      onChange={(e) => setForm({ ...form, period: e.target.value as TargetPeriod })}
+                      className={`${SELECT_CLASS} mt-1`}
+                    >
+                      {TARGET_PERIODS.map(period => (
+                        <option key={period} value={period}>{TARGET_PERIOD_LABELS[period]}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="block text-xs font-medium text-neutral-700">
+                    Leads
+                    <input
+                      type="number"
+                      min={1}
+                      step={1}
+                      value={form.leadCount}
+                      onChange={(e) => setForm({ ...form, leadCount: e.target.value })}
+                      className={`${SELECT_CLASS} mt-1`}
+                      required
+                    />
+                  </label>
+                </div>
+
+                <p className="text-xs text-neutral-500">
+                  Setting a target again for the same officer and period replaces it.
+                </p>
+
+                <Button type="submit" fullWidth disabled={saving || !form.officerId || !form.leadCount}>
+                  {saving ? 'Saving...' : 'Save Target'}
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </AppShell>
+  );
+}
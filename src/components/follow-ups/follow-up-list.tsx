@@ -0,0 +1,370 @@
+/**
+ * My Follow-ups - the signed-in officer's open leads due for contact,
+ * with a quick form to log how the call went and when to call next
+ */
+
+'use client';
+
+import * as React from 'react';
+import { useRouter } from 'next/navigation';
+import { AppShell, Card, CardContent, Button, FormField } from '@/components';
+import { NetworkStatus } from '@/components/ui/error-display';
+import { Skeleton } from '@/components/ui/loading-indicator';
+import { LeadActivityTimeline } from '@/components/dashboard/lead-activities';
+import { LeadStatusBadge } from '@/components/dashboard/lead-status';
+import { useNetworkStatus } from '@/hooks/use-network-status';
+import { useOfficerSession } from '@/hooks/use-officer-session';
+import { ApiClientError } from '@/lib/api-client';
+import { fetchFollowUps, logFollowUpOutcome } from '@/lib/leads';
+import {
+  disablePushReminders,
+  enablePushReminders,
+  getPushReminderState,
+  PushReminderState,
+} from '@/lib/pwa';
+import { formatPhone } from '@/lib/phone';
+import { toBusinessDate } from '@/lib/utils';
+import {
+  FOLLOW_UP_NEXT_DAYS,
+  FOLLOW_UP_OUTCOME_LABELS,
+  FOLLOW_UP_OUTCOMES,
+} from '@/lib/constants';
+import { FollowUpOutcome, FollowUpQueue, Lead } from '@/types';
+
+const SELECT_CLASS = 'w-full h-12 text-sm rounded-lg border border-neutral-300 bg-white px-3 text-neutral-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-500/20';
+
+type Bucket = 'overdue' | 'due_today' | 'upcoming';
+
+const BUCKETS: { key: Bucket; title: string; empty: string; className: string }[] = [
+  { key: 'overdue', title: 'Overdue', empty: 'Nothing overdue', className: 'text-red-700' },
+  { key: 'due_today', title: 'Today', empty: 'No calls due today', className: 'text-primary-700' },
+  { key: 'upcoming', title: 'Next 7 Days', empty: 'Nothing scheduled this week', className: 'text-neutral-700' },
+];
+
+function formatContactDate(date: string): string {
+  return new Date(`${date}T00:00:00`).toLocaleDateString(undefined, {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+  });
+}
+
+// Outcome, next date and note. The next date follows the outcome until the
+// officer picks one themselves.
+function OutcomeForm({ lead, onLogged, onCancel }: {
+  lead: Lead;
+  onLogged: (lead: Lead) => void;
+  onCancel: () => void;
+}) {
+  const [outcome, setOutcome] = React.useState<FollowUpOutcome>('reached');
+  const [nextDate, setNextDate] = React.useState(() => toBusinessDate(new Date(), FOLLOW_UP_NEXT_DAYS.reached));
+  const [dateTouched, setDateTouched] = React.useState(false);
+  const [note, setNote] = React.useState('');
+  const [saving, setSaving] = React.useState(false);
+  const [error, setError] = React.useState('');
+
+  const today = toBusinessDate();
+
+  const changeOutcome = (value: FollowUpOutcome) => {
+    setOutcome(value);
+    if (!dateTouched) {
+      setNextDate(toBusinessDate(new Date(), FOLLOW_UP_NEXT_DAYS[value]));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError('');
+
+    try {
+      const updated = await logFollowUpOutcome(lead.id, {
+        outcome,
+        next_contact_date: nextDate,
+        note: note.trim() || undefined,
+      });
+      onLogged(updated);
+    } catch (err) {
+      setError(
+        err instanceof ApiClientError && err.isNetworkError
+          ? 'You are offline. Follow-ups need a connection to save.'
+          : 'Failed to save the follow-up. Please try again.'
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 pt-3 border-t border-neutral-200">
+      <div className="space-y-1">
+        <label className="block text-sm font-medium text-neutral-700">What happened?</label>
+        <select
+          value={outcome}
+          onChange={(e) => changeOutcome(e.target.value as FollowUpOutcome)}
+          className={SELECT_CLASS}
+        >
+          {FOLLOW_UP_OUTCOMES.map(value => (
+            <option key={value} value={value}>{FOLLOW_UP_OUTCOME_LABELS[value]}</option>
+          ))}
+        </select>
+      </div>
+
+      <FormField
+        label="Next Contact"
+        type="date"
+        min={today}
+        value={nextDate}
+        onChange={(e) => {
+          setNextDate(e.target.value);
+          setDateTouched(true);
+        }}
+        required
+      />
+
+      <FormField
+        label="Note"
+        placeholder="Optional"
+        maxLength={500}
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+      />
+
+      {error && <p className="text-sm text-red-700">{error}</p>}
+
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" fullWidth onClick={onCancel} disabled={saving}>
+          Cancel
+        </Button>
+        <Button type="submit" fullWidth loading={saving} disabled={!nextDate || nextDate < today}>
+          Save
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+function FollowUpCard({ lead, open, onToggle, onLogged }: {
+  lead: Lead;
+  open: boolean;
+  onToggle: () => void;
+  onLogged: (lead: Lead) => void;
+}) {
+  const [showActivity, setShowActivity] = React.useState(false);
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-start justify-between gap-3">
+          <div className="min-w-0">
+            <div className="font-semibold text-neutral-900 truncate">{lead.lead_name}</div>
+            <div className="text-sm text-neutral-600">
+              {lead.ward} • {lead.interested_phone_model}
+            </div>
+            <div className="text-xs text-neutral-500 mt-1">
+              Due {formatContactDate(lead.next_contact_date)}
+              {lead.last_follow_up_outcome && ` • Last: ${FOLLOW_UP_OUTCOME_LABELS[lead.last_follow_up_outcome]}`}
+            </div>
+          </div>
+          <LeadStatusBadge status={lead.status} />
+        </div>
+
+        <div className="flex gap-2">
+          <a
+            href={`tel:${lead.phone_contact}`}
+            className="flex-1 inline-flex items-center justify-center h-10 rounded-lg bg-primary-600 text-white text-sm font-medium hover:bg-primary-700"
+          >
+            Call {formatPhone(lead.phone_contact, 'national')}
+          </a>
+          {!open && (
+            <Button variant="outline" className="flex-1 h-10" onClick={onToggle}>
+              Log Outcome
+            </Button>
+          )}
+        </div>
+
+        {open && <OutcomeForm lead={lead} onLogged={onLogged} onCancel={onToggle} />}
+
+        <button
+          type="button"
+          className="text-xs font-medium text-primary-700 hover:underline"
+          onClick={() => setShowActivity(current => !current)}
+        >
+          {showActivity ? 'Hide activity' : 'Activity & notes'}
+        </button>
+
+        {showActivity && <LeadActivityTimeline lead={lead} canAdd className="shadow-none" />}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Morning push reminders on this device. Hidden where push is not supported
+// or not configured.
+function ReminderSettings() {
+  const [state, setState] = React.useState<PushReminderState>('unsupported');
+  const [busy, setBusy] = React.useState(false);
+  const [error, setError] = React.useState('');
+
+  React.useEffect(() => {
+    getPushReminderState().then(setState).catch(() => setState('unsupported'));
+  }, []);
+
+  const toggle = async () => {
+    setBusy(true);
+    setError('');
+
+    try {
+      if (state === 'on') {
+        await disablePushReminders();
+        setState('off');
+      } else {
+        setState(await enablePushReminders());
+      }
+    } catch (err) {
+      console.error('Failed to change reminders:', err);
+      setError('Could not change reminders. Check your connection and try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (state === 'unsupported') return null;
+
+  if (state === 'denied') {
+    return (
+      <p className="text-xs text-neutral-500">
+        Notifications are blocked for this app. Allow them in your browser settings to get morning reminders.
+      </p>
+    );
+  }
+
+  return (
+    <div className="rounded-lg border border-primary-200 bg-primary-50 p-3 space-y-2">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-sm text-primary-900">
+          {state === 'on'
+            ? 'Morning reminders are on for this phone.'
+            : 'Get a reminder each morning when follow-ups are due.'}
+        </p>
+        <Button size="sm" variant="outline" loading={busy} onClick={toggle}>
+          {state === 'on' ? 'Turn Off' : 'Turn On'}
+        </Button>
+      </div>
+      {error && <p className="text-xs text-red-700">{error}</p>}
+    </div>
+  );
+}
+
+export function FollowUpList() {
+  const router = useRouter();
+  const { isOnline, isConnected, checkConnection } = useNetworkStatus();
+  const { officer, loading: sessionLoading } = useOfficerSession();
+
+  const [queue, setQueue] = React.useState<FollowUpQueue | null>(null);
+  const [loading, setLoading] = React.useState(true);
+  const [error, setError] = React.useState('');
+  const [openLeadId, setOpenLeadId] = React.useState<string | null>(null);
+
+  const load = React.useCallback(async () => {
+    setLoading(true);
+    setError('');
+
+    try {
+      setQueue(await fetchFollowUps());
+    } catch (err) {
+      setError(
+        err instanceof ApiClientError && err.isNetworkError
+          ? 'You are offline. Connect to see your follow-ups.'
+          : 'Failed to load follow-ups.'
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  React.useEffect(() => {
+    if (sessionLoading) return;
+    if (!officer) {
+      router.push('/');
+      return;
+    }
+    load();
+  }, [sessionLoading, officer, router, load]);
+
+  // The lead moves to the bucket for its new date, or drops off the list
+  // when the new date is past the upcoming window
+  const handleLogged = () => {
+    setOpenLeadId(null);
+    load();
+  };
+
+  if (sessionLoading || !officer) {
+    return (
+      <AppShell title="My Follow-ups">
+        <Skeleton className="w-full h-24" />
+      </AppShell>
+    );
+  }
+
+  return (
+    <AppShell title="My Follow-ups" showBackButton onBackClick={() => router.push('/')} isOnline={isOnline}>
+      <div className="space-y-6">
+        <NetworkStatus
+          isOnline={isOnline}
+          isConnected={isConnected}
+          onRetryConnection={checkConnection}
+        />
+
+        <ReminderSettings />
+
+        {error && (
+          <div className="flex items-center justify-between gap-3 rounded-lg border bg-red-50 border-red-200 p-3">
+            <p className="text-sm text-red-800">{error}</p>
+            <Button size="sm" variant="outline" onClick={load}>
+              Retry
+            </Button>
+          </div>
+        )}
+
+        {loading && !queue ? (
+          <div className="space-y-3">
+            <Skeleton className="w-full h-24" />
+            <Skeleton className="w-full h-24" />
+          </div>
+        ) : queue && BUCKETS.map(bucket => {
+          const leads = queue[bucket.key];
+          const count = queue.counts[bucket.key];
+
+          return (
+            <section key={bucket.key} className="space-y-3">
+              <h2 className={`text-sm font-bold uppercase tracking-wide ${bucket.className}`}>
+                {bucket.title} ({count})
+              </h2>
+
+              {leads.length === 0 ? (
+                <p className="text-sm text-neutral-500">{bucket.empty}</p>
+              ) : (
+                leads.map(lead => (
+                  <FollowUpCard
+                    key={lead.id}
+                    lead={lead}
+                    open={openLeadId === lead.id}
+                    onToggle={() => setOpenLeadId(current => (current === lead.id ? null : lead.id))}
+                    onLogged={handleLogged}
+                  />
+                ))
+              )}
+
+              {count > leads.length && (
+                <p className="text-xs text-neutral-500">
+                  Showing the first {leads.length} of {count}
+                </p>
+              )}
+            </section>
+          );
+        })}
+      </div>
+    </AppShell>
+  );
+}
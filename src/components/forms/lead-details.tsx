@@ -25,12 +25,18 @@ import { LoadingOverlay } from '@/components/ui/loading-indicator';
 
 import { useNetworkStatus } from '@/hooks/use-network-status';
 import { useAsyncOperation } from '@/hooks/use-loading-state';
+import { useOfflineSync } from '@/hooks/use-offline-sync';
 import { FormErrorBoundary } from '@/components/form-error-boundary';
 import { useErrorReporting } from '@/lib/error-reporting';
 import { useLeadFormStore } from '@/stores/lead-form-store';
 import { leadDetailsSchema, POPULAR_PHONE_MODELS } from '@/lib/schemas';
 import { transformFormDataToLead } from '@/lib/transformers';
+import { fetchLeadDuplicates } from '@/lib/leads';
+import { isValidPhone } from '@/lib/phone';
+import { getCachedOfficer } from '@/lib/auth';
+import { SYNC_STATUS } from '@/lib/constants';
 import { SearchableDropdown } from '@/components';
+import { LeadDuplicate, LocalLead } from '@/types';
 import { z } from 'zod';
 
 const steps = [
@@ -49,7 +55,7 @@ export const LeadDetails: React.FC = () => {
   const { isOnline, isConnected, checkConnection } = useNetworkStatus();
 
   // Toast notifications
-  const { showSaveSuccess, showSaveError } = useToastHelpers();
+  const { showSaveSuccess, showSaveError, showSavedOffline } = useToastHelpers();
 
   // Error reporting
   const { trackAction, reportError } = useErrorReporting();
@@ -58,15 +64,22 @@ export const LeadDetails: React.FC = () => {
   const [validationErrors, setValidationErrors] = React.useState<ValidationError[]>([]);
 
   // API state for lead submission
-  const saveOperation = useAsyncOperation();
+  const saveOperation = useAsyncOperation<LocalLead>();
+
+  // Offline outbox
+  const { submitLead, discardLead } = useOfflineSync();
 
   // Phone model search state
   const [phoneModelSearch, setPhoneModelSearch] = React.useState('');
 
+  // Leads already captured at the dealer with the entered number
+  const [duplicates, setDuplicates] = React.useState<LeadDuplicate[]>([]);
+
   const {
     selectedOfficer,
     routeData,
     leadData,
+    submissionId,
     updateLeadData,
     setCurrentStep,
     getPreviousStep,
@@ -88,6 +101,27 @@ export const LeadDetails: React.FC = () => {
 
   // Watch the phone model value from the form
   const watchedPhoneModel = watch('interestedPhoneModel');
+  const watchedPhone = watch('phoneContact');
+
+  // Warn about numbers the dealer already has once a full number is entered.
+  // Offline there is nothing to check against; the server flags it on sync.
+  React.useEffect(() => {
+    setDuplicates([]);
+    if (!isOnline || !isValidPhone(watchedPhone ?? '')) return;
+
+    let cancelled = false;
+    fetchLeadDuplicates(watchedPhone)
+      .then(found => {
+        if (!cancelled) setDuplicates(found);
+      })
+      .catch(error => {
+        console.error('Failed to check for duplicate leads:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [watchedPhone, isOnline]);
 
   // Create phone model options for dropdown
   const phoneModelOptions = React.useMemo(() => {
@@ -119,18 +153,11 @@ export const LeadDetails: React.FC = () => {
   // Auto-set current officer and check route data
   React.useEffect(() => {
     if (!selectedOfficer) {
-      // Get current officer from localStorage
-      try {
-        const stored = localStorage.getItem('currentOfficer');
-        if (stored) {
-          const officer = JSON.parse(stored);
-          useLeadFormStore.getState().setSelectedOfficer(officer);
-        } else {
-          // No officer logged in, redirect to home
-          router.push('/');
-          return;
-        }
-      } catch {
+      const officer = getCachedOfficer();
+      if (officer) {
+        useLeadFormStore.getState().setSelectedOfficer(officer);
+      } else {
+        // No officer logged in, redirect to home
         router.push('/');
         return;
       }
@@ -148,30 +175,35 @@ export const LeadDetails: React.FC = () => {
     setValidationErrors([]);
     // Convert string to Date for transformer
     const leadPayload = transformFormDataToLead(
+      submissionId,
       selectedOfficer.id,
       routeData,
       { ...data, nextContactDate: new Date(data.nextContactDate) }
     );
     await saveOperation.execute(
-      () => fetch('/api/leads', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(leadPayload),
-      }).then(async (response) => {
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({}));
-          throw new Error(errorData.message || 'Failed to save lead');
+      // Leads go through the offline outbox so they survive dropped connections
+      // (or straight to the server where the browser has no IndexedDB)
+      () => submitLead(leadPayload).then(async (localLead) => {
+        if (localLead.syncStatus === SYNC_STATUS.FAILED) {
+          // Rejected by the server: keep the form data, drop the outbox copy
+          await discardLead(localLead.id);
+          throw new Error(localLead.lastError || 'Failed to save lead');
         }
-        return response.json();
+        return localLead;
       }),
       {
         message: 'Saving your lead...',
         minDuration: 1000,
-        onSuccess: () => {
-          trackAction('lead_saved', { officerId: selectedOfficer.id });
-          showSaveSuccess('lead');
+        onSuccess: (localLead) => {
+          const isSynced = localLead.syncStatus === SYNC_STATUS.SYNCED;
+          trackAction('lead_saved', { officerId: selectedOfficer.id, synced: isSynced });
+          if (isSynced) {
+            showSaveSuccess('lead');
+          } else {
+            showSavedOffline('lead');
+          }
           resetForm();
-          router.push('/success');
+          router.push(isSynced ? '/success' : '/success?queued=1');
         },
         onError: (error: Error) => {
           reportError(error, { component: 'LeadDetails', action: 'save_lead' }, 'high');
@@ -201,7 +233,6 @@ export const LeadDetails: React.FC = () => {
       showBackButton
       onBackClick={() => router.push('/')}
       isOnline={isOnline}
-      syncStatus="idle"
     >
       <FormErrorBoundary
         onReset={() => {
@@ -278,13 +309,34 @@ export const LeadDetails: React.FC = () => {
                     error={errors.phoneContact?.message}
                     {...register('phoneContact', {
                       onChange: (e) => {
-                        // Only allow digits and limit to 10 characters
-                        const value = e.target.value.replace(/\D/g, '').slice(0, 10);
+                        // Digits, spaces and a leading + (0712 345 678 or +255 712 345 678)
+                        const value = e.target.value.replace(/[^\d\s+]/g, '').slice(0, 17);
                         e.target.value = value;
                       }
                     })}
                   />
 
+                  {/* Duplicate Warning */}
+                  {duplicates.length > 0 && (
+                    <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 space-y-2" role="alert">
+                      <p className="text-sm font-medium text-amber-900">
+                        This number has already been captured
+                      </p>
+                      <ul className="space-y-1">
+                        {duplicates.map(duplicate => (
+                          <li key={duplicate.id} className="text-sm text-amber-800">
+                            {duplicate.lead_name} • {duplicate.ward} • by{' '}
+                            {duplicate.officer_id === selectedOfficer.id ? 'you' : duplicate.officer_name} on{' '}
+                            {new Date(duplicate.created_at).toLocaleDateString()}
+                          </li>
+                        ))}
+                      </ul>
+                      <p className="text-xs text-amber-700">
+                        Check it is a different person before saving. Your dealer can merge duplicates later.
+                      </p>
+                    </div>
+                  )}
+
                   {/* Residence */}
                   <FormField
                     label="Residence"
@@ -351,7 +403,7 @@ export const LeadDetails: React.FC = () => {
                       loading={saveOperation.isLoading}
                       disabled={saveOperation.isLoading}
                     >
-                      Save Lead
+                      {duplicates.length > 0 ? 'Save Anyway' : 'Save Lead'}
                       <svg
                         className="ml-2 h-4 w-4"
                         fill="none"
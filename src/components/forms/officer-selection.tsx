@@ -20,7 +20,7 @@ import { NetworkStatus } from '@/components/ui/error-display';
 import { useToastHelpers } from '@/components/ui/toast';
 import { useNetworkStatus } from '@/hooks/use-network-status';
 import { useLeadFormStore } from '@/stores/lead-form-store';
-import { getCurrentDealer } from '@/lib/auth';
+import { formatPhone, toPhoneSearchDigits } from '@/lib/phone';
 import { Officer } from '@/types';
 
 
@@ -34,9 +34,6 @@ export const OfficerSelection: React.FC = () => {
   const router = useRouter();
   const [searchQuery, setSearchQuery] = React.useState('');
 
-  // Get current dealer for filtering officers
-  const currentDealer = getCurrentDealer();
-
   // Network status
   const { isOnline, isConnected, checkConnection } = useNetworkStatus();
 
@@ -63,16 +60,8 @@ export const OfficerSelection: React.FC = () => {
     setError(null);
 
     try {
-      // Load officers filtered by current dealer
-      let url = '/api/officers';
-      if (currentDealer) {
-        url += `?dealer_id=${currentDealer.id}`;
-      } else {
-        // Fallback to public access if no dealer authenticated
-        url += '?public=true';
-      }
-      
-      const response = await fetch(url);
+      // The session scopes the list server-side
+      const response = await fetch('/api/officers');
       if (!response.ok) {
         throw new Error(`Failed to load officers: ${response.status}`);
       }
@@ -85,7 +74,7 @@ export const OfficerSelection: React.FC = () => {
     } finally {
       setLoading(false);
     }
-  }, [currentDealer, showLoadingError]);
+  }, [showLoadingError]);
 
   // Load officers on component mount
   React.useEffect(() => {
@@ -99,9 +88,10 @@ export const OfficerSelection: React.FC = () => {
     if (!searchQuery.trim()) return officers;
 
     const query = searchQuery.toLowerCase();
+    const phoneDigits = toPhoneSearchDigits(query);
     return officers.filter(officer =>
       officer.name.toLowerCase().includes(query) ||
-      officer.phone.toLowerCase().includes(query)
+      (phoneDigits.length > 0 && officer.phone.includes(phoneDigits))
     );
   }, [officers, searchQuery]);
 
@@ -110,7 +100,7 @@ export const OfficerSelection: React.FC = () => {
     return filteredOfficers.map(officer => ({
       value: officer.id,
       label: officer.name,
-      description: officer.phone,
+      description: formatPhone(officer.phone),
     }));
   }, [filteredOfficers]);
 
@@ -152,7 +142,6 @@ export const OfficerSelection: React.FC = () => {
       showBackButton
       onBackClick={handleBack}
       isOnline={isOnline}
-      syncStatus="idle"
     >
       <div className="space-y-6">
         {/* Network Status */}
@@ -247,7 +236,7 @@ export const OfficerSelection: React.FC = () => {
                         {selectedOfficer.name}
                       </h4>
                       <p className="text-sm text-primary-700">
-                        {selectedOfficer.phone}
+                        {formatPhone(selectedOfficer.phone)}
                       </p>
                       <p className="text-sm text-primary-600">
                         Officer ID: {selectedOfficer.id}
@@ -21,6 +21,10 @@ import {
 } from '@/components';
 import { useLeadFormStore } from '@/stores/lead-form-store';
 import { routeInformationSchema, type RouteFormData } from '@/lib/schemas';
+import { getCachedOfficer } from '@/lib/auth';
+import { formatPhone } from '@/lib/phone';
+import { isSameWard } from '@/lib/ward-boundaries';
+import { useWardLookup } from '@/hooks/use-ward-lookup';
 
 const steps = [
   { id: 'route', title: 'Route' },
@@ -44,6 +48,7 @@ export const RouteInformation: React.FC = () => {
     register,
     formState: { errors, isValid },
     setValue,
+    getValues,
     watch,
   } = useForm<RouteFormData>({
     resolver: zodResolver(routeInformationSchema),
@@ -57,26 +62,50 @@ export const RouteInformation: React.FC = () => {
 
   const watchedValues = watch();
 
+  // Where the GPS fix falls in the bundled boundaries; the ward is null where
+  // only the district or region is known
+  const { location: gpsLocation } = useWardLookup(watchedValues.gpsCoordinates);
+  const gpsWard = gpsLocation?.ward ?? null;
+  const gpsArea = gpsLocation ? [gpsLocation.district, gpsLocation.region].filter(Boolean).join(', ') : '';
+  const [wardFilledFromGps, setWardFilledFromGps] = React.useState(false);
+
+  // Fill an empty ward from GPS; a typed ward is only offered a suggestion
+  React.useEffect(() => {
+    if (gpsWard && !getValues('ward')?.trim()) {
+      setValue('ward', gpsWard, { shouldValidate: true });
+      setWardFilledFromGps(true);
+    }
+  }, [gpsWard, getValues, setValue]);
+
+  const applyGpsWard = () => {
+    if (!gpsWard) return;
+    setValue('ward', gpsWard, { shouldValidate: true });
+    setWardFilledFromGps(true);
+  };
+
+  const wardMatchesGps = gpsWard ? isSameWard(watchedValues.ward ?? '', gpsWard) : false;
+
+  let wardHint: string | undefined;
+  if (gpsWard && wardMatchesGps) {
+    wardHint = `${wardFilledFromGps ? 'Filled in from' : 'Matches'} your GPS location: ${gpsArea}`;
+  } else if (gpsLocation && !gpsWard) {
+    wardHint = `Your GPS location is in ${gpsArea}`;
+  }
+
   // Update store when form values change
   React.useEffect(() => {
     const { areaOfActivity, ward, gpsCoordinates } = watchedValues;
     updateRouteData({ areaOfActivity, ward, gpsCoordinates });
   }, [watchedValues, updateRouteData]);
 
-  // Auto-set current officer from localStorage
+  // Auto-set the signed-in officer
   React.useEffect(() => {
     if (!selectedOfficer) {
-      // Get current officer from localStorage
-      try {
-        const stored = localStorage.getItem('currentOfficer');
-        if (stored) {
-          const officer = JSON.parse(stored);
-          useLeadFormStore.getState().setSelectedOfficer(officer);
-        } else {
-          // No officer logged in, redirect to home
-          router.push('/');
-        }
-      } catch {
+      const officer = getCachedOfficer();
+      if (officer) {
+        useLeadFormStore.getState().setSelectedOfficer(officer);
+      } else {
+        // No officer logged in, redirect to home
         router.push('/');
       }
     }
@@ -128,8 +157,6 @@ export const RouteInformation: React.FC = () => {
       title="Route Information"
       showBackButton
       onBackClick={handleBack}
-      isOnline={true}
-      syncStatus="idle"
     >
       <div className="space-y-6">
         {/* Step Indicator */}
@@ -153,7 +180,7 @@ export const RouteInformation: React.FC = () => {
             </div>
             <div>
               <p className="font-medium text-primary-900">{selectedOfficer.name}</p>
-              <p className="text-sm text-primary-700">{selectedOfficer.phone}</p>
+              <p className="text-sm text-primary-700">{formatPhone(selectedOfficer.phone)}</p>
             </div>
           </div>
         </div>
@@ -177,12 +204,25 @@ export const RouteInformation: React.FC = () => {
               {/* Ward */}
               <FormField
                 label="Ward"
-                placeholder="e.g., Ilala, Kinondoni, etc."
+                placeholder="e.g., Kariakoo, Mikocheni, etc."
                 required
                 error={errors.ward?.message}
+                hint={wardHint}
                 {...register('ward')}
               />
 
+              {gpsWard && !wardMatchesGps && watchedValues.ward?.trim() && (
+                <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-900 space-y-2">
+                  <p>
+                    Your GPS location is in {gpsWard} ward ({gpsArea}).
+                    Leads whose ward disagrees with their location are flagged for review.
+                  </p>
+                  <Button type="button" size="sm" variant="outline" onClick={applyGpsWard}>
+                    Use {gpsWard}
+                  </Button>
+                </div>
+              )}
+
               {/* GPS Coordinates Section */}
               <div className="space-y-3">
                 <div className="flex items-center justify-between">
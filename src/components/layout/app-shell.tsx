@@ -2,9 +2,12 @@
  * AppShell - Main application wrapper with navigation and status indicators
  */
 
+'use client';
+
 import * as React from 'react';
 import { cn } from '@/lib/utils';
 import { StatusBar } from '@/components/ui/status-bar';
+import { useAppStore } from '@/stores/app-store';
 
 export interface AppShellProps {
   children: React.ReactNode;
@@ -22,11 +25,16 @@ const AppShell: React.FC<AppShellProps> = ({
   title,
   showBackButton = false,
   onBackClick,
-  isOnline = true,
-  syncStatus = 'idle',
-  pendingCount = 0,
+  isOnline,
+  syncStatus,
+  pendingCount,
   className,
 }) => {
+  // Fall back to the app-wide connectivity and outbox state
+  const appIsOnline = useAppStore(state => state.isOnline);
+  const appSyncStatus = useAppStore(state => state.syncStatus);
+  const pendingSyncCount = useAppStore(state => state.pendingSyncCount);
+
   return (
     <div className={cn('min-h-screen bg-neutral-50 flex flex-col', className)}>
       {/* Header */}
@@ -81,9 +89,9 @@ const AppShell: React.FC<AppShellProps> = ({
 
           {/* Status Indicator */}
           <StatusBar
-            isOnline={isOnline}
-            syncStatus={syncStatus}
-            pendingCount={pendingCount}
+            isOnline={isOnline ?? appIsOnline}
+            syncStatus={syncStatus ?? appSyncStatus}
+            pendingCount={pendingCount ?? pendingSyncCount}
           />
         </div>
       </header>
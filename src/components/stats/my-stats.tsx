@@ -0,0 +1,37 @@
+/**
+ * My Stats - the signed-in officer's own scorecard and lead charts
+ */
+
+'use client';
+
+import * as React from 'react';
+import { useRouter } from 'next/navigation';
+import { AppShell } from '@/components';
+import { Skeleton } from '@/components/ui/loading-indicator';
+import { OfficerStats } from '@/components/dashboard/officer-performance';
+import { useOfficerSession } from '@/hooks/use-officer-session';
+
+export function MyStats() {
+  const router = useRouter();
+  const { officer, loading: sessionLoading } = useOfficerSession();
+
+  React.useEffect(() => {
+    if (!sessionLoading && !officer) {
+      router.push('/');
+    }
+  }, [sessionLoading, officer, router]);
+
+  if (sessionLoading || !officer) {
+    return (
+      <AppShell title="My Stats">
+        <Skeleton className="w-full h-24" />
+      </AppShell>
+    );
+  }
+
+  return (
+    <AppShell title="My Stats" showBackButton onBackClick={() => router.push('/')}>
+      <OfficerStats officerId={officer.id} />
+    </AppShell>
+  );
+}
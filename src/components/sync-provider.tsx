@@ -0,0 +1,17 @@
+/**
+ * Sync Provider - Runs the offline lead outbox sync loop
+ */
+
+'use client';
+
+import { useSyncManager } from '@/hooks/use-offline-sync';
+
+interface SyncProviderProps {
+  children: React.ReactNode;
+}
+
+export function SyncProvider({ children }: SyncProviderProps) {
+  useSyncManager();
+
+  return <>{children}</>;
+}
@@ -7,6 +7,7 @@
 import React from 'react';
 import { AlertCircle, CheckCircle, Info, X } from 'lucide-react';
 import { Button } from './button';
+import { isValidPhone } from '@/lib/phone';
 
 export interface ValidationError {
   field: string;
@@ -145,34 +146,12 @@ export const validationHelpers = {
       };
     }
 
-    // Remove all non-digit characters for validation
-    const digits = value.replace(/\D/g, '');
-
-    if (digits.length < 10) {
-      return {
-        field: 'Phone Number',
-        message: 'Phone number must be at least 10 digits',
-        type: 'length',
-        suggestion: 'Include area code (e.g., 0712345678)'
-      };
-    }
-
-    if (digits.length > 15) {
-      return {
-        field: 'Phone Number',
-        message: 'Phone number is too long',
-        type: 'length',
-        suggestion: 'Remove country code if included'
-      };
-    }
-
-    // Basic format validation for Kenyan numbers
-    if (!digits.match(/^(0|254)/)) {
+    if (!isValidPhone(value)) {
       return {
         field: 'Phone Number',
-        message: 'Invalid phone number format',
+        message: 'Invalid phone number',
         type: 'format',
-        suggestion: 'Use format: 0712345678 or 254712345678'
+        suggestion: 'Use a Tanzanian mobile number (e.g., 0712345678 or +255712345678)'
       };
     }
 
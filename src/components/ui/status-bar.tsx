@@ -22,7 +22,7 @@ const StatusBar: React.FC<StatusBarProps> = ({
     if (!isOnline) {
       return {
         color: 'bg-warning-500',
-        text: 'Offline',
+        text: pendingCount > 0 ? `Offline · ${pendingCount} pending` : 'Offline',
         icon: (
           <svg className="h-4 w-4" fill="currentColor" viewBox="0 0 20 20">
             <path
@@ -79,6 +79,22 @@ const StatusBar: React.FC<StatusBarProps> = ({
         };
       case 'idle':
       default:
+        if (pendingCount > 0) {
+          return {
+            color: 'bg-warning-500',
+            text: `${pendingCount} pending`,
+            icon: (
+              <svg className="h-4 w-4" fill="currentColor" viewBox="0 0 20 20">
+                <path
+                  fillRule="evenodd"
+                  d="M10 18a8 8 0 100-16 8 8 0 000 16zm1-12a1 1 0 10-2 0v4a1 1 0 00.293.707l2.828 2.829a1 1 0 101.415-1.415L11 9.586V6z"
+                  clipRule="evenodd"
+                />
+              </svg>
+            ),
+          };
+        }
+
         return {
           color: 'bg-success-500',
           text: 'Online',
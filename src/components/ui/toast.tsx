@@ -225,6 +225,13 @@ export function useToastHelpers() {
     );
   }, [toast]);
 
+  const showSavedOffline = useCallback((itemName: string = 'item') => {
+    return toast.info(
+      'Saved Offline',
+      `Your ${itemName} is saved on this device and will sync automatically when you're back online.`
+    );
+  }, [toast]);
+
   const showNetworkError = useCallback((retry?: () => void) => {
     return toast.error(
       'Connection Problem',
@@ -263,6 +270,7 @@ export function useToastHelpers() {
   return {
     showSaveSuccess,
     showSaveError,
+    showSavedOffline,
     showNetworkError,
     showValidationError,
     showLoadingError,
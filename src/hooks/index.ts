@@ -4,4 +4,14 @@
 
 export { useOfficers } from './use-officers';
 export { useGeolocation } from './use-geolocation';
-export type { UseOfficersReturn } from './use-officers';
\ No newline at end of file
+export { useOfflineSync, useSyncManager } from './use-offline-sync';
+export { useManagerSession } from './use-manager-session';
+export { useOfficerSession } from './use-officer-session';
+export { useLeadList } from './use-lead-list';
+export { useWardLookup } from './use-ward-lookup';
+export type { UseOfficersReturn } from './use-officers';
+export type { UseOfflineSyncReturn } from './use-offline-sync';
+export type { UseManagerSessionOptions, UseManagerSessionReturn } from './use-manager-session';
+export type { UseOfficerSessionReturn } from './use-officer-session';
+export type { UseLeadListReturn } from './use-lead-list';
+export type { UseWardLookupReturn } from './use-ward-lookup';
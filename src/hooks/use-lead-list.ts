@@ -0,0 +1,104 @@
+/**
+ * Custom hook for paging through GET /api/leads
+ * Loads the first page whenever the filters change and appends later pages
+ * on demand, for infinite scrolling lists.
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { fetchLeadsPage } from '@/lib/leads';
+import { Lead, LeadListParams } from '@/types';
+
+interface UseLeadListOptions {
+  enabled?: boolean; // wait until the session is known
+}
+
+export interface UseLeadListReturn {
+  leads: Lead[];
+  total: number;
+  loading: boolean; // first page
+  loadingMore: boolean;
+  error: string | null;
+  hasMore: boolean;
+  loadMore: () => Promise<void>;
+  reload: () => void;
+}
+
+export function useLeadList(
+  params: LeadListParams,
+  options: UseLeadListOptions = {}
+): UseLeadListReturn {
+  const { enabled = true } = options;
+
+  const [leads, setLeads] = useState<Lead[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  // Compare filters by value so callers can pass a fresh object each render
+  const paramsKey = JSON.stringify(params);
+  // Responses for filters that have since changed are dropped
+  const requestId = useRef(0);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const id = ++requestId.current;
+    setLoading(true);
+    setError(null);
+
+    fetchLeadsPage(JSON.parse(paramsKey))
+      .then(page => {
+        if (id !== requestId.current) return;
+        setLeads(page.data);
+        setTotal(page.pagination.total);
+        setNextCursor(page.pagination.next_cursor);
+      })
+      .catch(err => {
+        if (id !== requestId.current) return;
+        setError(err instanceof Error ? err.message : 'Failed to load leads');
+        setLeads([]);
+        setNextCursor(null);
+      })
+      .finally(() => {
+        if (id === requestId.current) setLoading(false);
+      });
+  }, [enabled, paramsKey, reloadCount]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loading || loadingMore) return;
+
+    const id = requestId.current;
+    setLoadingMore(true);
+
+    try {
+      const page = await fetchLeadsPage({ ...JSON.parse(paramsKey), cursor: nextCursor });
+      if (id !== requestId.current) return;
+      setLeads(current => [...current, ...page.data]);
+      setTotal(page.pagination.total);
+      setNextCursor(page.pagination.next_cursor);
+    } catch (err) {
+      if (id !== requestId.current) return;
+      setError(err instanceof Error ? err.message : 'Failed to load more leads');
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [nextCursor, loading, loadingMore, paramsKey]);
+
+  const reload = useCallback(() => {
+    setReloadCount(count => count + 1);
+  }, []);
+
+  return {
+    leads,
+    total,
+    loading,
+    loadingMore,
+    error,
+    hasMore: Boolean(nextCursor),
+    loadMore,
+    reload,
+  };
+}
@@ -0,0 +1,111 @@
+/**
+ * Hook for management pages (platform admins, dealers and supervisors)
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import { fetchCurrentSession, logoutDealer, logoutOfficer } from '@/lib/auth';
+import {
+  getDashboardPath,
+  hasPermission,
+  isDealerRole,
+  MANAGER_ROLES,
+  Permission,
+} from '@/lib/permissions';
+import { Dealer, Officer, SessionRole } from '@/types';
+
+export interface UseManagerSessionOptions {
+  roles?: readonly SessionRole[]; // roles allowed on the page
+  dealerId?: string; // dealer in the URL; only platform admins may open another dealer
+}
+
+export interface UseManagerSessionReturn {
+  role: SessionRole | null;
+  dealer: Dealer | null; // the signed-in dealer, or the dealer a supervisor works for
+  officer: Officer | null; // set for supervisors
+  loading: boolean;
+  can: (permission: Permission) => boolean;
+  logout: () => Promise<void>;
+}
+
+/**
+ * Load the session and send the user to the right place when it cannot open
+ * the page: signed out to the login page, other roles to their own dashboard
+ */
+export function useManagerSession({
+  roles = MANAGER_ROLES,
+  dealerId,
+}: UseManagerSessionOptions = {}): UseManagerSessionReturn {
+  const router = useRouter();
+  const pathname = usePathname();
+  const [role, setRole] = useState<SessionRole | null>(null);
+  const [dealer, setDealer] = useState<Dealer | null>(null);
+  const [officer, setOfficer] = useState<Officer | null>(null);
+  const [loading, setLoading] = useState(true);
+  // Compare roles by value so callers can pass an inline array
+  const allowedRoles = roles.join(',');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchCurrentSession()
+      .then(current => {
+        if (cancelled) return;
+        if (!current?.dealer) {
+          router.replace('/login');
+          return;
+        }
+
+        const sessionRole = current.session.role;
+        const sessionDealerId = current.dealer.id;
+
+        if (!allowedRoles.split(',').includes(sessionRole)) {
+          router.replace(getDashboardPath(sessionRole, sessionDealerId));
+          return;
+        }
+
+        // Dealers and supervisors can only open their own dealer's pages
+        if (dealerId && sessionRole !== 'platform_admin' && dealerId !== sessionDealerId) {
+          router.replace(pathname.replace(`/dealer/${dealerId}`, `/dealer/${sessionDealerId}`));
+          return;
+        }
+
+        setRole(sessionRole);
+        setDealer(current.dealer);
+        setOfficer(current.officer ?? null);
+      })
+      .catch(error => {
+        console.error('Failed to load session:', error);
+        if (!cancelled) router.replace('/login');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [allowedRoles, dealerId, pathname, router]);
+
+  const can = useCallback(
+    (permission: Permission) => (role ? hasPermission(role, permission) : false),
+    [role]
+  );
+
+  const logout = useCallback(async () => {
+    const dealerAccount = role ? isDealerRole(role) : true;
+
+    try {
+      await (dealerAccount ? logoutDealer() : logoutOfficer());
+    } catch (error) {
+      console.error('Logout failed:', error);
+    }
+
+    setRole(null);
+    setDealer(null);
+    setOfficer(null);
+    router.push(dealerAccount ? '/login' : '/');
+  }, [role, router]);
+
+  return { role, dealer, officer, loading, can, logout };
+}
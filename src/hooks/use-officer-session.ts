@@ -0,0 +1,69 @@
+/**
+ * Hook for the signed-in officer in the lead collection app
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { fetchCurrentOfficer, getCachedOfficer, logoutOfficer } from '@/lib/auth';
+import { ApiClientError } from '@/lib/api-client';
+import { disablePushReminders } from '@/lib/pwa';
+import { useAppStore } from '@/stores/app-store';
+import { Officer } from '@/types';
+
+export interface UseOfficerSessionReturn {
+  officer: Officer | null;
+  loading: boolean;
+  setOfficer: (officer: Officer | null) => void;
+  logout: () => Promise<void>;
+}
+
+/**
+ * Resolve the officer from the server session. When the device is offline the
+ * cached profile is used so officers can keep capturing leads.
+ */
+export function useOfficerSession(): UseOfficerSessionReturn {
+  const officer = useAppStore(state => state.currentOfficer);
+  const setOfficer = useAppStore(state => state.setCurrentOfficer);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setOfficer(getCachedOfficer());
+
+    fetchCurrentOfficer()
+      .then(current => {
+        if (!cancelled) setOfficer(current);
+      })
+      .catch(error => {
+        // Offline: keep the cached officer, anything else signs out
+        const isNetworkError = error instanceof ApiClientError && error.isNetworkError;
+        if (!isNetworkError) {
+          console.error('Failed to load officer session:', error);
+          if (!cancelled) setOfficer(null);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [setOfficer]);
+
+  const logout = useCallback(async () => {
+    // Reminders belong to the officer, not the shared device
+    await disablePushReminders().catch(error => {
+      console.error('Failed to turn off reminders:', error);
+    });
+
+    try {
+      await logoutOfficer();
+    } catch (error) {
+      console.error('Logout failed:', error);
+    }
+    setOfficer(null);
+  }, [setOfficer]);
+
+  return { officer, loading, setOfficer, logout };
+}
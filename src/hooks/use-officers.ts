@@ -51,8 +51,8 @@ export function useOfficers(options: UseOfficersOptions = {}): UseOfficersReturn
     setError(null);
 
     try {
-      // Fetch officers directly from API (Supabase) - use public access for officer selection
-      const response = await fetch('/api/officers?public=true');
+      // The session scopes the list server-side
+      const response = await fetch('/api/officers');
       
       if (!response.ok) {
         throw new Error(`Failed to fetch officers: ${response.statusText}`);
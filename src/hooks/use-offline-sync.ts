@@ -0,0 +1,141 @@
+/**
+ * Hooks for the offline lead outbox
+ */
+
+import { useCallback, useEffect } from 'react';
+import { useAppStore } from '@/stores/app-store';
+import { addNetworkStatusListeners, isOnline } from '@/lib/error-utils';
+import { SYNC_CONSTANTS } from '@/lib/constants';
+import {
+  discardLocalLead,
+  getLocalLead,
+  getSyncSummary,
+  queueLead,
+  releaseQueuedLeads,
+  retryFailedLeads,
+  sendLeadDirectly,
+  syncPendingLeads,
+  SyncResult,
+} from '@/lib/sync';
+import { supportsIndexedDB } from '@/lib/type-guards';
+import { LeadPayload, LocalLead } from '@/types';
+
+export interface UseOfflineSyncReturn {
+  submitLead: (payload: LeadPayload) => Promise<LocalLead>;
+  syncNow: () => Promise<SyncResult | null>;
+  retryFailed: () => Promise<void>;
+  discardLead: (id: string) => Promise<void>;
+  refreshSyncState: () => Promise<void>;
+}
+
+/**
+ * Queue, sync and inspect offline leads while keeping the app store in step
+ */
+export function useOfflineSync(): UseOfflineSyncReturn {
+  const setSyncStatus = useAppStore(state => state.setSyncStatus);
+  const setPendingSyncCount = useAppStore(state => state.setPendingSyncCount);
+
+  const refreshSyncState = useCallback(async () => {
+    if (!supportsIndexedDB()) return;
+
+    try {
+      const summary = await getSyncSummary();
+      setPendingSyncCount(summary.pending + summary.failed);
+      setSyncStatus(summary.failed > 0 ? 'error' : 'idle');
+    } catch (error) {
+      console.error('Failed to read sync queue:', error);
+    }
+  }, [setPendingSyncCount, setSyncStatus]);
+
+  const syncNow = useCallback(async (): Promise<SyncResult | null> => {
+    if (!supportsIndexedDB() || !isOnline()) {
+      await refreshSyncState();
+      return null;
+    }
+
+    setSyncStatus('syncing');
+
+    try {
+      return await syncPendingLeads();
+    } catch (error) {
+      console.error('Lead sync failed:', error);
+      return null;
+    } finally {
+      await refreshSyncState();
+    }
+  }, [refreshSyncState, setSyncStatus]);
+
+  const submitLead = useCallback(async (payload: LeadPayload): Promise<LocalLead> => {
+    // Without IndexedDB there is no outbox; the lead is sent at once or not at all
+    if (!supportsIndexedDB()) {
+      return sendLeadDirectly(payload);
+    }
+
+    const queued = await queueLead(payload);
+    await refreshSyncState();
+    await syncNow();
+
+    return (await getLocalLead(queued.id)) ?? queued;
+  }, [refreshSyncState, syncNow]);
+
+  const retryFailed = useCallback(async () => {
+    await retryFailedLeads();
+    await syncNow();
+  }, [syncNow]);
+
+  const discardLead = useCallback(async (id: string) => {
+    await discardLocalLead(id);
+    await refreshSyncState();
+  }, [refreshSyncState]);
+
+  return {
+    submitLead,
+    syncNow,
+    retryFailed,
+    discardLead,
+    refreshSyncState,
+  };
+}
+
+/**
+ * Background sync loop: drains the outbox on start, when connectivity
+ * returns, when an officer signs in and on a fixed interval
+ */
+export function useSyncManager(): void {
+  const setIsOnline = useAppStore(state => state.setIsOnline);
+  const currentOfficerId = useAppStore(state => state.currentOfficer?.id);
+  const { syncNow } = useOfflineSync();
+
+  // Leads held back while signed out are retried as soon as an officer signs in
+  useEffect(() => {
+    if (!currentOfficerId || !supportsIndexedDB()) return;
+
+    releaseQueuedLeads()
+      .then(() => syncNow())
+      .catch(error => console.error('Failed to release queued leads:', error));
+  }, [currentOfficerId, syncNow]);
+
+  useEffect(() => {
+    setIsOnline(isOnline());
+    syncNow();
+
+    const cleanup = addNetworkStatusListeners(
+      () => {
+        setIsOnline(true);
+        syncNow();
+      },
+      () => setIsOnline(false)
+    );
+
+    const interval = setInterval(() => {
+      if (useAppStore.getState().pendingSyncCount > 0) {
+        syncNow();
+      }
+    }, SYNC_CONSTANTS.SYNC_INTERVAL);
+
+    return () => {
+      cleanup();
+      clearInterval(interval);
+    };
+  }, [setIsOnline, syncNow]);
+}
@@ -0,0 +1,66 @@
+/**
+ * Custom hook for the ward (or district or region) a GPS fix falls in
+ * The bundled ward boundaries are fetched once per page load (the service
+ * worker keeps a copy, so this works offline) and searched in the browser.
+ */
+
+import { useEffect, useState } from 'react';
+import { WARD_BOUNDARIES_PATH } from '@/lib/constants';
+import { findWard, indexWardBoundaries, WardBoundaries, WardIndex, WardLocation } from '@/lib/ward-boundaries';
+
+let wardIndex: Promise<WardIndex> | null = null;
+
+function loadWardIndex(): Promise<WardIndex> {
+  wardIndex ??= fetch(WARD_BOUNDARIES_PATH)
+    .then(res => {
+      if (!res.ok) throw new Error(`Ward boundaries returned ${res.status}`);
+      return res.json() as Promise<WardBoundaries>;
+    })
+    .then(indexWardBoundaries)
+    .catch(error => {
+      console.error('Ward boundaries unavailable:', error);
+      wardIndex = null; // try again next time
+      return { wards: [] };
+    });
+
+  return wardIndex;
+}
+
+export interface UseWardLookupReturn {
+  location: WardLocation | null; // null until found, or outside every known area
+  loading: boolean;
+}
+
+export function useWardLookup(
+  coordinates: { latitude: number; longitude: number } | null | undefined
+): UseWardLookupReturn {
+  const [location, setLocation] = useState<WardLocation | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const latitude = coordinates?.latitude;
+  const longitude = coordinates?.longitude;
+
+  useEffect(() => {
+    if (latitude === undefined || longitude === undefined) {
+      setLocation(null);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+
+    loadWardIndex()
+      .then(index => {
+        if (!cancelled) setLocation(findWard(index, latitude, longitude));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [latitude, longitude]);
+
+  return { location, loading };
+}
@@ -0,0 +1,61 @@
+/**
+ * Spreadsheet CSV parsing tests
+ */
+
+import { detectDelimiter, parseCsv, parseSpreadsheetDate, readCsvRecords, toCsv } from '../csv';
+
+describe('csv', () => {
+  it('parses quoted cells with delimiters, quotes and line breaks', () => {
+    const text = 'name,note\r\n"Mussa, Asha","Said ""hi""\nthen left"\r\nJuma,\r\n';
+
+    expect(parseCsv(text)).toEqual([
+      ['name', 'note'],
+      ['Mussa, Asha', 'Said "hi"\nthen left'],
+      ['Juma', ''],
+    ]);
+  });
+
+  it.each([
+    ['name,phone', ','],
+    ['name;phone', ';'],
+    ['name\tphone', '\t'],
+    ['"a;b",phone', ','],
+  ])('detects the delimiter of %j', (text, delimiter) => {
+    expect(detectDelimiter(text)).toBe(delimiter);
+  });
+
+  it('reads records by header alias, with spreadsheet row numbers', () => {
+    const text = '\uFEFFFull Name;Phone Number\nAsha;0714276444\n;\nJuma;0755000000';
+
+    const { records, missing } = readCsvRecords(text, {
+      name: ['name', 'full name'],
+      phone: ['phone', 'phone number'],
+      territory: ['territory'],
+    });
+
+    expect(missing).toEqual(['territory']);
+    expect(records).toEqual([
+      { row: 2, values: { name: 'Asha', phone: '0714276444', territory: '' } },
+      { row: 4, values: { name: 'Juma', phone: '0755000000', territory: '' } },
+    ]);
+  });
+
+  it('quotes only the cells that need it', () => {
+    expect(toCsv([['name', 'note'], ['Asha', 'Said "hi", then left'], ['Juma', null]]))
+      .toBe('name,note\r\nAsha,"Said ""hi"", then left"\r\nJuma,');
+  });
+
+  it.each([
+    ['2026-10-25', '2026-10-25'],
+    ['2026-1-5', '2026-01-05'],
+    ['25/10/2026', '2026-10-25'],
+    ['5-1-2026', '2026-01-05'],
+    ['25.10.2026', '2026-10-25'],
+  ])('reads the date %s', (input, expected) => {
+    expect(parseSpreadsheetDate(input)).toBe(expected);
+  });
+
+  it.each(['', 'next week', '31/02/2026', '10/25/2026', '2026-13-01'])('rejects the date %j', (input) => {
+    expect(parseSpreadsheetDate(input)).toBeNull();
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Lead export format tests
+ */
+
+import { crc32, inflateRawSync } from 'zlib';
+import { writeLeadExport } from '../lead-export';
+import { xlsxColumnName } from '../xlsx';
+import { Lead } from '@/types';
+
+function makeLead(overrides: Partial<Lead> = {}): Lead {
+  return {
+    id: '6f1c1a52-3f59-4b8f-9d55-0d6f6c1f8a01',
+    officer_id: '0b8f7c2e-5a1d-4f7e-8c3b-2d9e6a4f1b02',
+    officer: {
+      id: '0b8f7c2e-5a1d-4f7e-8c3b-2d9e6a4f1b02',
+      name: 'Asha Mussa',
+      phone: '+255714276444',
+      dealer_id: 'c2a4e6f8-1b3d-4c5e-9f7a-8b6d4c2e0a03',
+      role: 'officer',
+      active: true,
+      created_at: '2026-01-01T00:00:00Z',
+      updated_at: '2026-01-01T00:00:00Z',
+    },
+    area_of_activity: 'Kariakoo',
+    ward: 'Kariakoo',
+    gps_latitude: -6.8188,
+    gps_longitude: 39.2747,
+    lead_name: 'Juma, "JJ" Said',
+    phone_contact: '+255755000000',
+    residence: 'Ilala',
+    interested_phone_model: 'Tecno Spark 20',
+    next_contact_date: '2026-10-25',
+    status: 'new',
+    lost_reason: null,
+    status_changed_at: null,
+    created_at: '2026-10-19T21:30:00Z',
+    updated_at: '2026-10-19T21:30:00Z',
+    ...overrides,
+  } as Lead;
+}
+
+async function* batchesOf(...batches: Lead[][]) {
+  yield* batches;
+}
+
+async function collect(chunks: AsyncIterable<string | Buffer>): Promise<Buffer> {
+  const parts: Buffer[] = [];
+  for await (const chunk of chunks) {
+    parts.push(typeof chunk === 'string' ? Buffer.from(chunk, 'utf8') : chunk);
+  }
+  return Buffer.concat(parts);
+}
+
+// Read a ZIP archive through its central directory
+function unzip(archive: Buffer): Map<string, string> {
+  const end = archive.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const count = archive.readUInt16LE(end + 10);
+  let offset = archive.readUInt32LE(end + 16);
+  const files = new Map<string, string>();
+
+  for (let i = 0; i < count; i++) {
+    expect(archive.readUInt32LE(offset)).toBe(0x02014b50);
+    const crc = archive.readUInt32LE(offset + 16);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26);
+    const data = inflateRawSync(archive.subarray(dataStart, dataStart + compressedSize));
+    expect(crc32(data)).toBe(crc);
+
+    files.set(name, data.toString('utf8'));
+    offset += 46 + nameLength;
+  }
+
+  return files;
+}
+
+describe('lead export', () => {
+  it('writes CSV with a byte order mark, labels and Tanzania times', async () => {
+    const csv = (await collect(writeLeadExport(
+      'csv',
+      batchesOf([makeLead()], [], [makeLead({ lead_name: '=HYPERLINK("x")', status: 'lost', lost_reason: 'Price' })]),
+      ['lead_name', 'phone_contact', 'status', 'lost_reason', 'officer_name', 'created_at']
+    ))).toString('utf8');
+
+    expect(csv.split('\r\n')).toEqual([
+      '\uFEFFName,Phone,Status,Lost Reason,Officer,Created At',
+      '"Juma, ""JJ"" Said",+255755000000,New,,Asha Mussa,2026-10-20 00:30',
+      '"\'=HYPERLINK(""x"")",+255755000000,Lost,Price,Asha Mussa,2026-10-20 00:30',
+      '',
+    ]);
+  });
+
+  it('writes JSON with the stored values of the chosen columns', async () => {
+    const json = await collect(writeLeadExport('json', batchesOf([makeLead(), makeLead()]), ['id', 'status', 'created_at']));
+
+    expect(JSON.parse(json.toString('utf8'))).toEqual([
+      { id: makeLead().id, status: 'new', created_at: '2026-10-19T21:30:00Z' },
+      { id: makeLead().id, status: 'new', created_at: '2026-10-19T21:30:00Z' },
+    ]);
+  });
+
+  it('writes GeoJSON points, leaving out leads without GPS', async () => {
+    const geojson = await collect(writeLeadExport(
+      'geojson',
+      batchesOf([makeLead(), makeLead({ gps_latitude: undefined, gps_longitude: undefined })]),
+      ['lead_name']
+    ));
+
+    expect(JSON.parse(geojson.toString('utf8'))).toEqual({
+      type: 'FeatureCollection',
+      features: [{
+        type: 'Feature',
+        id: makeLead().id,
+        geometry: { type: 'Point', coordinates: [39.2747, -6.8188] },
+        properties: { lead_name: 'Juma, "JJ" Said' },
+      }],
+    });
+  });
+
+  it('writes an empty GeoJSON collection when no lead has GPS', async () => {
+    const geojson = await collect(writeLeadExport('geojson', batchesOf([]), ['lead_name']));
+
+    expect(JSON.parse(geojson.toString('utf8'))).toEqual({ type: 'FeatureCollection', features: [] });
+  });
+
+  it('writes an XLSX workbook with typed, escaped cells', async () => {
+    const archive = await collect(writeLeadExport(
+      'xlsx',
+      batchesOf([makeLead({ residence: 'Ilala <Block 5> & more' })]),
+      ['lead_name', 'residence', 'gps_latitude']
+    ));
+
+    const files = unzip(archive);
+    expect([...files.keys()]).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/styles.xml',
+      'xl/worksheets/sheet1.xml',
+    ]);
+
+    const sheet = files.get('xl/worksheets/sheet1.xml')!;
+    expect(sheet).toContain('<c r="A1" s="1" t="inlineStr"><is><t xml:space="preserve">Name</t></is></c>');
+    expect(sheet).toContain('<t xml:space="preserve">Juma, &quot;JJ&quot; Said</t>');
+    expect(sheet).toContain('<t xml:space="preserve">Ilala &lt;Block 5&gt; &amp; more</t>');
+    expect(sheet).toContain('<c r="C2"><v>-6.8188</v></c>');
+  });
+
+  it.each([
+    [0, 'A'],
+    [25, 'Z'],
+    [26, 'AA'],
+    [701, 'ZZ'],
+    [702, 'AAA'],
+  ])('names column %i %s', (index, name) => {
+    expect(xlsxColumnName(index)).toBe(name);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Lead map projection, tile and clustering tests
+ */
+
+import { clusterPoints, fitView, metersPerPixel, project, tileUrl, unproject, visibleTiles } from '../map';
+
+const DAR_ES_SALAAM = { latitude: -6.7924, longitude: 39.2083 };
+const DODOMA = { latitude: -6.163, longitude: 35.7516 };
+
+describe('project', () => {
+  it('puts the equator and prime meridian in the middle of the world', () => {
+    expect(project({ latitude: 0, longitude: 0 }, 0)).toEqual({ x: 128, y: 128 });
+    expect(project({ latitude: 0, longitude: 0 }, 2)).toEqual({ x: 512, y: 512 });
+  });
+
+  it('round-trips through unproject', () => {
+    const position = unproject(project(DAR_ES_SALAAM, 12), 12);
+    expect(position.latitude).toBeCloseTo(DAR_ES_SALAAM.latitude, 9);
+    expect(position.longitude).toBeCloseTo(DAR_ES_SALAAM.longitude, 9);
+  });
+});
+
+describe('metersPerPixel', () => {
+  it('halves with each zoom level and shrinks away from the equator', () => {
+    expect(metersPerPixel(0, 0)).toBeCloseTo(156543.03, 1);
+    expect(metersPerPixel(0, 1)).toBeCloseTo(metersPerPixel(0, 0) / 2, 6);
+    expect(metersPerPixel(60, 0)).toBeCloseTo(metersPerPixel(0, 0) / 2, 6);
+  });
+});
+
+describe('tileUrl', () => {
+  it('fills in the zoom, column, row and subdomain', () => {
+    expect(tileUrl('https://{s}.tiles.example/{z}/{x}/{y}.png', { z: 7, x: 78, y: 66 })).toBe(
+      'https://a.tiles.example/7/78/66.png'
+    );
+    expect(tileUrl('/tiles/{z}/{x}/{y}.png', { z: 1, x: 0, y: 1 })).toBe('/tiles/1/0/1.png');
+  });
+});
+
+describe('visibleTiles', () => {
+  it('covers the map with tiles placed around the center', () => {
+    const tiles = visibleTiles({ center: { latitude: 0, longitude: 0 }, zoom: 1 }, 512, 512);
+
+    expect(tiles.map(tile => `${tile.x}/${tile.y}@${tile.left},${tile.top}`)).toEqual([
+      '0/0@0,0',
+      '1/0@256,0',
+      '0/1@0,256',
+      '1/1@256,256',
+    ]);
+  });
+
+  it('repeats tiles across the antimeridian and leaves out rows beyond the poles', () => {
+    const tiles = visibleTiles({ center: { latitude: 0, longitude: 0 }, zoom: 0 }, 768, 512);
+
+    expect(tiles.map(tile => tile.x)).toEqual([0, 0, 0]);
+    expect(tiles.map(tile => tile.left)).toEqual([0, 256, 512]);
+    expect(tiles.every(tile => tile.y === 0)).toBe(true);
+  });
+});
+
+describe('clusterPoints', () => {
+  const points = [
+    { id: 'a', ...DAR_ES_SALAAM },
+    { id: 'b', latitude: DAR_ES_SALAAM.latitude + 0.001, longitude: DAR_ES_SALAAM.longitude },
+    { id: 'c', ...DODOMA },
+  ];
+
+  it('groups nearby leads when zoomed out', () => {
+    const clusters = clusterPoints(points, 6);
+
+    expect(clusters.map(cluster => cluster.points.map(point => point.id))).toEqual([['a', 'b'], ['c']]);
+    expect(clusters[0].latitude).toBeCloseTo(DAR_ES_SALAAM.latitude + 0.0005, 6);
+  });
+
+  it('splits them when zoomed in far enough', () => {
+    expect(clusterPoints(points, 18)).toHaveLength(3);
+  });
+});
+
+describe('fitView', () => {
+  it('shows Tanzania when there are no leads', () => {
+    expect(fitView([], 400, 300, { maxZoom: 18 })).toEqual({
+      center: { latitude: -6.37, longitude: 34.89 },
+      zoom: 6,
+    });
+  });
+
+  it('shows a single lead at street level, within the tile server limit', () => {
+    expect(fitView([DODOMA], 400, 300, { maxZoom: 18 }).zoom).toBe(15);
+    expect(fitView([DODOMA], 400, 300, { maxZoom: 12 }).zoom).toBe(12);
+  });
+
+  it('zooms as close as it can while keeping every lead in view', () => {
+    const view = fitView([DAR_ES_SALAAM, DODOMA], 400, 300, { maxZoom: 18 });
+    const west = project(DODOMA, view.zoom);
+    const east = project(DAR_ES_SALAAM, view.zoom);
+    const wider = project(DAR_ES_SALAAM, view.zoom + 1).x - project(DODOMA, view.zoom + 1).x;
+
+    expect(east.x - west.x).toBeLessThanOrEqual(400 - 64);
+    expect(wider).toBeGreaterThan(400 - 64);
+    expect(view.center.longitude).toBeCloseTo((DAR_ES_SALAAM.longitude + DODOMA.longitude) / 2, 6);
+  });
+});
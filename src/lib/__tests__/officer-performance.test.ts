@@ -0,0 +1,58 @@
+/**
+ * Officer leaderboard ranking tests
+ */
+
+import { rankOfficers } from '../officer-performance';
+import { OfficerPerformance } from '@/types';
+
+function makeOfficer(name: string, overrides: Partial<OfficerPerformance> = {}): Omit<OfficerPerformance, 'rank'> {
+  return {
+    officer_id: `officer-${name}`,
+    officer_name: name,
+    active: true,
+    leads_captured: 0,
+    leads_with_gps: 0,
+    gps_rate: null,
+    follow_ups_logged: 0,
+    follow_ups_on_time: 0,
+    on_time_rate: null,
+    leads_assigned: 0,
+    leads_won: 0,
+    conversion_rate: null,
+    ...overrides,
+  };
+}
+
+describe('rankOfficers', () => {
+  it('ranks by leads captured, sharing ranks between officers level on it', () => {
+    const ranked = rankOfficers([
+      makeOfficer('Baraka', { leads_captured: 4 }),
+      makeOfficer('Asha', { leads_captured: 9 }),
+      makeOfficer('Zuhura', { leads_captured: 4 }),
+      makeOfficer('Daudi', { leads_captured: 1 }),
+    ], 'leads_captured');
+
+    expect(ranked.map(officer => [officer.officer_name, officer.rank])).toEqual([
+      ['Asha', 1],
+      ['Baraka', 2],
+      ['Zuhura', 2],
+      ['Daudi', 4],
+    ]);
+  });
+
+  it('ranks by a rate, breaking ties on leads captured and putting officers without one last', () => {
+    const ranked = rankOfficers([
+      makeOfficer('Asha', { leads_captured: 2, gps_rate: 0.5 }),
+      makeOfficer('Baraka', { leads_captured: 8, gps_rate: 0.5 }),
+      makeOfficer('Daudi', { leads_captured: 0, gps_rate: null }),
+      makeOfficer('Zuhura', { leads_captured: 3, gps_rate: 0 }),
+    ], 'gps_rate');
+
+    expect(ranked.map(officer => [officer.officer_name, officer.rank])).toEqual([
+      ['Baraka', 1],
+      ['Asha', 1],
+      ['Zuhura', 3],
+      ['Daudi', 4],
+    ]);
+  });
+});
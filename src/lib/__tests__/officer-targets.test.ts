@@ -0,0 +1,42 @@
+/**
+ * Target pace and status tests
+ */
+
+import { withTargetStatus } from '../officer-targets';
+import { TargetAttainment } from '@/types';
+
+function makeTarget(overrides: Partial<TargetAttainment> = {}): Omit<TargetAttainment, 'expected' | 'status'> {
+  return {
+    target_id: '7d0c2a4e-9b1f-4c3d-8e5a-6f7b8c9d0e01',
+    officer_id: '0b8f7c2e-5a1d-4f7e-8c3b-2d9e6a4f1b02',
+    officer_name: 'Asha Mussa',
+    active: true,
+    applies_to: 'officer',
+    period: 'week',
+    lead_count: 14,
+    period_start: '2026-10-19',
+    period_end: '2026-10-25',
+    achieved: 0,
+    ...overrides,
+  };
+}
+
+describe('withTargetStatus', () => {
+  it('expects an even share of the target for the days already over', () => {
+    // Wednesday: Monday and Tuesday are over, so 4 of 14 are due
+    expect(withTargetStatus(makeTarget({ achieved: 4 }), '2026-10-21')).toMatchObject({ expected: 4, status: 'on_track' });
+    expect(withTargetStatus(makeTarget({ achieved: 3 }), '2026-10-21')).toMatchObject({ expected: 4, status: 'behind' });
+  });
+
+  it('does not put anyone behind a daily target before the day is over', () => {
+    const target = makeTarget({ period: 'day', lead_count: 5, period_start: '2026-10-20', period_end: '2026-10-20' });
+
+    expect(withTargetStatus(target, '2026-10-20')).toMatchObject({ expected: 0, status: 'on_track' });
+    expect(withTargetStatus(target, '2026-10-21')).toMatchObject({ expected: 5, status: 'behind' });
+    expect(withTargetStatus({ ...target, achieved: 6 }, '2026-10-20')).toMatchObject({ status: 'met' });
+  });
+
+  it('expects nothing yet of a period that has not started', () => {
+    expect(withTargetStatus(makeTarget(), '2026-10-12')).toMatchObject({ expected: 0, status: 'on_track' });
+  });
+});
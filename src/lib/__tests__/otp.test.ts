@@ -0,0 +1,197 @@
+/**
+ * One-time code tests
+ * The otp_codes table is kept in memory here; claim_otp_attempt is answered
+ * the way the database function does it, in one step.
+ */
+
+import { randomUUID } from 'crypto';
+import { issueOtp, verifyOtp } from '../otp';
+import { consoleOtpProvider, OtpMessage } from '../otp-providers';
+import { AUTH_CONSTANTS } from '../constants';
+
+interface OtpRow {
+  id: string;
+  identifier: string;
+  purpose: string;
+  code_hash: string;
+  attempts: number;
+  expires_at: string;
+  consumed_at: string | null;
+  created_at: string;
+}
+
+const mockRows: OtpRow[] = [];
+
+// Just enough of the Supabase query builder for otp.ts
+class MockQuery {
+  private filters: ((row: OtpRow) => boolean)[] = [];
+  private patch: Partial<OtpRow> | null = null;
+  private sortBy: keyof OtpRow | null = null;
+  private max = Infinity;
+
+  select() {
+    return this;
+  }
+
+  eq(column: keyof OtpRow, value: unknown) {
+    this.filters.push(row => row[column] === value);
+    return this;
+  }
+
+  is(column: keyof OtpRow, value: null) {
+    return this.eq(column, value);
+  }
+
+  gte(column: keyof OtpRow, value: string) {
+    this.filters.push(row => String(row[column]) >= value);
+    return this;
+  }
+
+  order(column: keyof OtpRow) {
+    this.sortBy = column; // only ever descending here
+    return this;
+  }
+
+  limit(count: number) {
+    this.max = count;
+    return this;
+  }
+
+  update(patch: Partial<OtpRow>) {
+    this.patch = patch;
+    return this;
+  }
+
+  insert(rows: Pick<OtpRow, 'identifier' | 'purpose' | 'code_hash' | 'expires_at'>[]) {
+    for (const row of rows) {
+      mockRows.push({ id: randomUUID(), attempts: 0, consumed_at: null, created_at: new Date().toISOString(), ...row });
+    }
+    return Promise.resolve({ data: null, error: null });
+  }
+
+  private run(): OtpRow[] {
+    let matched = mockRows.filter(row => this.filters.every(filter => filter(row)));
+    if (this.patch) matched.forEach(row => Object.assign(row, this.patch));
+
+    const sortBy = this.sortBy;
+    if (sortBy) matched = [...matched].sort((a, b) => String(b[sortBy]).localeCompare(String(a[sortBy])));
+
+    return matched.slice(0, this.max).map(row => ({ ...row }));
+  }
+
+  maybeSingle() {
+    return Promise.resolve({ data: this.run()[0] ?? null, error: null });
+  }
+
+  then<T>(resolve: (result: { data: OtpRow[]; error: null }) => T) {
+    return Promise.resolve(resolve({ data: this.run(), error: null }));
+  }
+}
+
+const mockDb = {
+  from: () => new MockQuery(),
+  rpc: async (_name: 'claim_otp_attempt', { target_code_id, max_attempts }: { target_code_id: string; max_attempts: number }) => {
+    const row = mockRows.find(
+      candidate => candidate.id === target_code_id && candidate.consumed_at === null && candidate.attempts < max_attempts
+    );
+    if (row) row.attempts++;
+    return { data: row ? row.attempts : null, error: null };
+  },
+};
+
+jest.mock('../supabase-server', () => ({ getServiceClient: () => mockDb }));
+
+const PHONE = '+255714000111';
+
+describe('one-time codes', () => {
+  const sent: OtpMessage[] = [];
+
+  beforeAll(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(consoleOtpProvider, 'send').mockImplementation(async message => {
+      sent.push(message);
+    });
+  });
+
+  beforeEach(() => {
+    mockRows.length = 0;
+    sent.length = 0;
+    jest.useFakeTimers({ now: new Date('2026-10-19T08:00:00Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  async function issue(deliver?: boolean) {
+    return issueOtp({ identifier: PHONE, channel: 'sms', purpose: 'officer_login', deliver });
+  }
+
+  function later(seconds: number) {
+    jest.setSystemTime(Date.now() + seconds * 1000);
+  }
+
+  it('sends a code that signs in once', async () => {
+    expect(await issue()).toEqual({ success: true, expiresIn: AUTH_CONSTANTS.OTP_TTL });
+    expect(sent).toHaveLength(1);
+
+    const { code } = sent[0];
+    expect(code).toMatch(new RegExp(`^\\d{${AUTH_CONSTANTS.OTP_LENGTH}}$`));
+    expect(mockRows[0].code_hash).not.toContain(code);
+
+    expect(await verifyOtp(PHONE, 'dealer_login', code)).toBe('invalid');
+    expect(await verifyOtp(PHONE, 'officer_login', code)).toBe('valid');
+    expect(await verifyOtp(PHONE, 'officer_login', code)).toBe('invalid');
+  });
+
+  it('sends one code per resend interval, delivered or not', async () => {
+    await issue(false);
+    expect(sent).toHaveLength(0);
+
+    later(20);
+    expect(await issue()).toEqual({
+      success: false,
+      reason: 'rate_limited',
+      retryAfter: AUTH_CONSTANTS.OTP_RESEND_INTERVAL - 20,
+    });
+  });
+
+  it('replaces an earlier code with a new one', async () => {
+    await issue();
+    later(AUTH_CONSTANTS.OTP_RESEND_INTERVAL + 1);
+    await issue();
+    expect(sent).toHaveLength(2);
+
+    // Two codes can match by chance, one time in a million
+    const [first, second] = sent.map(message => message.code);
+    if (first !== second) {
+      expect(await verifyOtp(PHONE, 'officer_login', first)).toBe('invalid');
+    }
+    expect(await verifyOtp(PHONE, 'officer_login', second)).toBe('valid');
+  });
+
+  it('refuses a code once it expires', async () => {
+    await issue();
+    later(AUTH_CONSTANTS.OTP_TTL);
+
+    expect(await verifyOtp(PHONE, 'officer_login', sent[0].code)).toBe('expired');
+  });
+
+  it('counts guesses sent together against the attempt limit', async () => {
+    await issue();
+    const { code } = sent[0];
+    const wrong = code === '000000' ? '111111' : '000000';
+
+    const results = await Promise.all(
+      Array.from({ length: AUTH_CONSTANTS.OTP_MAX_ATTEMPTS + 3 }, () => verifyOtp(PHONE, 'officer_login', wrong))
+    );
+
+    expect(results.filter(result => result === 'invalid')).toHaveLength(AUTH_CONSTANTS.OTP_MAX_ATTEMPTS);
+    expect(results.filter(result => result === 'too_many_attempts')).toHaveLength(3);
+    expect(await verifyOtp(PHONE, 'officer_login', code)).toBe('too_many_attempts');
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Role and access scope tests
+ */
+
+import {
+  canAccessOfficer,
+  getAccessScope,
+  getDashboardPath,
+  getHomePath,
+  hasPermission,
+  isDealerRole,
+  isManagerRole,
+} from '../permissions';
+
+const DEALER_A = 'dealer-a';
+const DEALER_B = 'dealer-b';
+
+const supervisor = { id: 'supervisor-a', dealer_id: DEALER_A, supervisor_id: null };
+const teamOfficer = { id: 'officer-a1', dealer_id: DEALER_A, supervisor_id: supervisor.id };
+const otherOfficer = { id: 'officer-a2', dealer_id: DEALER_A, supervisor_id: null };
+const otherDealerOfficer = { id: 'officer-b1', dealer_id: DEALER_B, supervisor_id: supervisor.id };
+
+describe('hasPermission', () => {
+  it('leaves officer management to dealers and admins', () => {
+    expect(hasPermission('dealer', 'officers:delete')).toBe(true);
+    expect(hasPermission('platform_admin', 'officers:assign')).toBe(true);
+    expect(hasPermission('supervisor', 'officers:delete')).toBe(false);
+    expect(hasPermission('supervisor', 'officers:assign')).toBe(false);
+    expect(hasPermission('officer', 'officers:create')).toBe(false);
+  });
+
+  it('lets only officer accounts capture leads', () => {
+    expect(hasPermission('officer', 'leads:create')).toBe(true);
+    expect(hasPermission('supervisor', 'leads:create')).toBe(true);
+    expect(hasPermission('dealer', 'leads:create')).toBe(false);
+    expect(hasPermission('platform_admin', 'leads:create')).toBe(false);
+  });
+
+  it('keeps officers from moving, merging or deleting leads', () => {
+    expect(hasPermission('officer', 'leads:assign')).toBe(false);
+    expect(hasPermission('officer', 'leads:merge')).toBe(false);
+    expect(hasPermission('officer', 'leads:delete')).toBe(false);
+    expect(hasPermission('supervisor', 'leads:assign')).toBe(true);
+  });
+
+  it('shows dealers only to platform admins', () => {
+    expect(hasPermission('platform_admin', 'dealers:read')).toBe(true);
+    expect(hasPermission('dealer', 'dealers:read')).toBe(false);
+  });
+});
+
+describe('roles', () => {
+  it('tells dealer accounts and managers apart', () => {
+    expect(isDealerRole('dealer')).toBe(true);
+    expect(isDealerRole('supervisor')).toBe(false);
+    expect(isManagerRole('supervisor')).toBe(true);
+    expect(isManagerRole('officer')).toBe(false);
+  });
+
+  it('sends each role to its own start page', () => {
+    expect(getHomePath('platform_admin', DEALER_A)).toBe('/admin');
+    expect(getHomePath('dealer', DEALER_A)).toBe(`/dealer/${DEALER_A}`);
+    expect(getHomePath('supervisor', DEALER_A)).toBe('/');
+    expect(getDashboardPath('supervisor', DEALER_A)).toBe(`/dealer/${DEALER_A}`);
+    expect(getDashboardPath('officer', DEALER_A)).toBe('/');
+  });
+});
+
+describe('access scopes', () => {
+  const scopes = {
+    admin: getAccessScope({ role: 'platform_admin', sub: 'admin', dealerId: 'admin' }),
+    dealer: getAccessScope({ role: 'dealer', sub: DEALER_A, dealerId: DEALER_A }),
+    supervisor: getAccessScope({ role: 'supervisor', sub: supervisor.id, dealerId: DEALER_A }),
+    officer: getAccessScope({ role: 'officer', sub: teamOfficer.id, dealerId: DEALER_A }),
+  };
+
+  it('scopes each role to its slice of the data', () => {
+    expect(scopes.admin).toEqual({ type: 'platform' });
+    expect(scopes.dealer).toEqual({ type: 'dealer', dealerId: DEALER_A });
+    expect(scopes.supervisor).toEqual({ type: 'team', dealerId: DEALER_A, supervisorId: supervisor.id });
+    expect(scopes.officer).toEqual({ type: 'self', dealerId: DEALER_A, officerId: teamOfficer.id });
+  });
+
+  it('lets a platform admin reach every officer', () => {
+    expect(canAccessOfficer(scopes.admin, otherDealerOfficer)).toBe(true);
+  });
+
+  it('keeps a dealer to their own officers', () => {
+    expect(canAccessOfficer(scopes.dealer, otherOfficer)).toBe(true);
+    expect(canAccessOfficer(scopes.dealer, otherDealerOfficer)).toBe(false);
+  });
+
+  it('keeps a supervisor to themselves and their team at their dealer', () => {
+    expect(canAccessOfficer(scopes.supervisor, supervisor)).toBe(true);
+    expect(canAccessOfficer(scopes.supervisor, teamOfficer)).toBe(true);
+    expect(canAccessOfficer(scopes.supervisor, otherOfficer)).toBe(false);
+    expect(canAccessOfficer(scopes.supervisor, otherDealerOfficer)).toBe(false);
+  });
+
+  it('keeps an officer to themselves', () => {
+    expect(canAccessOfficer(scopes.officer, teamOfficer)).toBe(true);
+    expect(canAccessOfficer(scopes.officer, otherOfficer)).toBe(false);
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Tanzanian phone number tests
+ */
+
+import { formatPhone, getPhoneCarrier, normalizePhone, parsePhone, toPhoneSearchDigits } from '../phone';
+
+describe('phone numbers', () => {
+  it.each([
+    '0714276444',
+    '714276444',
+    '255714276444',
+    '+255714276444',
+    '+255 714 276 444',
+    '0714-276-444',
+    '00255714276444',
+  ])('normalizes %s to E.164', (input) => {
+    expect(normalizePhone(input)).toBe('+255714276444');
+  });
+
+  it.each([
+    '',
+    '071427644', // too short
+    '07142764444', // too long
+    '0514276444', // not a mobile prefix
+    '+254714276444', // Kenya
+    '0714abc444',
+  ])('rejects %s', (input) => {
+    expect(parsePhone(input)).toBeNull();
+  });
+
+  it('identifies the carrier from the prefix', () => {
+    expect(getPhoneCarrier('0754123456')).toBe('vodacom');
+    expect(getPhoneCarrier('0784123456')).toBe('airtel');
+    expect(getPhoneCarrier('0714123456')).toBe('tigo');
+    expect(getPhoneCarrier('0621123456')).toBe('halotel');
+    expect(getPhoneCarrier('0733123456')).toBe('ttcl');
+  });
+
+  it('formats numbers for display and leaves unknown input alone', () => {
+    expect(formatPhone('0714276444')).toBe('+255 714 276 444');
+    expect(formatPhone('+255714276444', 'national')).toBe('0714 276 444');
+    expect(formatPhone('12345')).toBe('12345');
+  });
+
+  it('turns typed numbers into digits found in stored numbers', () => {
+    expect(toPhoneSearchDigits('0714 27')).toBe('71427');
+    expect(toPhoneSearchDigits('+255 714')).toBe('714');
+  });
+});
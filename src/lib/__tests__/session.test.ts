@@ -0,0 +1,62 @@
+/**
+ * Session cookie signing tests
+ */
+
+import { createSession, decodeSession, encodeSession } from '../session';
+import { AUTH_CONSTANTS } from '../constants';
+
+const DEALER_ID = '3c1e5b7a-2d4f-4a6b-8c9d-0e1f2a3b4c5d';
+const OFFICER_ID = '9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d';
+
+function encodePayload(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+describe('sessions', () => {
+  beforeAll(() => {
+    // No SESSION_SECRET in tests, so the development secret is used
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('lasts the session lifetime from now', () => {
+    const session = createSession('officer', OFFICER_ID, DEALER_ID);
+
+    expect(session).toMatchObject({ sub: OFFICER_ID, role: 'officer', dealerId: DEALER_ID });
+    expect(session.exp - session.iat).toBe(AUTH_CONSTANTS.SESSION_MAX_AGE);
+    expect(Math.abs(session.iat * 1000 - Date.now())).toBeLessThan(2000);
+  });
+
+  it('reads back the session it signed', () => {
+    const session = createSession('supervisor', OFFICER_ID, DEALER_ID);
+    expect(decodeSession(encodeSession(session))).toEqual(session);
+  });
+
+  it('refuses a changed payload or signature', () => {
+    const token = encodeSession(createSession('officer', OFFICER_ID, DEALER_ID));
+    const [payload, signature] = token.split('.');
+    const promoted = encodePayload({ ...JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')), role: 'dealer' });
+
+    expect(decodeSession(`${promoted}.${signature}`)).toBeNull();
+    expect(decodeSession(`${payload}.${signature.slice(0, -2)}AA`)).toBeNull();
+    expect(decodeSession(payload)).toBeNull();
+    expect(decodeSession('')).toBeNull();
+  });
+
+  it('refuses an expired session', () => {
+    const session = createSession('dealer', DEALER_ID, DEALER_ID);
+    const expired = { ...session, iat: session.iat - AUTH_CONSTANTS.SESSION_MAX_AGE - 1, exp: session.iat - 1 };
+
+    expect(decodeSession(encodeSession(expired))).toBeNull();
+  });
+
+  it('refuses a signed payload that is not a session', () => {
+    const session = createSession('officer', OFFICER_ID, DEALER_ID);
+
+    expect(decodeSession(encodeSession({ ...session, dealerId: '' }))).toBeNull();
+    expect(decodeSession(encodeSession({ ...session, sub: '' }))).toBeNull();
+  });
+});
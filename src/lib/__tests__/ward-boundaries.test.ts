@@ -0,0 +1,136 @@
+/**
+ * Ward lookup tests
+ * Most boundaries here are made-up squares, not real wards; the last tests
+ * look points up in the boundary file bundled with the app.
+ */
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import { WARD_BOUNDARIES_PATH } from '../constants';
+import { findWard, indexWardBoundaries, isSameWard, simplifyRing, WardBoundaries } from '../ward-boundaries';
+import { hasWardMismatch, locateLeadWard } from '../ward-lookup';
+
+function square(west: number, south: number, size: number): number[][] {
+  return [[west, south], [west + size, south], [west + size, south + size], [west, south + size], [west, south]];
+}
+
+const BOUNDARIES: WardBoundaries = {
+  type: 'FeatureCollection',
+  features: [
+    {
+      type: 'Feature',
+      properties: { region: 'Pwani', district: 'Mashariki', ward: 'Kisiwani' },
+      // A ward with a hole, and an island of its own inside the hole
+      geometry: {
+        type: 'MultiPolygon',
+        coordinates: [
+          [square(39, -7, 1), square(39.25, -6.75, 0.5)],
+          [square(39.4, -6.6, 0.2)],
+        ],
+      },
+    },
+    {
+      type: 'Feature',
+      properties: { region: 'Pwani', district: 'Mashariki', ward: 'Katikati' },
+      geometry: { type: 'Polygon', coordinates: [square(39.3, -6.7, 0.05)] },
+    },
+    {
+      type: 'Feature',
+      // A region known only as a whole, listed before its ward
+      properties: { region: 'Pwani', district: null, ward: null },
+      geometry: { type: 'Polygon', coordinates: [square(38, -8, 3)] },
+    },
+  ],
+};
+
+describe('findWard', () => {
+  const index = indexWardBoundaries(BOUNDARIES);
+
+  it('finds the ward whose polygon contains the point', () => {
+    expect(findWard(index, -6.9, 39.1)).toEqual({ region: 'Pwani', district: 'Mashariki', ward: 'Kisiwani' });
+    expect(findWard(index, -6.5, 39.5)).toMatchObject({ ward: 'Kisiwani' });
+  });
+
+  it('leaves out holes, so a ward inside another is found', () => {
+    expect(findWard(index, -6.68, 39.32)).toMatchObject({ ward: 'Katikati' });
+    expect(findWard(index, -6.7, 39.45)).toMatchObject({ ward: null });
+  });
+
+  it('falls back to the region where no ward contains the point', () => {
+    expect(findWard(index, -6.3, 39.3)).toEqual({ region: 'Pwani', district: null, ward: null });
+    expect(findWard(index, -7.5, 38.5)).toMatchObject({ ward: null });
+  });
+
+  it('finds nothing outside every area or without boundary data', () => {
+    expect(findWard(index, -3.4, 36.7)).toBeNull();
+    expect(findWard(indexWardBoundaries({ type: 'FeatureCollection', features: [] }), -6.9, 39.1)).toBeNull();
+  });
+});
+
+describe('isSameWard', () => {
+  it('ignores case, spacing, punctuation and the word ward', () => {
+    expect(isSameWard('mbezi-juu', 'Mbezi Juu')).toBe(true);
+    expect(isSameWard('Mbezi Juu Ward', 'Mbezi Juu')).toBe(true);
+    expect(isSameWard('Kata ya Mbezi', 'Mbezi')).toBe(false);
+    expect(isSameWard('Mbezi', 'Mbezi Juu')).toBe(false);
+  });
+});
+
+describe('hasWardMismatch', () => {
+  it('flags a typed ward that is not the GPS ward', () => {
+    expect(hasWardMismatch('Kariakoo', 'Jangwani')).toBe(true);
+    expect(hasWardMismatch('kariakoo', 'Kariakoo')).toBe(false);
+  });
+
+  it('never flags leads without a GPS ward', () => {
+    expect(hasWardMismatch('Kariakoo', null)).toBe(false);
+    expect(hasWardMismatch('Kariakoo', undefined)).toBe(false);
+  });
+});
+
+describe('simplifyRing', () => {
+  it('drops points that barely bend the outline and keeps the ring closed', () => {
+    const ring = [[0, 0], [0.5, 0.00001], [1, 0], [1, 1], [0, 1], [0, 0]];
+
+    expect(simplifyRing(ring, 0.001)).toEqual([[0, 0], [1, 0], [1, 1], [0, 1], [0, 0]]);
+  });
+
+  it('keeps points that matter', () => {
+    const ring = [[0, 0], [0.5, 0.2], [1, 0], [1, 1], [0, 1], [0, 0]];
+
+    expect(simplifyRing(ring, 0.001)).toEqual(ring);
+  });
+});
+
+describe('bundled boundaries', () => {
+  const boundaries = JSON.parse(
+    readFileSync(path.join(process.cwd(), 'public', WARD_BOUNDARIES_PATH), 'utf8')
+  ) as WardBoundaries;
+  const index = indexWardBoundaries(boundaries);
+
+  it('covers the regions of Tanzania', () => {
+    expect(new Set(boundaries.features.map(feature => feature.properties.region)).size).toBeGreaterThanOrEqual(30);
+  });
+
+  it.each([
+    ['Kariakoo', -6.819, 39.276, 'Dar es Salaam'],
+    ['Dodoma', -6.163, 35.752, 'Dodoma'],
+    ['Arusha', -3.387, 36.683, 'Arusha'],
+    ['Mwanza', -2.516, 32.918, 'Mwanza'],
+    ['Mbeya', -8.909, 33.46, 'Mbeya'],
+    ['Zanzibar Stone Town', -6.163, 39.199, 'Mjini Magharibi'],
+  ])('places %s in its region', (_, latitude, longitude, region) => {
+    expect(findWard(index, latitude, longitude)).toMatchObject({ region });
+  });
+
+  it('finds nothing outside Tanzania', () => {
+    expect(findWard(index, -1.286, 36.817)).toBeNull(); // Nairobi
+    expect(findWard(index, -6.5, 40.5)).toBeNull(); // Indian Ocean
+  });
+
+  it('records the region of a lead without flagging its ward', async () => {
+    await expect(
+      locateLeadWard({ ward: 'Kariakoo', gps_latitude: -6.819, gps_longitude: 39.276 })
+    ).resolves.toEqual({ gps_region: 'Dar es Salaam', gps_district: null, gps_ward: null, ward_mismatch: false });
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Web Push tests, against a local push service stub
+ */
+
+import { createECDH, randomBytes } from 'crypto';
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import {
+  createVapidAuthorization,
+  decryptPushPayload,
+  encryptPushPayload,
+  generateVapidKeys,
+  sendPushNotification,
+  verifyVapidAuthorization,
+} from '../web-push';
+import { isPushServiceEndpoint } from '../push-endpoint';
+
+// The browser's side of a subscription
+function createReceiver() {
+  const ecdh = createECDH('prime256v1');
+  ecdh.generateKeys();
+
+  return {
+    privateKey: ecdh.getPrivateKey().toString('base64url'),
+    keys: {
+      p256dh: ecdh.getPublicKey('base64url'),
+      auth: randomBytes(16).toString('base64url'),
+    },
+  };
+}
+
+const vapid = { ...generateVapidKeys(), subject: 'mailto:ops@example.com' };
+
+describe('web push', () => {
+  it('encrypts messages only the subscribed browser can read', () => {
+    const receiver = createReceiver();
+    const body = encryptPushPayload(receiver.keys, '{"title":"3 follow-ups due today"}');
+
+    expect(decryptPushPayload(body, receiver.privateKey, receiver.keys.auth))
+      .toBe('{"title":"3 follow-ups due today"}');
+
+    const other = createReceiver();
+    expect(() => decryptPushPayload(body, other.privateKey, other.keys.auth)).toThrow();
+  });
+
+  it('reads the RFC 8291 example message', () => {
+    const body = Buffer.from(
+      'DGv6ra1nlYgDCS1FRnbzlwAAEABBBP4z9KsN6nGRTbVYI_c7VJSPQTBtkgcy27mlmlMoZIIgDll6e3vCYLocInmYWAmS6TlzAC8wEqKK6PBru3jl7A_yl95bQpu6cVPTpK4Mqgkf1CXztLVBSt2Ks3oZwbuwXPXLWyouBWLVWGNWQexSgSxsj_Qulcy4a-fN',
+      'base64url'
+    );
+
+    expect(decryptPushPayload(body, 'q1dXpw3UpT5VOmu_cf_v6ih07Aems3njxI-JWgLcM94', 'BTBZMqHH6r4Tts7J_aSIgg'))
+      .toBe('When I grow up, I want to be a watermelon');
+  });
+
+  it('signs VAPID tokens for the push service origin', () => {
+    const authorization = createVapidAuthorization('https://push.example.com/send/abc', vapid);
+
+    expect(verifyVapidAuthorization(authorization, 'https://push.example.com')).toBe(vapid.publicKey);
+    expect(verifyVapidAuthorization(authorization, 'https://other.example.com')).toBeNull();
+
+    // Signed with another key but claiming ours
+    const forged = createVapidAuthorization('https://push.example.com/send/abc', {
+      ...generateVapidKeys(),
+      subject: vapid.subject,
+    }).replace(/k=.*$/, `k=${vapid.publicKey}`);
+    expect(verifyVapidAuthorization(forged, 'https://push.example.com')).toBeNull();
+  });
+
+  describe('sending', () => {
+    const receiver = createReceiver();
+    let server: Server;
+    let origin: string;
+    let received: { headers: IncomingMessage['headers']; payload: string }[];
+
+    beforeAll(async () => {
+      // Accepts /live, answers 410 Gone for anything else
+      server = createServer((request, response) => {
+        const chunks: Buffer[] = [];
+        request.on('data', chunk => chunks.push(chunk));
+        request.on('end', () => {
+          if (request.url !== '/live') {
+            response.writeHead(410).end();
+            return;
+          }
+
+          received.push({
+            headers: request.headers,
+            payload: decryptPushPayload(Buffer.concat(chunks), receiver.privateKey, receiver.keys.auth),
+          });
+          response.writeHead(201).end();
+        });
+      });
+
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    beforeEach(() => {
+      received = [];
+    });
+
+    afterAll(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    it('delivers an encrypted, signed message', async () => {
+      const result = await sendPushNotification(
+        { endpoint: `${origin}/live`, keys: receiver.keys },
+        { title: '3 follow-ups due today', url: '/follow-ups' },
+        vapid,
+        { ttl: 600, topic: 'follow-ups-due' }
+      );
+
+      expect(result).toEqual({ status: 201, ok: true, expired: false });
+      expect(JSON.parse(received[0].payload)).toEqual({ title: '3 follow-ups due today', url: '/follow-ups' });
+      expect(received[0].headers['content-encoding']).toBe('aes128gcm');
+      expect(received[0].headers.ttl).toBe('600');
+      expect(verifyVapidAuthorization(received[0].headers.authorization ?? '', origin)).toBe(vapid.publicKey);
+    });
+
+    it('refuses to send anywhere but a push service', async () => {
+      await expect(
+        sendPushNotification({ endpoint: 'https://169.254.169.254/latest', keys: receiver.keys }, { title: 'Hello' }, vapid)
+      ).rejects.toThrow(/not a known push service/);
+      expect(received).toEqual([]);
+    });
+
+    it('reports subscriptions the push service no longer knows', async () => {
+      const result = await sendPushNotification(
+        { endpoint: `${origin}/gone`, keys: receiver.keys },
+        { title: 'Hello' },
+        vapid
+      );
+
+      expect(result).toEqual({ status: 410, ok: false, expired: true });
+    });
+  });
+
+  describe('push endpoints', () => {
+    it('accepts the browsers\' push services over https', () => {
+      expect(isPushServiceEndpoint('https://fcm.googleapis.com/fcm/send/abc', false)).toBe(true);
+      expect(isPushServiceEndpoint('https://updates.push.services.mozilla.com/wpush/v2/abc', false)).toBe(true);
+      expect(isPushServiceEndpoint('https://web.push.apple.com/abc', false)).toBe(true);
+      expect(isPushServiceEndpoint('https://wns2-bn3p.notify.windows.com/w/?token=abc', false)).toBe(true);
+    });
+
+    it('rejects plain http, other hosts and internal addresses', () => {
+      expect(isPushServiceEndpoint('http://fcm.googleapis.com/fcm/send/abc', false)).toBe(false);
+      expect(isPushServiceEndpoint('https://fcm.googleapis.com.example.com/abc', false)).toBe(false);
+      expect(isPushServiceEndpoint('https://fcm.googleapis.com:8443/abc', false)).toBe(false);
+      expect(isPushServiceEndpoint('https://169.254.169.254/latest/meta-data', false)).toBe(false);
+      expect(isPushServiceEndpoint('https://10.0.0.5/push', false)).toBe(false);
+      expect(isPushServiceEndpoint('not a url', false)).toBe(false);
+    });
+
+    it('allows this machine only outside production', () => {
+      expect(isPushServiceEndpoint('http://localhost:8790/abc', true)).toBe(true);
+      expect(isPushServiceEndpoint('http://127.0.0.1:8790/abc', true)).toBe(true);
+      expect(isPushServiceEndpoint('http://localhost:8790/abc', false)).toBe(false);
+      expect(isPushServiceEndpoint('http://192.168.1.10:8790/abc', true)).toBe(false);
+    });
+  });
+});
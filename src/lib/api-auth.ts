@@ -0,0 +1,140 @@
+/**
+ * Session checks for API routes
+ * Resolves the signed-in user from the session cookie and returns structured
+ * 401/403s. Officer and supervisor sessions take the officer's current role
+ * and dealer from the database, so a role change applies at once, and are
+ * refused once the officer is deactivated, even though the cookie is still
+ * valid.
+ */
+
+import { timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { config } from './config';
+import { getSession } from './session';
+import { getActiveOfficerAccess } from './officer-auth';
+import { AccessScope, getAccessScope, hasPermission, isDealerRole, Permission } from './permissions';
+import { Session, SessionRole } from '@/types';
+
+export interface AuthErrorBody {
+  error: string;
+  message: string;
+  code: 'UNAUTHORIZED' | 'FORBIDDEN' | 'OFFICER_INACTIVE';
+}
+
+export type AuthResult =
+  | { success: true; session: Session }
+  | { success: false; response: NextResponse<AuthErrorBody> };
+
+export type PermissionResult =
+  | { success: true; session: Session; scope: AccessScope }
+  | { success: false; response: NextResponse<AuthErrorBody> };
+
+/**
+ * 401 response for requests without a valid session
+ */
+export function unauthorizedResponse(): NextResponse<AuthErrorBody> {
+  return NextResponse.json(
+    {
+      error: 'Unauthorized',
+      message: 'Please sign in to continue.',
+      code: 'UNAUTHORIZED',
+    },
+    { status: 401 }
+  );
+}
+
+/**
+ * 403 response for sessions that may not perform the request
+ */
+export function forbiddenResponse(
+  message = 'You do not have access to this resource.'
+): NextResponse<AuthErrorBody> {
+  return NextResponse.json(
+    {
+      error: 'Forbidden',
+      message,
+      code: 'FORBIDDEN',
+    },
+    { status: 403 }
+  );
+}
+
+/**
+ * 403 response for officers deactivated after their session was issued
+ */
+export function officerInactiveResponse(): NextResponse<AuthErrorBody> {
+  return NextResponse.json(
+    {
+      error: 'Account deactivated',
+      message: 'This account has been deactivated. Please contact your dealer.',
+      code: 'OFFICER_INACTIVE',
+    },
+    { status: 403 }
+  );
+}
+
+/**
+ * Require a valid session, optionally limited to the given roles
+ */
+export async function requireSession(
+  request: NextRequest,
+  roles?: SessionRole[]
+): Promise<AuthResult> {
+  let session = getSession(request);
+
+  if (!session) {
+    return { success: false, response: unauthorizedResponse() };
+  }
+
+  if (!isDealerRole(session.role)) {
+    const officer = await getActiveOfficerAccess(session.sub);
+    if (!officer) {
+      return { success: false, response: officerInactiveResponse() };
+    }
+
+    // The cookie holds the role at sign-in; scopes and database tokens use
+    // the current one
+    session = { ...session, role: officer.role, dealerId: officer.dealer_id };
+  }
+
+  if (roles && !roles.includes(session.role)) {
+    return { success: false, response: forbiddenResponse() };
+  }
+
+  return { success: true, session };
+}
+
+/**
+ * Require a session whose role grants the permission, and resolve the data it may see
+ */
+export async function requirePermission(
+  request: NextRequest,
+  permission: Permission
+): Promise<PermissionResult> {
+  const auth = await requireSession(request);
+
+  if (!auth.success) {
+    return auth;
+  }
+
+  if (!hasPermission(auth.session.role, permission)) {
+    return { success: false, response: forbiddenResponse() };
+  }
+
+  return { success: true, session: auth.session, scope: getAccessScope(auth.session) };
+}
+
+/**
+ * Require the scheduler's `Authorization: Bearer <CRON_SECRET>` on scheduled
+ * jobs. Returns null when the request may run.
+ */
+export function requireCronSecret(request: NextRequest): NextResponse<AuthErrorBody> | null {
+  const expected = Buffer.from(`Bearer ${config.push.cronSecret}`);
+  const actual = Buffer.from(request.headers.get('authorization') ?? '');
+
+  if (!config.push.cronSecret || actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return unauthorizedResponse();
+  }
+
+  return null;
+}
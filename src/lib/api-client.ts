@@ -13,13 +13,22 @@ export interface ApiError {
   message: string;
   status?: number;
   code?: string;
+  fieldErrors?: Record<string, string[]>;
   isNetworkError?: boolean;
   isRetryable?: boolean;
 }
 
+interface ErrorResponseBody {
+  error?: string;
+  message?: string;
+  code?: string;
+  fieldErrors?: Record<string, string[]>;
+}
+
 export class ApiClientError extends Error {
   public status?: number;
   public code?: string;
+  public fieldErrors?: Record<string, string[]>;
   public isNetworkError: boolean;
   public isRetryable: boolean;
 
@@ -28,6 +37,7 @@ export class ApiClientError extends Error {
     this.name = 'ApiClientError';
     this.status = error.status;
     this.code = error.code;
+    this.fieldErrors = error.fieldErrors;
     this.isNetworkError = error.isNetworkError || false;
     this.isRetryable = error.isRetryable || false;
   }
@@ -91,21 +101,6 @@ function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
-/**
- * Get current dealer ID from localStorage
- */
-function getCurrentDealerId(): string | null {
-  if (typeof window === 'undefined') return null;
-
-  try {
-    const stored = localStorage.getItem('dealer');
-    const dealer: { id?: string } | null = stored ? JSON.parse(stored) : null;
-    return dealer?.id || null;
-  } catch {
-    return null;
-  }
-}
-
 /**
  * Enhanced fetch with retry logic and error handling
  */
@@ -132,17 +127,10 @@ export async function apiRequest<T = unknown>(
         const controller = new AbortController();
         const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 second timeout
 
-        // Add dealer ID header only for admin requests (when dealer is logged in)
-        const dealerId = getCurrentDealerId();
-        const headers = {
-          ...options.headers,
-          // Only add dealer ID header if we have a dealer (admin access)
-          ...(dealerId && { 'x-dealer-id': dealerId }),
-        };
-
+        // The session cookie identifies the caller; the server derives the dealer from it
         const response = await fetch(url, {
           ...options,
-          headers,
+          credentials: 'same-origin',
           signal: controller.signal,
         });
 
@@ -151,10 +139,10 @@ export async function apiRequest<T = unknown>(
         // Handle HTTP errors
         if (!response.ok) {
           let errorMessage = 'Request failed';
-          let errorData: { error?: string; message?: string; code?: string } | null = null;
+          let errorData: ErrorResponseBody | null = null;
 
           try {
-            errorData = await response.json() as { error?: string; message?: string; code?: string };
+            errorData = await response.json() as ErrorResponseBody;
             errorMessage = errorData?.error || errorData?.message || errorMessage;
           } catch {
             // If response is not JSON, use status text
@@ -165,6 +153,7 @@ export async function apiRequest<T = unknown>(
             message: errorMessage,
             status: response.status,
             code: errorData?.code,
+            fieldErrors: errorData?.fieldErrors,
             isNetworkError: false,
             isRetryable: isRetryableError({ status: response.status }),
           });
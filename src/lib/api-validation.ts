@@ -0,0 +1,101 @@
+/**
+ * Request validation helpers for API routes
+ * Parses request bodies with the shared Zod schemas and returns structured 400s
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+export type FieldErrors = Record<string, string[]>;
+
+export interface ValidationErrorBody {
+  error: string;
+  message: string;
+  code: 'VALIDATION_ERROR' | 'INVALID_JSON';
+  fieldErrors: FieldErrors;
+}
+
+export type ParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; response: NextResponse<ValidationErrorBody> };
+
+/**
+ * Collect Zod issues into a field -> messages map
+ */
+export function getFieldErrors(error: z.ZodError): FieldErrors {
+  const fieldErrors: FieldErrors = {};
+
+  for (const issue of error.issues) {
+    const field = issue.path.length > 0 ? issue.path.join('.') : '_root';
+    (fieldErrors[field] ||= []).push(issue.message);
+  }
+
+  return fieldErrors;
+}
+
+/**
+ * Build the 400 response for a failed validation
+ */
+export function validationErrorResponse(
+  error: z.ZodError
+): NextResponse<ValidationErrorBody> {
+  const fieldErrors = getFieldErrors(error);
+  const fields = Object.keys(fieldErrors).filter(field => field !== '_root');
+
+  return NextResponse.json(
+    {
+      error: 'Validation failed',
+      message: fields.length > 0
+        ? `Some fields are invalid: ${fields.join(', ')}`
+        : fieldErrors._root?.[0] || 'The request data is invalid.',
+      code: 'VALIDATION_ERROR',
+      fieldErrors,
+    },
+    { status: 400 }
+  );
+}
+
+/**
+ * Validate an already-parsed value against a schema
+ */
+export function parseWithSchema<T extends z.ZodType>(
+  value: unknown,
+  schema: T
+): ParseResult<z.output<T>> {
+  const result = schema.safeParse(value);
+
+  if (!result.success) {
+    return { success: false, response: validationErrorResponse(result.error) };
+  }
+
+  return { success: true, data: result.data };
+}
+
+/**
+ * Read the JSON body of a request and validate it against a schema
+ */
+export async function parseJsonBody<T extends z.ZodType>(
+  request: NextRequest,
+  schema: T
+): Promise<ParseResult<z.output<T>>> {
+  let body: unknown;
+
+  try {
+    body = await request.json();
+  } catch {
+    return {
+      success: false,
+      response: NextResponse.json(
+        {
+          error: 'Invalid JSON',
+          message: 'The request body must be valid JSON.',
+          code: 'INVALID_JSON',
+          fieldErrors: {},
+        },
+        { status: 400 }
+      ),
+    };
+  }
+
+  return parseWithSchema(body, schema);
+}
@@ -1,116 +1,148 @@
 /**
- * Simple authentication for dealers
+ * Dealer and officer authentication (client)
+ * Sessions live in an httpOnly cookie set by the API
  */
 
-import { supabase } from './supabase';
-import { Dealer } from '@/types';
+import { apiRequest, ApiClientError } from './api-client';
+import { API_ENDPOINTS, STORAGE_KEYS } from './constants';
+import { isDealerRole } from './permissions';
+import {
+  Dealer,
+  Officer,
+  OfficerLoginResponse,
+  OtpRequestResult,
+  SessionResponse,
+} from '@/types';
 
 export interface AuthState {
   dealer: Dealer | null;
   loading: boolean;
 }
 
-// Normalize phone number to standard format
-function normalizePhoneNumber(phone: string): string {
-  // Remove all non-digit characters
-  let cleaned = phone.replace(/\D/g, '');
-  
-  // Handle different formats
-  if (cleaned.startsWith('0')) {
-    // 0714276444 -> 714276444 -> +255714276444
-    cleaned = '255' + cleaned.substring(1);
-  } else if (cleaned.startsWith('255')) {
-    // 255714276444 -> +255714276444 (already correct)
-    cleaned = cleaned;
-  } else if (cleaned.length === 9) {
-    // 714276444 -> +255714276444
-    cleaned = '255' + cleaned;
-  } else {
-    // Default: assume it needs 255 prefix
-    cleaned = '255' + cleaned;
-  }
-  
-  return '+' + cleaned;
+// Profiles were cached under these keys before sessions moved to cookies
+const LEGACY_DEALER_KEY = 'dealer';
+const LEGACY_OFFICER_KEY = 'currentOfficer';
+
+const JSON_HEADERS = { 'Content-Type': 'application/json' };
+
+// Ask the server to send a login code to the dealer's phone or email
+export async function requestDealerOtp(identifier: string): Promise<OtpRequestResult> {
+  return apiRequest<OtpRequestResult>(
+    API_ENDPOINTS.DEALER_REQUEST_OTP,
+    {
+      method: 'POST',
+      headers: JSON_HEADERS,
+      body: JSON.stringify({ identifier }),
+    },
+    { maxAttempts: 1 }
+  );
 }
 
-// Simple login with phone or email (no password for MVP)
-export async function loginDealer(identifier: string): Promise<Dealer> {
-  try {
-    const cleanIdentifier = identifier.toLowerCase().trim();
-    console.log('Login attempt with identifier:', cleanIdentifier);
-    
-    // Check if identifier looks like a phone number
-    if (/[\d\+\-\s\(\)]/.test(cleanIdentifier)) {
-      const normalizedPhone = normalizePhoneNumber(cleanIdentifier);
-      console.log('Searching by phone:', normalizedPhone);
-      
-      const { data, error } = await supabase
-        .from('dealers')
-        .select('*')
-        .eq('phone', normalizedPhone)
-        .single();
-        
-      if (error || !data) {
-        console.error('Phone search error:', error);
-        throw new Error('Dealer not found');
-      }
-      
-      console.log('Found dealer by phone:', data);
-      localStorage.setItem('dealer', JSON.stringify(data));
-      return data;
-      
-    } else {
-      // Treat as email - try different approach
-      console.log('Searching by email:', cleanIdentifier);
-      
-      // Try using filter instead of eq to avoid PostgREST issues
-      const { data: dealers, error } = await supabase
-        .from('dealers')
-        .select('*')
-        .filter('email', 'eq', cleanIdentifier);
-        
-      if (error) {
-        console.error('Email search error:', error);
-        throw new Error('Database error');
-      }
-      
-      if (!dealers || dealers.length === 0) {
-        console.log('No dealer found with email:', cleanIdentifier);
-        throw new Error('Dealer not found');
-      }
-      
-      const dealer = dealers[0];
-      console.log('Found dealer by email:', dealer);
-      localStorage.setItem('dealer', JSON.stringify(dealer));
-      return dealer;
-    }
+// Exchange a login code for a session
+export async function verifyDealerOtp(identifier: string, code: string): Promise<Dealer> {
+  const { dealer } = await apiRequest<SessionResponse & { dealer: Dealer }>(
+    API_ENDPOINTS.DEALER_VERIFY_OTP,
+    {
+      method: 'POST',
+      headers: JSON_HEADERS,
+      body: JSON.stringify({ identifier, code }),
+    },
+    { maxAttempts: 1 }
+  );
+
+  return dealer;
+}
 
+// Get the current session, or null when signed out
+export async function fetchCurrentSession(): Promise<SessionResponse | null> {
+  try {
+    return await apiRequest<SessionResponse>(API_ENDPOINTS.AUTH_SESSION);
   } catch (error) {
-    console.error('Login error:', error);
+    if (error instanceof ApiClientError && error.status === 401) {
+      return null;
+    }
     throw error;
   }
 }
 
-// Get current dealer from localStorage
-export function getCurrentDealer(): Dealer | null {
+// Get the signed-in dealer, or null when there is no dealer session
+export async function fetchCurrentDealer(): Promise<Dealer | null> {
+  const session = await fetchCurrentSession();
+  return session && isDealerRole(session.session.role) ? session.dealer ?? null : null;
+}
+
+// Logout dealer or platform admin
+export async function logoutDealer(): Promise<void> {
+  if (typeof window !== 'undefined') {
+    localStorage.removeItem(LEGACY_DEALER_KEY);
+  }
+
+  await apiRequest(API_ENDPOINTS.AUTH_SESSION, { method: 'DELETE' }, { maxAttempts: 1 });
+}
+
+// Sign an officer in by phone, with a PIN or one-time code when the server asks for one
+export async function loginOfficer(
+  phone: string,
+  factors: { pin?: string; code?: string } = {}
+): Promise<OfficerLoginResponse> {
+  const result = await apiRequest<OfficerLoginResponse>(
+    API_ENDPOINTS.OFFICER_LOGIN,
+    {
+      method: 'POST',
+      headers: JSON_HEADERS,
+      body: JSON.stringify({ phone, ...factors }),
+    },
+    { maxAttempts: 1 }
+  );
+
+  if (result.status === 'authenticated') {
+    cacheOfficer(result.officer);
+  }
+
+  return result;
+}
+
+// Get the signed-in officer, or null when there is no officer session.
+// Network errors are rethrown so offline callers can fall back to the cache.
+export async function fetchCurrentOfficer(): Promise<Officer | null> {
+  const session = await fetchCurrentSession();
+  const officer = session?.officer ?? null;
+
+  if (officer) {
+    cacheOfficer(officer);
+  } else {
+    clearCachedOfficer();
+  }
+
+  return officer;
+}
+
+// Logout officer
+export async function logoutOfficer(): Promise<void> {
+  clearCachedOfficer();
+  await apiRequest(API_ENDPOINTS.AUTH_SESSION, { method: 'DELETE' }, { maxAttempts: 1 });
+}
+
+// Officer profile cached for offline use (display only, the cookie is the credential)
+export function getCachedOfficer(): Officer | null {
   if (typeof window === 'undefined') return null;
-  
+
   try {
-    const stored = localStorage.getItem('dealer');
+    const stored = localStorage.getItem(STORAGE_KEYS.CURRENT_OFFICER);
     return stored ? JSON.parse(stored) : null;
   } catch {
     return null;
   }
 }
 
-// Logout dealer
-export function logoutDealer(): void {
-  if (typeof window !== 'undefined') {
-    localStorage.removeItem('dealer');
-  }
+function cacheOfficer(officer: Officer): void {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(STORAGE_KEYS.CURRENT_OFFICER, JSON.stringify(officer));
+  localStorage.removeItem(LEGACY_OFFICER_KEY);
 }
 
-// Check if dealer is authenticated
-export function isAuthenticated(): boolean {
-  return getCurrentDealer() !== null;
-}
\ No newline at end of file
+function clearCachedOfficer(): void {
+  if (typeof window === 'undefined') return;
+  localStorage.removeItem(STORAGE_KEYS.CURRENT_OFFICER);
+  localStorage.removeItem(LEGACY_OFFICER_KEY);
+}
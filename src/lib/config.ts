@@ -16,6 +16,42 @@ export const config = {
     officersDatabaseId: process.env.NOTION_OFFICERS_DATABASE_ID || '',
   },
   
+  // Database (server-side keys never reach the browser)
+  supabase: {
+    url: process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+    anonKey: process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '',
+    serviceRoleKey: process.env.SUPABASE_SERVICE_ROLE_KEY || '',
+    jwtSecret: process.env.SUPABASE_JWT_SECRET || '',
+  },
+
+  // Authentication
+  auth: {
+    sessionSecret: process.env.SESSION_SECRET || '',
+    otpProvider: process.env.OTP_PROVIDER || 'console',
+    // On unless turned off; officers without a PIN then cannot sign in
+    officerLoginOtp: process.env.OFFICER_LOGIN_OTP !== 'false',
+    otpOutboxFile: process.env.OTP_OUTBOX_FILE || '.otp-outbox.log',
+    otpWebhookUrl: process.env.OTP_WEBHOOK_URL || '',
+    otpWebhookToken: process.env.OTP_WEBHOOK_TOKEN || '',
+  },
+
+  // Web Push (follow-up reminders). The public key also reaches the browser,
+  // which needs it to subscribe; CRON_SECRET guards the reminder job.
+  push: {
+    vapidPublicKey: process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY || '',
+    vapidPrivateKey: process.env.VAPID_PRIVATE_KEY || '',
+    vapidSubject: process.env.VAPID_SUBJECT || '',
+    cronSecret: process.env.CRON_SECRET || '',
+  },
+
+  // Lead map tiles. Point these at a self-hosted or offline tile server where
+  // public tiles are unreachable; the URL takes {z}, {x}, {y} and optionally {s}.
+  map: {
+    tileUrl: process.env.NEXT_PUBLIC_MAP_TILE_URL || 'https://tile.openstreetmap.org/{z}/{x}/{y}.png',
+    tileAttribution: process.env.NEXT_PUBLIC_MAP_TILE_ATTRIBUTION || '© OpenStreetMap contributors',
+    maxZoom: parseInt(process.env.NEXT_PUBLIC_MAP_MAX_ZOOM || '18'),
+  },
+
   // Application settings
   app: {
     name: process.env.NEXT_PUBLIC_APP_NAME || 'Lead Generation Tool',
@@ -60,6 +96,30 @@ export function validateConfig(): { isValid: boolean; errors: string[] } {
     if (!config.notion.officersDatabaseId) {
       errors.push('NOTION_OFFICERS_DATABASE_ID is required in production');
     }
+
+    if (!config.auth.sessionSecret) {
+      errors.push('SESSION_SECRET is required in production');
+    }
+
+    if (!config.supabase.serviceRoleKey) {
+      errors.push('SUPABASE_SERVICE_ROLE_KEY is required in production');
+    }
+
+    if (!config.supabase.jwtSecret) {
+      errors.push('SUPABASE_JWT_SECRET is required in production');
+    }
+
+    if (config.features.pushNotifications && (!config.push.vapidPrivateKey || !config.push.vapidSubject)) {
+      errors.push('VAPID_PRIVATE_KEY and VAPID_SUBJECT are required when push notifications are on');
+    }
+
+    if (config.features.pushNotifications && !config.push.cronSecret) {
+      errors.push('CRON_SECRET is required when push notifications are on');
+    }
+
+    if (config.auth.otpProvider === 'console' || config.auth.otpProvider === 'file') {
+      errors.push('OTP_PROVIDER must be a real delivery provider in production');
+    }
   }
   
   return {
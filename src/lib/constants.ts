@@ -1,4 +1,18 @@
-import { RetryConfig, DatabaseConfig } from '@/types';
+import {
+  AnalyticsInterval,
+  RetryConfig,
+  DatabaseConfig,
+  FollowUpOutcome,
+  LeadActivityType,
+  LeadExportColumn,
+  LeadExportFormat,
+  LeaderboardMetric,
+  LeadSource,
+  LeadStatus,
+  TargetAppliesTo,
+  TargetPeriod,
+  TargetStatus,
+} from '@/types';
 
 // Sync status constants
 export const SYNC_STATUS = {
@@ -55,10 +69,278 @@ export const DATABASE_CONFIG: DatabaseConfig = {
 export const API_ENDPOINTS = {
   OFFICERS: '/api/officers',
   LEADS: '/api/leads',
+  LEAD_DUPLICATES: '/api/leads/duplicates',
+  LEAD_EXPORT: '/api/leads/export',
+  LEAD_MAP: '/api/leads/map',
+  FOLLOW_UPS: '/api/follow-ups',
+  ANALYTICS: '/api/analytics',
+  LEADERBOARD: '/api/analytics/leaderboard',
+  TARGETS: '/api/targets',
+  PUSH_SUBSCRIPTIONS: '/api/push/subscriptions',
+  DEALERS: '/api/dealers',
   SYNC: '/api/sync',
+  AUTH_SESSION: '/api/auth/session',
+  DEALER_REQUEST_OTP: '/api/auth/dealer/request-otp',
+  DEALER_VERIFY_OTP: '/api/auth/dealer/verify-otp',
+  OFFICER_LOGIN: '/api/auth/officer/login',
   N8N_WEBHOOK: process.env.N8N_WEBHOOK_URL || '',
 } as const;
 
+// Header carrying the client-generated submission ID for idempotent creates
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+// Authentication constants
+export const AUTH_CONSTANTS = {
+  SESSION_COOKIE: 'leadgen_session',
+  SESSION_MAX_AGE: 604800, // 7 days, in seconds
+  OTP_LENGTH: 6,
+  OTP_TTL: 300, // 5 minutes, in seconds
+  OTP_MAX_ATTEMPTS: 5,
+  OTP_RESEND_INTERVAL: 60, // seconds
+  PIN_MAX_ATTEMPTS: 5, // wrong PINs before the officer is locked out
+} as const;
+
+// Lead list paging for GET /api/leads
+export const LEAD_LIST_CONSTANTS = {
+  PAGE_SIZE: 25,
+  MAX_PAGE_SIZE: 100,
+} as const;
+
+// Lead pipeline, in order
+export const LEAD_STATUSES = ['new', 'contacted', 'follow_up', 'negotiating', 'won', 'lost'] as const;
+
+export const LEAD_STATUS_LABELS: Record<LeadStatus, string> = {
+  new: 'New',
+  contacted: 'Contacted',
+  follow_up: 'Follow-up',
+  negotiating: 'Negotiating',
+  won: 'Won',
+  lost: 'Lost',
+};
+
+// Statuses still being worked; won and lost leads are closed
+export const OPEN_LEAD_STATUSES = ['new', 'contacted', 'follow_up', 'negotiating'] as const satisfies readonly LeadStatus[];
+
+// Reasons offered when a lead is marked lost (any other text is accepted too)
+export const LOST_REASONS = [
+  'Price too high',
+  'Bought elsewhere',
+  'Not interested',
+  'Could not reach',
+  'Financing declined',
+] as const;
+
+// What happened when an officer followed a lead up
+export const FOLLOW_UP_OUTCOMES = ['reached', 'no_answer', 'switched_off', 'call_back', 'visited'] as const;
+
+export const FOLLOW_UP_OUTCOME_LABELS: Record<FollowUpOutcome, string> = {
+  reached: 'Spoke to them',
+  no_answer: 'No answer',
+  switched_off: 'Phone off',
+  call_back: 'Asked to call back',
+  visited: 'Visited',
+};
+
+// Days until the next contact suggested after each outcome
+export const FOLLOW_UP_NEXT_DAYS: Record<FollowUpOutcome, number> = {
+  reached: 7,
+  no_answer: 1,
+  switched_off: 1,
+  call_back: 2,
+  visited: 7,
+};
+
+export const ANALYTICS_CONSTANTS = {
+  DEFAULT_DAYS: 30, // range when none is given, ending today
+  MAX_DAYS: 731, // two years
+  TOP_COUNT: 10, // wards and phone models listed
+} as const;
+
+export const ANALYTICS_INTERVALS = ['day', 'week', 'month'] as const satisfies readonly AnalyticsInterval[];
+
+export const LEADERBOARD_METRICS = [
+  'leads_captured',
+  'gps_rate',
+  'on_time_rate',
+  'conversion_rate',
+] as const satisfies readonly LeaderboardMetric[];
+
+export const LEADERBOARD_METRIC_LABELS: Record<LeaderboardMetric, string> = {
+  leads_captured: 'Leads Captured',
+  gps_rate: 'With GPS',
+  on_time_rate: 'Follow-ups On Time',
+  conversion_rate: 'Conversion Rate',
+};
+
+export const TARGET_PERIODS = ['day', 'week', 'month'] as const satisfies readonly TargetPeriod[];
+
+export const TARGET_PERIOD_LABELS: Record<TargetPeriod, string> = {
+  day: 'Daily',
+  week: 'Weekly',
+  month: 'Monthly',
+};
+
+export const TARGET_APPLIES_TO = ['officer', 'team'] as const satisfies readonly TargetAppliesTo[];
+
+export const TARGET_STATUS_LABELS: Record<TargetStatus, string> = {
+  met: 'Met',
+  on_track: 'On Track',
+  behind: 'Behind',
+};
+
+export const MAX_TARGET_LEAD_COUNT = 10000;
+
+export const FOLLOW_UP_CONSTANTS = {
+  UPCOMING_DAYS: 7, // default window for upcoming follow-ups
+  MAX_UPCOMING_DAYS: 30,
+  BUCKET_LIMIT: 50, // leads returned per bucket; counts cover all of them
+} as const;
+
+// Officer imports from a spreadsheet: the headers each column accepts
+export const OFFICER_IMPORT_COLUMNS = {
+  name: ['name', 'officer', 'officer name', 'full name', 'jina'],
+  phone: ['phone', 'phone number', 'mobile', 'msisdn', 'simu', 'namba ya simu'],
+  territory: ['territory', 'area', 'region', 'eneo'],
+} as const;
+
+export const OFFICER_IMPORT_MAX_ROWS = 500;
+
+// Lead imports: the headers each field is matched to at first. Dealers can
+// map any field to another column before importing. officer is the name or
+// phone number of the officer the lead goes to.
+export const LEAD_IMPORT_COLUMNS = {
+  lead_name: ['name', 'lead name', 'customer', 'customer name', 'jina'],
+  phone_contact: ['phone', 'phone number', 'phone contact', 'mobile', 'simu'],
+  area_of_activity: ['area', 'area of activity', 'location', 'event'],
+  ward: ['ward', 'kata'],
+  residence: ['residence', 'address', 'makazi'],
+  interested_phone_model: ['phone model', 'interested phone model', 'model', 'device'],
+  next_contact_date: ['next contact', 'next contact date', 'follow up date', 'date'],
+  officer: ['officer', 'officer name', 'officer phone', 'collected by'],
+} as const;
+
+export const LEAD_IMPORT_FIELD_LABELS: Record<keyof typeof LEAD_IMPORT_COLUMNS, string> = {
+  lead_name: 'Lead name',
+  phone_contact: 'Phone',
+  area_of_activity: 'Area of activity',
+  ward: 'Ward',
+  residence: 'Residence',
+  interested_phone_model: 'Phone model',
+  next_contact_date: 'Next contact date',
+  officer: 'Officer (name or phone)',
+};
+
+export const LEAD_IMPORT_MAX_ROWS = 1000;
+
+export const LEAD_SOURCE_LABELS: Record<LeadSource, string> = {
+  app: 'Captured in the app',
+  import: 'Imported',
+};
+
+// Lead exports
+export const LEAD_EXPORT_FORMATS = ['csv', 'xlsx', 'json', 'geojson'] as const satisfies readonly LeadExportFormat[];
+
+export const LEAD_EXPORT_FORMAT_LABELS: Record<LeadExportFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel (XLSX)',
+  json: 'JSON',
+  geojson: 'GeoJSON (map points)',
+};
+
+// Column headings, in the order columns appear in an export
+export const LEAD_EXPORT_COLUMNS: Record<LeadExportColumn, string> = {
+  id: 'Lead ID',
+  lead_name: 'Name',
+  phone_contact: 'Phone',
+  phone_carrier: 'Network',
+  residence: 'Residence',
+  interested_phone_model: 'Interested Model',
+  next_contact_date: 'Next Contact',
+  area_of_activity: 'Area',
+  ward: 'Ward',
+  gps_latitude: 'Latitude',
+  gps_longitude: 'Longitude',
+  gps_accuracy: 'GPS Accuracy (m)',
+  gps_ward: 'GPS Ward',
+  gps_region: 'GPS Region',
+  status: 'Status',
+  lost_reason: 'Lost Reason',
+  last_follow_up_at: 'Last Follow-up',
+  officer_name: 'Officer',
+  officer_phone: 'Officer Phone',
+  captured_by: 'Captured By',
+  dealer: 'Dealer',
+  source: 'Source',
+  created_at: 'Created At',
+};
+
+export const LEAD_EXPORT_COLUMN_KEYS = Object.keys(LEAD_EXPORT_COLUMNS) as [LeadExportColumn, ...LeadExportColumn[]];
+
+// Columns exported when none are chosen
+export const LEAD_EXPORT_DEFAULT_COLUMNS: readonly LeadExportColumn[] = [
+  'lead_name',
+  'phone_contact',
+  'residence',
+  'interested_phone_model',
+  'next_contact_date',
+  'area_of_activity',
+  'ward',
+  'status',
+  'lost_reason',
+  'officer_name',
+  'officer_phone',
+  'created_at',
+];
+
+// Leads read from the database per query while an export streams
+export const LEAD_EXPORT_BATCH_SIZE = 500;
+
+// Lead timeline entries. Status changes and reassignments are recorded by
+// their own endpoints; the rest can be added by hand.
+export const LEAD_ACTIVITY_TYPES = ['note', 'call', 'visit', 'sms', 'status_change', 'reassignment'] as const;
+
+export const MANUAL_LEAD_ACTIVITY_TYPES = ['note', 'call', 'visit', 'sms'] as const satisfies readonly LeadActivityType[];
+
+export const LEAD_ACTIVITY_LABELS: Record<LeadActivityType, string> = {
+  note: 'Note',
+  call: 'Call',
+  visit: 'Visit',
+  sms: 'SMS sent',
+  status_change: 'Status change',
+  reassignment: 'Reassigned',
+};
+
+// Outcomes a call attempt can have
+export const CALL_OUTCOMES = ['reached', 'no_answer', 'switched_off', 'call_back'] as const satisfies readonly FollowUpOutcome[];
+
+// Tanzania (Africa/Dar_es_Salaam) is UTC+3 all year, with no daylight saving.
+// Date filters are calendar days in this time zone.
+export const BUSINESS_TIME_ZONE = 'Africa/Dar_es_Salaam';
+export const BUSINESS_UTC_OFFSET = '+03:00';
+
+// Officer columns safe to return from the API (never includes pin_hash)
+export const OFFICER_COLUMNS =
+  'id, name, phone, dealer_id, role, supervisor_id, active, deactivated_at, deactivation_reason, territory, pin_locked_at, created_at, updated_at';
+
+export const OFFICER_TARGET_COLUMNS = 'id, officer_id, applies_to, period, lead_count, set_by, created_at, updated_at';
+
+// Leads with their officer and the officer's dealer, and who captured them.
+// Both columns reference officers, so each embed names its foreign key.
+export const LEAD_SELECT = `
+  *,
+  officer:officers!leads_officer_id_fkey(
+    ${OFFICER_COLUMNS},
+    dealer:dealers(*)
+  ),
+  captured_by_officer:officers!leads_captured_by_fkey(id, name)
+`;
+
+// The lead columns the map needs, including the sort column for paging
+export const LEAD_MAP_SELECT = `
+  id, lead_name, status, officer_id, gps_latitude, gps_longitude, gps_accuracy, created_at,
+  officer:officers!leads_officer_id_fkey(name)
+`;
+
 // Local storage keys
 export const STORAGE_KEYS = {
   CURRENT_OFFICER: 'leadgen_current_officer',
@@ -95,6 +377,22 @@ export const GPS_CONSTANTS = {
   ACCURACY_THRESHOLD: 100, // meters
 } as const;
 
+// Ward boundaries bundled with the app (see scripts/build-ward-boundaries.ts),
+// served from public/ and cached by the service worker for offline capture
+export const WARD_BOUNDARIES_PATH = '/boundaries/tz-wards.geojson';
+
+// Lead map. Fixes less accurate than GPS_CONSTANTS.ACCURACY_THRESHOLD are
+// drawn with a circle showing where the lead may really be.
+export const MAP_CONSTANTS = {
+  TILE_SIZE: 256, // pixels
+  MIN_ZOOM: 2,
+  DEFAULT_ZOOM: 6,
+  POINT_ZOOM: 15, // zoom for a single lead
+  DEFAULT_CENTER: { latitude: -6.37, longitude: 34.89 }, // Tanzania
+  CLUSTER_RADIUS: 48, // pixels; leads closer than this at a zoom are grouped
+  MAX_POINTS: 5000, // newest leads sent to the map
+} as const;
+
 // Sync constants
 export const SYNC_CONSTANTS = {
   BATCH_SIZE: 10,
@@ -102,6 +400,7 @@ export const SYNC_CONSTANTS = {
   OFFLINE_CHECK_INTERVAL: 5000, // 5 seconds
   MAX_RETRY_ATTEMPTS: 3,
   RETRY_DELAY_BASE: 1000, // 1 second
+  SYNCED_RETENTION: 604800000, // 7 days
 } as const;
 
 // Phone number patterns
@@ -131,7 +430,7 @@ export const APP_METADATA = {
 export const FEATURE_FLAGS = {
   GPS_ENABLED: true,
   OFFLINE_MODE: true,
-  PUSH_NOTIFICATIONS: false,
+  PUSH_NOTIFICATIONS: process.env.NEXT_PUBLIC_PUSH_NOTIFICATIONS === 'true',
   ANALYTICS: false,
   DEBUG_MODE: process.env.NODE_ENV === 'development',
 } as const;
@@ -0,0 +1,183 @@
+/**
+ * CSV parsing for spreadsheet imports
+ * Reads files saved from Excel or Google Sheets: comma, semicolon or tab
+ * separated (cells pasted straight from a spreadsheet are tab separated),
+ * quoted cells, Windows line endings and a leading byte order mark.
+ */
+
+export type CsvDelimiter = ',' | ';' | '\t';
+
+const DELIMITERS: CsvDelimiter[] = [',', ';', '\t'];
+
+export interface CsvRecord<K extends string> {
+  row: number; // spreadsheet row number; the header is row 1
+  values: Record<K, string>;
+}
+
+export interface CsvRecords<K extends string> {
+  records: CsvRecord<K>[];
+  missing: K[]; // columns with no matching header
+}
+
+/**
+ * The delimiter used most often outside quotes on the first line
+ */
+export function detectDelimiter(text: string): CsvDelimiter {
+  const counts = new Map<CsvDelimiter, number>(DELIMITERS.map(d => [d, 0]));
+  let quoted = false;
+
+  for (const char of text) {
+    if (char === '"') quoted = !quoted;
+    else if (!quoted && (char === '\n' || char === '\r')) break;
+    else if (!quoted && counts.has(char as CsvDelimiter)) {
+      counts.set(char as CsvDelimiter, counts.get(char as CsvDelimiter)! + 1);
+    }
+  }
+
+  return DELIMITERS.reduce((best, d) => (counts.get(d)! > counts.get(best)! ? d : best));
+}
+
+/**
+ * Split CSV text into rows of cells. Quoted cells may contain delimiters,
+ * line breaks and doubled quotes.
+ */
+export function parseCsv(text: string, delimiter: CsvDelimiter = detectDelimiter(text)): string[][] {
+  const input = text.replace(/^\uFEFF/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+}
+
+/**
+ * Index of the first header matching one of the aliases, or -1
+ */
+export function findCsvColumn(headers: readonly string[], aliases: readonly string[]): number {
+  const wanted = aliases.map(normalizeHeader);
+  return headers.findIndex(header => wanted.includes(normalizeHeader(header)));
+}
+
+/**
+ * Turn the rows below a header into records, reading each key from its
+ * column index. Keys without a column read as empty; blank rows are skipped.
+ */
+export function toCsvRecords<K extends string>(
+  rows: readonly string[][],
+  indexes: Partial<Record<K, number>>,
+  keys: readonly K[]
+): CsvRecord<K>[] {
+  const records: CsvRecord<K>[] = [];
+
+  rows.forEach((cells, i) => {
+    if (cells.every(cell => cell.trim() === '')) return;
+
+    const values = {} as Record<K, string>;
+    for (const key of keys) {
+      const index = indexes[key];
+      values[key] = index === undefined || index < 0 ? '' : (cells[index] ?? '').trim();
+    }
+
+    records.push({ row: i + 2, values });
+  });
+
+  return records;
+}
+
+/**
+ * Read CSV text with a header row into records keyed by column. Each column
+ * lists the headers it accepts.
+ */
+export function readCsvRecords<K extends string>(
+  text: string,
+  columns: Record<K, readonly string[]>
+): CsvRecords<K> {
+  const [header = [], ...rows] = parseCsv(text);
+  const keys = Object.keys(columns) as K[];
+
+  const indexes: Partial<Record<K, number>> = {};
+  for (const key of keys) {
+    indexes[key] = findCsvColumn(header, columns[key]);
+  }
+
+  return {
+    records: toCsvRecords(rows, indexes, keys),
+    missing: keys.filter(key => indexes[key] === -1),
+  };
+}
+
+/**
+ * Write rows as CSV, quoting cells that need it
+ */
+export function toCsv(rows: readonly (readonly unknown[])[]): string {
+  return rows
+    .map(row => row.map(value => {
+      const cell = value === null || value === undefined ? '' : String(value);
+      return /[",;\t\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+    }).join(','))
+    .join('\r\n');
+}
+
+/**
+ * Read a date typed into a spreadsheet as YYYY-MM-DD. Accepts ISO dates and
+ * day-first dates (25/10/2026, 25-10-2026, 25.10.2026), the way dates are
+ * written in Tanzania. Returns null when the date is not recognised.
+ */
+export function parseSpreadsheetDate(value: string): string | null {
+  const input = value.trim();
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(input);
+  const dayFirst = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/.exec(input);
+
+  const parts: [string, string, string] | null = iso
+    ? [iso[1], iso[2], iso[3]]
+    : dayFirst
+      ? [dayFirst[3], dayFirst[2], dayFirst[1]]
+      : null;
+  if (!parts) return null;
+
+  const [year, month, day] = parts;
+
+  const date = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  const parsed = new Date(`${date}T00:00:00Z`);
+
+  // Rejects days that do not exist, such as 31/02
+  return !isNaN(parsed.getTime()) && parsed.toISOString().startsWith(date) ? date : null;
+}
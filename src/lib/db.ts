@@ -0,0 +1,45 @@
+/**
+ * IndexedDB database (Dexie) for offline lead capture
+ */
+
+import Dexie, { type Table } from 'dexie';
+import { DATABASE_CONFIG } from './constants';
+import { supportsIndexedDB } from './type-guards';
+import { createError } from './utils';
+import { LocalLead, Officer, SyncQueueItem } from '@/types';
+
+/**
+ * Dexie database with the stores declared in DATABASE_CONFIG
+ */
+export class LeadGenerationDB extends Dexie {
+  leads!: Table<LocalLead, string>;
+  officers!: Table<Officer, string>;
+  syncQueue!: Table<SyncQueueItem, string>;
+
+  constructor() {
+    super(DATABASE_CONFIG.name);
+
+    this.version(DATABASE_CONFIG.version).stores({
+      [DATABASE_CONFIG.stores.leads]: 'id, syncStatus, createdAt',
+      [DATABASE_CONFIG.stores.officers]: 'id, dealer_id',
+      [DATABASE_CONFIG.stores.syncQueue]: 'id, leadId, nextAttemptAt',
+    });
+  }
+}
+
+let database: LeadGenerationDB | null = null;
+
+/**
+ * Get the shared database instance (browser only)
+ */
+export function getDatabase(): LeadGenerationDB {
+  if (!supportsIndexedDB()) {
+    throw createError('storage_error', 'IndexedDB is not available');
+  }
+
+  if (!database) {
+    database = new LeadGenerationDB();
+  }
+
+  return database;
+}
@@ -0,0 +1,58 @@
+/**
+ * Dealer login lookups (server only)
+ */
+
+import { getServiceClient } from './supabase-server';
+import { normalizePhone } from './phone';
+import { Dealer, OtpChannel } from '@/types';
+
+export interface LoginIdentifier {
+  value: string;
+  channel: OtpChannel;
+}
+
+/**
+ * Normalize a phone number or email typed on the login form
+ */
+export function resolveLoginIdentifier(input: string): LoginIdentifier {
+  const clean = input.trim().toLowerCase();
+
+  if (clean.includes('@')) {
+    return { value: clean, channel: 'email' };
+  }
+
+  // Numbers that do not parse will not match a dealer either
+  return { value: normalizePhone(clean) ?? clean, channel: 'sms' };
+}
+
+/**
+ * Find the dealer that owns a login identifier
+ */
+export async function findDealerByLogin(identifier: LoginIdentifier): Promise<Dealer | null> {
+  const column = identifier.channel === 'email' ? 'email' : 'phone';
+
+  const { data, error } = await getServiceClient()
+    .from('dealers')
+    .select('*')
+    .eq(column, identifier.value)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data;
+}
+
+/**
+ * Load a dealer by ID
+ */
+export async function getDealerById(id: string): Promise<Dealer | null> {
+  const { data, error } = await getServiceClient()
+    .from('dealers')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data;
+}
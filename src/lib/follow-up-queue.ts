@@ -0,0 +1,96 @@
+/**
+ * Follow-up queue and outcome logging (server only)
+ * Open leads fall into overdue, due today and upcoming by next contact date,
+ * counted in Tanzanian business days.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { FOLLOW_UP_CONSTANTS, LEAD_SELECT, OPEN_LEAD_STATUSES } from './constants';
+import { toBusinessDate } from './utils';
+import { FollowUpOutcome, FollowUpQueue, Lead, Session } from '@/types';
+
+export interface FollowUpQueueOptions {
+  today: string; // YYYY-MM-DD
+  days: number; // how far ahead upcoming reaches
+}
+
+export interface FollowUpRecord {
+  leadId: string;
+  outcome: FollowUpOutcome;
+  note?: string | null;
+  previousContactDate: string | null;
+  nextContactDate: string;
+}
+
+// Open leads in scope, soonest first. Null officer IDs means every officer.
+function selectOpenLeads(db: SupabaseClient, officerIds: string[] | null) {
+  let query = db
+    .from('leads')
+    .select(LEAD_SELECT, { count: 'exact' })
+    .is('deleted_at', null)
+    .is('merged_into_id', null)
+    .in('status', [...OPEN_LEAD_STATUSES]);
+
+  if (officerIds) {
+    query = query.in('officer_id', officerIds);
+  }
+
+  return query
+    .order('next_contact_date', { ascending: true })
+    .order('created_at', { ascending: true })
+    .limit(FOLLOW_UP_CONSTANTS.BUCKET_LIMIT);
+}
+
+/**
+ * Open leads due for contact, by bucket. Each bucket holds at most
+ * BUCKET_LIMIT leads; the counts cover all of them.
+ */
+export async function getFollowUpQueue(
+  db: SupabaseClient,
+  officerIds: string[] | null,
+  { today, days }: FollowUpQueueOptions
+): Promise<FollowUpQueue> {
+  const lastUpcoming = toBusinessDate(new Date(`${today}T12:00:00Z`), days);
+
+  const [overdue, dueToday, upcoming] = await Promise.all([
+    selectOpenLeads(db, officerIds).lt('next_contact_date', today),
+    selectOpenLeads(db, officerIds).eq('next_contact_date', today),
+    selectOpenLeads(db, officerIds).gt('next_contact_date', today).lte('next_contact_date', lastUpcoming),
+  ]);
+
+  const error = overdue.error || dueToday.error || upcoming.error;
+  if (error) throw error;
+
+  return {
+    today,
+    overdue: (overdue.data ?? []) as Lead[],
+    due_today: (dueToday.data ?? []) as Lead[],
+    upcoming: (upcoming.data ?? []) as Lead[],
+    counts: {
+      overdue: overdue.count ?? 0,
+      due_today: dueToday.count ?? 0,
+      upcoming: upcoming.count ?? 0,
+    },
+  };
+}
+
+/**
+ * Write a follow-up row for an outcome logged by the session's user
+ */
+export async function recordFollowUp(
+  db: SupabaseClient,
+  session: Session,
+  followUp: FollowUpRecord
+): Promise<void> {
+  const { error } = await db.from('lead_follow_ups').insert({
+    lead_id: followUp.leadId,
+    outcome: followUp.outcome,
+    note: followUp.note ?? null,
+    previous_contact_date: followUp.previousContactDate,
+    next_contact_date: followUp.nextContactDate,
+    logged_by: session.sub,
+    logged_by_role: session.role,
+  });
+
+  if (error) throw error;
+}
@@ -0,0 +1,145 @@
+/**
+ * Morning follow-up reminders (server only)
+ * Sends each officer with reminders turned on a push notification such as
+ * "3 follow-ups due today". Runs from the scheduled job, outside any
+ * session, so it is given the service role client.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { OPEN_LEAD_STATUSES } from './constants';
+import { isPushServiceEndpoint } from './push-endpoint';
+import { sendPushNotification, VapidKeys } from './web-push';
+
+export interface FollowUpReminder {
+  title: string;
+  body: string;
+  url: string; // page the notification opens
+  tag: string; // a newer reminder replaces an older one on the device
+}
+
+export interface ReminderRunResult {
+  officers: number; // officers with reminders on and something due
+  sent: number;
+  expired: number; // subscriptions removed because the browser dropped them, or not at a push service
+  failed: number;
+}
+
+interface SubscriptionRow {
+  id: string;
+  officer_id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+/**
+ * Notification text for an officer's day, or null when nothing is due
+ */
+export function buildFollowUpReminder(dueToday: number, overdue: number): FollowUpReminder | null {
+  if (dueToday === 0 && overdue === 0) return null;
+
+  return {
+    title: dueToday > 0
+      ? `${plural(dueToday, 'follow-up')} due today`
+      : plural(overdue, 'overdue follow-up'),
+    body: dueToday > 0 && overdue > 0
+      ? `Plus ${overdue} overdue. Tap to open your list.`
+      : 'Tap to open your list.',
+    url: '/follow-ups',
+    tag: 'follow-ups-due',
+  };
+}
+
+// Open leads due today and overdue for one officer
+async function countDueLeads(db: SupabaseClient, officerId: string, today: string) {
+  const openLeads = () => db
+    .from('leads')
+    .select('id', { count: 'exact', head: true })
+    .eq('officer_id', officerId)
+    .is('deleted_at', null)
+    .is('merged_into_id', null)
+    .in('status', [...OPEN_LEAD_STATUSES]);
+
+  const [dueToday, overdue] = await Promise.all([
+    openLeads().eq('next_contact_date', today),
+    openLeads().lt('next_contact_date', today),
+  ]);
+
+  const error = dueToday.error || overdue.error;
+  if (error) throw error;
+
+  return { dueToday: dueToday.count ?? 0, overdue: overdue.count ?? 0 };
+}
+
+/**
+ * Remind every subscribed officer who has follow-ups due. Browsers already
+ * reminded today are skipped, so the job can safely run more than once.
+ */
+export async function sendFollowUpReminders(
+  db: SupabaseClient,
+  vapid: VapidKeys,
+  { today }: { today: string }
+): Promise<ReminderRunResult> {
+  const result: ReminderRunResult = { officers: 0, sent: 0, expired: 0, failed: 0 };
+
+  // Deactivated officers are not reminded
+  const { data, error } = await db
+    .from('push_subscriptions')
+    .select('id, officer_id, endpoint, p256dh, auth, officer:officers!inner(active)')
+    .eq('officer.active', true)
+    .or(`last_reminded_on.is.null,last_reminded_on.lt.${today}`);
+
+  if (error) throw error;
+
+  const byOfficer = new Map<string, SubscriptionRow[]>();
+  for (const row of (data ?? []) as SubscriptionRow[]) {
+    byOfficer.set(row.officer_id, [...(byOfficer.get(row.officer_id) ?? []), row]);
+  }
+
+  for (const [officerId, subscriptions] of byOfficer) {
+    const { dueToday, overdue } = await countDueLeads(db, officerId, today);
+    const reminder = buildFollowUpReminder(dueToday, overdue);
+    if (!reminder) continue;
+
+    result.officers++;
+
+    for (const subscription of subscriptions) {
+      // Saved before endpoints were checked; never sent to
+      if (!isPushServiceEndpoint(subscription.endpoint)) {
+        result.expired++;
+        await db.from('push_subscriptions').delete().eq('id', subscription.id);
+        continue;
+      }
+
+      try {
+        const sent = await sendPushNotification(
+          { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+          reminder,
+          vapid,
+          { ttl: 12 * 60 * 60, topic: reminder.tag }
+        );
+
+        if (sent.expired) {
+          result.expired++;
+          await db.from('push_subscriptions').delete().eq('id', subscription.id);
+        } else if (sent.ok) {
+          result.sent++;
+          await db
+            .from('push_subscriptions')
+            .update({ last_reminded_on: today })
+            .eq('id', subscription.id);
+        } else {
+          result.failed++;
+          console.error(`Push service rejected reminder for subscription ${subscription.id}: ${sent.status}`);
+        }
+      } catch (sendError) {
+        result.failed++;
+        console.error(`Failed to send reminder for subscription ${subscription.id}:`, sendError);
+      }
+    }
+  }
+
+  return result;
+}
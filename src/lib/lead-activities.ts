@@ -0,0 +1,100 @@
+/**
+ * Lead activity timeline (server only)
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getActorNames } from './lead-status';
+import { FollowUpOutcome, LeadActivity, LeadActivityType, LeadStatus, Session } from '@/types';
+
+export interface ActivityRecord {
+  leadId: string;
+  type: LeadActivityType;
+  note?: string | null;
+  outcome?: FollowUpOutcome | null;
+  fromStatus?: LeadStatus | null;
+  toStatus?: LeadStatus | null;
+  gps?: { latitude: number; longitude: number; accuracy?: number | null } | null;
+}
+
+/**
+ * Write a timeline entry for something the session's user did, and return it
+ */
+export async function recordActivity(
+  db: SupabaseClient,
+  session: Session,
+  activity: ActivityRecord
+): Promise<LeadActivity> {
+  const { data, error } = await db
+    .from('lead_activities')
+    .insert({
+      lead_id: activity.leadId,
+      type: activity.type,
+      note: activity.note ?? null,
+      outcome: activity.outcome ?? null,
+      from_status: activity.fromStatus ?? null,
+      to_status: activity.toStatus ?? null,
+      gps_latitude: activity.gps?.latitude ?? null,
+      gps_longitude: activity.gps?.longitude ?? null,
+      gps_accuracy: activity.gps?.accuracy ?? null,
+      created_by: session.sub,
+      created_by_role: session.role,
+    })
+    .select('*')
+    .single();
+
+  if (error) throw error;
+
+  const names = await getActorNames(db, [{ id: session.sub, role: session.role }]);
+
+  return { ...data, created_by_name: names.get(session.sub) ?? null };
+}
+
+/**
+ * Timeline entries that mirror another write (logged follow-ups). The other
+ * write is the record; a missing entry is logged rather than failing the
+ * request.
+ */
+export async function recordActivitySafely(
+  db: SupabaseClient,
+  session: Session,
+  activity: ActivityRecord
+): Promise<void> {
+  try {
+    await recordActivity(db, session, activity);
+  } catch (error) {
+    console.error(`Failed to record ${activity.type} activity for lead ${activity.leadId}:`, error);
+  }
+}
+
+/**
+ * A lead's timeline, newest first
+ */
+export async function getLeadActivities(
+  db: SupabaseClient,
+  leadId: string
+): Promise<LeadActivity[]> {
+  const { data, error } = await db
+    .from('lead_activities')
+    .select('*')
+    .eq('lead_id', leadId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  const rows = data ?? [];
+  const reassignedOfficerIds = rows
+    .flatMap(row => [row.from_officer_id, row.to_officer_id])
+    .filter((id): id is string => Boolean(id));
+
+  const names = await getActorNames(db, [
+    ...rows.map(row => ({ id: row.created_by, role: row.created_by_role })),
+    ...reassignedOfficerIds.map(id => ({ id, role: 'officer' as const })),
+  ]);
+
+  return rows.map(row => ({
+    ...row,
+    created_by_name: names.get(row.created_by) ?? null,
+    from_officer_name: row.from_officer_id ? names.get(row.from_officer_id) ?? null : null,
+    to_officer_name: row.to_officer_id ? names.get(row.to_officer_id) ?? null : null,
+  }));
+}
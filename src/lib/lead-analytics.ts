@@ -0,0 +1,49 @@
+/**
+ * Lead analytics for GET /api/analytics (server only)
+ * The database counts the leads (lead_analytics), so dashboards never load
+ * the leads themselves. Days, weeks and months are Tanzania calendar periods.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { ANALYTICS_CONSTANTS, LEAD_STATUSES } from './constants';
+import { AnalyticsInterval, LeadAnalytics } from '@/types';
+
+export interface LeadAnalyticsOptions {
+  from: string; // YYYY-MM-DD
+  to: string;
+  interval: AnalyticsInterval;
+  today: string;
+}
+
+type LeadAnalyticsCounts = Omit<LeadAnalytics, 'from' | 'to' | 'interval' | 'today'>;
+
+/**
+ * Lead counts for the officers in scope. Null officer IDs means every lead the
+ * session can see.
+ */
+export async function getLeadAnalytics(
+  db: SupabaseClient,
+  officerIds: string[] | null,
+  options: LeadAnalyticsOptions
+): Promise<LeadAnalytics> {
+  const { data, error } = await db.rpc('lead_analytics', {
+    range_from: options.from,
+    range_to: options.to,
+    bucket: options.interval,
+    today: options.today,
+    scope_officer_ids: officerIds,
+    top_count: ANALYTICS_CONSTANTS.TOP_COUNT,
+  });
+
+  if (error) throw error;
+
+  const counts = data as LeadAnalyticsCounts;
+  const statusCounts = new Map(counts.by_status.map(row => [row.status, row.count]));
+
+  return {
+    ...options,
+    ...counts,
+    // Every status, so charts keep the pipeline's shape
+    by_status: LEAD_STATUSES.map(status => ({ status, count: statusCounts.get(status) ?? 0 })),
+  };
+}
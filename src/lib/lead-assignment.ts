@@ -0,0 +1,65 @@
+/**
+ * Moving leads between officers (server only)
+ * officer_id changes; captured_by keeps who captured the lead. Each move is
+ * written to lead_assignments and the lead's timeline in the same transaction.
+ */
+
+import { NextResponse } from 'next/server';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Officer } from '@/types';
+
+export interface LeadTransfer {
+  fromOfficerId: string;
+  toOfficerId: string;
+  leadId?: string; // just this lead; otherwise the officer's whole book
+  reason?: string | null;
+}
+
+/**
+ * Move leads from one officer to another and return the IDs that moved.
+ * Removed and merged leads move too, so the officer is left with none.
+ */
+export async function transferLeads(
+  db: SupabaseClient,
+  transfer: LeadTransfer
+): Promise<string[]> {
+  const { data, error } = await db.rpc('transfer_leads', {
+    from_officer: transfer.fromOfficerId,
+    to_officer: transfer.toOfficerId,
+    only_lead: transfer.leadId ?? null,
+    transfer_reason: transfer.reason ?? null,
+  });
+
+  if (error) throw error;
+
+  return (data ?? []) as string[];
+}
+
+/**
+ * Whether leads may move to an officer: someone else at the same dealer who
+ * has not been deactivated
+ */
+export function isValidAssignee(
+  assignee: Officer | null,
+  current: Pick<Officer, 'id' | 'dealer_id'>
+): assignee is Officer {
+  return Boolean(
+    assignee?.active && assignee.id !== current.id && assignee.dealer_id === current.dealer_id
+  );
+}
+
+/**
+ * 400 response for an officer leads cannot be moved to
+ */
+export function invalidAssigneeResponse(
+  message = 'Choose another active officer at the same dealer, within your team or dealership.'
+) {
+  return NextResponse.json(
+    {
+      error: 'Invalid officer',
+      message,
+      code: 'INVALID_ASSIGNEE'
+    },
+    { status: 400 }
+  );
+}
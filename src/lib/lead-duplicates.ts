@@ -0,0 +1,74 @@
+/**
+ * Duplicate lead lookups and merges (server only)
+ * Leads are duplicates when they share a normalized phone number within a
+ * dealer. Merging keeps both rows; the merged one is hidden from lists.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { LeadDuplicate, Session } from '@/types';
+
+export interface DuplicateLookup {
+  dealerId?: string | null; // platform admins only; others search their own dealer
+  excludeId?: string | null; // the lead being compared
+}
+
+/**
+ * Leads at the dealer with the same number, oldest first
+ */
+export async function findDuplicateLeads(
+  db: SupabaseClient,
+  phone: string,
+  lookup: DuplicateLookup = {}
+): Promise<LeadDuplicate[]> {
+  const { data, error } = await db.rpc('find_duplicate_leads', {
+    lookup_phone: phone,
+    lookup_dealer_id: lookup.dealerId ?? null,
+    exclude_lead_id: lookup.excludeId ?? null,
+  });
+
+  if (error) throw error;
+
+  return data ?? [];
+}
+
+/**
+ * Fold one lead into another. Returns false when the duplicate was merged or
+ * removed in the meantime.
+ */
+export async function mergeLeadInto(
+  db: SupabaseClient,
+  session: Session,
+  keptId: string,
+  duplicateId: string
+): Promise<boolean> {
+  const now = new Date().toISOString();
+
+  const { data, error } = await db
+    .from('leads')
+    .update({
+      merged_into_id: keptId,
+      merged_at: now,
+      merged_by: session.sub,
+      duplicate_of_id: null,
+      updated_at: now,
+    })
+    .eq('id', duplicateId)
+    .is('merged_into_id', null)
+    .is('deleted_at', null)
+    .select('id')
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return false;
+
+  // Leads flagged against the merged one now point at the lead that was kept
+  const [kept, others] = await Promise.all([
+    db.from('leads').update({ duplicate_of_id: null }).eq('id', keptId).eq('duplicate_of_id', duplicateId),
+    db.from('leads').update({ duplicate_of_id: keptId }).eq('duplicate_of_id', duplicateId).neq('id', keptId),
+  ]);
+
+  if (kept.error) throw kept.error;
+  if (others.error) throw others.error;
+
+  return true;
+}
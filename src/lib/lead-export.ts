@@ -0,0 +1,267 @@
+/**
+ * Lead exports for GET /api/leads/export (server only)
+ * Reads every lead matching the list filters a page at a time and writes each
+ * page out as it arrives, so an export of any size is never held in memory.
+ * Spreadsheet formats (CSV, XLSX) use labels and Tanzania times; JSON and
+ * GeoJSON keep the stored values.
+ */
+
+import { z } from 'zod';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { toCsv } from './csv';
+import {
+  BUSINESS_UTC_OFFSET,
+  LEAD_EXPORT_BATCH_SIZE,
+  LEAD_EXPORT_COLUMNS,
+  LEAD_EXPORT_DEFAULT_COLUMNS,
+  LEAD_SELECT,
+  LEAD_SOURCE_LABELS,
+  LEAD_STATUS_LABELS,
+} from './constants';
+import { LeadCursor, LeadListQuery, LeadListScope, leadCursorAfter, selectLeadPage } from './lead-query';
+import { getPhoneCarrier, PHONE_CARRIER_LABELS } from './phone';
+import { leadExportQuerySchema } from './schemas';
+import { writeXlsx, XlsxCell } from './xlsx';
+import { Lead, LeadExportColumn, LeadExportFormat } from '@/types';
+
+export type LeadExportQuery = z.output<typeof leadExportQuerySchema>;
+
+type ExportValue = string | number | null;
+
+export const LEAD_EXPORT_FILES: Record<LeadExportFormat, { extension: string; contentType: string }> = {
+  csv: { extension: 'csv', contentType: 'text/csv; charset=utf-8' },
+  xlsx: { extension: 'xlsx', contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+  json: { extension: 'json', contentType: 'application/json; charset=utf-8' },
+  geojson: { extension: 'geojson', contentType: 'application/geo+json; charset=utf-8' },
+};
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+const BUSINESS_OFFSET_HOURS = Number(BUSINESS_UTC_OFFSET.slice(0, 3));
+
+function toNumber(value: number | string | null | undefined): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+// A timestamp as Tanzania date and time, e.g. 2026-10-19 14:05
+function toBusinessDateTime(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const time = new Date(value).getTime();
+  if (isNaN(time)) return null;
+  return new Date(time + BUSINESS_OFFSET_HOURS * MS_PER_HOUR).toISOString().slice(0, 16).replace('T', ' ');
+}
+
+// Stored values, as JSON and GeoJSON exports give them
+const COLUMN_VALUES: Record<LeadExportColumn, (lead: Lead) => ExportValue> = {
+  id: lead => lead.id,
+  lead_name: lead => lead.lead_name,
+  phone_contact: lead => lead.phone_contact,
+  phone_carrier: lead => getPhoneCarrier(lead.phone_contact),
+  residence: lead => lead.residence,
+  interested_phone_model: lead => lead.interested_phone_model,
+  next_contact_date: lead => lead.next_contact_date,
+  area_of_activity: lead => lead.area_of_activity,
+  ward: lead => lead.ward,
+  gps_latitude: lead => toNumber(lead.gps_latitude),
+  gps_longitude: lead => toNumber(lead.gps_longitude),
+  gps_accuracy: lead => toNumber(lead.gps_accuracy),
+  gps_ward: lead => lead.gps_ward ?? null,
+  gps_region: lead => lead.gps_region ?? null,
+  status: lead => lead.status,
+  lost_reason: lead => lead.lost_reason,
+  last_follow_up_at: lead => lead.last_follow_up_at ?? null,
+  officer_name: lead => lead.officer?.name ?? null,
+  officer_phone: lead => lead.officer?.phone ?? null,
+  captured_by: lead => lead.captured_by_officer?.name ?? null,
+  dealer: lead => lead.officer?.dealer?.name ?? null,
+  source: lead => lead.source ?? 'app',
+  created_at: lead => lead.created_at,
+};
+
+// Spreadsheet cells that read differently from the stored value
+const SPREADSHEET_VALUES: Partial<Record<LeadExportColumn, (lead: Lead) => ExportValue>> = {
+  phone_carrier: lead => {
+    const carrier = getPhoneCarrier(lead.phone_contact);
+    return carrier ? PHONE_CARRIER_LABELS[carrier] : null;
+  },
+  status: lead => LEAD_STATUS_LABELS[lead.status] ?? lead.status,
+  last_follow_up_at: lead => toBusinessDateTime(lead.last_follow_up_at),
+  source: lead => {
+    const label = LEAD_SOURCE_LABELS[lead.source ?? 'app'];
+    return lead.source_detail ? `${label} (${lead.source_detail})` : label;
+  },
+  created_at: lead => toBusinessDateTime(lead.created_at),
+};
+
+function toSpreadsheetRow(lead: Lead, columns: readonly LeadExportColumn[]): ExportValue[] {
+  return columns.map(column => (SPREADSHEET_VALUES[column] ?? COLUMN_VALUES[column])(lead));
+}
+
+function toRecord(lead: Lead, columns: readonly LeadExportColumn[]): Record<string, ExportValue> {
+  return Object.fromEntries(columns.map(column => [column, COLUMN_VALUES[column](lead)]));
+}
+
+// Spreadsheets run cells starting with = or @ as formulas. Phone numbers
+// and other numbers starting with + or - are left alone.
+function escapeFormula(value: ExportValue): ExportValue {
+  if (typeof value !== 'string' || !/^[=+\-@\t\r]/.test(value) || /^[+-][\d\s.]+$/.test(value)) {
+    return value;
+  }
+  return `'${value}`;
+}
+
+async function* toCsvChunks(
+  batches: AsyncIterable<Lead[]>,
+  columns: readonly LeadExportColumn[]
+): AsyncGenerator<string> {
+  // The byte order mark tells Excel the file is UTF-8
+  yield `\uFEFF${toCsv([columns.map(column => LEAD_EXPORT_COLUMNS[column])])}\r\n`;
+
+  for await (const leads of batches) {
+    if (leads.length === 0) continue;
+    yield `${toCsv(leads.map(lead => toSpreadsheetRow(lead, columns).map(escapeFormula)))}\r\n`;
+  }
+}
+
+async function* toXlsxRows(
+  batches: AsyncIterable<Lead[]>,
+  columns: readonly LeadExportColumn[]
+): AsyncGenerator<XlsxCell[][]> {
+  for await (const leads of batches) {
+    yield leads.map(lead => toSpreadsheetRow(lead, columns));
+  }
+}
+
+async function* toJsonChunks(
+  batches: AsyncIterable<Lead[]>,
+  columns: readonly LeadExportColumn[]
+): AsyncGenerator<string> {
+  let first = true;
+
+  yield '[';
+  for await (const leads of batches) {
+    for (const lead of leads) {
+      yield `${first ? '\n' : ',\n'}${JSON.stringify(toRecord(lead, columns))}`;
+      first = false;
+    }
+  }
+  yield '\n]\n';
+}
+
+// Leads without a GPS fix have no point, so they are left out
+async function* toGeoJsonChunks(
+  batches: AsyncIterable<Lead[]>,
+  columns: readonly LeadExportColumn[]
+): AsyncGenerator<string> {
+  let first = true;
+
+  yield '{"type":"FeatureCollection","features":[';
+  for await (const leads of batches) {
+    for (const lead of leads) {
+      const latitude = toNumber(lead.gps_latitude);
+      const longitude = toNumber(lead.gps_longitude);
+      if (latitude === null || longitude === null) continue;
+
+      const feature = {
+        type: 'Feature',
+        id: lead.id,
+        geometry: { type: 'Point', coordinates: [longitude, latitude] },
+        properties: toRecord(lead, columns),
+      };
+
+      yield `${first ? '\n' : ',\n'}${JSON.stringify(feature)}`;
+      first = false;
+    }
+  }
+  yield '\n]}\n';
+}
+
+/**
+ * Every lead matching the filters, a page at a time, in the list's sort order
+ */
+export async function* readLeadBatches(
+  db: SupabaseClient,
+  query: LeadExportQuery,
+  scope: LeadListScope
+): AsyncGenerator<Lead[]> {
+  const listQuery: LeadListQuery = { ...query, limit: LEAD_EXPORT_BATCH_SIZE };
+  let cursor: LeadCursor | null = null;
+
+  // No officers in scope, so no leads; an empty filter would match them all
+  if (scope.officerIds?.length === 0) {
+    yield [];
+    return;
+  }
+
+  do {
+    const { data, error } = await selectLeadPage(db, LEAD_SELECT, listQuery, scope, cursor);
+    if (error) throw error;
+
+    const rows = (data ?? []) as unknown as Lead[];
+    const leads = rows.slice(0, listQuery.limit);
+    yield leads;
+
+    cursor = rows.length > listQuery.limit ? leadCursorAfter(listQuery, leads[leads.length - 1]) : null;
+  } while (cursor);
+}
+
+/**
+ * Write lead batches in an export format, yielding the file in chunks
+ */
+export function writeLeadExport(
+  format: LeadExportFormat,
+  batches: AsyncIterable<Lead[]>,
+  columns: readonly LeadExportColumn[] = LEAD_EXPORT_DEFAULT_COLUMNS
+): AsyncIterable<string | Buffer> {
+  switch (format) {
+    case 'csv':
+      return toCsvChunks(batches, columns);
+    case 'xlsx':
+      return writeXlsx('Leads', columns.map(column => LEAD_EXPORT_COLUMNS[column]), toXlsxRows(batches, columns));
+    case 'json':
+      return toJsonChunks(batches, columns);
+    case 'geojson':
+      return toGeoJsonChunks(batches, columns);
+  }
+}
+
+/**
+ * Start an export as a response body. The first page is read before this
+ * returns, so a failing query can still be answered with an error status;
+ * a failure after that ends the download early.
+ */
+export async function openLeadExport(
+  db: SupabaseClient,
+  query: LeadExportQuery,
+  scope: LeadListScope
+): Promise<ReadableStream<Uint8Array>> {
+  const batches = readLeadBatches(db, query, scope);
+  const first = await batches.next();
+
+  async function* allBatches() {
+    if (!first.done) yield first.value;
+    yield* batches;
+  }
+
+  const chunks = writeLeadExport(query.format, allBatches(), query.columns)[Symbol.asyncIterator]();
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await chunks.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(typeof value === 'string' ? Buffer.from(value, 'utf8') : value);
+        }
+      } catch (error) {
+        console.error('Lead export failed part way:', error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await chunks.return?.(undefined);
+    },
+  });
+}
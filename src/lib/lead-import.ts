@@ -0,0 +1,267 @@
+/**
+ * Lead imports from a spreadsheet (server only)
+ * Each row is checked with the capture form's rules and matched to an active
+ * officer at the dealer by phone number or name. Rows that fail are rejected
+ * with their reasons; the rest are saved together in one insert, flagged as
+ * imported. Numbers already on a lead at the dealer are flagged as possible
+ * duplicates, or rejected when the dealer asks to skip them.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { parseSpreadsheetDate } from './csv';
+import { normalizePhone } from './phone';
+import { leadImportRowSchema } from './schemas';
+import { LeadImportRow, Officer } from '@/types';
+
+export interface LeadImportInput {
+  row: number;
+  lead_name: string;
+  phone_contact: string;
+  area_of_activity: string;
+  ward: string;
+  residence: string;
+  interested_phone_model: string;
+  next_contact_date: string;
+  officer?: string; // name or phone number
+}
+
+export type ImportOfficer = Pick<Officer, 'id' | 'name' | 'phone'>;
+
+export interface LeadImportOptions {
+  dealerId: string;
+  officers: ImportOfficer[]; // from getImportOfficers
+  defaultOfficer?: ImportOfficer; // for rows without an officer
+  skipDuplicates?: boolean;
+}
+
+// A lead ready to insert
+export interface ImportedLead {
+  officer_id: string;
+  area_of_activity: string;
+  ward: string;
+  lead_name: string;
+  phone_contact: string;
+  residence: string;
+  interested_phone_model: string;
+  next_contact_date: string;
+  duplicate_of_id: string | null;
+}
+
+export interface CheckedLeadImport {
+  rows: LeadImportRow[];
+  leads: ImportedLead[];
+}
+
+// Phone numbers looked up per request, to keep the query string short
+const DUPLICATE_LOOKUP_BATCH = 100;
+
+/**
+ * Active officers at the dealer that imported leads can go to
+ */
+export async function getImportOfficers(
+  db: SupabaseClient,
+  dealerId: string
+): Promise<ImportOfficer[]> {
+  const { data, error } = await db
+    .from('officers')
+    .select('id, name, phone')
+    .eq('dealer_id', dealerId)
+    .eq('active', true);
+
+  if (error) throw error;
+
+  return data ?? [];
+}
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function matchOfficer(
+  officers: ImportOfficer[],
+  value: string | undefined,
+  defaultOfficer: ImportOfficer | undefined
+): { officer: ImportOfficer } | { error: string } {
+  const input = value?.trim();
+
+  if (!input) {
+    return defaultOfficer
+      ? { officer: defaultOfficer }
+      : { error: 'No officer given; add an officer column or pick a default officer' };
+  }
+
+  const phone = normalizePhone(input);
+  const matches = phone
+    ? officers.filter(officer => officer.phone === phone)
+    : officers.filter(officer => normalizeName(officer.name) === normalizeName(input));
+
+  if (matches.length === 1) return { officer: matches[0] };
+
+  if (matches.length > 1) {
+    return { error: `More than one officer is called ${input}; use their phone number` };
+  }
+
+  return { error: `No active officer matches "${input}"` };
+}
+
+// The earliest open lead at the dealer for each number
+async function findExistingLeads(
+  db: SupabaseClient,
+  dealerId: string,
+  phones: string[]
+): Promise<Map<string, { id: string; lead_name: string }>> {
+  const existing = new Map<string, { id: string; lead_name: string }>();
+
+  for (let i = 0; i < phones.length; i += DUPLICATE_LOOKUP_BATCH) {
+    const { data, error } = await db
+      .from('leads')
+      .select('id, lead_name, phone_normalized, officer:officers!leads_officer_id_fkey!inner(dealer_id)')
+      .in('phone_normalized', phones.slice(i, i + DUPLICATE_LOOKUP_BATCH))
+      .eq('officer.dealer_id', dealerId)
+      .is('deleted_at', null)
+      .is('merged_into_id', null)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+
+    for (const lead of data ?? []) {
+      if (!existing.has(lead.phone_normalized)) {
+        existing.set(lead.phone_normalized, { id: lead.id, lead_name: lead.lead_name });
+      }
+    }
+  }
+
+  return existing;
+}
+
+/**
+ * Check import rows against the capture rules, the dealer's officers and
+ * existing leads. Returns a report on every row, in file order, and the
+ * leads to save.
+ */
+export async function checkLeadImport(
+  db: SupabaseClient,
+  inputs: LeadImportInput[],
+  options: LeadImportOptions
+): Promise<CheckedLeadImport> {
+  const { officers, defaultOfficer } = options;
+
+  const rows: LeadImportRow[] = [];
+  const candidates = new Map<number, ImportedLead>();
+  const firstRows = new Map<string, number>();
+
+  for (const input of inputs) {
+    const row: LeadImportRow = {
+      row: input.row,
+      lead_name: input.lead_name.trim(),
+      phone_contact: input.phone_contact.trim(),
+      officer_id: null,
+      officer_name: null,
+      status: 'rejected',
+      errors: [],
+    };
+    rows.push(row);
+
+    const rawDate = input.next_contact_date.trim();
+    const nextContactDate = parseSpreadsheetDate(rawDate);
+
+    const parsed = leadImportRowSchema.safeParse({
+      leadName: input.lead_name.trim(),
+      phoneContact: input.phone_contact,
+      residence: input.residence.trim(),
+      interestedPhoneModel: input.interested_phone_model.trim(),
+      nextContactDate: nextContactDate ?? rawDate,
+      areaOfActivity: input.area_of_activity.trim(),
+      ward: input.ward.trim(),
+    });
+
+    if (rawDate && !nextContactDate) {
+      row.errors.push('Next contact date must look like 2026-10-25 or 25/10/2026');
+    }
+    if (!parsed.success) {
+      row.errors.push(...parsed.error.issues
+        .filter(issue => !(rawDate && !nextContactDate && issue.path[0] === 'nextContactDate'))
+        .map(issue => issue.message));
+    }
+
+    const match = matchOfficer(officers, input.officer, defaultOfficer);
+    if ('error' in match) {
+      row.errors.push(match.error);
+    } else {
+      row.officer_id = match.officer.id;
+      row.officer_name = match.officer.name;
+    }
+
+    if (!parsed.success || !nextContactDate || 'error' in match) continue;
+
+    const lead = parsed.data;
+    row.phone_contact = lead.phoneContact;
+
+    const first = firstRows.get(lead.phoneContact);
+    if (first !== undefined) {
+      row.errors.push(`Same phone number as row ${first}`);
+      continue;
+    }
+    firstRows.set(lead.phoneContact, row.row);
+
+    row.status = 'ready';
+    candidates.set(row.row, {
+      officer_id: match.officer.id,
+      area_of_activity: lead.areaOfActivity,
+      ward: lead.ward,
+      lead_name: lead.leadName,
+      phone_contact: lead.phoneContact,
+      residence: lead.residence,
+      interested_phone_model: lead.interestedPhoneModel,
+      next_contact_date: nextContactDate,
+      duplicate_of_id: null,
+    });
+  }
+
+  const existing = await findExistingLeads(db, options.dealerId, [...firstRows.keys()]);
+
+  for (const row of rows) {
+    const duplicateOf = row.status === 'ready' ? existing.get(row.phone_contact) : undefined;
+    if (!duplicateOf) continue;
+
+    row.duplicate_of = duplicateOf;
+
+    if (options.skipDuplicates) {
+      row.status = 'rejected';
+      row.errors.push(`Already a lead: ${duplicateOf.lead_name}`);
+      candidates.delete(row.row);
+    } else {
+      row.status = 'duplicate';
+      row.errors.push(`Possible duplicate of ${duplicateOf.lead_name}; flagged for merging`);
+      candidates.get(row.row)!.duplicate_of_id = duplicateOf.id;
+    }
+  }
+
+  return { rows, leads: [...candidates.values()] };
+}
+
+/**
+ * Save checked leads in one insert, flagged as imported. The officer each
+ * lead goes to is also recorded as the one who captured it.
+ */
+export async function importLeads(
+  db: SupabaseClient,
+  leads: ImportedLead[],
+  sourceDetail: string | null
+): Promise<number> {
+  if (leads.length === 0) return 0;
+
+  const { data, error } = await db
+    .from('leads')
+    .insert(leads.map(lead => ({
+      ...lead,
+      captured_by: lead.officer_id,
+      source: 'import',
+      source_detail: sourceDetail,
+    })))
+    .select('id');
+
+  if (error) throw error;
+
+  return data?.length ?? 0;
+}
@@ -0,0 +1,84 @@
+/**
+ * Lead points for GET /api/leads/map (server only)
+ * The leads matching the list filters that were captured with a GPS fix,
+ * newest first, read a page at a time up to MAP_CONSTANTS.MAX_POINTS.
+ */
+
+import { z } from 'zod';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { LEAD_EXPORT_BATCH_SIZE, LEAD_MAP_SELECT, MAP_CONSTANTS } from './constants';
+import { countLeads, LeadCursor, LeadListQuery, LeadListScope, leadCursorAfter, selectLeadPage } from './lead-query';
+import { leadMapQuerySchema } from './schemas';
+import { Lead, LeadMapPoint, LeadMapResponse, LeadStatus } from '@/types';
+
+export type LeadMapQuery = z.output<typeof leadMapQuerySchema>;
+
+interface LeadMapRow {
+  id: string;
+  lead_name: string;
+  status: LeadStatus;
+  officer_id: string;
+  gps_latitude: number | string;
+  gps_longitude: number | string;
+  gps_accuracy: number | string | null;
+  created_at: string;
+  officer: { name: string } | null;
+}
+
+function toLeadMapPoint(row: LeadMapRow): LeadMapPoint {
+  return {
+    id: row.id,
+    lead_name: row.lead_name,
+    status: row.status,
+    officer_id: row.officer_id,
+    officer_name: row.officer?.name ?? null,
+    latitude: Number(row.gps_latitude),
+    longitude: Number(row.gps_longitude),
+    accuracy: row.gps_accuracy === null ? null : Number(row.gps_accuracy),
+  };
+}
+
+/**
+ * The newest leads with a GPS fix matching the filters, and how many there
+ * are in all
+ */
+export async function getLeadMapPoints(
+  db: SupabaseClient,
+  query: LeadMapQuery,
+  scope: LeadListScope,
+  maxPoints: number = MAP_CONSTANTS.MAX_POINTS
+): Promise<LeadMapResponse> {
+  // No officers in scope, so no leads; an empty filter would match them all
+  if (scope.officerIds?.length === 0) {
+    return { points: [], total: 0, truncated: false };
+  }
+
+  const listQuery: LeadListQuery = {
+    ...query,
+    has_gps: true,
+    sort: 'created_at',
+    order: 'desc',
+    limit: Math.min(LEAD_EXPORT_BATCH_SIZE, maxPoints),
+  };
+
+  const count = await countLeads(db, listQuery, scope);
+  if (count.error) throw count.error;
+
+  const points: LeadMapPoint[] = [];
+  let cursor: LeadCursor | null = null;
+
+  do {
+    const { data, error } = await selectLeadPage(db, LEAD_MAP_SELECT, listQuery, scope, cursor);
+    if (error) throw error;
+
+    const rows = (data ?? []) as unknown as LeadMapRow[];
+    const page = rows.slice(0, Math.min(listQuery.limit, maxPoints - points.length));
+    points.push(...page.map(toLeadMapPoint));
+
+    const hasMore = rows.length > listQuery.limit && points.length < maxPoints;
+    cursor = hasMore ? leadCursorAfter(listQuery, page[page.length - 1] as unknown as Lead) : null;
+  } while (cursor);
+
+  const total = count.count ?? points.length;
+  return { points, total, truncated: total > points.length };
+}
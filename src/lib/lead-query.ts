@@ -0,0 +1,254 @@
+/**
+ * Lead list queries for GET /api/leads (server only)
+ * Filters, sorting and cursor pagination. A cursor holds the sort value and ID
+ * of the last lead on a page, so paging stays stable while new leads arrive.
+ */
+
+import { z } from 'zod';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { BUSINESS_UTC_OFFSET } from './constants';
+import { toPhoneSearchDigits } from './phone';
+import { leadListQuerySchema } from './schemas';
+import { Lead, LeadListResponse, LeadSortField } from '@/types';
+
+export type LeadListQuery = z.output<typeof leadListQuerySchema>;
+
+export interface LeadCursor {
+  sort: LeadSortField;
+  order: LeadListQuery['order'];
+  value: string;
+  id: string;
+}
+
+// Officers a list may include: null when the session is not restricted
+export interface LeadListScope {
+  officerIds: string[] | null;
+  searchOfficerIds?: string[]; // officers whose name matches the text search
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// The cursor for the page after this lead
+export function leadCursorAfter(query: LeadListQuery, lead: Lead): LeadCursor {
+  return {
+    sort: query.sort,
+    order: query.order,
+    value: String(lead[query.sort]),
+    id: lead.id,
+  };
+}
+
+export function encodeLeadCursor(query: LeadListQuery, lead: Lead): string {
+  return Buffer.from(JSON.stringify(leadCursorAfter(query, lead))).toString('base64url');
+}
+
+/**
+ * Read a cursor from the query string. Returns null when it is malformed or
+ * was issued for a different sort, since it would skip or repeat leads.
+ */
+export function decodeLeadCursor(value: string, query: LeadListQuery): LeadCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+
+    if (
+      typeof cursor?.value !== 'string' ||
+      typeof cursor?.id !== 'string' ||
+      !UUID_PATTERN.test(cursor.id) ||
+      cursor.sort !== query.sort ||
+      cursor.order !== query.order
+    ) {
+      return null;
+    }
+
+    return cursor;
+  } catch {
+    return null;
+  }
+}
+
+// Drop characters with a meaning in PostgREST filters or LIKE patterns
+function cleanSearchTerm(term: string): string {
+  return term.replace(/[%*\\,()"]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function containsPattern(term: string): string {
+  return `%${cleanSearchTerm(term)}%`;
+}
+
+// Quote a value inside an or() filter
+function quoteFilterValue(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+// Start of a calendar day in Tanzania, as a timestamp
+function startOfDay(date: string): string {
+  return `${date}T00:00:00${BUSINESS_UTC_OFFSET}`;
+}
+
+function nextDay(date: string): string {
+  return new Date(new Date(`${date}T00:00:00Z`).getTime() + MS_PER_DAY).toISOString().slice(0, 10);
+}
+
+/**
+ * IDs of visible officers whose name matches a search, so searching by
+ * officer name finds their leads
+ */
+export async function findOfficerIdsByName(db: SupabaseClient, search: string): Promise<string[]> {
+  const term = cleanSearchTerm(search);
+  if (!term) {
+    return [];
+  }
+
+  const { data, error } = await db
+    .from('officers')
+    .select('id')
+    .ilike('name', containsPattern(term));
+
+  if (error) {
+    throw error;
+  }
+
+  return (data ?? []).map(officer => officer.id);
+}
+
+// Leads matching the query's filters, ignoring the cursor
+function filterLeads(
+  db: SupabaseClient,
+  columns: string,
+  query: LeadListQuery,
+  scope: LeadListScope,
+  options?: { count: 'exact'; head: true }
+) {
+  // Merged duplicates live on only as part of the lead they were merged into
+  let builder = db
+    .from('leads')
+    .select(columns, options)
+    .is('deleted_at', null)
+    .is('merged_into_id', null);
+
+  if (scope.officerIds) {
+    builder = builder.in('officer_id', scope.officerIds);
+  }
+
+  if (query.officer_id) {
+    builder = builder.eq('officer_id', query.officer_id);
+  }
+
+  const search = query.q ? cleanSearchTerm(query.q) : '';
+  if (search) {
+    const pattern = quoteFilterValue(`%${search}%`);
+    const conditions = [`lead_name.ilike.${pattern}`, `phone_contact.ilike.${pattern}`];
+
+    // Phone numbers are stored as +255XXXXXXXXX; match 0XXX and spaced input too
+    const digits = toPhoneSearchDigits(search);
+    if (digits.length >= 3 && digits !== search) {
+      conditions.push(`phone_contact.ilike.${quoteFilterValue(`%${digits}%`)}`);
+    }
+
+    if (scope.searchOfficerIds?.length) {
+      conditions.push(`officer_id.in.(${scope.searchOfficerIds.join(',')})`);
+    }
+
+    builder = builder.or(conditions.join(','));
+  }
+
+  if (query.status?.length) {
+    builder = builder.in('status', query.status);
+  }
+
+  if (query.duplicates) {
+    builder = builder.not('duplicate_of_id', 'is', null);
+  }
+
+  if (query.ward_mismatch) {
+    builder = builder.eq('ward_mismatch', true);
+  }
+
+  if (query.has_gps) {
+    builder = builder.not('gps_latitude', 'is', null).not('gps_longitude', 'is', null);
+  }
+
+  if (query.ward) {
+    builder = builder.ilike('ward', containsPattern(query.ward));
+  }
+
+  if (query.area) {
+    builder = builder.ilike('area_of_activity', containsPattern(query.area));
+  }
+
+  if (query.phone_model) {
+    builder = builder.ilike('interested_phone_model', containsPattern(query.phone_model));
+  }
+
+  if (query.created_from) {
+    builder = builder.gte('created_at', startOfDay(query.created_from));
+  }
+
+  if (query.created_to) {
+    builder = builder.lt('created_at', startOfDay(nextDay(query.created_to)));
+  }
+
+  if (query.next_contact_from) {
+    builder = builder.gte('next_contact_date', query.next_contact_from);
+  }
+
+  if (query.next_contact_to) {
+    builder = builder.lte('next_contact_date', query.next_contact_to);
+  }
+
+  return builder;
+}
+
+/**
+ * One page of leads after the cursor. Fetches one extra row to tell whether
+ * another page follows.
+ */
+export function selectLeadPage(
+  db: SupabaseClient,
+  columns: string,
+  query: LeadListQuery,
+  scope: LeadListScope,
+  cursor: LeadCursor | null
+) {
+  const ascending = query.order === 'asc';
+  let builder = filterLeads(db, columns, query, scope);
+
+  if (cursor) {
+    const operator = ascending ? 'gt' : 'lt';
+    const value = quoteFilterValue(cursor.value);
+    builder = builder.or(
+      `${query.sort}.${operator}.${value},and(${query.sort}.eq.${value},id.${operator}.${cursor.id})`
+    );
+  }
+
+  return builder
+    .order(query.sort, { ascending })
+    .order('id', { ascending })
+    .limit(query.limit + 1);
+}
+
+/**
+ * Number of leads matching the filters across all pages
+ */
+export function countLeads(db: SupabaseClient, query: LeadListQuery, scope: LeadListScope) {
+  return filterLeads(db, 'id', query, scope, { count: 'exact', head: true });
+}
+
+/**
+ * Build the response body from the rows selectLeadPage returned
+ */
+export function toLeadListResponse(rows: Lead[], total: number, query: LeadListQuery): LeadListResponse {
+  const hasMore = rows.length > query.limit;
+  const data = hasMore ? rows.slice(0, query.limit) : rows;
+
+  return {
+    data,
+    pagination: {
+      total,
+      limit: query.limit,
+      next_cursor: hasMore ? encodeLeadCursor(query, data[data.length - 1]) : null,
+      has_more: hasMore,
+    },
+  };
+}
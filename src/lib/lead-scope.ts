@@ -0,0 +1,52 @@
+/**
+ * Lead lookups limited to an access scope (server only)
+ * A lead is in scope when the officer who captured it is. Removed leads are
+ * treated as missing.
+ */
+
+import { NextResponse } from 'next/server';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import { LEAD_SELECT } from './constants';
+import { AccessScope, canAccessOfficer } from './permissions';
+import { Lead } from '@/types';
+
+const leadIdSchema = z.guid();
+
+/**
+ * Load a lead with its officer, or null when it does not exist, was removed
+ * or is outside the scope
+ */
+export async function getScopedLead(
+  db: SupabaseClient,
+  scope: AccessScope,
+  id: string
+): Promise<Lead | null> {
+  if (!leadIdSchema.safeParse(id).success) return null;
+
+  const { data, error } = await db
+    .from('leads')
+    .select(LEAD_SELECT)
+    .eq('id', id)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data?.officer || !canAccessOfficer(scope, data.officer)) return null;
+
+  return data;
+}
+
+/**
+ * 404 response for leads that are missing or outside the session's scope
+ */
+export function leadNotFoundResponse() {
+  return NextResponse.json(
+    {
+      error: 'Lead not found',
+      message: 'The lead does not exist or is outside your team or dealership.',
+      code: 'LEAD_NOT_FOUND'
+    },
+    { status: 404 }
+  );
+}
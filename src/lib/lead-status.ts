@@ -0,0 +1,93 @@
+/**
+ * Lead pipeline changes and their history (server only)
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { isDealerRole } from './permissions';
+import { LeadStatus, LeadStatusChange, SessionRole } from '@/types';
+
+export interface StatusChange {
+  leadId: string;
+  fromStatus: LeadStatus; // the status the lead was read with
+  toStatus: LeadStatus;
+  lostReason?: string | null;
+  note?: string | null;
+}
+
+/**
+ * Move a lead through the pipeline, with its history row and timeline entry,
+ * in one transaction. Returns false when the lead is no longer in fromStatus,
+ * so two people changing it at once cannot both move it from there.
+ */
+export async function changeLeadStatus(
+  db: SupabaseClient,
+  change: StatusChange
+): Promise<boolean> {
+  const { data, error } = await db.rpc('change_lead_status', {
+    target_lead: change.leadId,
+    expected_status: change.fromStatus,
+    new_status: change.toStatus,
+    new_lost_reason: change.lostReason ?? null,
+    change_note: change.note ?? null,
+  });
+
+  if (error) throw error;
+
+  return ((data ?? []) as string[]).length > 0;
+}
+
+/**
+ * Names of the dealers and officers who did something to a lead, by ID.
+ * Users the reader cannot see are left out.
+ */
+export async function getActorNames(
+  db: SupabaseClient,
+  actors: { id: string; role: SessionRole }[]
+): Promise<Map<string, string>> {
+  const dealerIds = new Set<string>();
+  const officerIds = new Set<string>();
+
+  for (const actor of actors) {
+    (isDealerRole(actor.role) ? dealerIds : officerIds).add(actor.id);
+  }
+
+  const [dealers, officers] = await Promise.all([
+    dealerIds.size > 0
+      ? db.from('dealers').select('id, name').in('id', [...dealerIds])
+      : { data: [], error: null },
+    officerIds.size > 0
+      ? db.from('officers').select('id, name').in('id', [...officerIds])
+      : { data: [], error: null },
+  ]);
+
+  if (dealers.error) throw dealers.error;
+  if (officers.error) throw officers.error;
+
+  return new Map(
+    [...(dealers.data ?? []), ...(officers.data ?? [])].map(user => [user.id, user.name])
+  );
+}
+
+/**
+ * A lead's pipeline moves, newest first
+ */
+export async function getStatusHistory(
+  db: SupabaseClient,
+  leadId: string
+): Promise<LeadStatusChange[]> {
+  const { data, error } = await db
+    .from('lead_status_history')
+    .select('*')
+    .eq('lead_id', leadId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  const rows = data ?? [];
+  const names = await getActorNames(
+    db,
+    rows.map(row => ({ id: row.changed_by, role: row.changed_by_role }))
+  );
+
+  return rows.map(row => ({ ...row, changed_by_name: names.get(row.changed_by) ?? null }));
+}
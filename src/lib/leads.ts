@@ -0,0 +1,135 @@
+/**
+ * Lead list requests (client)
+ * GET /api/leads returns one page at a time; GET /api/leads/export streams
+ * every matching lead as a file and GET /api/leads/map gives the newest with
+ * a GPS fix as points; GET /api/analytics counts them, the
+ * leaderboard and scorecards rank the officers who captured them, and
+ * /api/targets measures them against the dealer's targets.
+ */
+
+import { apiClient, apiRequest } from './api-client';
+import { API_ENDPOINTS } from './constants';
+import {
+  FollowUpOutcome,
+  FollowUpQueue,
+  Lead,
+  LeadAnalytics,
+  LeadAnalyticsParams,
+  LeadDuplicate,
+  LeadExportParams,
+  LeadListParams,
+  LeadListResponse,
+  LeadMapParams,
+  LeadMapResponse,
+  OfficerLeaderboard,
+  OfficerLeaderboardParams,
+  OfficerScorecard,
+  OfficerTarget,
+  OfficerTargetInput,
+  TargetAttainmentParams,
+  TargetAttainmentReport,
+} from '@/types';
+
+// Empty filters are left out of the query string
+function withQuery(path: string, params: object): string {
+  const searchParams = new URLSearchParams();
+
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== null && value !== '') {
+      searchParams.set(key, String(value));
+    }
+  }
+
+  const query = searchParams.toString();
+  return query ? `${path}?${query}` : path;
+}
+
+export function buildLeadsUrl(params: LeadListParams = {}): string {
+  return withQuery(API_ENDPOINTS.LEADS, params);
+}
+
+// A download link for every lead matching the filters; the server streams
+// the file, so it can be followed directly
+export function buildLeadExportUrl(params: LeadExportParams): string {
+  return withQuery(API_ENDPOINTS.LEAD_EXPORT, params);
+}
+
+// Leads matching the list filters that have a GPS fix, for the map
+export async function fetchLeadMap(params: LeadMapParams = {}): Promise<LeadMapResponse> {
+  return apiRequest<LeadMapResponse>(withQuery(API_ENDPOINTS.LEAD_MAP, params));
+}
+
+export async function fetchLeadsPage(params: LeadListParams = {}): Promise<LeadListResponse> {
+  return apiRequest<LeadListResponse>(buildLeadsUrl(params));
+}
+
+// Lead counts for dashboards, grouped by period, status, officer, ward and model
+export async function fetchLeadAnalytics(params: LeadAnalyticsParams = {}): Promise<LeadAnalytics> {
+  return apiRequest<LeadAnalytics>(withQuery(API_ENDPOINTS.ANALYTICS, params));
+}
+
+// Officers ranked by a metric for a date range, best first
+export async function fetchOfficerLeaderboard(params: OfficerLeaderboardParams = {}): Promise<OfficerLeaderboard> {
+  return apiRequest<OfficerLeaderboard>(withQuery(API_ENDPOINTS.LEADERBOARD, params));
+}
+
+// One officer's results for a date range; officers can fetch their own
+export async function fetchOfficerScorecard(
+  officerId: string,
+  params: { from?: string; to?: string } = {}
+): Promise<OfficerScorecard> {
+  return apiRequest<OfficerScorecard>(withQuery(`${API_ENDPOINTS.OFFICERS}/${officerId}/scorecard`, params));
+}
+
+// Targets in scope with the leads captured towards them
+export async function fetchTargetAttainment(params: TargetAttainmentParams = {}): Promise<TargetAttainmentReport> {
+  return apiRequest<TargetAttainmentReport>(withQuery(API_ENDPOINTS.TARGETS, params));
+}
+
+// Set a target, replacing the officer's target for the same period
+export async function setOfficerTarget(target: OfficerTargetInput): Promise<OfficerTarget> {
+  return apiClient.post<OfficerTarget>(API_ENDPOINTS.TARGETS, target);
+}
+
+export async function deleteOfficerTarget(targetId: string): Promise<void> {
+  await apiClient.delete(`${API_ENDPOINTS.TARGETS}/${targetId}`);
+}
+
+// Leads at the dealer already captured with this number. A warning only, so
+// it is not retried.
+export async function fetchLeadDuplicates(
+  phone: string,
+  options: { dealerId?: string; excludeId?: string } = {}
+): Promise<LeadDuplicate[]> {
+  const searchParams = new URLSearchParams({ phone });
+  if (options.dealerId) searchParams.set('dealer_id', options.dealerId);
+  if (options.excludeId) searchParams.set('exclude_id', options.excludeId);
+
+  return apiRequest<LeadDuplicate[]>(
+    `${API_ENDPOINTS.LEAD_DUPLICATES}?${searchParams}`,
+    {},
+    { maxAttempts: 1 }
+  );
+}
+
+// Open leads due for contact: the signed-in officer's, or one officer's when
+// a manager names them
+export async function fetchFollowUps(
+  params: { officerId?: string; days?: number } = {}
+): Promise<FollowUpQueue> {
+  const searchParams = new URLSearchParams();
+  if (params.officerId) searchParams.set('officer_id', params.officerId);
+  if (params.days) searchParams.set('days', String(params.days));
+
+  const query = searchParams.toString();
+  return apiRequest<FollowUpQueue>(query ? `${API_ENDPOINTS.FOLLOW_UPS}?${query}` : API_ENDPOINTS.FOLLOW_UPS);
+}
+
+// Log what happened and when to call next; returns the updated lead.
+// Not retried, so a slow response cannot log the same call twice.
+export async function logFollowUpOutcome(
+  leadId: string,
+  body: { outcome: FollowUpOutcome; next_contact_date: string; note?: string }
+): Promise<Lead> {
+  return apiClient.post<Lead>(`${API_ENDPOINTS.LEADS}/${leadId}/follow-ups`, body, { maxAttempts: 1 });
+}
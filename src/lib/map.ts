@@ -0,0 +1,191 @@
+/**
+ * Web Mercator maths for the lead map
+ * World coordinates are pixels on the whole map at a zoom level, with the
+ * north-west corner at 0,0, as standard {z}/{x}/{y} tile servers cut it.
+ */
+
+import { MAP_CONSTANTS } from './constants';
+
+export interface MapPosition {
+  latitude: number;
+  longitude: number;
+}
+
+export interface WorldPoint {
+  x: number;
+  y: number;
+}
+
+export interface MapView {
+  center: MapPosition;
+  zoom: number;
+}
+
+// A tile to draw, placed relative to the top-left corner of the map
+export interface MapTile {
+  key: string;
+  z: number;
+  x: number;
+  y: number;
+  left: number;
+  top: number;
+}
+
+// Points close together at a zoom level, drawn as one marker
+export interface MapCluster<T extends MapPosition> extends MapPosition {
+  key: string;
+  points: T[];
+}
+
+// Web Mercator stops short of the poles
+const MAX_LATITUDE = 85.0511287798;
+const EARTH_CIRCUMFERENCE = 40075016.686; // meters, at the equator
+const TILE_SUBDOMAINS = ['a', 'b', 'c'];
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+// Width and height of the whole map at a zoom level, in pixels
+export function worldSize(zoom: number): number {
+  return MAP_CONSTANTS.TILE_SIZE * 2 ** zoom;
+}
+
+export function project(position: MapPosition, zoom: number): WorldPoint {
+  const size = worldSize(zoom);
+  const sinLatitude = Math.sin(toRadians(clamp(position.latitude, -MAX_LATITUDE, MAX_LATITUDE)));
+
+  return {
+    x: ((position.longitude + 180) / 360) * size,
+    y: (0.5 - Math.log((1 + sinLatitude) / (1 - sinLatitude)) / (4 * Math.PI)) * size,
+  };
+}
+
+export function unproject(point: WorldPoint, zoom: number): MapPosition {
+  const size = worldSize(zoom);
+  const n = Math.PI - (2 * Math.PI * point.y) / size;
+
+  return {
+    latitude: (180 / Math.PI) * Math.atan(Math.sinh(n)),
+    longitude: (point.x / size) * 360 - 180,
+  };
+}
+
+// Ground distance covered by one pixel, so GPS accuracy can be drawn to scale
+export function metersPerPixel(latitude: number, zoom: number): number {
+  return (EARTH_CIRCUMFERENCE * Math.cos(toRadians(latitude))) / worldSize(zoom);
+}
+
+/**
+ * Fill in a tile URL template. {s} picks a subdomain, spreading requests
+ * over servers that offer several.
+ */
+export function tileUrl(template: string, tile: Pick<MapTile, 'z' | 'x' | 'y'>): string {
+  return template
+    .replace('{z}', String(tile.z))
+    .replace('{x}', String(tile.x))
+    .replace('{y}', String(tile.y))
+    .replace('{s}', TILE_SUBDOMAINS[(tile.x + tile.y) % TILE_SUBDOMAINS.length]);
+}
+
+/**
+ * The tiles covering a map of the given size. Tiles repeat east and west of
+ * the antimeridian; there are none beyond the poles.
+ */
+export function visibleTiles(view: MapView, width: number, height: number): MapTile[] {
+  const { TILE_SIZE } = MAP_CONSTANTS;
+  const center = project(view.center, view.zoom);
+  const left = center.x - width / 2;
+  const top = center.y - height / 2;
+  const tileCount = 2 ** view.zoom;
+  const tiles: MapTile[] = [];
+
+  for (let ty = Math.floor(top / TILE_SIZE); ty * TILE_SIZE < top + height; ty++) {
+    if (ty < 0 || ty >= tileCount) continue;
+
+    for (let tx = Math.floor(left / TILE_SIZE); tx * TILE_SIZE < left + width; tx++) {
+      tiles.push({
+        key: `${view.zoom}/${tx}/${ty}`,
+        z: view.zoom,
+        x: ((tx % tileCount) + tileCount) % tileCount,
+        y: ty,
+        left: tx * TILE_SIZE - left,
+        top: ty * TILE_SIZE - top,
+      });
+    }
+  }
+
+  return tiles;
+}
+
+/**
+ * Group points falling in the same grid cell at a zoom level. Each cluster
+ * sits at the middle of its points, so zooming in splits it where they are.
+ */
+export function clusterPoints<T extends MapPosition>(
+  points: readonly T[],
+  zoom: number,
+  radius: number = MAP_CONSTANTS.CLUSTER_RADIUS
+): MapCluster<T>[] {
+  const cells = new Map<string, { points: T[]; x: number; y: number }>();
+
+  for (const point of points) {
+    const world = project(point, zoom);
+    const key = `${Math.floor(world.x / radius)}:${Math.floor(world.y / radius)}`;
+    const cell = cells.get(key);
+
+    if (cell) {
+      cell.points.push(point);
+      cell.x += world.x;
+      cell.y += world.y;
+    } else {
+      cells.set(key, { points: [point], x: world.x, y: world.y });
+    }
+  }
+
+  return Array.from(cells, ([key, cell]) => ({
+    key,
+    points: cell.points,
+    ...unproject({ x: cell.x / cell.points.length, y: cell.y / cell.points.length }, zoom),
+  }));
+}
+
+/**
+ * The closest view showing every position on a map of the given size. A
+ * single lead is shown at street level; no leads shows Tanzania.
+ */
+export function fitView(
+  positions: readonly MapPosition[],
+  width: number,
+  height: number,
+  options: { maxZoom: number; padding?: number }
+): MapView {
+  const { MIN_ZOOM, DEFAULT_ZOOM, DEFAULT_CENTER, POINT_ZOOM } = MAP_CONSTANTS;
+  const padding = options.padding ?? 32;
+
+  if (positions.length === 0) {
+    return { center: DEFAULT_CENTER, zoom: DEFAULT_ZOOM };
+  }
+
+  // Bounds at zoom 0, where the world is one tile
+  const points = positions.map(position => project(position, 0));
+  const minX = Math.min(...points.map(point => point.x));
+  const maxX = Math.max(...points.map(point => point.x));
+  const minY = Math.min(...points.map(point => point.y));
+  const maxY = Math.max(...points.map(point => point.y));
+
+  const scale = Math.min(
+    Math.max(width - 2 * padding, 1) / Math.max(maxX - minX, Number.EPSILON),
+    Math.max(height - 2 * padding, 1) / Math.max(maxY - minY, Number.EPSILON)
+  );
+  const zoom = minX === maxX && minY === maxY ? POINT_ZOOM : Math.floor(Math.log2(scale));
+
+  return {
+    center: unproject({ x: (minX + maxX) / 2, y: (minY + maxY) / 2 }, 0),
+    zoom: clamp(zoom, MIN_ZOOM, options.maxZoom),
+  };
+}
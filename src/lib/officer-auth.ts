@@ -0,0 +1,129 @@
+/**
+ * Officer login helpers (server only)
+ */
+
+import { randomBytes, scrypt as scryptCallback, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { getServiceClient } from './supabase-server';
+import { AUTH_CONSTANTS, OFFICER_COLUMNS } from './constants';
+import { Officer } from '@/types';
+
+const scrypt = promisify(scryptCallback) as (
+  password: string,
+  salt: Buffer,
+  keylen: number
+) => Promise<Buffer>;
+
+const PIN_KEY_LENGTH = 32;
+
+export interface OfficerCredentials extends Officer {
+  pin_hash: string | null;
+}
+
+/**
+ * Hash a PIN for storage as `scrypt$<salt>$<hash>`
+ */
+export async function hashPin(pin: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scrypt(pin, salt, PIN_KEY_LENGTH);
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+/**
+ * Check a PIN against a stored hash
+ */
+export async function verifyPin(pin: string, stored: string): Promise<boolean> {
+  const [scheme, saltHex, hashHex] = stored.split('$');
+  if (scheme !== 'scrypt' || !saltHex || !hashHex) return false;
+
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = await scrypt(pin, Buffer.from(saltHex, 'hex'), expected.length);
+
+  return timingSafeEqual(expected, actual);
+}
+
+/**
+ * Count a PIN attempt before the PIN is checked. Returns the attempts so far,
+ * or null when the officer is locked out; the attempt that reaches
+ * PIN_MAX_ATTEMPTS locks them.
+ */
+export async function claimPinAttempt(officerId: string): Promise<number | null> {
+  const { data, error } = await getServiceClient().rpc('claim_pin_attempt', {
+    target_officer_id: officerId,
+    max_attempts: AUTH_CONSTANTS.PIN_MAX_ATTEMPTS,
+  });
+
+  if (error) throw error;
+
+  return data ?? null;
+}
+
+/**
+ * Forget wrong PINs after a correct one
+ */
+export async function clearPinAttempts(officerId: string): Promise<void> {
+  const { error } = await getServiceClient()
+    .from('officers')
+    .update({ pin_failed_attempts: 0, pin_locked_at: null })
+    .eq('id', officerId);
+
+  if (error) throw error;
+}
+
+/**
+ * Find the active officer with a normalized phone number, and their PIN hash.
+ * Only one active officer may hold a number; deactivated officers are never
+ * found, so they cannot sign in.
+ */
+export async function findOfficerByPhone(phone: string): Promise<OfficerCredentials | null> {
+  const { data, error } = await getServiceClient()
+    .from('officers')
+    .select(`${OFFICER_COLUMNS}, pin_hash`)
+    .eq('phone', phone)
+    .eq('active', true)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data;
+}
+
+/**
+ * The current role and dealer of an officer, or null when the officer no
+ * longer exists or has been deactivated
+ */
+export async function getActiveOfficerAccess(
+  id: string
+): Promise<Pick<Officer, 'role' | 'dealer_id'> | null> {
+  const { data, error } = await getServiceClient()
+    .from('officers')
+    .select('role, dealer_id, active')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data?.active === true ? { role: data.role, dealer_id: data.dealer_id } : null;
+}
+
+/**
+ * Load an officer by ID
+ */
+export async function getOfficerById(id: string): Promise<Officer | null> {
+  const { data, error } = await getServiceClient()
+    .from('officers')
+    .select(OFFICER_COLUMNS)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data;
+}
+
+/**
+ * Strip credentials before an officer leaves the server
+ */
+export function toPublicOfficer({ pin_hash: _pinHash, ...officer }: OfficerCredentials): Officer {
+  return officer;
+}
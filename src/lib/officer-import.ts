@@ -0,0 +1,132 @@
+/**
+ * Officer imports from a spreadsheet (server only)
+ * Every row is checked before anything is saved: the name and phone number
+ * must be valid and the number must not belong to another officer, in the
+ * file or already registered. Ready rows are then saved in one insert.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { OFFICER_COLUMNS } from './constants';
+import { officerImportRowSchema } from './schemas';
+import { Officer, OfficerImportRow } from '@/types';
+
+export interface OfficerImportInput {
+  row: number;
+  name: string;
+  phone: string;
+  territory?: string;
+}
+
+export interface OfficerImportTarget {
+  dealerId: string;
+  supervisorId: string | null; // supervisors import into their own team
+}
+
+interface ExistingOfficerPhone {
+  phone: string;
+  officer_id: string | null; // null when the officer is at another dealer
+  officer_name: string | null;
+  active: boolean;
+}
+
+/**
+ * Check import rows and report on each one, in file order
+ */
+export async function checkOfficerImport(
+  db: SupabaseClient,
+  rows: OfficerImportInput[]
+): Promise<OfficerImportRow[]> {
+  const checked: OfficerImportRow[] = rows.map(input => {
+    const parsed = officerImportRowSchema.safeParse(input);
+
+    if (!parsed.success) {
+      return {
+        row: input.row,
+        name: input.name.trim(),
+        phone: input.phone.trim(),
+        territory: input.territory?.trim() || null,
+        status: 'invalid',
+        errors: parsed.error.issues.map(issue => issue.message),
+      };
+    }
+
+    return {
+      row: input.row,
+      name: parsed.data.name,
+      phone: parsed.data.phone,
+      territory: parsed.data.territory ?? null,
+      status: 'ready',
+      errors: [],
+    };
+  });
+
+  // The same number twice in the file: the first row wins
+  const firstRows = new Map<string, number>();
+  for (const row of checked) {
+    if (row.status !== 'ready') continue;
+
+    const first = firstRows.get(row.phone);
+    if (first === undefined) {
+      firstRows.set(row.phone, row.row);
+    } else {
+      row.status = 'duplicate';
+      row.errors.push(`Same phone number as row ${first}`);
+    }
+  }
+
+  if (firstRows.size === 0) return checked;
+
+  const { data, error } = await db.rpc('find_officers_by_phone', {
+    lookup_phones: [...firstRows.keys()],
+  });
+
+  if (error) throw error;
+
+  const existing = new Map<string, ExistingOfficerPhone>(
+    ((data ?? []) as ExistingOfficerPhone[]).map(officer => [officer.phone, officer])
+  );
+
+  for (const row of checked) {
+    const officer = row.status === 'ready' ? existing.get(row.phone) : undefined;
+    if (!officer) continue;
+
+    row.status = 'duplicate';
+
+    if (officer.officer_id && officer.officer_name) {
+      row.existing_officer = { id: officer.officer_id, name: officer.officer_name, active: officer.active };
+      row.errors.push(
+        `Already registered to ${officer.officer_name}${officer.active ? '' : ' (inactive)'}`
+      );
+    } else {
+      row.errors.push('This number is already registered with another dealer');
+    }
+  }
+
+  return checked;
+}
+
+/**
+ * Save ready rows as officers in one insert, so either all of them are
+ * created or none are
+ */
+export async function importOfficers(
+  db: SupabaseClient,
+  rows: OfficerImportRow[],
+  target: OfficerImportTarget
+): Promise<Officer[]> {
+  const { data, error } = await db
+    .from('officers')
+    .insert(rows.map(row => ({
+      name: row.name,
+      phone: row.phone,
+      territory: row.territory,
+      dealer_id: target.dealerId,
+      role: 'officer',
+      supervisor_id: target.supervisorId,
+    })))
+    .select(OFFICER_COLUMNS);
+
+  if (error) throw error;
+
+  return data ?? [];
+}
@@ -0,0 +1,91 @@
+/**
+ * Officer performance for the leaderboard and scorecards (server only)
+ * The database counts each officer's leads and follow-ups
+ * (officer_performance); rates and ranks are worked out here.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { LeaderboardMetric, Officer, OfficerPerformance } from '@/types';
+
+type OfficerPerformanceCounts = Omit<OfficerPerformance, 'rank' | 'gps_rate' | 'on_time_rate' | 'conversion_rate'>;
+
+export interface OfficerPerformanceOptions {
+  from: string; // YYYY-MM-DD
+  to: string;
+  rankBy: LeaderboardMetric;
+}
+
+function rate(count: number, total: number): number | null {
+  return total > 0 ? count / total : null;
+}
+
+function withRates(counts: OfficerPerformanceCounts): Omit<OfficerPerformance, 'rank'> {
+  return {
+    ...counts,
+    gps_rate: rate(counts.leads_with_gps, counts.leads_captured),
+    on_time_rate: rate(counts.follow_ups_on_time, counts.follow_ups_logged),
+    conversion_rate: rate(counts.leads_won, counts.leads_assigned),
+  };
+}
+
+/**
+ * Rank officers best first by a metric. Officers level on it share a rank
+ * (1, 1, 3) and are ordered by leads captured, then name; officers with no
+ * rate, such as no follow-ups to time, come last.
+ */
+export function rankOfficers(
+  officers: Omit<OfficerPerformance, 'rank'>[],
+  rankBy: LeaderboardMetric
+): OfficerPerformance[] {
+  const score = (officer: Omit<OfficerPerformance, 'rank'>) => officer[rankBy] ?? -1;
+
+  const sorted = [...officers].sort((a, b) =>
+    score(b) - score(a)
+    || b.leads_captured - a.leads_captured
+    || a.officer_name.localeCompare(b.officer_name)
+  );
+
+  return sorted.map(officer => ({
+    ...officer,
+    rank: sorted.findIndex(other => score(other) === score(officer)) + 1,
+  }));
+}
+
+/**
+ * Ranked results for the officers in scope. Null officer IDs means every
+ * officer the session can see.
+ */
+export async function getOfficerPerformance(
+  db: SupabaseClient,
+  officerIds: string[] | null,
+  options: OfficerPerformanceOptions
+): Promise<OfficerPerformance[]> {
+  const { data, error } = await db.rpc('officer_performance', {
+    range_from: options.from,
+    range_to: options.to,
+    scope_officer_ids: officerIds,
+  });
+
+  if (error) throw error;
+
+  const officers = ((data ?? []) as OfficerPerformanceCounts[]).map(withRates);
+  return rankOfficers(officers, options.rankBy);
+}
+
+/**
+ * Results for an officer with nothing in the range, who the database leaves
+ * out when they have been deactivated
+ */
+export function emptyPerformance(officer: Officer): Omit<OfficerPerformance, 'rank'> {
+  return withRates({
+    officer_id: officer.id,
+    officer_name: officer.name,
+    active: officer.active,
+    leads_captured: 0,
+    leads_with_gps: 0,
+    follow_ups_logged: 0,
+    follow_ups_on_time: 0,
+    leads_assigned: 0,
+    leads_won: 0,
+  });
+}
@@ -0,0 +1,137 @@
+/**
+ * Officer lookups limited to an access scope (server only)
+ * The database enforces the same scope through RLS; checking here as well
+ * turns out-of-scope requests into clear 404s instead of empty updates.
+ */
+
+import { NextResponse } from 'next/server';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { OFFICER_COLUMNS } from './constants';
+import { AccessScope, canAccessOfficer } from './permissions';
+import { Officer } from '@/types';
+
+// Postgres unique_violation; on officers only the one-active-officer-per-phone
+// index raises it
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * IDs of the officers visible to a scope, or null when the scope is unrestricted.
+ * An optional dealer ID narrows the result to that dealer's officers.
+ */
+export async function getScopedOfficerIds(
+  db: SupabaseClient,
+  scope: AccessScope,
+  dealerId?: string | null
+): Promise<string[] | null> {
+  if (scope.type === 'platform' && !dealerId) return null;
+  if (scope.type !== 'platform' && dealerId && dealerId !== scope.dealerId) return [];
+  if (scope.type === 'self') return [scope.officerId];
+
+  let query = db
+    .from('officers')
+    .select('id')
+    .eq('dealer_id', scope.type === 'platform' ? dealerId : scope.dealerId);
+
+  if (scope.type === 'team') {
+    query = query.or(`id.eq.${scope.supervisorId},supervisor_id.eq.${scope.supervisorId}`);
+  }
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+
+  return (data || []).map(officer => officer.id);
+}
+
+/**
+ * Load an officer by ID, or null when it does not exist or is outside the scope
+ */
+export async function getScopedOfficer(
+  db: SupabaseClient,
+  scope: AccessScope,
+  id: string
+): Promise<Officer | null> {
+  const { data, error } = await db
+    .from('officers')
+    .select(OFFICER_COLUMNS)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data || !canAccessOfficer(scope, data)) return null;
+
+  return data;
+}
+
+/**
+ * 404 response for officers that are missing or outside the session's scope
+ */
+export function officerNotFoundResponse() {
+  return NextResponse.json(
+    {
+      error: 'Officer not found',
+      message: 'The officer does not exist or is outside your team or dealership.',
+      code: 'OFFICER_NOT_FOUND'
+    },
+    { status: 404 }
+  );
+}
+
+/**
+ * Check that an officer is a supervisor at the dealer, so others can report to them
+ */
+export async function isSupervisorAtDealer(
+  db: SupabaseClient,
+  officerId: string,
+  dealerId: string
+): Promise<boolean> {
+  const { data, error } = await db
+    .from('officers')
+    .select('id')
+    .eq('id', officerId)
+    .eq('dealer_id', dealerId)
+    .eq('role', 'supervisor')
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return Boolean(data);
+}
+
+/**
+ * 400 response for a supervisor that is not a supervisor at the officer's dealer
+ */
+export function invalidSupervisorResponse(
+  message = 'The supervisor does not exist or belongs to another dealer.'
+) {
+  return NextResponse.json(
+    {
+      error: 'Invalid supervisor',
+      message,
+      code: 'INVALID_SUPERVISOR'
+    },
+    { status: 400 }
+  );
+}
+
+/**
+ * Whether a database error is an officer's phone number clashing with
+ * another active officer's
+ */
+export function isPhoneInUseError(error: unknown): boolean {
+  return (error as { code?: unknown } | null)?.code === UNIQUE_VIOLATION;
+}
+
+/**
+ * 409 response for a phone number another active officer already signs in with
+ */
+export function phoneInUseResponse() {
+  return NextResponse.json(
+    {
+      error: 'Phone number in use',
+      message: 'This phone number already belongs to another active officer.',
+      code: 'PHONE_IN_USE'
+    },
+    { status: 409 }
+  );
+}
@@ -0,0 +1,75 @@
+/**
+ * Officer deactivation and reactivation (server only)
+ * Deactivated officers keep their row, their leads and their history; they
+ * just cannot sign in, capture leads or be picked for new work.
+ */
+
+import { NextResponse } from 'next/server';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { OFFICER_COLUMNS } from './constants';
+import { Officer } from '@/types';
+
+/**
+ * Mark an officer inactive. Returns null when the officer was already
+ * inactive or is not visible to the session.
+ */
+export async function deactivateOfficer(
+  db: SupabaseClient,
+  officerId: string,
+  reason: string | null
+): Promise<Officer | null> {
+  const now = new Date().toISOString();
+
+  const { data, error } = await db
+    .from('officers')
+    .update({ active: false, deactivated_at: now, deactivation_reason: reason, updated_at: now })
+    .eq('id', officerId)
+    .eq('active', true)
+    .select(OFFICER_COLUMNS)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data;
+}
+
+/**
+ * Let an inactive officer sign in again. Returns null when the officer was
+ * already active or is not visible to the session.
+ */
+export async function reactivateOfficer(
+  db: SupabaseClient,
+  officerId: string
+): Promise<Officer | null> {
+  const { data, error } = await db
+    .from('officers')
+    .update({
+      active: true,
+      deactivated_at: null,
+      deactivation_reason: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', officerId)
+    .eq('active', false)
+    .select(OFFICER_COLUMNS)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data;
+}
+
+/**
+ * 409 response for deactivating an inactive officer or reactivating an
+ * active one
+ */
+export function officerStatusUnchangedResponse(active: boolean) {
+  return NextResponse.json(
+    {
+      error: 'Officer status unchanged',
+      message: active ? 'The officer is already active.' : 'The officer is already inactive.',
+      code: 'OFFICER_STATUS_UNCHANGED'
+    },
+    { status: 409 }
+  );
+}
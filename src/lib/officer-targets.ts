@@ -0,0 +1,88 @@
+/**
+ * Lead targets and progress towards them (server only)
+ * The database counts the leads captured in each target's period
+ * (target_attainment); the pace and status are worked out here.
+ */
+
+import { NextResponse } from 'next/server';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { OFFICER_TARGET_COLUMNS } from './constants';
+import { daysBetween } from './utils';
+import { OfficerTarget, OfficerTargetInput, TargetAttainment, TargetStatus } from '@/types';
+
+type TargetAttainmentCounts = Omit<TargetAttainment, 'expected' | 'status'>;
+
+/**
+ * The leads due by the end of yesterday at an even pace, and whether the
+ * target is met, on track or behind. Today is left out, so nobody falls
+ * behind a daily target before the day is over.
+ */
+export function withTargetStatus(target: TargetAttainmentCounts, today: string): TargetAttainment {
+  const periodDays = daysBetween(target.period_start, target.period_end) + 1;
+  const daysGone = Math.min(Math.max(daysBetween(target.period_start, today), 0), periodDays);
+  const expected = Math.floor((target.lead_count * daysGone) / periodDays);
+
+  let status: TargetStatus = 'behind';
+  if (target.achieved >= target.lead_count) {
+    status = 'met';
+  } else if (target.achieved >= expected) {
+    status = 'on_track';
+  }
+
+  return { ...target, expected, status };
+}
+
+/**
+ * Targets for the officers in scope with their progress in the periods
+ * containing the date. Null officer IDs means every target the session can see.
+ */
+export async function getTargetAttainment(
+  db: SupabaseClient,
+  officerIds: string[] | null,
+  options: { date: string; today: string }
+): Promise<TargetAttainment[]> {
+  const { data, error } = await db.rpc('target_attainment', {
+    on_date: options.date,
+    scope_officer_ids: officerIds,
+  });
+
+  if (error) throw error;
+
+  return ((data ?? []) as TargetAttainmentCounts[]).map(target => withTargetStatus(target, options.today));
+}
+
+/**
+ * Set a target, replacing the officer's target for the same period
+ */
+export async function saveOfficerTarget(
+  db: SupabaseClient,
+  setBy: string,
+  input: Required<OfficerTargetInput>
+): Promise<OfficerTarget> {
+  const { data, error } = await db
+    .from('officer_targets')
+    .upsert(
+      { ...input, set_by: setBy, updated_at: new Date().toISOString() },
+      { onConflict: 'officer_id,applies_to,period' }
+    )
+    .select(OFFICER_TARGET_COLUMNS)
+    .single();
+
+  if (error) throw error;
+
+  return data;
+}
+
+/**
+ * 404 response for targets that are missing or outside the session's scope
+ */
+export function targetNotFoundResponse() {
+  return NextResponse.json(
+    {
+      error: 'Target not found',
+      message: 'The target does not exist or is outside your dealership.',
+      code: 'TARGET_NOT_FOUND'
+    },
+    { status: 404 }
+  );
+}
@@ -0,0 +1,98 @@
+/**
+ * One-time code delivery providers (server only)
+ * OTP_PROVIDER selects how codes reach the user: `console` and `file` are for
+ * local development, `webhook` hands the message to an SMS/email gateway.
+ */
+
+import { appendFile } from 'fs/promises';
+import { config } from './config';
+import { OtpChannel } from '@/types';
+
+export interface OtpMessage {
+  channel: OtpChannel;
+  to: string;
+  code: string;
+  expiresAt: Date;
+  text: string;
+}
+
+export interface OtpProvider {
+  name: string;
+  send(message: OtpMessage): Promise<void>;
+}
+
+// Prints codes to the server log
+export const consoleOtpProvider: OtpProvider = {
+  name: 'console',
+  async send(message) {
+    console.info(`[otp] ${message.channel} to ${message.to}: ${message.code}`);
+  },
+};
+
+// Appends codes as JSON lines to OTP_OUTBOX_FILE, handy for scripted tests
+export const fileOtpProvider: OtpProvider = {
+  name: 'file',
+  async send(message) {
+    const line = JSON.stringify({
+      ...message,
+      expiresAt: message.expiresAt.toISOString(),
+      sentAt: new Date().toISOString(),
+    });
+    await appendFile(config.auth.otpOutboxFile, `${line}\n`, 'utf8');
+  },
+};
+
+// Posts the message to OTP_WEBHOOK_URL (SMS or email gateway)
+export const webhookOtpProvider: OtpProvider = {
+  name: 'webhook',
+  async send(message) {
+    if (!config.auth.otpWebhookUrl) {
+      throw new Error('OTP_WEBHOOK_URL is not configured');
+    }
+
+    const response = await fetch(config.auth.otpWebhookUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.auth.otpWebhookToken && {
+          Authorization: `Bearer ${config.auth.otpWebhookToken}`,
+        }),
+      },
+      body: JSON.stringify({
+        channel: message.channel,
+        to: message.to,
+        text: message.text,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`OTP webhook responded with ${response.status}`);
+    }
+  },
+};
+
+const providers = new Map<string, OtpProvider>(
+  [consoleOtpProvider, fileOtpProvider, webhookOtpProvider].map(
+    provider => [provider.name, provider]
+  )
+);
+
+/**
+ * Register an additional delivery provider (e.g. a vendor SDK)
+ */
+export function registerOtpProvider(provider: OtpProvider): void {
+  providers.set(provider.name, provider);
+}
+
+/**
+ * Get the provider selected by OTP_PROVIDER
+ */
+export function getOtpProvider(): OtpProvider {
+  const provider = providers.get(config.auth.otpProvider);
+
+  if (!provider) {
+    throw new Error(`Unknown OTP provider: ${config.auth.otpProvider}`);
+  }
+
+  return provider;
+}
@@ -0,0 +1,161 @@
+/**
+ * One-time login codes (server only)
+ * Codes are stored as HMAC hashes in the otp_codes table and delivered
+ * through the configured OTP provider.
+ */
+
+import { createHmac, randomInt, timingSafeEqual } from 'crypto';
+import { getServiceClient } from './supabase-server';
+import { AUTH_CONSTANTS, APP_METADATA } from './constants';
+import { getOtpProvider } from './otp-providers';
+import { getSessionSecret } from './session';
+import { OtpChannel } from '@/types';
+
+export type OtpPurpose = 'dealer_login' | 'officer_login';
+
+export type IssueOtpResult =
+  | { success: true; expiresIn: number }
+  | { success: false; reason: 'rate_limited'; retryAfter: number };
+
+export type VerifyOtpResult = 'valid' | 'invalid' | 'expired' | 'too_many_attempts';
+
+interface IssueOtpOptions {
+  identifier: string;
+  channel: OtpChannel;
+  purpose: OtpPurpose;
+  // false records a code without sending it, so an identifier with no
+  // account is rate limited exactly like one with
+  deliver?: boolean;
+}
+
+function hashCode(identifier: string, code: string): string {
+  return createHmac('sha256', getSessionSecret())
+    .update(`${identifier}:${code}`)
+    .digest('hex');
+}
+
+function generateCode(): string {
+  return randomInt(0, 10 ** AUTH_CONSTANTS.OTP_LENGTH)
+    .toString()
+    .padStart(AUTH_CONSTANTS.OTP_LENGTH, '0');
+}
+
+/**
+ * Create a code for the identifier and send it
+ */
+export async function issueOtp({ identifier, channel, purpose, deliver = true }: IssueOtpOptions): Promise<IssueOtpResult> {
+  const now = Date.now();
+
+  // Only one code per resend interval
+  const { data: recent, error: recentError } = await getServiceClient()
+    .from('otp_codes')
+    .select('created_at')
+    .eq('identifier', identifier)
+    .eq('purpose', purpose)
+    .gte('created_at', new Date(now - AUTH_CONSTANTS.OTP_RESEND_INTERVAL * 1000).toISOString())
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (recentError) throw recentError;
+
+  if (recent) {
+    const elapsed = Math.floor((now - new Date(recent.created_at).getTime()) / 1000);
+    return {
+      success: false,
+      reason: 'rate_limited',
+      retryAfter: Math.max(1, AUTH_CONSTANTS.OTP_RESEND_INTERVAL - elapsed),
+    };
+  }
+
+  const code = generateCode();
+  const expiresAt = new Date(now + AUTH_CONSTANTS.OTP_TTL * 1000);
+
+  // A new code replaces any earlier unused one
+  await getServiceClient()
+    .from('otp_codes')
+    .update({ consumed_at: new Date(now).toISOString() })
+    .eq('identifier', identifier)
+    .eq('purpose', purpose)
+    .is('consumed_at', null);
+
+  const { error } = await getServiceClient().from('otp_codes').insert([{
+    identifier,
+    purpose,
+    code_hash: hashCode(identifier, code),
+    expires_at: expiresAt.toISOString(),
+  }]);
+
+  if (error) throw error;
+
+  if (!deliver) {
+    return { success: true, expiresIn: AUTH_CONSTANTS.OTP_TTL };
+  }
+
+  const minutes = Math.round(AUTH_CONSTANTS.OTP_TTL / 60);
+  await getOtpProvider().send({
+    channel,
+    to: identifier,
+    code,
+    expiresAt,
+    text: `${code} is your ${APP_METADATA.NAME} login code. It expires in ${minutes} minutes.`,
+  });
+
+  return { success: true, expiresIn: AUTH_CONSTANTS.OTP_TTL };
+}
+
+/**
+ * Check a code against the latest unused code for the identifier.
+ * A correct code is consumed; every guess counts against the attempt limit,
+ * and is counted before the code is compared.
+ */
+export async function verifyOtp(
+  identifier: string,
+  purpose: OtpPurpose,
+  code: string
+): Promise<VerifyOtpResult> {
+  const { data: otp, error } = await getServiceClient()
+    .from('otp_codes')
+    .select('id, code_hash, expires_at')
+    .eq('identifier', identifier)
+    .eq('purpose', purpose)
+    .is('consumed_at', null)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!otp) return 'invalid';
+
+  if (new Date(otp.expires_at).getTime() <= Date.now()) {
+    return 'expired';
+  }
+
+  // Claimed in one update, so parallel guesses cannot all read the same count
+  const { data: attempts, error: claimError } = await getServiceClient().rpc('claim_otp_attempt', {
+    target_code_id: otp.id,
+    max_attempts: AUTH_CONSTANTS.OTP_MAX_ATTEMPTS,
+  });
+
+  if (claimError) throw claimError;
+  if (attempts == null) return 'too_many_attempts';
+
+  const expected = Buffer.from(otp.code_hash, 'hex');
+  const actual = Buffer.from(hashCode(identifier, code), 'hex');
+
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return 'invalid';
+  }
+
+  // Only the request that consumes the code wins a concurrent double submit
+  const { data: consumed, error: consumeError } = await getServiceClient()
+    .from('otp_codes')
+    .update({ consumed_at: new Date().toISOString() })
+    .eq('id', otp.id)
+    .is('consumed_at', null)
+    .select('id');
+
+  if (consumeError) throw consumeError;
+
+  return consumed && consumed.length > 0 ? 'valid' : 'invalid';
+}
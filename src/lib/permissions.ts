@@ -0,0 +1,155 @@
+/**
+ * Role-based access model
+ * Maps each session role to the actions it may perform and the slice of
+ * data it may see. Shared by API routes and pages.
+ */
+
+import { Officer, Session, SessionRole } from '@/types';
+
+export type Permission =
+  | 'leads:read'
+  | 'leads:create'
+  | 'leads:update'
+  | 'leads:delete'
+  | 'leads:merge' // fold a duplicate lead into another
+  | 'leads:assign' // move leads to another officer
+  | 'leads:import' // add leads from a spreadsheet for any officer
+  | 'officers:read'
+  | 'officers:create'
+  | 'officers:update'
+  | 'officers:delete' // deactivate and reactivate officers
+  | 'officers:assign' // change an officer's role or supervisor
+  | 'officers:targets' // set lead targets for officers and teams
+  | 'dealers:read';
+
+export const ROLE_PERMISSIONS: Record<SessionRole, readonly Permission[]> = {
+  platform_admin: [
+    'leads:read',
+    'leads:update',
+    'leads:delete',
+    'leads:merge',
+    'leads:assign',
+    'leads:import',
+    'officers:read',
+    'officers:create',
+    'officers:update',
+    'officers:delete',
+    'officers:assign',
+    'officers:targets',
+    'dealers:read',
+  ],
+  dealer: [
+    'leads:read',
+    'leads:update',
+    'leads:delete',
+    'leads:merge',
+    'leads:assign',
+    'leads:import',
+    'officers:read',
+    'officers:create',
+    'officers:update',
+    'officers:delete',
+    'officers:assign',
+    'officers:targets',
+  ],
+  supervisor: [
+    'leads:read',
+    'leads:create',
+    'leads:update',
+    'leads:assign',
+    'officers:read',
+    'officers:create',
+    'officers:update',
+  ],
+  officer: [
+    'leads:read',
+    'leads:create',
+    'leads:update',
+    'officers:read',
+  ],
+};
+
+// Roles that sign in with a dealer account rather than an officer account
+export const DEALER_ROLES: readonly SessionRole[] = ['dealer', 'platform_admin'];
+
+// Roles that can open the management dashboard
+export const MANAGER_ROLES: readonly SessionRole[] = ['platform_admin', 'dealer', 'supervisor'];
+
+/**
+ * Data a session may see:
+ * platform admins see every dealer, dealers their own officers,
+ * supervisors themselves and their team, officers only themselves
+ */
+export type AccessScope =
+  | { type: 'platform' }
+  | { type: 'dealer'; dealerId: string }
+  | { type: 'team'; dealerId: string; supervisorId: string }
+  | { type: 'self'; dealerId: string; officerId: string };
+
+export function hasPermission(role: SessionRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+}
+
+export function isDealerRole(role: SessionRole): boolean {
+  return DEALER_ROLES.includes(role);
+}
+
+export function isManagerRole(role: SessionRole): boolean {
+  return MANAGER_ROLES.includes(role);
+}
+
+/**
+ * Management dashboard for a role (officers only have the capture app)
+ */
+export function getDashboardPath(role: SessionRole, dealerId: string): string {
+  switch (role) {
+    case 'platform_admin':
+      return '/admin';
+    case 'dealer':
+    case 'supervisor':
+      return `/dealer/${dealerId}`;
+    default:
+      return '/';
+  }
+}
+
+/**
+ * Where a role lands after signing in. Supervisors capture leads too, so they
+ * start in the capture app and open their dashboard from there.
+ */
+export function getHomePath(role: SessionRole, dealerId: string): string {
+  return isDealerRole(role) ? getDashboardPath(role, dealerId) : '/';
+}
+
+export function getAccessScope(session: Pick<Session, 'role' | 'sub' | 'dealerId'>): AccessScope {
+  switch (session.role) {
+    case 'platform_admin':
+      return { type: 'platform' };
+    case 'dealer':
+      return { type: 'dealer', dealerId: session.dealerId };
+    case 'supervisor':
+      return { type: 'team', dealerId: session.dealerId, supervisorId: session.sub };
+    default:
+      return { type: 'self', dealerId: session.dealerId, officerId: session.sub };
+  }
+}
+
+/**
+ * Check whether an officer (and so their leads) falls inside a scope
+ */
+export function canAccessOfficer(
+  scope: AccessScope,
+  officer: Pick<Officer, 'id' | 'dealer_id' | 'supervisor_id'>
+): boolean {
+  switch (scope.type) {
+    case 'platform':
+      return true;
+    case 'dealer':
+      return officer.dealer_id === scope.dealerId;
+    case 'team':
+      return officer.dealer_id === scope.dealerId &&
+        (officer.id === scope.supervisorId || officer.supervisor_id === scope.supervisorId);
+    case 'self':
+      return officer.id === scope.officerId;
+  }
+}
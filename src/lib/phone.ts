@@ -0,0 +1,112 @@
+/**
+ * Tanzanian phone numbers
+ * The one place numbers are parsed, validated and formatted, on the client,
+ * the server and in scripts. Numbers are stored in E.164 (+255712345678).
+ * normalize_phone() in supabase-schema.sql mirrors normalizePhone for matching.
+ */
+
+export const TZ_COUNTRY_CODE = '255';
+
+export type PhoneCarrier = 'vodacom' | 'airtel' | 'tigo' | 'halotel' | 'ttcl';
+
+export const PHONE_CARRIER_LABELS: Record<PhoneCarrier, string> = {
+  vodacom: 'Vodacom',
+  airtel: 'Airtel',
+  tigo: 'Tigo/Yas',
+  halotel: 'Halotel',
+  ttcl: 'TTCL',
+};
+
+// Mobile prefixes after the country code (or leading 0), per TCRA allocations.
+// 77 belonged to Zantel, now part of Tigo/Yas.
+const CARRIER_PREFIXES: Record<string, PhoneCarrier> = {
+  '74': 'vodacom',
+  '75': 'vodacom',
+  '76': 'vodacom',
+  '68': 'airtel',
+  '69': 'airtel',
+  '78': 'airtel',
+  '65': 'tigo',
+  '67': 'tigo',
+  '71': 'tigo',
+  '77': 'tigo',
+  '61': 'halotel',
+  '62': 'halotel',
+  '73': 'ttcl',
+};
+
+export interface ParsedPhone {
+  e164: string; // +255712345678
+  national: string; // 0712345678
+  carrier: PhoneCarrier;
+}
+
+// The 9-digit subscriber number from 0712..., 712..., 255712..., +255 712... or 00255712...
+function subscriberNumber(input: string): string | null {
+  const trimmed = input.trim();
+  // Only spacing and punctuation may surround the digits
+  if (!/^\+?[\d\s\-().]+$/.test(trimmed)) return null;
+
+  const digits = trimmed.replace(/\D/g, '');
+
+  if (digits.length === 9) return digits;
+  if (digits.length === 10 && digits.startsWith('0')) return digits.slice(1);
+  if (digits.length === 12 && digits.startsWith(TZ_COUNTRY_CODE)) return digits.slice(3);
+  if (digits.length === 14 && digits.startsWith(`00${TZ_COUNTRY_CODE}`)) return digits.slice(5);
+
+  return null;
+}
+
+/**
+ * Parse a Tanzanian mobile number, or null when it is not one
+ */
+export function parsePhone(input: string): ParsedPhone | null {
+  const subscriber = subscriberNumber(input);
+  if (!subscriber) return null;
+
+  const carrier = CARRIER_PREFIXES[subscriber.slice(0, 2)];
+  if (!carrier) return null;
+
+  return {
+    e164: `+${TZ_COUNTRY_CODE}${subscriber}`,
+    national: `0${subscriber}`,
+    carrier,
+  };
+}
+
+/**
+ * E.164 form of a number, or null when it is not a Tanzanian mobile number
+ */
+export function normalizePhone(input: string): string | null {
+  return parsePhone(input)?.e164 ?? null;
+}
+
+export function isValidPhone(input: string): boolean {
+  return parsePhone(input) !== null;
+}
+
+export function getPhoneCarrier(input: string): PhoneCarrier | null {
+  return parsePhone(input)?.carrier ?? null;
+}
+
+/**
+ * Format for display: '+255 712 345 678' (international) or '0712 345 678'
+ * (national). Numbers that do not parse are shown as entered.
+ */
+export function formatPhone(input: string, style: 'international' | 'national' = 'international'): string {
+  const parsed = parsePhone(input);
+  if (!parsed) return input;
+
+  const subscriber = parsed.national.slice(1);
+  const groups = `${subscriber.slice(0, 3)} ${subscriber.slice(3, 6)} ${subscriber.slice(6)}`;
+
+  return style === 'national' ? `0${groups}` : `+${TZ_COUNTRY_CODE} ${groups}`;
+}
+
+/**
+ * Digits to search stored numbers with: '0712 34' and '+255 712 34' both
+ * become '71234', which is part of '+255712345678'
+ */
+export function toPhoneSearchDigits(input: string): string {
+  return input.replace(/\D/g, '').replace(new RegExp(`^(00${TZ_COUNTRY_CODE}|${TZ_COUNTRY_CODE}|0)`), '');
+}
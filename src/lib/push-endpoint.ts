@@ -0,0 +1,43 @@
+/**
+ * Push endpoints the server may send to
+ * The reminder job POSTs to each saved subscription's endpoint from the
+ * server, so only the browsers' own push services are accepted. Outside
+ * production, plain http to this machine is allowed too, for
+ * scripts/push-service-stub.ts and tests.
+ */
+
+// Chrome, Firefox, Safari and Edge; subdomains are included
+const PUSH_SERVICE_HOSTS = [
+  'fcm.googleapis.com',
+  'push.services.mozilla.com',
+  'push.apple.com',
+  'notify.windows.com',
+];
+
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+export function isPushServiceEndpoint(
+  endpoint: string,
+  allowLocal = process.env.NODE_ENV !== 'production'
+): boolean {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+
+  if (url.username || url.password) return false;
+
+  const host = url.hostname.toLowerCase();
+
+  if (allowLocal && LOCAL_HOSTS.includes(host)) {
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  }
+
+  return (
+    url.protocol === 'https:' &&
+    url.port === '' &&
+    PUSH_SERVICE_HOSTS.some(service => host === service || host.endsWith(`.${service}`))
+  );
+}
@@ -1,7 +1,11 @@
 /**
- * PWA utilities for service worker registration and app installation
+ * PWA utilities for service worker registration, app installation and
+ * follow-up reminder push subscriptions
  */
 
+import { apiRequest } from './api-client';
+import { API_ENDPOINTS, FEATURE_FLAGS } from './constants';
+
 interface BeforeInstallPromptEvent extends Event {
   readonly platforms?: string[];
   prompt: () => Promise<void>;
@@ -124,4 +128,78 @@ export const getInstallationStatus = () => {
     isInstalled: isStandalone(),
     isSupported: 'serviceWorker' in navigator,
   };
-};
\ No newline at end of file
+};
+// Follow-up reminders (Web Push)
+// 'off' means supported and allowed but not subscribed on this browser
+export type PushReminderState = 'unsupported' | 'denied' | 'off' | 'on';
+
+// Inlined at build time; the browser needs it to subscribe
+const VAPID_PUBLIC_KEY = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY || '';
+
+const isPushSupported = (): boolean =>
+  FEATURE_FLAGS.PUSH_NOTIFICATIONS &&
+  Boolean(VAPID_PUBLIC_KEY) &&
+  typeof window !== 'undefined' &&
+  'serviceWorker' in navigator &&
+  'PushManager' in window &&
+  'Notification' in window;
+
+const getPushSubscription = async (): Promise<PushSubscription | null> => {
+  const registration = await navigator.serviceWorker.ready;
+  return registration.pushManager.getSubscription();
+};
+
+export const getPushReminderState = async (): Promise<PushReminderState> => {
+  if (!isPushSupported()) return 'unsupported';
+  if (Notification.permission === 'denied') return 'denied';
+
+  return (await getPushSubscription()) ? 'on' : 'off';
+};
+
+// Ask for permission, subscribe this browser and register it for the
+// signed-in officer. Saving an existing subscription again is harmless.
+export const enablePushReminders = async (): Promise<PushReminderState> => {
+  if (!isPushSupported()) return 'unsupported';
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') {
+    return permission === 'denied' ? 'denied' : 'off';
+  }
+
+  const registration = await navigator.serviceWorker.ready;
+  const subscription = await registration.pushManager.getSubscription() ??
+    await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: Uint8Array.from(
+        atob(VAPID_PUBLIC_KEY.replace(/-/g, '+').replace(/_/g, '/')),
+        char => char.charCodeAt(0)
+      ),
+    });
+
+  await apiRequest(API_ENDPOINTS.PUSH_SUBSCRIPTIONS, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(subscription.toJSON()),
+  });
+
+  return 'on';
+};
+
+// Stop reminders on this browser, e.g. before another officer signs in on it
+export const disablePushReminders = async (): Promise<void> => {
+  if (!isPushSupported()) return;
+
+  const subscription = await getPushSubscription();
+  if (!subscription) return;
+
+  await apiRequest(
+    API_ENDPOINTS.PUSH_SUBSCRIPTIONS,
+    {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ endpoint: subscription.endpoint }),
+    },
+    { maxAttempts: 1 }
+  );
+  await subscription.unsubscribe();
+};
@@ -1,4 +1,38 @@
 import { z } from 'zod';
+import { isValidPhone, normalizePhone } from './phone';
+import { isPushServiceEndpoint } from './push-endpoint';
+import {
+  ANALYTICS_CONSTANTS,
+  ANALYTICS_INTERVALS,
+  CALL_OUTCOMES,
+  FOLLOW_UP_CONSTANTS,
+  FOLLOW_UP_OUTCOMES,
+  LEAD_EXPORT_COLUMN_KEYS,
+  LEAD_EXPORT_FORMATS,
+  LEAD_IMPORT_MAX_ROWS,
+  LEAD_LIST_CONSTANTS,
+  LEADERBOARD_METRICS,
+  LEAD_STATUSES,
+  MAX_TARGET_LEAD_COUNT,
+  OFFICER_IMPORT_MAX_ROWS,
+  TARGET_APPLIES_TO,
+  TARGET_PERIODS,
+} from './constants';
+import { addDays, daysBetween, toBusinessDate } from './utils';
+
+// Shared field schemas (used by client forms and API routes)
+// Tanzanian mobile number in any common format (0714276444, +255 714 276 444, ...),
+// output in E.164 (+255714276444)
+export const phoneSchema = z.string()
+  .trim()
+  .min(1, 'Phone number is required')
+  .refine(isValidPhone, 'Enter a valid Tanzanian mobile number (e.g., 0714276444)')
+  .transform(phone => normalizePhone(phone) ?? phone);
+
+// Calendar date in YYYY-MM-DD format
+export const isoDateSchema = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
+  .refine((dateStr) => !isNaN(new Date(dateStr).getTime()), 'Please select a valid date');
 
 // Officer validation schema
 export const officerSchema = z.object({
@@ -30,9 +64,7 @@ export const leadSchema = z.object({
   
   // Lead Details
   leadName: z.string().min(1, 'Lead name is required'),
-  phoneContact: z.string()
-    .length(10, 'Phone number must be exactly 10 digits')
-    .regex(/^0\d{9}$/, 'Phone number must start with 0 and be 10 digits (e.g., 0712345678)'),
+  phoneContact: phoneSchema,
   residence: z.string().min(1, 'Residence is required'),
   interestedPhoneModel: z.string().min(1, 'Interested phone model is required'),
   nextContactDate: z.date().refine(
@@ -60,9 +92,7 @@ export const routeInformationSchema = z.object({
 
 export const leadDetailsSchema = z.object({
   leadName: z.string().min(1, 'Lead name is required'),
-  phoneContact: z.string()
-    .length(10, 'Phone number must be exactly 10 digits')
-    .regex(/^0\d{9}$/, 'Phone number must start with 0 and be 10 digits (e.g., 0712345678)'),
+  phoneContact: phoneSchema,
   residence: z.string().min(1, 'Residence is required'),
   interestedPhoneModel: z.string().min(1, 'Interested phone model is required'),
   nextContactDate: z.string()
@@ -79,6 +109,414 @@ export const leadDetailsSchema = z.object({
 });
 
 // API payload schemas
+
+// ID a device gives a lead it submits (generateSubmissionId), also sent as
+// the Idempotency-Key header so a retried submission is saved once
+export const clientSubmissionIdSchema = z.string()
+  .min(1, 'Submission ID is required')
+  .max(100, 'Submission ID is too long')
+  .regex(/^[A-Za-z0-9_-]+$/, 'Submission ID may only hold letters, digits, "-" and "_"');
+
+// POST /api/leads body. Reuses the client form field rules; the next contact
+// date is not required to be in the future because offline leads can sync days
+// after capture.
+export const leadCreateSchema = z.object({
+  officer_id: z.guid('Invalid officer ID').optional(),
+  area_of_activity: routeInformationSchema.shape.areaOfActivity,
+  ward: routeInformationSchema.shape.ward,
+  gps_latitude: gpsCoordinatesSchema.shape.latitude.nullable().optional(),
+  gps_longitude: gpsCoordinatesSchema.shape.longitude.nullable().optional(),
+  gps_accuracy: gpsCoordinatesSchema.shape.accuracy.nullable().optional(),
+  lead_name: leadDetailsSchema.shape.leadName,
+  phone_contact: leadDetailsSchema.shape.phoneContact,
+  residence: leadDetailsSchema.shape.residence,
+  interested_phone_model: leadDetailsSchema.shape.interestedPhoneModel,
+  next_contact_date: isoDateSchema,
+  client_submission_id: clientSubmissionIdSchema.optional(),
+});
+
+// One row of a lead import, checked with the capture form's rules
+export const leadImportRowSchema = leadDetailsSchema.extend({
+  areaOfActivity: routeInformationSchema.shape.areaOfActivity,
+  ward: routeInformationSchema.shape.ward,
+});
+
+// POST /api/leads/import body. Rows are raw spreadsheet cells; leads with no
+// officer go to default_officer_id. dry_run checks the rows without saving.
+export const leadImportSchema = z.object({
+  rows: z.array(z.object({
+    row: z.number().int().positive(),
+    lead_name: z.string().max(500),
+    phone_contact: z.string().max(100),
+    area_of_activity: z.string().max(500),
+    ward: z.string().max(500),
+    residence: z.string().max(500),
+    interested_phone_model: z.string().max(500),
+    next_contact_date: z.string().max(100),
+    officer: z.string().max(200).optional(),
+  }))
+    .min(1, 'The file has no leads in it')
+    .max(LEAD_IMPORT_MAX_ROWS, `Import at most ${LEAD_IMPORT_MAX_ROWS} leads at a time`),
+  default_officer_id: z.guid('Invalid officer ID').optional(),
+  dealer_id: z.guid('Invalid dealer ID').optional(),
+  source_detail: z.string().trim().max(200, 'Source is too long').optional(),
+  skip_duplicates: z.boolean().optional(),
+  dry_run: z.boolean().optional(),
+});
+
+// PATCH /api/leads/[id] body. Who captured the lead and where stay as captured.
+export const leadUpdateSchema = leadCreateSchema
+  .pick({
+    area_of_activity: true,
+    ward: true,
+    lead_name: true,
+    phone_contact: true,
+    residence: true,
+    interested_phone_model: true,
+    next_contact_date: true,
+  })
+  .partial()
+  .refine(
+    (data) => Object.values(data).some(value => value !== undefined),
+    'Provide at least one field to update'
+  );
+
+// Lead pipeline status
+export const leadStatusSchema = z.enum(LEAD_STATUSES, 'Invalid lead status');
+
+// POST /api/leads/[id]/status body. Lost leads must say why.
+export const leadStatusChangeSchema = z.object({
+  status: leadStatusSchema,
+  lost_reason: z.string().trim().min(1, 'Lost reason is required').max(200, 'Lost reason is too long').optional(),
+  note: z.string().trim().max(500, 'Note is too long').optional(),
+})
+  .refine(
+    (data) => data.status !== 'lost' || Boolean(data.lost_reason),
+    { message: 'Say why the lead was lost', path: ['lost_reason'] }
+  );
+
+// Free-text lead filters
+const leadFilterTextSchema = z.string().trim().max(100, 'Filter is too long').optional();
+
+// Lead list filters, shared by GET /api/leads, the export and the map
+const leadFiltersSchema = z.object({
+  officer_id: z.guid('Invalid officer ID').optional(),
+  dealer_id: z.guid('Invalid dealer ID').optional(),
+  q: leadFilterTextSchema,
+  ward: leadFilterTextSchema,
+  area: leadFilterTextSchema,
+  phone_model: leadFilterTextSchema,
+  status: z.string()
+    .transform(value => value.split(',').map(status => status.trim()).filter(Boolean))
+    .pipe(z.array(leadStatusSchema))
+    .optional(),
+  duplicates: z.enum(['true', 'false'], 'duplicates must be true or false')
+    .transform(value => value === 'true')
+    .optional(),
+  has_gps: z.enum(['true', 'false'], 'has_gps must be true or false')
+    .transform(value => value === 'true')
+    .optional(),
+  ward_mismatch: z.enum(['true', 'false'], 'ward_mismatch must be true or false')
+    .transform(value => value === 'true')
+    .optional(),
+  created_from: isoDateSchema.optional(),
+  created_to: isoDateSchema.optional(),
+  next_contact_from: isoDateSchema.optional(),
+  next_contact_to: isoDateSchema.optional(),
+  sort: z.enum(['created_at', 'next_contact_date', 'lead_name'], 'Invalid sort field').default('created_at'),
+  order: z.enum(['asc', 'desc'], 'Order must be asc or desc').default('desc'),
+});
+
+type LeadDateRanges = Partial<Record<'created_from' | 'created_to' | 'next_contact_from' | 'next_contact_to', string>>;
+
+// Date ranges must not end before they start
+function withLeadDateRanges<T extends z.ZodType<LeadDateRanges>>(schema: T) {
+  return schema
+    .refine(
+      (query) => !query.created_from || !query.created_to || query.created_from <= query.created_to,
+      { message: 'created_from must not be after created_to', path: ['created_to'] }
+    )
+    .refine(
+      (query) => !query.next_contact_from || !query.next_contact_to || query.next_contact_from <= query.next_contact_to,
+      { message: 'next_contact_from must not be after next_contact_to', path: ['next_contact_to'] }
+    );
+}
+
+// GET /api/leads query string
+export const leadListQuerySchema = withLeadDateRanges(leadFiltersSchema.extend({
+  limit: z.coerce.number()
+    .int('Limit must be a whole number')
+    .min(1, 'Limit must be at least 1')
+    .max(LEAD_LIST_CONSTANTS.MAX_PAGE_SIZE, `Limit must be at most ${LEAD_LIST_CONSTANTS.MAX_PAGE_SIZE}`)
+    .default(LEAD_LIST_CONSTANTS.PAGE_SIZE),
+  cursor: z.string().max(500, 'Invalid cursor').optional(),
+}));
+
+// GET /api/leads/export query string: the list filters, a format and the
+// columns to include, comma separated
+export const leadExportQuerySchema = withLeadDateRanges(leadFiltersSchema.extend({
+  format: z.enum(LEAD_EXPORT_FORMATS, 'Format must be csv, xlsx, json or geojson').default('csv'),
+  columns: z.string()
+    .transform(value => value.split(',').map(column => column.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(LEAD_EXPORT_COLUMN_KEYS, 'Unknown export column')).min(1, 'Choose at least one column'))
+    .optional(),
+}));
+
+// GET /api/leads/map query string: the list filters
+export const leadMapQuerySchema = withLeadDateRanges(leadFiltersSchema.omit({ has_gps: true, sort: true, order: true }));
+
+const activityNoteSchema = z.string().trim().max(500, 'Note is too long');
+
+// POST /api/leads/[id]/activities body. Status changes go through the status
+// endpoint, so they cannot be added here.
+export const leadActivityCreateSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('note'),
+    note: activityNoteSchema.min(1, 'Note is required'),
+  }),
+  z.object({
+    type: z.literal('call'),
+    outcome: z.enum(CALL_OUTCOMES, 'Invalid call outcome').optional(),
+    note: activityNoteSchema.optional(),
+  }),
+  z.object({
+    type: z.literal('visit'),
+    note: activityNoteSchema.optional(),
+    gps_latitude: gpsCoordinatesSchema.shape.latitude.optional(),
+    gps_longitude: gpsCoordinatesSchema.shape.longitude.optional(),
+    gps_accuracy: gpsCoordinatesSchema.shape.accuracy.optional(),
+  }).refine(
+    (visit) => (visit.gps_latitude === undefined) === (visit.gps_longitude === undefined),
+    { message: 'Latitude and longitude must be sent together', path: ['gps_longitude'] }
+  ),
+  z.object({
+    type: z.literal('sms'),
+    note: activityNoteSchema.optional(),
+  }),
+], 'Invalid activity type');
+
+// Browser push keys arrive base64url encoded
+const pushKeySchema = z.string().regex(/^[\w-]+=*$/, 'Invalid push subscription key');
+
+// POST /api/push/subscriptions body: PushSubscription.toJSON() from the browser
+export const pushSubscriptionSchema = z.object({
+  endpoint: z.url({ protocol: /^https?$/, error: 'Invalid push endpoint' })
+    .refine(endpoint => isPushServiceEndpoint(endpoint), 'Push endpoint is not a known push service'),
+  keys: z.object({
+    p256dh: pushKeySchema,
+    auth: pushKeySchema,
+  }),
+});
+
+// DELETE /api/push/subscriptions body
+export const pushUnsubscribeSchema = pushSubscriptionSchema.pick({ endpoint: true });
+
+// GET /api/follow-ups query string. Officers and supervisors get their own
+// queue unless they name an officer on their team.
+export const followUpQueueQuerySchema = z.object({
+  officer_id: z.guid('Invalid officer ID').optional(),
+  days: z.coerce.number()
+    .int('Days must be a whole number')
+    .min(1, 'Days must be at least 1')
+    .max(FOLLOW_UP_CONSTANTS.MAX_UPCOMING_DAYS, `Days must be at most ${FOLLOW_UP_CONSTANTS.MAX_UPCOMING_DAYS}`)
+    .default(FOLLOW_UP_CONSTANTS.UPCOMING_DAYS),
+});
+
+// POST /api/leads/[id]/follow-ups body
+export const followUpOutcomeSchema = z.object({
+  outcome: z.enum(FOLLOW_UP_OUTCOMES, 'Invalid follow-up outcome'),
+  note: z.string().trim().max(500, 'Note is too long').optional(),
+  next_contact_date: isoDateSchema.refine(
+    (date) => date >= toBusinessDate(),
+    'Next contact date must be today or later'
+  ),
+});
+
+interface AnalyticsRange {
+  from?: string;
+  to?: string;
+}
+
+// Analytics ranges are Tanzania calendar days and default to the last 30
+// days, ending today
+function withAnalyticsRange<T extends z.ZodType<AnalyticsRange>>(schema: T) {
+  return schema
+    .transform((query) => {
+      const to = query.to ?? toBusinessDate();
+      const from = query.from ?? addDays(to, 1 - ANALYTICS_CONSTANTS.DEFAULT_DAYS);
+      return { ...query, from, to };
+    })
+    .refine((query) => query.from <= query.to, { message: 'from must not be after to', path: ['to'] })
+    .refine(
+      (query) => daysBetween(query.from, query.to) < ANALYTICS_CONSTANTS.MAX_DAYS,
+      { message: `The range can be at most ${ANALYTICS_CONSTANTS.MAX_DAYS} days`, path: ['from'] }
+    );
+}
+
+// GET /api/analytics query string
+export const analyticsQuerySchema = withAnalyticsRange(z.object({
+  from: isoDateSchema.optional(),
+  to: isoDateSchema.optional(),
+  interval: z.enum(ANALYTICS_INTERVALS, 'Interval must be day, week or month').default('day'),
+  dealer_id: z.guid('Invalid dealer ID').optional(),
+  officer_id: z.guid('Invalid officer ID').optional(),
+}));
+
+// GET /api/analytics/leaderboard query string
+export const leaderboardQuerySchema = withAnalyticsRange(z.object({
+  from: isoDateSchema.optional(),
+  to: isoDateSchema.optional(),
+  rank_by: z.enum(LEADERBOARD_METRICS, 'Unknown leaderboard metric').default('leads_captured'),
+  dealer_id: z.guid('Invalid dealer ID').optional(),
+}));
+
+// GET /api/officers/[id]/scorecard query string
+export const scorecardQuerySchema = withAnalyticsRange(z.object({
+  from: isoDateSchema.optional(),
+  to: isoDateSchema.optional(),
+}));
+
+// GET /api/leads/duplicates query string. Platform admins name the dealer to
+// search; everyone else searches their own.
+export const leadDuplicateQuerySchema = z.object({
+  phone: phoneSchema,
+  dealer_id: z.guid('Invalid dealer ID').optional(),
+  exclude_id: z.guid('Invalid lead ID').optional(),
+});
+
+// POST /api/leads/[id]/merge body. The lead in the URL is kept.
+export const leadMergeSchema = z.object({
+  duplicate_id: z.guid('Invalid lead ID'),
+});
+
+// Optional reason recorded with a reassignment
+const assignmentReasonSchema = z.string().trim().max(200, 'Reason is too long').optional();
+
+// POST /api/leads/[id]/assign body
+export const leadAssignSchema = z.object({
+  officer_id: z.guid('Invalid officer ID'),
+  reason: assignmentReasonSchema,
+});
+
+// POST /api/officers/[id]/transfer body: move all of the officer's leads
+export const officerTransferSchema = z.object({
+  to_officer_id: z.guid('Invalid officer ID'),
+  reason: assignmentReasonSchema,
+});
+
+// POST /api/auth/dealer/request-otp body
+export const dealerOtpRequestSchema = z.object({
+  identifier: z.string().trim().min(1, 'Please enter your phone number or email'),
+});
+
+// POST /api/auth/dealer/verify-otp body
+export const dealerOtpVerifySchema = dealerOtpRequestSchema.extend({
+  code: z.string()
+    .trim()
+    .regex(/^\d{6}$/, 'Enter the 6-digit code we sent you'),
+});
+
+// Officer login PIN
+export const officerPinSchema = z.string()
+  .trim()
+  .regex(/^\d{4,6}$/, 'PIN must be 4 to 6 digits');
+
+// Officer account roles
+export const officerRoleSchema = z.enum(['officer', 'supervisor'], 'Role must be officer or supervisor');
+
+// POST /api/officers body. The dealer comes from the session; only platform
+// admins may name another dealer.
+export const officerCreateSchema = z.object({
+  name: z.string().trim().min(1, 'Officer name is required').max(100, 'Officer name is too long'),
+  phone: phoneSchema,
+  pin: officerPinSchema.optional(),
+  role: officerRoleSchema.optional(),
+  supervisor_id: z.guid('Invalid supervisor ID').nullable().optional(),
+  territory: z.string().trim().max(100, 'Territory is too long')
+    .transform(territory => territory || null)
+    .nullable()
+    .optional(),
+  dealer_id: z.guid('Invalid dealer ID').optional(),
+});
+
+// PUT /api/officers/[id] body (pin: null removes the PIN, supervisor_id: null
+// takes the officer off a team)
+export const officerUpdateSchema = officerCreateSchema
+  .omit({ dealer_id: true })
+  .extend({ pin: officerPinSchema.nullable() })
+  .partial()
+  .refine(
+    (data) => Object.values(data).some(value => value !== undefined),
+    'Provide a name, phone number, PIN, role, supervisor or territory to update'
+  );
+
+// One row of an officer import, checked on its own so each row gets its own errors
+export const officerImportRowSchema = officerCreateSchema.pick({ name: true, phone: true, territory: true });
+
+// POST /api/officers/import body. Rows are raw spreadsheet cells; dry_run
+// checks them without saving anything.
+export const officerImportSchema = z.object({
+  rows: z.array(z.object({
+    row: z.number().int().positive(),
+    name: z.string().max(500),
+    phone: z.string().max(100),
+    territory: z.string().max(500).optional(),
+  }))
+    .min(1, 'The file has no officers in it')
+    .max(OFFICER_IMPORT_MAX_ROWS, `Import at most ${OFFICER_IMPORT_MAX_ROWS} officers at a time`),
+  dealer_id: z.guid('Invalid dealer ID').optional(),
+  dry_run: z.boolean().optional(),
+});
+
+// POST /api/officers/[id]/deactivate body
+export const officerDeactivateSchema = z.object({
+  reason: z.string()
+    .trim()
+    .min(1, 'Say why the officer is being deactivated')
+    .max(200, 'Reason is too long'),
+});
+
+// GET /api/targets query string: progress in the periods containing the
+// date, by default today in Tanzania
+export const targetQuerySchema = z.object({
+  date: isoDateSchema.optional(),
+  dealer_id: z.guid('Invalid dealer ID').optional(),
+  officer_id: z.guid('Invalid officer ID').optional(),
+});
+
+// POST /api/targets body
+export const targetSetSchema = z.object({
+  officer_id: z.guid('Invalid officer ID'),
+  applies_to: z.enum(TARGET_APPLIES_TO, 'A target applies to an officer or a team').default('officer'),
+  period: z.enum(TARGET_PERIODS, 'Period must be day, week or month'),
+  lead_count: z.coerce.number()
+    .int('Target must be a whole number')
+    .min(1, 'Target must be at least 1 lead')
+    .max(MAX_TARGET_LEAD_COUNT, `Target can be at most ${MAX_TARGET_LEAD_COUNT} leads`),
+});
+
+// POST /api/auth/officer/login body
+export const officerLoginSchema = z.object({
+  phone: phoneSchema,
+  pin: officerPinSchema.optional(),
+  code: dealerOtpVerifySchema.shape.code.optional(),
+});
+
+// POST /api/errors body
+export const errorReportPayloadSchema = z.object({
+  id: z.string().min(1),
+  timestamp: z.string(),
+  severity: z.enum(['low', 'medium', 'high', 'critical']),
+  error: z.object({
+    name: z.string(),
+    message: z.string(),
+    stack: z.string().optional(),
+  }),
+  context: z.record(z.string(), z.unknown()),
+  tags: z.array(z.string()).default([]),
+  breadcrumbs: z.array(z.unknown()).default([]),
+});
+
 export const n8nLeadPayloadSchema = z.object({
   officer: z.object({
     id: z.string(),
@@ -172,6 +610,12 @@ export const POPULAR_PHONE_MODELS = [
 export type OfficerFormData = z.infer<typeof officerSelectionSchema>;
 export type RouteFormData = z.infer<typeof routeInformationSchema>;
 export type LeadDetailsFormData = z.input<typeof leadDetailsSchema>; // Use z.input to get the input type (before transform)
+export type LeadCreateData = z.infer<typeof leadCreateSchema>;
+export type OfficerCreateData = z.infer<typeof officerCreateSchema>;
+export type OfficerUpdateData = z.infer<typeof officerUpdateSchema>;
+export type DealerOtpRequestData = z.infer<typeof dealerOtpRequestSchema>;
+export type DealerOtpVerifyData = z.infer<typeof dealerOtpVerifySchema>;
+export type OfficerLoginData = z.infer<typeof officerLoginSchema>;
 export type N8nLeadPayloadData = z.infer<typeof n8nLeadPayloadSchema>;
 export type SyncQueueItemData = z.infer<typeof syncQueueItemSchema>;
 export type AppErrorData = z.infer<typeof appErrorSchema>;
\ No newline at end of file
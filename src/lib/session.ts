@@ -0,0 +1,125 @@
+/**
+ * Signed session cookies (server only)
+ * Sessions are an HMAC-SHA256 signed JSON payload stored in an httpOnly cookie
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { config } from './config';
+import { AUTH_CONSTANTS } from './constants';
+import { Session, SessionRole } from '@/types';
+
+const DEV_SESSION_SECRET = 'leadgen-dev-session-secret';
+
+let warnedAboutDevSecret = false;
+
+/**
+ * Secret used to sign sessions and hash one-time codes
+ */
+export function getSessionSecret(): string {
+  if (config.auth.sessionSecret) {
+    return config.auth.sessionSecret;
+  }
+
+  if (config.app.environment === 'production') {
+    throw new Error('SESSION_SECRET must be set in production');
+  }
+
+  if (!warnedAboutDevSecret) {
+    console.warn('SESSION_SECRET is not set, using the development secret');
+    warnedAboutDevSecret = true;
+  }
+
+  return DEV_SESSION_SECRET;
+}
+
+function sign(value: string): string {
+  return createHmac('sha256', getSessionSecret()).update(value).digest('base64url');
+}
+
+/**
+ * Build a new session for a signed-in user
+ */
+export function createSession(role: SessionRole, sub: string, dealerId: string): Session {
+  const iat = Math.floor(Date.now() / 1000);
+
+  return {
+    sub,
+    role,
+    dealerId,
+    iat,
+    exp: iat + AUTH_CONSTANTS.SESSION_MAX_AGE,
+  };
+}
+
+/**
+ * Serialize and sign a session
+ */
+export function encodeSession(session: Session): string {
+  const payload = Buffer.from(JSON.stringify(session)).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * Verify a signed session token, returning null if it is tampered or expired
+ */
+export function decodeSession(token: string): Session | null {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const session = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as Session;
+
+    if (!session.sub || !session.role || !session.dealerId || !session.exp) {
+      return null;
+    }
+
+    if (session.exp * 1000 <= Date.now()) {
+      return null;
+    }
+
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read the session from the request cookie
+ */
+export function getSession(request: NextRequest): Session | null {
+  const token = request.cookies.get(AUTH_CONSTANTS.SESSION_COOKIE)?.value;
+  return token ? decodeSession(token) : null;
+}
+
+/**
+ * Attach the session cookie to a response
+ */
+export function setSessionCookie(response: NextResponse, session: Session): void {
+  response.cookies.set(AUTH_CONSTANTS.SESSION_COOKIE, encodeSession(session), {
+    httpOnly: true,
+    secure: config.app.environment === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: session.exp - Math.floor(Date.now() / 1000),
+  });
+}
+
+/**
+ * Expire the session cookie
+ */
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(AUTH_CONSTANTS.SESSION_COOKIE, '', {
+    httpOnly: true,
+    secure: config.app.environment === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: 0,
+  });
+}
@@ -0,0 +1,96 @@
+/**
+ * Supabase clients for API routes (server only)
+ * Requests run as the signed-in user: each client carries a short-lived JWT
+ * whose claims the row level security policies in supabase-schema.sql check.
+ * The service role client bypasses those policies and is reserved for login
+ * lookups that happen before there is a session, and for scheduled jobs.
+ */
+
+import { createHmac } from 'crypto';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { config } from './config';
+import { supabase as anonClient } from './supabase';
+import { Session } from '@/types';
+
+// Lifetime of the per-request database token, in seconds
+const DATABASE_TOKEN_TTL = 300;
+
+const CLIENT_OPTIONS = {
+  auth: { persistSession: false, autoRefreshToken: false },
+};
+
+let serviceClient: SupabaseClient | null = null;
+const warnedAbout = new Set<string>();
+
+// Without the server keys, development falls back to the anon client, which
+// only works while the database still has the permissive development policies
+function fallbackClient(variable: string): SupabaseClient {
+  if (config.app.environment === 'production') {
+    throw new Error(`${variable} must be set in production`);
+  }
+
+  if (!warnedAbout.has(variable)) {
+    console.warn(`${variable} is not set, using the anon Supabase client`);
+    warnedAbout.add(variable);
+  }
+
+  return anonClient;
+}
+
+function base64url(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+/**
+ * Sign the database token for a session. The claims mirror the session:
+ * app_role and dealer_id drive the policies, sub is the dealer or officer ID.
+ */
+export function createDatabaseToken(session: Session, secret: string): string {
+  const iat = Math.floor(Date.now() / 1000);
+  const header = base64url({ alg: 'HS256', typ: 'JWT' });
+  const payload = base64url({
+    sub: session.sub,
+    role: 'authenticated',
+    aud: 'authenticated',
+    app_role: session.role,
+    dealer_id: session.dealerId,
+    iat,
+    exp: Math.min(iat + DATABASE_TOKEN_TTL, session.exp),
+  });
+  const signature = createHmac('sha256', secret)
+    .update(`${header}.${payload}`)
+    .digest('base64url');
+
+  return `${header}.${payload}.${signature}`;
+}
+
+/**
+ * Client that reads and writes as the session's user, subject to RLS
+ */
+export function getSessionClient(session: Session): SupabaseClient {
+  if (!config.supabase.jwtSecret) {
+    return fallbackClient('SUPABASE_JWT_SECRET');
+  }
+
+  const token = createDatabaseToken(session, config.supabase.jwtSecret);
+
+  return createClient(config.supabase.url, config.supabase.anonKey, {
+    ...CLIENT_OPTIONS,
+    global: { headers: { Authorization: `Bearer ${token}` } },
+  });
+}
+
+/**
+ * Client that bypasses RLS, for login, one-time code lookups and scheduled jobs only
+ */
+export function getServiceClient(): SupabaseClient {
+  if (!config.supabase.serviceRoleKey) {
+    return fallbackClient('SUPABASE_SERVICE_ROLE_KEY');
+  }
+
+  if (!serviceClient) {
+    serviceClient = createClient(config.supabase.url, config.supabase.serviceRoleKey, CLIENT_OPTIONS);
+  }
+
+  return serviceClient;
+}
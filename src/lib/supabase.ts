@@ -19,6 +19,7 @@ export interface Database {
           name: string;
           email: string;
           company: string;
+          role: 'dealer' | 'platform_admin';
           created_at: string;
           updated_at: string;
         };
@@ -27,6 +28,7 @@ export interface Database {
           name: string;
           email: string;
           company: string;
+          role?: 'dealer' | 'platform_admin';
           created_at?: string;
           updated_at?: string;
         };
@@ -35,6 +37,7 @@ export interface Database {
           name?: string;
           email?: string;
           company?: string;
+          role?: 'dealer' | 'platform_admin';
           updated_at?: string;
         };
       };
@@ -44,6 +47,15 @@ export interface Database {
           name: string;
           phone: string;
           dealer_id: string;
+          pin_hash: string | null;
+          pin_failed_attempts: number;
+          pin_locked_at: string | null;
+          role: 'officer' | 'supervisor';
+          supervisor_id: string | null;
+          active: boolean;
+          deactivated_at: string | null;
+          deactivation_reason: string | null;
+          territory: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -52,6 +64,15 @@ export interface Database {
           name: string;
           phone: string;
           dealer_id: string;
+          pin_hash?: string | null;
+          pin_failed_attempts?: number;
+          pin_locked_at?: string | null;
+          role?: 'officer' | 'supervisor';
+          supervisor_id?: string | null;
+          active?: boolean;
+          deactivated_at?: string | null;
+          deactivation_reason?: string | null;
+          territory?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -60,6 +81,15 @@ export interface Database {
           name?: string;
           phone?: string;
           dealer_id?: string;
+          pin_hash?: string | null;
+          pin_failed_attempts?: number;
+          pin_locked_at?: string | null;
+          role?: 'officer' | 'supervisor';
+          supervisor_id?: string | null;
+          active?: boolean;
+          deactivated_at?: string | null;
+          deactivation_reason?: string | null;
+          territory?: string | null;
           updated_at?: string;
         };
       };
@@ -67,32 +97,69 @@ export interface Database {
         Row: {
           id: string;
           officer_id: string;
+          captured_by: string | null;
           area_of_activity: string;
           ward: string;
           gps_latitude: number | null;
           gps_longitude: number | null;
           gps_accuracy: number | null;
+          gps_region: string | null;
+          gps_district: string | null;
+          gps_ward: string | null;
+          ward_mismatch: boolean;
           lead_name: string;
           phone_contact: string;
           residence: string;
           interested_phone_model: string;
           next_contact_date: string;
+          client_submission_id: string | null;
+          status: string;
+          lost_reason: string | null;
+          status_changed_at: string | null;
+          last_follow_up_at: string | null;
+          last_follow_up_outcome: string | null;
+          phone_normalized: string;
+          duplicate_of_id: string | null;
+          merged_into_id: string | null;
+          merged_at: string | null;
+          merged_by: string | null;
+          deleted_at: string | null;
+          source: 'app' | 'import';
+          source_detail: string | null;
           created_at: string;
           updated_at: string;
         };
         Insert: {
           id?: string;
           officer_id: string;
+          captured_by?: string | null;
           area_of_activity: string;
           ward: string;
           gps_latitude?: number | null;
           gps_longitude?: number | null;
           gps_accuracy?: number | null;
+          gps_region?: string | null;
+          gps_district?: string | null;
+          gps_ward?: string | null;
+          ward_mismatch?: boolean;
           lead_name: string;
           phone_contact: string;
           residence: string;
           interested_phone_model: string;
           next_contact_date: string;
+          client_submission_id?: string | null;
+          status?: string;
+          lost_reason?: string | null;
+          status_changed_at?: string | null;
+          last_follow_up_at?: string | null;
+          last_follow_up_outcome?: string | null;
+          duplicate_of_id?: string | null;
+          merged_into_id?: string | null;
+          merged_at?: string | null;
+          merged_by?: string | null;
+          deleted_at?: string | null;
+          source?: 'app' | 'import';
+          source_detail?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -104,14 +171,197 @@ export interface Database {
           gps_latitude?: number | null;
           gps_longitude?: number | null;
           gps_accuracy?: number | null;
+          gps_region?: string | null;
+          gps_district?: string | null;
+          gps_ward?: string | null;
+          ward_mismatch?: boolean;
           lead_name?: string;
           phone_contact?: string;
           residence?: string;
           interested_phone_model?: string;
           next_contact_date?: string;
+          status?: string;
+          lost_reason?: string | null;
+          status_changed_at?: string | null;
+          last_follow_up_at?: string | null;
+          last_follow_up_outcome?: string | null;
+          duplicate_of_id?: string | null;
+          merged_into_id?: string | null;
+          merged_at?: string | null;
+          merged_by?: string | null;
+          deleted_at?: string | null;
+          source?: 'app' | 'import';
+          source_detail?: string | null;
           updated_at?: string;
         };
       };
+      lead_status_history: {
+        Row: {
+          id: string;
+          lead_id: string;
+          from_status: string | null;
+          to_status: string;
+          lost_reason: string | null;
+          note: string | null;
+          changed_by: string;
+          changed_by_role: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          lead_id: string;
+          from_status?: string | null;
+          to_status: string;
+          lost_reason?: string | null;
+          note?: string | null;
+          changed_by: string;
+          changed_by_role: string;
+          created_at?: string;
+        };
+        Update: never;
+      };
+      lead_follow_ups: {
+        Row: {
+          id: string;
+          lead_id: string;
+          outcome: string;
+          note: string | null;
+          previous_contact_date: string | null;
+          next_contact_date: string;
+          logged_by: string;
+          logged_by_role: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          lead_id: string;
+          outcome: string;
+          note?: string | null;
+          previous_contact_date?: string | null;
+          next_contact_date: string;
+          logged_by: string;
+          logged_by_role: string;
+          created_at?: string;
+        };
+        Update: never;
+      };
+      lead_activities: {
+        Row: {
+          id: string;
+          lead_id: string;
+          type: string;
+          note: string | null;
+          outcome: string | null;
+          from_status: string | null;
+          to_status: string | null;
+          gps_latitude: number | null;
+          gps_longitude: number | null;
+          gps_accuracy: number | null;
+          from_officer_id: string | null;
+          to_officer_id: string | null;
+          created_by: string;
+          created_by_role: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          lead_id: string;
+          type: string;
+          note?: string | null;
+          outcome?: string | null;
+          from_status?: string | null;
+          to_status?: string | null;
+          gps_latitude?: number | null;
+          gps_longitude?: number | null;
+          gps_accuracy?: number | null;
+          from_officer_id?: string | null;
+          to_officer_id?: string | null;
+          created_by: string;
+          created_by_role: string;
+          created_at?: string;
+        };
+        Update: never;
+      };
+      lead_assignments: {
+        Row: {
+          id: string;
+          lead_id: string;
+          from_officer_id: string | null;
+          to_officer_id: string;
+          reason: string | null;
+          changed_by: string;
+          changed_by_role: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          lead_id: string;
+          from_officer_id?: string | null;
+          to_officer_id: string;
+          reason?: string | null;
+          changed_by: string;
+          changed_by_role: string;
+          created_at?: string;
+        };
+        Update: never;
+      };
+      push_subscriptions: {
+        Row: {
+          id: string;
+          officer_id: string;
+          endpoint: string;
+          p256dh: string;
+          auth: string;
+          user_agent: string | null;
+          last_reminded_on: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          officer_id: string;
+          endpoint: string;
+          p256dh: string;
+          auth: string;
+          user_agent?: string | null;
+          last_reminded_on?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          p256dh?: string;
+          auth?: string;
+          user_agent?: string | null;
+          last_reminded_on?: string | null;
+          updated_at?: string;
+        };
+      };
+      otp_codes: {
+        Row: {
+          id: string;
+          identifier: string;
+          purpose: string;
+          code_hash: string;
+          attempts: number;
+          expires_at: string;
+          consumed_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          identifier: string;
+          purpose: string;
+          code_hash: string;
+          attempts?: number;
+          expires_at: string;
+          consumed_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          attempts?: number;
+          consumed_at?: string | null;
+        };
+      };
     };
   };
 }
\ No newline at end of file
@@ -0,0 +1,350 @@
+/**
+ * Offline lead outbox
+ * Queues lead submissions in IndexedDB and drains them to the API in batches
+ */
+
+import { apiRequest, ApiClientError, RetryConfig } from './api-client';
+import { getDatabase } from './db';
+import {
+  API_ENDPOINTS,
+  DEFAULT_RETRY_CONFIG,
+  IDEMPOTENCY_HEADER,
+  SYNC_CONSTANTS,
+  SYNC_STATUS,
+} from './constants';
+import { Lead, LeadPayload, LocalLead, SyncQueueItem } from '@/types';
+
+export interface SyncResult {
+  synced: number;
+  failed: number;
+  pending: number;
+}
+
+export interface SyncSummary {
+  pending: number;
+  failed: number;
+}
+
+type PushOutcome = 'synced' | 'rescheduled' | 'failed' | 'offline' | 'signed_out';
+
+let activeSync: Promise<SyncResult> | null = null;
+let rerunRequested = false;
+
+/**
+ * Calculate the backoff delay before the next attempt of a queue item
+ */
+export function getRetryDelay(attempts: number): number {
+  const delay =
+    SYNC_CONSTANTS.RETRY_DELAY_BASE *
+    Math.pow(DEFAULT_RETRY_CONFIG.backoffMultiplier, Math.max(0, attempts - 1));
+  return Math.min(delay, DEFAULT_RETRY_CONFIG.maxDelay);
+}
+
+/**
+ * POST a lead with its submission ID as the idempotency key, so a request
+ * that is sent again saves the lead only once
+ */
+async function sendLead(payload: LeadPayload, retryConfig?: Partial<RetryConfig>): Promise<Lead> {
+  return apiRequest<Lead>(
+    API_ENDPOINTS.LEADS,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        [IDEMPOTENCY_HEADER]: payload.client_submission_id,
+      },
+      body: JSON.stringify(payload),
+    },
+    retryConfig
+  );
+}
+
+/**
+ * Send a lead straight to the API, for browsers without IndexedDB (some
+ * private browsing modes). Nothing is kept on the device, so a lead that
+ * cannot be sent is an error for the form to show.
+ */
+export async function sendLeadDirectly(payload: LeadPayload): Promise<LocalLead> {
+  const created = await sendLead(payload);
+  const now = new Date().toISOString();
+
+  return {
+    id: payload.client_submission_id,
+    payload,
+    syncStatus: SYNC_STATUS.SYNCED,
+    serverId: created.id,
+    createdAt: now,
+    syncedAt: now,
+  };
+}
+
+/**
+ * Store a lead locally and add it to the sync queue.
+ * The client submission ID is the local key, so queueing the same
+ * submission twice returns the existing record instead of a duplicate.
+ */
+export async function queueLead(payload: LeadPayload): Promise<LocalLead> {
+  const db = getDatabase();
+  const now = new Date();
+
+  const lead: LocalLead = {
+    id: payload.client_submission_id,
+    payload,
+    syncStatus: SYNC_STATUS.PENDING,
+    createdAt: now.toISOString(),
+  };
+
+  return db.transaction('rw', db.leads, db.syncQueue, async () => {
+    const existing = await db.leads.get(lead.id);
+    if (existing && existing.syncStatus !== SYNC_STATUS.FAILED) {
+      return existing;
+    }
+
+    await db.leads.put(lead);
+    await db.syncQueue.put({
+      id: lead.id,
+      leadId: lead.id,
+      attempts: 0,
+      nextAttemptAt: now.getTime(),
+    });
+
+    return lead;
+  });
+}
+
+/**
+ * Get a locally stored lead
+ */
+export async function getLocalLead(id: string): Promise<LocalLead | undefined> {
+  return getDatabase().leads.get(id);
+}
+
+/**
+ * Remove a local lead and its queue entry
+ */
+export async function discardLocalLead(id: string): Promise<void> {
+  const db = getDatabase();
+
+  await db.transaction('rw', db.leads, db.syncQueue, async () => {
+    await db.leads.delete(id);
+    await db.syncQueue.where('leadId').equals(id).delete();
+  });
+}
+
+/**
+ * Count leads waiting to sync and leads that failed permanently
+ */
+export async function getSyncSummary(): Promise<SyncSummary> {
+  const db = getDatabase();
+
+  const [pending, failed] = await Promise.all([
+    db.leads.where('syncStatus').equals(SYNC_STATUS.PENDING).count(),
+    db.leads.where('syncStatus').equals(SYNC_STATUS.FAILED).count(),
+  ]);
+
+  return { pending, failed };
+}
+
+/**
+ * Put failed leads back in the queue for another round of attempts
+ */
+export async function retryFailedLeads(): Promise<number> {
+  const db = getDatabase();
+  const now = Date.now();
+
+  return db.transaction('rw', db.leads, db.syncQueue, async () => {
+    const failed = await db.leads
+      .where('syncStatus')
+      .equals(SYNC_STATUS.FAILED)
+      .toArray();
+
+    for (const lead of failed) {
+      await db.leads.update(lead.id, {
+        syncStatus: SYNC_STATUS.PENDING,
+        lastError: undefined,
+      });
+      await db.syncQueue.put({
+        id: lead.id,
+        leadId: lead.id,
+        attempts: 0,
+        nextAttemptAt: now,
+      });
+    }
+
+    return failed.length;
+  });
+}
+
+/**
+ * Make every queued lead due now, e.g. after an officer signs in
+ */
+export async function releaseQueuedLeads(): Promise<void> {
+  const now = Date.now();
+  await getDatabase().syncQueue.toCollection().modify({ nextAttemptAt: now });
+}
+
+/**
+ * Send a single queue item to the API
+ */
+async function pushQueueItem(item: SyncQueueItem): Promise<PushOutcome> {
+  const db = getDatabase();
+  const lead = await db.leads.get(item.leadId);
+
+  if (!lead) {
+    await db.syncQueue.delete(item.id);
+    return 'failed';
+  }
+
+  const attemptedAt = new Date();
+
+  try {
+    // The queue owns retries, so the client makes a single attempt
+    const created = await sendLead(lead.payload, { maxAttempts: 1 });
+
+    await db.transaction('rw', db.leads, db.syncQueue, async () => {
+      await db.leads.update(lead.id, {
+        syncStatus: SYNC_STATUS.SYNCED,
+        serverId: created.id,
+        syncedAt: new Date().toISOString(),
+        lastError: undefined,
+      });
+      await db.syncQueue.delete(item.id);
+    });
+
+    return 'synced';
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Sync failed';
+
+    // Lost connectivity is not counted as an attempt
+    if (error instanceof ApiClientError && error.isNetworkError) {
+      await db.syncQueue.update(item.id, {
+        nextAttemptAt: attemptedAt.getTime() + getRetryDelay(item.attempts + 1),
+        lastAttemptAt: attemptedAt.toISOString(),
+      });
+      await db.leads.update(lead.id, { lastError: message });
+      return 'offline';
+    }
+
+    // Session problems are not the lead's fault: a signed-out device waits for
+    // the next login, and a lead captured by another officer waits for theirs.
+    // A deactivated officer's leads will never be accepted, so they fail below.
+    if (
+      error instanceof ApiClientError &&
+      (error.status === 401 || error.status === 403) &&
+      error.code !== 'OFFICER_INACTIVE'
+    ) {
+      await db.syncQueue.update(item.id, {
+        nextAttemptAt: attemptedAt.getTime() + SYNC_CONSTANTS.SYNC_INTERVAL,
+        lastAttemptAt: attemptedAt.toISOString(),
+      });
+      await db.leads.update(lead.id, { lastError: message });
+      return error.status === 401 ? 'signed_out' : 'rescheduled';
+    }
+
+    const attempts = item.attempts + 1;
+    const isRetryable =
+      error instanceof ApiClientError ? error.isRetryable : true;
+
+    if (!isRetryable || attempts >= SYNC_CONSTANTS.MAX_RETRY_ATTEMPTS) {
+      await db.transaction('rw', db.leads, db.syncQueue, async () => {
+        await db.leads.update(lead.id, {
+          syncStatus: SYNC_STATUS.FAILED,
+          lastError: message,
+        });
+        await db.syncQueue.delete(item.id);
+      });
+      return 'failed';
+    }
+
+    await db.transaction('rw', db.leads, db.syncQueue, async () => {
+      await db.syncQueue.update(item.id, {
+        attempts,
+        nextAttemptAt: attemptedAt.getTime() + getRetryDelay(attempts),
+        lastAttemptAt: attemptedAt.toISOString(),
+      });
+      await db.leads.update(lead.id, { lastError: message });
+    });
+
+    return 'rescheduled';
+  }
+}
+
+/**
+ * Remove synced leads that are older than the retention window
+ */
+async function pruneSyncedLeads(): Promise<void> {
+  const db = getDatabase();
+  const cutoff = new Date(Date.now() - SYNC_CONSTANTS.SYNCED_RETENTION).toISOString();
+
+  await db.leads
+    .where('syncStatus')
+    .equals(SYNC_STATUS.SYNCED)
+    .filter(lead => (lead.syncedAt || lead.createdAt) < cutoff)
+    .delete();
+}
+
+/**
+ * Drain due queue items in batches until the queue is empty, the network
+ * drops or the session ends
+ */
+async function drainQueue(): Promise<SyncResult> {
+  const db = getDatabase();
+  let synced = 0;
+  let failed = 0;
+  let offline = false;
+
+  while (!offline) {
+    const batch = await db.syncQueue
+      .where('nextAttemptAt')
+      .belowOrEqual(Date.now())
+      .limit(SYNC_CONSTANTS.BATCH_SIZE)
+      .toArray();
+
+    if (batch.length === 0) break;
+
+    for (const item of batch) {
+      const outcome = await pushQueueItem(item);
+
+      if (outcome === 'synced') synced++;
+      if (outcome === 'failed') failed++;
+      if (outcome === 'offline' || outcome === 'signed_out') {
+        offline = true;
+        break;
+      }
+    }
+  }
+
+  await pruneSyncedLeads();
+
+  const summary = await getSyncSummary();
+  return { synced, failed, pending: summary.pending };
+}
+
+/**
+ * Sync pending leads. Concurrent callers share the running sync, which runs
+ * once more before resolving so that newly queued leads are picked up.
+ */
+export function syncPendingLeads(): Promise<SyncResult> {
+  if (activeSync) {
+    rerunRequested = true;
+    return activeSync;
+  }
+
+  activeSync = (async () => {
+    const total: SyncResult = { synced: 0, failed: 0, pending: 0 };
+
+    do {
+      rerunRequested = false;
+      const result = await drainQueue();
+      total.synced += result.synced;
+      total.failed += result.failed;
+      total.pending = result.pending;
+    } while (rerunRequested);
+
+    return total;
+  })().finally(() => {
+    activeSync = null;
+  });
+
+  return activeSync;
+}
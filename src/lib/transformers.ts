@@ -1,4 +1,4 @@
-import { Lead, Officer } from '@/types';
+import { Lead, LeadPayload, Officer } from '@/types';
 
 /**
  * Transform lead data to webhook payload format (simplified for MVP)
@@ -40,6 +40,7 @@ export function transformLeadToWebhookPayload(
  * Transform form data to Lead object for Supabase
  */
 export function transformFormDataToLead(
+  submissionId: string,
   officerId: string,
   routeData: {
     areaOfActivity: string;
@@ -57,7 +58,7 @@ export function transformFormDataToLead(
     interestedPhoneModel: string;
     nextContactDate: Date;
   }
-) {
+): LeadPayload {
   // Ensure nextContactDate is a Date object and format it properly
   const nextContactDate = leadData.nextContactDate instanceof Date 
     ? leadData.nextContactDate 
@@ -75,6 +76,7 @@ export function transformFormDataToLead(
     residence: leadData.residence,
     interested_phone_model: leadData.interestedPhoneModel,
     next_contact_date: nextContactDate.toISOString().split('T')[0],
+    client_submission_id: submissionId,
   };
 }
 
@@ -106,40 +108,6 @@ function getDeviceInfo(): string {
   return `${deviceType} - ${browser} - ${platform} - ${language}`;
 }
 
-/**
- * Sanitize phone number for storage and API calls
- */
-export function sanitizePhoneNumber(phone: string): string {
-  // Remove all non-digit characters except +
-  const cleaned = phone.replace(/[^\d+]/g, '');
-  
-  // Ensure it starts with + if it doesn't already
-  if (!cleaned.startsWith('+') && cleaned.length > 0) {
-    return `+${cleaned}`;
-  }
-  
-  return cleaned;
-}
-
-/**
- * Format phone number for display
- */
-export function formatPhoneForDisplay(phone: string): string {
-  const cleaned = phone.replace(/\D/g, '');
-  
-  if (cleaned.length >= 10) {
-    // Format as +XXX XXX XXX XXX
-    const countryCode = cleaned.slice(0, 3);
-    const area = cleaned.slice(3, 6);
-    const first = cleaned.slice(6, 9);
-    const second = cleaned.slice(9, 12);
-    
-    return `+${countryCode} ${area} ${first} ${second}`.trim();
-  }
-  
-  return phone;
-}
-
 /**
  * Validate GPS coordinates
  */
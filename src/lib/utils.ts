@@ -1,27 +1,27 @@
 import { type ClassValue, clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
 import { ErrorType, AppError } from '@/types';
+import { BUSINESS_TIME_ZONE } from './constants';
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
-export function formatPhoneNumber(phone: string): string {
-  // Remove all non-digit characters
-  const digits = phone.replace(/\D/g, '');
-  
-  // Format as +XXX XXX XXX XXX
-  if (digits.length >= 10) {
-    return `+${digits.slice(0, 3)} ${digits.slice(3, 6)} ${digits.slice(6, 9)} ${digits.slice(9, 12)}`;
-  }
-  
-  return phone;
-}
-
 export function generateId(): string {
   return Math.random().toString(36).substring(2) + Date.now().toString(36);
 }
 
+/**
+ * Generate a globally unique ID for idempotent submissions
+ */
+export function generateSubmissionId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+
+  return `${generateId()}-${generateId()}`;
+}
+
 export function isOnline(): boolean {
   return typeof navigator !== 'undefined' ? navigator.onLine : true;
 }
@@ -110,6 +110,32 @@ export async function retry<T>(
   throw lastError!;
 }
 
+/**
+ * Calendar date (YYYY-MM-DD) in Tanzania, optionally some days later or earlier
+ */
+export function toBusinessDate(date: Date = new Date(), addDays = 0): string {
+  const shifted = new Date(date.getTime() + addDays * 24 * 60 * 60 * 1000);
+  // en-CA formats dates as YYYY-MM-DD
+  return shifted.toLocaleDateString('en-CA', { timeZone: BUSINESS_TIME_ZONE });
+}
+
+/**
+ * A calendar date (YYYY-MM-DD) some days later or earlier
+ */
+export function addDays(date: string, days: number): string {
+  const time = new Date(`${date}T00:00:00Z`).getTime();
+  return new Date(time + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+/**
+ * Days from one calendar date (YYYY-MM-DD) to another
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round(
+    (new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / (24 * 60 * 60 * 1000)
+  );
+}
+
 /**
  * Format file size in human readable format
  */
@@ -0,0 +1,203 @@
+/**
+ * Ward lookup from GPS coordinates, entirely offline
+ * The bundled boundary file (WARD_BOUNDARIES_PATH, built by
+ * scripts/build-ward-boundaries.ts) holds one GeoJSON feature per area: a
+ * ward named with its district and region, or a district or whole region
+ * where finer boundaries are not available. A point is matched to the most
+ * detailed area that contains it. Used in the browser by the capture form and
+ * on the server when a lead is saved.
+ */
+
+// district and ward are null for areas known only to that level
+export interface WardLocation {
+  region: string;
+  district: string | null;
+  ward: string | null;
+}
+
+// GeoJSON rings are [longitude, latitude] pairs; the first ring of a polygon
+// is its outline and any others are holes
+type Ring = number[][];
+type PolygonCoordinates = Ring[];
+
+export interface WardFeature {
+  type: 'Feature';
+  properties: WardLocation;
+  geometry:
+    | { type: 'Polygon'; coordinates: PolygonCoordinates }
+    | { type: 'MultiPolygon'; coordinates: PolygonCoordinates[] };
+}
+
+export interface WardBoundaries {
+  type: 'FeatureCollection';
+  features: WardFeature[];
+}
+
+interface IndexedWard {
+  location: WardLocation;
+  polygons: PolygonCoordinates[];
+  minLongitude: number;
+  maxLongitude: number;
+  minLatitude: number;
+  maxLatitude: number;
+}
+
+// Areas with their bounding boxes, so most are ruled out without a polygon
+// test; wards come first, then districts, then regions
+export interface WardIndex {
+  wards: IndexedWard[];
+}
+
+function detail({ district, ward }: WardLocation): number {
+  return ward ? 2 : district ? 1 : 0;
+}
+
+export function indexWardBoundaries(boundaries: WardBoundaries): WardIndex {
+  const wards = boundaries.features
+    .filter(feature => feature.geometry && feature.properties?.region)
+    .map(feature => {
+      const polygons = feature.geometry.type === 'Polygon'
+        ? [feature.geometry.coordinates]
+        : feature.geometry.coordinates;
+      const ward: IndexedWard = {
+        location: feature.properties,
+        polygons,
+        minLongitude: Infinity,
+        maxLongitude: -Infinity,
+        minLatitude: Infinity,
+        maxLatitude: -Infinity,
+      };
+
+      for (const [longitude, latitude] of polygons.flatMap(polygon => polygon[0] ?? [])) {
+        ward.minLongitude = Math.min(ward.minLongitude, longitude);
+        ward.maxLongitude = Math.max(ward.maxLongitude, longitude);
+        ward.minLatitude = Math.min(ward.minLatitude, latitude);
+        ward.maxLatitude = Math.max(ward.maxLatitude, latitude);
+      }
+
+      return ward;
+    })
+    .sort((a, b) => detail(b.location) - detail(a.location));
+
+  return { wards };
+}
+
+// Even-odd ray casting: a point inside a hole crosses the outline and the hole
+function ringContains(ring: Ring, longitude: number, latitude: number): boolean {
+  let inside = false;
+
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+
+    if ((yi > latitude) !== (yj > latitude) && longitude < ((xj - xi) * (latitude - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+function polygonContains(polygon: PolygonCoordinates, longitude: number, latitude: number): boolean {
+  return polygon.reduce((inside, ring) => (ringContains(ring, longitude, latitude) ? !inside : inside), false);
+}
+
+/**
+ * The most detailed area containing a point, or null outside every area (or
+ * with no boundary data loaded)
+ */
+export function findWard(index: WardIndex, latitude: number, longitude: number): WardLocation | null {
+  for (const ward of index.wards) {
+    if (
+      longitude < ward.minLongitude ||
+      longitude > ward.maxLongitude ||
+      latitude < ward.minLatitude ||
+      latitude > ward.maxLatitude
+    ) {
+      continue;
+    }
+
+    if (ward.polygons.some(polygon => polygonContains(polygon, longitude, latitude))) {
+      return ward.location;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * A ward name reduced to its letters and digits, so "Mbezi Juu", "mbezi-juu"
+ * and "Mbezi Juu Ward" compare equal
+ */
+export function normalizeWardName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .toLowerCase()
+    .replace(/\b(ward|kata)\b/g, '')
+    .replace(/[^a-z0-9]/g, '');
+}
+
+export function isSameWard(typed: string, ward: string): boolean {
+  return normalizeWardName(typed) === normalizeWardName(ward);
+}
+
+function distance(from: number[], to: number[]): number {
+  return Math.hypot(to[0] - from[0], to[1] - from[1]);
+}
+
+function distanceToSegment(point: number[], start: number[], end: number[]): number {
+  const dx = end[0] - start[0];
+  const dy = end[1] - start[1];
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0
+    ? 0
+    : Math.max(0, Math.min(1, ((point[0] - start[0]) * dx + (point[1] - start[1]) * dy) / lengthSquared));
+
+  return Math.hypot(point[0] - (start[0] + t * dx), point[1] - (start[1] + t * dy));
+}
+
+/**
+ * Drop ring points closer than the tolerance (in degrees) to the line through
+ * their neighbours (Douglas-Peucker), keeping the ring closed. Survey-grade
+ * boundaries are far more detailed than a phone's GPS can tell apart.
+ */
+export function simplifyRing(ring: Ring, tolerance: number): Ring {
+  if (ring.length <= 4) return ring;
+
+  const keep = new Array<boolean>(ring.length).fill(false);
+  keep[0] = true;
+  keep[ring.length - 1] = true;
+
+  // The ring starts and ends on the same point, so split it at the point
+  // furthest from the start as well
+  let far = 0;
+  for (let i = 1; i < ring.length - 1; i++) {
+    if (distance(ring[0], ring[i]) > distance(ring[0], ring[far])) {
+      far = i;
+    }
+  }
+  keep[far] = true;
+
+  const stack: [number, number][] = [[0, far], [far, ring.length - 1]];
+  for (let range = stack.pop(); range; range = stack.pop()) {
+    const [first, last] = range;
+    let furthest = -1;
+    let furthestDistance = tolerance;
+
+    for (let i = first + 1; i < last; i++) {
+      const offset = distanceToSegment(ring[i], ring[first], ring[last]);
+      if (offset > furthestDistance) {
+        furthest = i;
+        furthestDistance = offset;
+      }
+    }
+
+    if (furthest !== -1) {
+      keep[furthest] = true;
+      stack.push([first, furthest], [furthest, last]);
+    }
+  }
+
+  const simplified = ring.filter((_, i) => keep[i]);
+  return simplified.length >= 4 ? simplified : ring;
+}
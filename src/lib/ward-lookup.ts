@@ -0,0 +1,55 @@
+/**
+ * Ward lookup for leads being saved (server only)
+ * Records the region, district and ward a lead's GPS fix falls in, and flags
+ * leads whose typed ward names a different one.
+ */
+
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { WARD_BOUNDARIES_PATH } from './constants';
+import { findWard, indexWardBoundaries, isSameWard, WardBoundaries, WardIndex } from './ward-boundaries';
+import { Lead } from '@/types';
+
+export type LeadWardFields = Pick<Lead, 'gps_region' | 'gps_district' | 'gps_ward' | 'ward_mismatch'>;
+
+let wardIndex: Promise<WardIndex> | null = null;
+
+// Read once per server process; without the file no ward is ever found
+function loadWardIndex(): Promise<WardIndex> {
+  wardIndex ??= readFile(path.join(process.cwd(), 'public', WARD_BOUNDARIES_PATH), 'utf8')
+    .then(text => indexWardBoundaries(JSON.parse(text) as WardBoundaries))
+    .catch(error => {
+      console.error('Ward boundaries unavailable:', error);
+      return { wards: [] };
+    });
+
+  return wardIndex;
+}
+
+/**
+ * Whether the typed ward disagrees with the ward the GPS fix is in. Leads
+ * without a fix, or outside every known ward, are never flagged.
+ */
+export function hasWardMismatch(ward: string, gpsWard: string | null | undefined): boolean {
+  return gpsWard ? !isSameWard(ward, gpsWard) : false;
+}
+
+/**
+ * The ward columns for a lead with this typed ward and GPS fix
+ */
+export async function locateLeadWard(lead: {
+  ward: string;
+  gps_latitude?: number | null;
+  gps_longitude?: number | null;
+}): Promise<LeadWardFields> {
+  const location = lead.gps_latitude != null && lead.gps_longitude != null
+    ? findWard(await loadWardIndex(), lead.gps_latitude, lead.gps_longitude)
+    : null;
+
+  return {
+    gps_region: location?.region ?? null,
+    gps_district: location?.district ?? null,
+    gps_ward: location?.ward ?? null,
+    ward_mismatch: hasWardMismatch(lead.ward, location?.ward),
+  };
+}
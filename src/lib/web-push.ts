@@ -0,0 +1,251 @@
+/**
+ * Web Push (server only)
+ * Messages are encrypted for the browser with aes128gcm (RFC 8291) and
+ * signed for the push service with a VAPID token (RFC 8292). Keys are the
+ * base64url strings `npx tsx scripts/generate-vapid-keys.ts` prints.
+ */
+
+import {
+  createCipheriv,
+  createDecipheriv,
+  createECDH,
+  createPrivateKey,
+  createPublicKey,
+  hkdfSync,
+  randomBytes,
+  sign,
+  verify,
+} from 'crypto';
+import { isPushServiceEndpoint } from './push-endpoint';
+
+// Record size advertised in the content coding header; one record holds the
+// whole message, which push services cap at 4096 bytes
+const RECORD_SIZE = 4096;
+const TAG_LENGTH = 16;
+const KEY_LENGTH = 65; // uncompressed P-256 public key
+const HEADER_LENGTH = 16 + 4 + 1 + KEY_LENGTH;
+
+// VAPID tokens may be valid for at most 24 hours
+const VAPID_TOKEN_TTL = 12 * 60 * 60;
+
+export interface PushSubscriptionKeys {
+  p256dh: string; // browser public key, base64url
+  auth: string; // browser auth secret, base64url
+}
+
+export interface WebPushSubscription {
+  endpoint: string;
+  keys: PushSubscriptionKeys;
+}
+
+export interface VapidKeys {
+  publicKey: string; // base64url, uncompressed point
+  privateKey: string; // base64url, 32 bytes
+  subject: string; // mailto: or https: contact for the push service
+}
+
+export interface PushSendOptions {
+  ttl?: number; // seconds the push service keeps the message for an offline device
+  urgency?: 'very-low' | 'low' | 'normal' | 'high';
+  topic?: string; // a newer message with the same topic replaces a queued one
+}
+
+export interface PushSendResult {
+  status: number;
+  ok: boolean;
+  expired: boolean; // the browser unsubscribed; delete the subscription
+}
+
+export function generateVapidKeys(): Pick<VapidKeys, 'publicKey' | 'privateKey'> {
+  const ecdh = createECDH('prime256v1');
+  ecdh.generateKeys();
+
+  // Leading zero bytes can be dropped; VAPID private keys are always 32 bytes
+  const privateKey = ecdh.getPrivateKey();
+
+  return {
+    publicKey: ecdh.getPublicKey('base64url'),
+    privateKey: Buffer.concat([Buffer.alloc(32 - privateKey.length), privateKey]).toString('base64url'),
+  };
+}
+
+function deriveContentKeys(
+  sharedSecret: Buffer,
+  authSecret: Buffer,
+  receiverPublicKey: Buffer,
+  senderPublicKey: Buffer,
+  salt: Buffer
+): { key: Buffer; nonce: Buffer } {
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), receiverPublicKey, senderPublicKey]);
+  const ikm = Buffer.from(hkdfSync('sha256', sharedSecret, authSecret, keyInfo, 32));
+
+  return {
+    key: Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16)),
+    nonce: Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12)),
+  };
+}
+
+/**
+ * Encrypt a message for one browser. The result is the request body,
+ * sent with `Content-Encoding: aes128gcm`.
+ */
+export function encryptPushPayload(keys: PushSubscriptionKeys, payload: string): Buffer {
+  const receiverPublicKey = Buffer.from(keys.p256dh, 'base64url');
+  const authSecret = Buffer.from(keys.auth, 'base64url');
+
+  const sender = createECDH('prime256v1');
+  const senderPublicKey = sender.generateKeys();
+  const sharedSecret = sender.computeSecret(receiverPublicKey);
+  const salt = randomBytes(16);
+
+  const { key, nonce } = deriveContentKeys(sharedSecret, authSecret, receiverPublicKey, senderPublicKey, salt);
+
+  // 0x02 marks the last (only) record
+  const plaintext = Buffer.concat([Buffer.from(payload, 'utf8'), Buffer.from([2])]);
+  if (plaintext.length + TAG_LENGTH > RECORD_SIZE - HEADER_LENGTH) {
+    throw new Error('Push payload is too large');
+  }
+
+  const cipher = createCipheriv('aes-128-gcm', key, nonce);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+
+  const header = Buffer.alloc(HEADER_LENGTH - KEY_LENGTH);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(KEY_LENGTH, 20);
+
+  return Buffer.concat([header, senderPublicKey, ciphertext]);
+}
+
+/**
+ * Decrypt a message as the browser would. Used by the local push-service stub
+ * and tests, which play the browser's part.
+ */
+export function decryptPushPayload(body: Buffer, privateKey: string, authSecret: string): string {
+  const salt = body.subarray(0, 16);
+  const keyIdLength = body.readUInt8(20);
+  const senderPublicKey = body.subarray(21, 21 + keyIdLength);
+  const ciphertext = body.subarray(21 + keyIdLength);
+
+  const receiver = createECDH('prime256v1');
+  receiver.setPrivateKey(Buffer.from(privateKey, 'base64url'));
+  const sharedSecret = receiver.computeSecret(senderPublicKey);
+
+  const { key, nonce } = deriveContentKeys(
+    sharedSecret,
+    Buffer.from(authSecret, 'base64url'),
+    receiver.getPublicKey(),
+    senderPublicKey,
+    salt
+  );
+
+  const decipher = createDecipheriv('aes-128-gcm', key, nonce);
+  decipher.setAuthTag(ciphertext.subarray(ciphertext.length - TAG_LENGTH));
+  const padded = Buffer.concat([
+    decipher.update(ciphertext.subarray(0, ciphertext.length - TAG_LENGTH)),
+    decipher.final(),
+  ]);
+
+  // Strip padding back to the last-record delimiter
+  const end = padded.lastIndexOf(2);
+  if (end < 0) throw new Error('Push payload has no record delimiter');
+
+  return padded.subarray(0, end).toString('utf8');
+}
+
+// EC key objects from the raw base64url VAPID keys
+function vapidKeyObjects(publicKey: string, privateKey?: string) {
+  const point = Buffer.from(publicKey, 'base64url');
+  const jwk = {
+    kty: 'EC',
+    crv: 'P-256',
+    x: point.subarray(1, 33).toString('base64url'),
+    y: point.subarray(33, 65).toString('base64url'),
+  };
+
+  return {
+    publicKey: createPublicKey({ key: jwk, format: 'jwk' }),
+    privateKey: privateKey ? createPrivateKey({ key: { ...jwk, d: privateKey }, format: 'jwk' }) : null,
+  };
+}
+
+/**
+ * Authorization header value proving the message comes from this server
+ */
+export function createVapidAuthorization(endpoint: string, vapid: VapidKeys): string {
+  const header = Buffer.from(JSON.stringify({ typ: 'JWT', alg: 'ES256' })).toString('base64url');
+  const claims = Buffer.from(JSON.stringify({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(Date.now() / 1000) + VAPID_TOKEN_TTL,
+    sub: vapid.subject,
+  })).toString('base64url');
+
+  const { privateKey } = vapidKeyObjects(vapid.publicKey, vapid.privateKey);
+  const signature = sign('sha256', Buffer.from(`${header}.${claims}`), {
+    key: privateKey!,
+    dsaEncoding: 'ieee-p1363',
+  }).toString('base64url');
+
+  return `vapid t=${header}.${claims}.${signature}, k=${vapid.publicKey}`;
+}
+
+/**
+ * Check a VAPID Authorization header as a push service would, returning the
+ * sender's public key, or null when the token is invalid, expired or for
+ * another origin. Used by the local push-service stub and tests.
+ */
+export function verifyVapidAuthorization(authorization: string, audience: string): string | null {
+  const match = /^vapid t=([\w-]+)\.([\w-]+)\.([\w-]+), ?k=([\w-]+)$/.exec(authorization.trim());
+  if (!match) return null;
+
+  const [, header, claims, signature, publicKey] = match;
+
+  try {
+    const valid = verify(
+      'sha256',
+      Buffer.from(`${header}.${claims}`),
+      { key: vapidKeyObjects(publicKey).publicKey, dsaEncoding: 'ieee-p1363' },
+      Buffer.from(signature, 'base64url')
+    );
+    const { aud, exp } = JSON.parse(Buffer.from(claims, 'base64url').toString('utf8'));
+
+    return valid && aud === audience && exp > Date.now() / 1000 ? publicKey : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Deliver an encrypted message to the subscription's push service
+ */
+export async function sendPushNotification(
+  subscription: WebPushSubscription,
+  payload: object,
+  vapid: VapidKeys,
+  options: PushSendOptions = {}
+): Promise<PushSendResult> {
+  if (!isPushServiceEndpoint(subscription.endpoint)) {
+    throw new Error('Push endpoint is not a known push service');
+  }
+
+  const body = encryptPushPayload(subscription.keys, JSON.stringify(payload));
+
+  const response = await fetch(subscription.endpoint, {
+    method: 'POST',
+    headers: {
+      Authorization: createVapidAuthorization(subscription.endpoint, vapid),
+      'Content-Encoding': 'aes128gcm',
+      'Content-Type': 'application/octet-stream',
+      TTL: String(options.ttl ?? 24 * 60 * 60),
+      Urgency: options.urgency ?? 'normal',
+      ...(options.topic && { Topic: options.topic }),
+    },
+    body: new Uint8Array(body),
+  });
+
+  return {
+    status: response.status,
+    ok: response.ok,
+    expired: response.status === 404 || response.status === 410,
+  };
+}
@@ -0,0 +1,121 @@
+/**
+ * Streaming XLSX workbooks (server only)
+ * Writes a one-sheet workbook with a bold header row. Text is stored inline
+ * rather than in a shared strings table, so rows can be written as they
+ * arrive; numbers are stored as numbers.
+ */
+
+import { zipEntries } from './zip';
+
+export type XlsxCell = string | number | null | undefined;
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+const CONTENT_TYPES = `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+  + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+  + '<Default Extension="xml" ContentType="application/xml"/>'
+  + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+  + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+  + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+  + '</Types>';
+
+const PACKAGE_RELS = `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+  + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+  + '</Relationships>';
+
+const WORKBOOK_RELS = `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+  + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>'
+  + '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>'
+  + '</Relationships>';
+
+// Style 0 is the default; style 1 is bold, for the header row
+const STYLES = `${XML_HEADER}<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">`
+  + '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+  + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+  + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+  + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+  + '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'
+  + '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>'
+  + '</styleSheet>';
+
+// Characters XML 1.0 does not allow, even escaped
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g;
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(INVALID_XML_CHARS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Column letters for a zero-based index: 0 is A, 26 is AA
+export function xlsxColumnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function toRowXml(cells: readonly XlsxCell[], rowNumber: number, style = 0): string {
+  const styleAttribute = style ? ` s="${style}"` : '';
+
+  const xml = cells.map((value, index) => {
+    const ref = `${xlsxColumnName(index)}${rowNumber}`;
+
+    if (value === null || value === undefined || value === '') {
+      return '';
+    }
+    if (typeof value === 'number') {
+      return Number.isFinite(value) ? `<c r="${ref}"${styleAttribute}><v>${value}</v></c>` : '';
+    }
+
+    return `<c r="${ref}"${styleAttribute} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+  });
+
+  return `<row r="${rowNumber}">${xml.join('')}</row>`;
+}
+
+async function* toSheetXml(
+  header: readonly string[],
+  rows: AsyncIterable<readonly XlsxCell[][]>
+): AsyncGenerator<string> {
+  yield `${XML_HEADER}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">`;
+  yield '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>';
+  yield `<sheetData>${toRowXml(header, 1, 1)}`;
+
+  let rowNumber = 1;
+  for await (const batch of rows) {
+    yield batch.map(cells => toRowXml(cells, ++rowNumber)).join('');
+  }
+
+  yield '</sheetData></worksheet>';
+}
+
+/**
+ * Write a workbook with one sheet, yielding the file in chunks. Rows arrive
+ * in batches, below the header.
+ */
+export function writeXlsx(
+  sheetName: string,
+  header: readonly string[],
+  rows: AsyncIterable<readonly XlsxCell[][]>
+): AsyncGenerator<Buffer> {
+  // Sheet names are limited to 31 characters and may not contain []:*?/\
+  const name = escapeXml(sheetName.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31));
+
+  const workbook = `${XML_HEADER}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" `
+    + 'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+    + `<sheets><sheet name="${name}" sheetId="1" r:id="rId1"/></sheets></workbook>`;
+
+  return zipEntries([
+    { name: '[Content_Types].xml', content: CONTENT_TYPES },
+    { name: '_rels/.rels', content: PACKAGE_RELS },
+    { name: 'xl/workbook.xml', content: workbook },
+    { name: 'xl/_rels/workbook.xml.rels', content: WORKBOOK_RELS },
+    { name: 'xl/styles.xml', content: STYLES },
+    { name: 'xl/worksheets/sheet1.xml', content: toSheetXml(header, rows) },
+  ]);
+}
@@ -0,0 +1,135 @@
+/**
+ * Streaming ZIP archives (server only)
+ * Each entry is deflated as it is read and followed by a data descriptor, so
+ * an archive can be sent before its contents are known in full. XLSX files are
+ * ZIP archives of XML parts. Archives are limited to 4 GB (no ZIP64).
+ */
+
+import { pipeline } from 'stream';
+import { createDeflateRaw, crc32 } from 'zlib';
+
+export interface ZipEntry {
+  name: string;
+  content: string | AsyncIterable<string>;
+}
+
+interface CentralDirectoryRecord {
+  name: Buffer;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+}
+
+const LOCAL_HEADER = 0x04034b50;
+const DATA_DESCRIPTOR = 0x08074b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+
+const VERSION = 20; // 2.0: deflate
+const FLAGS = 0x0808; // sizes in a data descriptor, UTF-8 names
+const DEFLATE = 8;
+
+// MS-DOS time and date fields, in server local time
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+async function* toBuffers(content: ZipEntry['content']): AsyncGenerator<Buffer> {
+  if (typeof content === 'string') {
+    yield Buffer.from(content, 'utf8');
+    return;
+  }
+
+  for await (const chunk of content) {
+    yield Buffer.from(chunk, 'utf8');
+  }
+}
+
+/**
+ * Write entries as a ZIP archive, yielding it in chunks
+ */
+export async function* zipEntries(entries: Iterable<ZipEntry>): AsyncGenerator<Buffer> {
+  const modified = toDosDateTime(new Date());
+  const records: CentralDirectoryRecord[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const record: CentralDirectoryRecord = { name, crc: 0, compressedSize: 0, size: 0, offset };
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(LOCAL_HEADER, 0);
+    header.writeUInt16LE(VERSION, 4);
+    header.writeUInt16LE(FLAGS, 6);
+    header.writeUInt16LE(DEFLATE, 8);
+    header.writeUInt16LE(modified.time, 10);
+    header.writeUInt16LE(modified.date, 12);
+    // CRC and sizes (14-25) follow in the data descriptor
+    header.writeUInt16LE(name.length, 26);
+
+    yield header;
+    yield name;
+
+    async function* measured() {
+      for await (const chunk of toBuffers(entry.content)) {
+        record.crc = crc32(chunk, record.crc);
+        record.size += chunk.length;
+        yield chunk;
+      }
+    }
+
+    // pipeline passes errors in the content on to the deflate stream
+    const deflate = pipeline(measured, createDeflateRaw(), () => {});
+    for await (const chunk of deflate) {
+      record.compressedSize += chunk.length;
+      yield chunk as Buffer;
+    }
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(DATA_DESCRIPTOR, 0);
+    descriptor.writeUInt32LE(record.crc, 4);
+    descriptor.writeUInt32LE(record.compressedSize, 8);
+    descriptor.writeUInt32LE(record.size, 12);
+
+    yield descriptor;
+
+    offset += header.length + name.length + record.compressedSize + descriptor.length;
+    records.push(record);
+  }
+
+  const directoryOffset = offset;
+
+  for (const record of records) {
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(CENTRAL_HEADER, 0);
+    header.writeUInt16LE(VERSION, 4); // made by
+    header.writeUInt16LE(VERSION, 6); // needed to extract
+    header.writeUInt16LE(FLAGS, 8);
+    header.writeUInt16LE(DEFLATE, 10);
+    header.writeUInt16LE(modified.time, 12);
+    header.writeUInt16LE(modified.date, 14);
+    header.writeUInt32LE(record.crc, 16);
+    header.writeUInt32LE(record.compressedSize, 20);
+    header.writeUInt32LE(record.size, 24);
+    header.writeUInt16LE(record.name.length, 28);
+    header.writeUInt32LE(record.offset, 42);
+
+    yield header;
+    yield record.name;
+
+    offset += header.length + record.name.length;
+  }
+
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+  end.writeUInt16LE(records.length, 8);
+  end.writeUInt16LE(records.length, 10);
+  end.writeUInt32LE(offset - directoryOffset, 12);
+  end.writeUInt32LE(directoryOffset, 16);
+
+  yield end;
+}
@@ -0,0 +1,31 @@
+/**
+ * Zustand store for app-wide connectivity and offline sync state
+ */
+
+import { create } from 'zustand';
+import { AppState, Officer } from '@/types';
+
+interface AppStore extends AppState {
+  // Actions
+  setCurrentOfficer: (officer: Officer | null) => void;
+  setIsOnline: (isOnline: boolean) => void;
+  setSyncStatus: (status: AppState['syncStatus']) => void;
+  setPendingSyncCount: (count: number) => void;
+}
+
+export const useAppStore = create<AppStore>()((set) => ({
+  // Initial state
+  currentOfficer: null,
+  isOnline: typeof navigator !== 'undefined' ? navigator.onLine : true,
+  syncStatus: 'idle',
+  pendingSyncCount: 0,
+
+  // Actions
+  setCurrentOfficer: (officer) => set({ currentOfficer: officer }),
+
+  setIsOnline: (isOnline) => set({ isOnline }),
+
+  setSyncStatus: (status) => set({ syncStatus: status }),
+
+  setPendingSyncCount: (count) => set({ pendingSyncCount: count }),
+}));
@@ -2,4 +2,5 @@
  * Stores exports
  */
 
-export { useLeadFormStore } from './lead-form-store';
\ No newline at end of file
+export { useLeadFormStore } from './lead-form-store';
+export { useAppStore } from './app-store';
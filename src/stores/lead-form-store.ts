@@ -4,6 +4,7 @@
 
 import { create } from 'zustand';
 import { Officer, FormStep } from '@/types';
+import { generateSubmissionId } from '@/lib/utils';
 // import { STORAGE_KEYS } from '@/lib/constants';
 
 interface RouteData {
@@ -32,6 +33,9 @@ interface LeadFormState {
   selectedOfficer: Officer | null;
   routeData: RouteData;
   leadData: LeadData;
+
+  // Idempotency key shared by every submit and retry of this lead
+  submissionId: string;
   
   // UI state
   isSubmitting: boolean;
@@ -69,6 +73,7 @@ export const useLeadFormStore = create<LeadFormState>()(
     selectedOfficer: null,
     routeData: initialRouteData,
     leadData: initialLeadData,
+    submissionId: generateSubmissionId(),
     isSubmitting: false,
 
     // Actions
@@ -97,6 +102,7 @@ export const useLeadFormStore = create<LeadFormState>()(
         selectedOfficer: null,
         routeData: initialRouteData,
         leadData: initialLeadData,
+        submissionId: generateSubmissionId(),
         isSubmitting: false,
       }),
 
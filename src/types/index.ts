@@ -1,11 +1,18 @@
 // Core data models for the lead generation tool
 
+// Dealer accounts sign in with a one-time code; platform admins see every dealer
+export type DealerRole = 'dealer' | 'platform_admin';
+
+// Officer accounts sign in on the capture app; supervisors manage a team of officers
+export type OfficerRole = 'officer' | 'supervisor';
+
 export interface Dealer {
   id: string;
   name: string;
   email?: string;
   phone: string;
   company: string;
+  role: DealerRole;
   created_at: string;
   updated_at: string;
 }
@@ -16,14 +23,32 @@ export interface Officer {
   phone: string;
   dealer_id: string;
   dealer?: Dealer;
+  role: OfficerRole;
+  supervisor_id: string | null; // supervisor whose team the officer is on
+  active: boolean; // inactive officers cannot sign in; their leads are kept
+  deactivated_at: string | null;
+  deactivation_reason: string | null;
+  territory: string | null; // area the officer covers, e.g. from an import
+  pin_locked_at: string | null; // set after too many wrong PINs, until a new PIN is set
   created_at: string;
   updated_at: string;
 }
 
+// Where a lead came from: captured in the app or imported from a spreadsheet
+export type LeadSource = 'app' | 'import';
+
+// Sales pipeline: leads end as won or lost
+export type LeadStatus = 'new' | 'contacted' | 'follow_up' | 'negotiating' | 'won' | 'lost';
+
+// What happened when a lead was followed up
+export type FollowUpOutcome = 'reached' | 'no_answer' | 'switched_off' | 'call_back' | 'visited';
+
 export interface Lead {
   id: string;
-  officer_id: string;
+  officer_id: string; // officer working the lead now
   officer?: Officer;
+  captured_by?: string | null; // officer who captured it; null once that officer is deleted
+  captured_by_officer?: Pick<Officer, 'id' | 'name'> | null; // null when not visible to the reader
   
   // Route Information
   area_of_activity: string;
@@ -31,6 +56,12 @@ export interface Lead {
   gps_latitude?: number;
   gps_longitude?: number;
   gps_accuracy?: number;
+  // Where the GPS fix falls in the bundled ward boundaries; null without a
+  // fix or outside every known ward
+  gps_region?: string | null;
+  gps_district?: string | null;
+  gps_ward?: string | null;
+  ward_mismatch?: boolean; // the typed ward is not the GPS ward
   
   // Lead Details
   lead_name: string;
@@ -39,14 +70,438 @@ export interface Lead {
   interested_phone_model: string;
   next_contact_date: string;
   
+  // Pipeline
+  status: LeadStatus;
+  lost_reason: string | null; // set only for lost leads
+  status_changed_at: string | null;
+
+  // Follow-ups
+  last_follow_up_at?: string | null;
+  last_follow_up_outcome?: FollowUpOutcome | null;
+
+  // Duplicates
+  phone_normalized?: string; // +255 form of phone_contact, set by the database
+  duplicate_of_id?: string | null; // earlier lead at the dealer with the same number
+  merged_into_id?: string | null; // set when merged into another lead; merged leads are hidden
+  merged_at?: string | null;
+  merged_by?: string | null;
+
   // Metadata
+  client_submission_id?: string;
+  deleted_at?: string | null; // set when the lead is removed; removed leads are hidden
+  source?: LeadSource;
+  source_detail?: string | null; // for imports, e.g. the event or file the lead came from
   created_at: string;
   updated_at: string;
 }
 
+// One pipeline move, from GET /api/leads/[id]/history
+export interface LeadStatusChange {
+  id: string;
+  lead_id: string;
+  from_status: LeadStatus | null;
+  to_status: LeadStatus;
+  lost_reason: string | null;
+  note: string | null;
+  changed_by: string; // dealer or officer ID, per changed_by_role
+  changed_by_role: SessionRole;
+  changed_by_name: string | null; // null when the user is not visible to the reader
+  created_at: string;
+}
 
+// One logged follow-up, from POST /api/leads/[id]/follow-ups
+export interface LeadFollowUp {
+  id: string;
+  lead_id: string;
+  outcome: FollowUpOutcome;
+  note: string | null;
+  previous_contact_date: string | null;
+  next_contact_date: string;
+  logged_by: string; // dealer or officer ID, per logged_by_role
+  logged_by_role: SessionRole;
+  created_at: string;
+}
+
+// Timeline entry kinds; status_change and reassignment entries mirror their
+// history tables
+export type LeadActivityType = 'note' | 'call' | 'visit' | 'sms' | 'status_change' | 'reassignment';
+
+// One timeline entry, from GET /api/leads/[id]/activities
+export interface LeadActivity {
+  id: string;
+  lead_id: string;
+  type: LeadActivityType;
+  note: string | null;
+  outcome: FollowUpOutcome | null; // calls, and visits logged as follow-ups
+  from_status: LeadStatus | null; // status changes only
+  to_status: LeadStatus | null;
+  gps_latitude: number | null; // visits only
+  gps_longitude: number | null;
+  gps_accuracy: number | null;
+  from_officer_id: string | null; // reassignments only
+  to_officer_id: string | null;
+  from_officer_name?: string | null; // null when the officer is not visible to the reader
+  to_officer_name?: string | null;
+  created_by: string; // dealer or officer ID, per created_by_role
+  created_by_role: SessionRole;
+  created_by_name: string | null; // null when the user is not visible to the reader
+  created_at: string;
+}
+
+// GET /api/follow-ups response: open leads by next contact date
+export interface FollowUpQueue {
+  today: string; // YYYY-MM-DD in Tanzania
+  overdue: Lead[];
+  due_today: Lead[];
+  upcoming: Lead[];
+  counts: {
+    overdue: number;
+    due_today: number;
+    upcoming: number;
+  };
+}
 
+// Periods lead counts are grouped into; weeks start on Monday
+export type AnalyticsInterval = 'day' | 'week' | 'month';
+
+// GET /api/analytics response: lead counts for a Tanzania date range
+export interface LeadAnalytics {
+  from: string; // YYYY-MM-DD
+  to: string;
+  interval: AnalyticsInterval;
+  today: string;
+  totals: {
+    all_time: number;
+    in_range: number;
+    today: number;
+    last_7_days: number; // today and the six days before
+  };
+  series: { period: string; count: number }[]; // first day of each period, oldest first
+  by_status: { status: LeadStatus; count: number }[]; // every status, in pipeline order
+  by_officer: { officer_id: string; officer_name: string | null; count: number }[]; // most leads first
+  by_ward: { ward: string; count: number }[]; // the top wards
+  by_phone_model: { phone_model: string; count: number }[]; // the top models
+}
+
+// GET /api/analytics query
+export interface LeadAnalyticsParams {
+  from?: string;
+  to?: string;
+  interval?: AnalyticsInterval;
+  dealer_id?: string; // platform admins only
+  officer_id?: string;
+}
+
+// What the officer leaderboard ranks by. Rates are shares from 0 to 1.
+export type LeaderboardMetric = 'leads_captured' | 'gps_rate' | 'on_time_rate' | 'conversion_rate';
+
+// One officer's results for a Tanzania date range
+export interface OfficerPerformance {
+  officer_id: string;
+  officer_name: string;
+  active: boolean;
+  rank: number; // officers level on the ranked metric share a rank
+  leads_captured: number; // captured in the range, including leads since handed on
+  leads_with_gps: number;
+  gps_rate: number | null; // null when there is nothing to divide by
+  follow_ups_logged: number;
+  follow_ups_on_time: number; // logged by the day they were due
+  on_time_rate: number | null;
+  leads_assigned: number; // captured in the range and worked by the officer now
+  leads_won: number;
+  conversion_rate: number | null;
+}
+
+// GET /api/analytics/leaderboard response
+export interface OfficerLeaderboard {
+  from: string; // YYYY-MM-DD
+  to: string;
+  rank_by: LeaderboardMetric;
+  officers: OfficerPerformance[]; // best first
+}
+
+// GET /api/analytics/leaderboard query
+export interface OfficerLeaderboardParams {
+  from?: string;
+  to?: string;
+  rank_by?: LeaderboardMetric;
+  dealer_id?: string; // platform admins only
+}
+
+// GET /api/officers/[id]/scorecard response. The rank is by leads captured,
+// among the officers the reader can see.
+export interface OfficerScorecard {
+  from: string;
+  to: string;
+  officer: Officer;
+  performance: OfficerPerformance;
+  ranked_officers: number;
+}
+
+// Periods lead targets are set for, in Tanzania calendar days; weeks start on Monday
+export type TargetPeriod = 'day' | 'week' | 'month';
+
+// Who a target counts: the officer alone, or a supervisor and their team
+export type TargetAppliesTo = 'officer' | 'team';
+
+// Leads an officer or team should capture each period, set by the dealer
+export interface OfficerTarget {
+  id: string;
+  officer_id: string; // the supervisor, for a team target
+  applies_to: TargetAppliesTo;
+  period: TargetPeriod;
+  lead_count: number;
+  set_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// met: the target is reached; on_track: at least the even pace for the days
+// gone; behind: under it
+export type TargetStatus = 'met' | 'on_track' | 'behind';
+
+// A target with the leads captured towards it in one period
+export interface TargetAttainment {
+  target_id: string;
+  officer_id: string;
+  officer_name: string;
+  active: boolean;
+  applies_to: TargetAppliesTo;
+  period: TargetPeriod;
+  lead_count: number;
+  period_start: string; // YYYY-MM-DD
+  period_end: string;
+  achieved: number;
+  expected: number; // leads due by the end of yesterday at an even pace
+  status: TargetStatus;
+}
+
+// GET /api/targets response: every target with progress in the periods
+// containing the date
+export interface TargetAttainmentReport {
+  date: string; // YYYY-MM-DD
+  today: string;
+  targets: TargetAttainment[];
+}
+
+// GET /api/targets query
+export interface TargetAttainmentParams {
+  date?: string; // defaults to today
+  dealer_id?: string; // platform admins only
+  officer_id?: string;
+}
+
+// POST /api/targets body. Setting a target again for the same officer,
+// applies_to and period replaces it.
+export interface OfficerTargetInput {
+  officer_id: string;
+  applies_to?: TargetAppliesTo;
+  period: TargetPeriod;
+  lead_count: number;
+}
+
+// A lead at the same dealer with the same phone number, from GET /api/leads/duplicates.
+// Officers may not see each other's leads, so only enough to recognise it is returned.
+export interface LeadDuplicate {
+  id: string;
+  lead_name: string;
+  ward: string;
+  status: LeadStatus;
+  created_at: string;
+  officer_id: string;
+  officer_name: string;
+}
+
+// A spreadsheet row checked by POST /api/officers/import. Only ready rows can
+// be imported; existing_officer is left out when the number belongs to an
+// officer at another dealer.
+export interface OfficerImportRow {
+  row: number;
+  name: string;
+  phone: string; // normalized when valid
+  territory: string | null;
+  status: 'ready' | 'invalid' | 'duplicate';
+  errors: string[];
+  existing_officer?: { id: string; name: string; active: boolean };
+}
+
+// A spreadsheet row checked by POST /api/leads/import. Ready and duplicate
+// rows are imported (duplicates flagged for merging); rejected rows are not.
+export interface LeadImportRow {
+  row: number;
+  lead_name: string;
+  phone_contact: string; // normalized when valid
+  officer_id: string | null;
+  officer_name: string | null;
+  status: 'ready' | 'duplicate' | 'rejected';
+  errors: string[];
+  duplicate_of?: { id: string; lead_name: string };
+}
+
+// Lead payload sent to POST /api/leads
+// officer_id records who captured the lead; the server only accepts it when
+// it matches the signed-in officer
+export interface LeadPayload {
+  officer_id: string;
+  area_of_activity: string;
+  ward: string;
+  gps_latitude: number | null;
+  gps_longitude: number | null;
+  gps_accuracy: number | null;
+  lead_name: string;
+  phone_contact: string;
+  residence: string;
+  interested_phone_model: string;
+  next_contact_date: string;
+  client_submission_id: string;
+}
+
+// Columns GET /api/leads can sort by
+export type LeadSortField = 'created_at' | 'next_contact_date' | 'lead_name';
+
+// GET /api/leads query parameters. Dates are YYYY-MM-DD and ranges include
+// both ends.
+export interface LeadListParams {
+  officer_id?: string;
+  dealer_id?: string; // platform admins only; others are held to their dealer
+  q?: string; // lead name, phone number or officer name
+  ward?: string;
+  area?: string;
+  phone_model?: string;
+  status?: string; // one status, or several separated by commas
+  duplicates?: boolean; // only leads flagged as possible duplicates
+  has_gps?: boolean; // only leads captured with a GPS fix
+  ward_mismatch?: boolean; // only leads whose typed ward disagrees with their GPS fix
+  created_from?: string;
+  created_to?: string;
+  next_contact_from?: string;
+  next_contact_to?: string;
+  sort?: LeadSortField;
+  order?: 'asc' | 'desc';
+  limit?: number;
+  cursor?: string; // next_cursor from the previous page
+}
+
+// File formats GET /api/leads/export can produce
+export type LeadExportFormat = 'csv' | 'xlsx' | 'json' | 'geojson';
+
+// Columns an export can include
+export type LeadExportColumn =
+  | 'id'
+  | 'lead_name'
+  | 'phone_contact'
+  | 'phone_carrier'
+  | 'residence'
+  | 'interested_phone_model'
+  | 'next_contact_date'
+  | 'area_of_activity'
+  | 'ward'
+  | 'gps_latitude'
+  | 'gps_longitude'
+  | 'gps_accuracy'
+  | 'gps_ward'
+  | 'gps_region'
+  | 'status'
+  | 'lost_reason'
+  | 'last_follow_up_at'
+  | 'officer_name'
+  | 'officer_phone'
+  | 'captured_by'
+  | 'dealer'
+  | 'source'
+  | 'created_at';
+
+// Filters and options for GET /api/leads/export
+export interface LeadExportParams extends Omit<LeadListParams, 'limit' | 'cursor'> {
+  format: LeadExportFormat;
+  columns?: string; // comma separated; the default set when left out
+}
+
+// GET /api/leads response
+export interface LeadListResponse {
+  data: Lead[];
+  pagination: {
+    total: number; // leads matching the filters, across all pages
+    limit: number;
+    next_cursor: string | null;
+    has_more: boolean;
+  };
+}
+
+// GET /api/leads/map query parameters: the list filters. The map always
+// shows the newest leads first.
+export type LeadMapParams = Omit<LeadListParams, 'has_gps' | 'sort' | 'order' | 'limit' | 'cursor'>;
+
+// A lead with a GPS fix, as the map draws it
+export interface LeadMapPoint {
+  id: string;
+  lead_name: string;
+  status: LeadStatus;
+  officer_id: string;
+  officer_name: string | null;
+  latitude: number;
+  longitude: number;
+  accuracy: number | null; // meters
+}
+
+// GET /api/leads/map response
+export interface LeadMapResponse {
+  points: LeadMapPoint[];
+  total: number; // leads with a GPS fix matching the filters
+  truncated: boolean; // more leads matched than the map holds
+}
+
+// Offline outbox interfaces (IndexedDB)
+export type SyncStatus = 'pending' | 'synced' | 'failed';
+
+export interface LocalLead {
+  id: string;
+  payload: LeadPayload;
+  syncStatus: SyncStatus;
+  serverId?: string;
+  lastError?: string;
+  createdAt: string;
+  syncedAt?: string;
+}
+
+export interface SyncQueueItem {
+  id: string;
+  leadId: string;
+  attempts: number;
+  nextAttemptAt: number; // epoch milliseconds
+  lastAttemptAt?: string;
+}
+
+// Authentication interfaces
+export type SessionRole = DealerRole | OfficerRole;
+
+export interface Session {
+  sub: string; // ID of the signed-in dealer (dealer roles) or officer (officer roles)
+  role: SessionRole;
+  dealerId: string;
+  iat: number; // issued at, epoch seconds
+  exp: number; // expires at, epoch seconds
+}
+
+export type OtpChannel = 'sms' | 'email';
+
+export interface OtpRequestResult {
+  success: true;
+  channel: OtpChannel;
+  expiresIn: number; // seconds
+}
+
+export interface SessionResponse {
+  session: Pick<Session, 'role' | 'exp'>;
+  dealer?: Dealer; // the signed-in dealer, or the dealer an officer works for
+  officer?: Officer; // set for officer and supervisor sessions
+}
 
+// POST /api/auth/officer/login outcomes: signed in, or another factor is needed
+export type OfficerLoginResponse =
+  | { status: 'authenticated'; session: Pick<Session, 'role' | 'exp'>; officer: Officer }
+  | { status: 'pin_required' }
+  | { status: 'otp_sent'; expiresIn: number };
 
 // Form data interfaces
 export interface OfficerSelectionForm {
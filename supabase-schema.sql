@@ -8,42 +8,229 @@ CREATE TABLE dealers (
   email TEXT UNIQUE,
   phone TEXT UNIQUE NOT NULL,
   company TEXT NOT NULL,
+  role TEXT NOT NULL DEFAULT 'dealer' CHECK (role IN ('dealer', 'platform_admin')),
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
 -- Create officers table
+-- Officers who leave are deactivated rather than deleted, keeping their leads.
+-- pin_failed_attempts counts wrong PINs; reaching the limit sets pin_locked_at
+-- until the dealer sets a new PIN.
 CREATE TABLE officers (
   id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
   name TEXT NOT NULL,
   phone TEXT NOT NULL,
   dealer_id UUID REFERENCES dealers(id) ON DELETE CASCADE,
+  pin_hash TEXT,
+  pin_failed_attempts INTEGER NOT NULL DEFAULT 0,
+  pin_locked_at TIMESTAMP WITH TIME ZONE,
+  role TEXT NOT NULL DEFAULT 'officer' CHECK (role IN ('officer', 'supervisor')),
+  supervisor_id UUID REFERENCES officers(id) ON DELETE SET NULL CHECK (supervisor_id <> id),
+  active BOOLEAN NOT NULL DEFAULT true,
+  deactivated_at TIMESTAMP WITH TIME ZONE,
+  deactivation_reason TEXT,
+  territory TEXT,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT officers_deactivated_at CHECK (active = (deactivated_at IS NULL))
 );
 
+-- +255 form of a Tanzanian number, for matching leads captured as
+-- 0712..., 255712... or +255 712... (normalizePhone in src/lib/phone.ts)
+CREATE OR REPLACE FUNCTION normalize_phone(phone TEXT) RETURNS TEXT
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT '+255' || right(regexp_replace(phone, '\D', '', 'g'), 9)
+$$;
+
 -- Create leads table
+-- officer_id is the officer working the lead and captured_by the officer who
+-- captured it; leads must be transferred before their officer is deleted.
+-- duplicate_of_id flags a lead whose number the dealer already had when it was
+-- captured; merged_into_id points a merged duplicate at the lead that was kept.
+-- gps_region, gps_district and gps_ward are where the GPS fix falls in the
+-- bundled ward boundaries; ward_mismatch flags a typed ward that disagrees.
 CREATE TABLE leads (
   id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
-  officer_id UUID REFERENCES officers(id) ON DELETE CASCADE,
+  officer_id UUID REFERENCES officers(id) ON DELETE RESTRICT,
+  captured_by UUID REFERENCES officers(id) ON DELETE SET NULL,
   area_of_activity TEXT NOT NULL,
   ward TEXT NOT NULL,
   gps_latitude DECIMAL,
   gps_longitude DECIMAL,
   gps_accuracy DECIMAL,
+  gps_region TEXT,
+  gps_district TEXT,
+  gps_ward TEXT,
+  ward_mismatch BOOLEAN NOT NULL DEFAULT false,
   lead_name TEXT NOT NULL,
   phone_contact TEXT NOT NULL,
+  phone_normalized TEXT GENERATED ALWAYS AS (normalize_phone(phone_contact)) STORED,
   residence TEXT NOT NULL,
   interested_phone_model TEXT NOT NULL,
   next_contact_date DATE NOT NULL,
-  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+  client_submission_id TEXT UNIQUE,
+  status TEXT NOT NULL DEFAULT 'new'
+    CHECK (status IN ('new', 'contacted', 'follow_up', 'negotiating', 'won', 'lost')),
+  lost_reason TEXT,
+  status_changed_at TIMESTAMP WITH TIME ZONE,
+  last_follow_up_at TIMESTAMP WITH TIME ZONE,
+  last_follow_up_outcome TEXT,
+  duplicate_of_id UUID REFERENCES leads(id) ON DELETE SET NULL,
+  merged_into_id UUID REFERENCES leads(id) ON DELETE SET NULL,
+  merged_at TIMESTAMP WITH TIME ZONE,
+  merged_by UUID,
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  source TEXT NOT NULL DEFAULT 'app' CHECK (source IN ('app', 'import')),
+  source_detail TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  -- Lost leads always say why; other statuses have no reason
+  CONSTRAINT leads_lost_reason CHECK ((status = 'lost') = (lost_reason IS NOT NULL)),
+  CONSTRAINT leads_not_merged_into_self CHECK (merged_into_id <> id)
+);
+
+-- Create lead_status_history table (one row per pipeline move)
+-- changed_by is the dealer or officer who made the change, per changed_by_role
+CREATE TABLE lead_status_history (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  lead_id UUID NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  lost_reason TEXT,
+  note TEXT,
+  changed_by UUID NOT NULL,
+  changed_by_role TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Create lead_follow_ups table (one row per logged follow-up)
+-- logged_by is the dealer or officer who logged it, per logged_by_role
+CREATE TABLE lead_follow_ups (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  lead_id UUID NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  outcome TEXT NOT NULL
+    CHECK (outcome IN ('reached', 'no_answer', 'switched_off', 'call_back', 'visited')),
+  note TEXT,
+  previous_contact_date DATE,
+  next_contact_date DATE NOT NULL,
+  logged_by UUID NOT NULL,
+  logged_by_role TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Create lead_activities table (the lead's timeline after capture)
+-- created_by is the dealer or officer who recorded it, per created_by_role
+CREATE TABLE lead_activities (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  lead_id UUID NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  type TEXT NOT NULL
+    CHECK (type IN ('note', 'call', 'visit', 'sms', 'status_change', 'reassignment')),
+  note TEXT,
+  outcome TEXT
+    CHECK (outcome IN ('reached', 'no_answer', 'switched_off', 'call_back', 'visited')),
+  from_status TEXT,
+  to_status TEXT,
+  gps_latitude DECIMAL,
+  gps_longitude DECIMAL,
+  gps_accuracy DECIMAL,
+  from_officer_id UUID,
+  to_officer_id UUID,
+  created_by UUID NOT NULL,
+  created_by_role TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  -- Status changes and reassignments say where the lead moved; only visits
+  -- carry a location
+  CONSTRAINT lead_activities_status_change CHECK ((type = 'status_change') = (to_status IS NOT NULL)),
+  CONSTRAINT lead_activities_reassignment CHECK ((type = 'reassignment') = (to_officer_id IS NOT NULL)),
+  CONSTRAINT lead_activities_gps_on_visits CHECK (type = 'visit' OR gps_latitude IS NULL)
+);
+
+-- Create lead_assignments table (one row each time a lead moves officer)
+-- changed_by is the dealer or officer who moved it, per changed_by_role
+CREATE TABLE lead_assignments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  lead_id UUID NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  from_officer_id UUID,
+  to_officer_id UUID NOT NULL,
+  reason TEXT,
+  changed_by UUID NOT NULL,
+  changed_by_role TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Create push_subscriptions table (browsers an officer gets reminders in)
+-- last_reminded_on stops the reminder job notifying a browser twice a day
+CREATE TABLE push_subscriptions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  officer_id UUID NOT NULL REFERENCES officers(id) ON DELETE CASCADE,
+  endpoint TEXT NOT NULL,
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  user_agent TEXT,
+  last_reminded_on DATE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT push_subscriptions_officer_endpoint UNIQUE (officer_id, endpoint)
+);
+
+-- Create officer_targets table (leads an officer should capture per period)
+-- A team target is held on the supervisor and counts the supervisor's leads
+-- and those of the officers reporting to them
+CREATE TABLE officer_targets (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  officer_id UUID NOT NULL REFERENCES officers(id) ON DELETE CASCADE,
+  applies_to TEXT NOT NULL DEFAULT 'officer' CHECK (applies_to IN ('officer', 'team')),
+  period TEXT NOT NULL CHECK (period IN ('day', 'week', 'month')),
+  lead_count INTEGER NOT NULL CHECK (lead_count > 0),
+  set_by UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT officer_targets_officer_period UNIQUE (officer_id, applies_to, period)
+);
+
+-- Create otp_codes table (one-time login codes, stored hashed)
+CREATE TABLE otp_codes (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  identifier TEXT NOT NULL,
+  purpose TEXT NOT NULL,
+  code_hash TEXT NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  consumed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
 -- Create indexes for better performance
 CREATE INDEX idx_officers_dealer_id ON officers(dealer_id);
+CREATE INDEX idx_officers_phone ON officers(phone);
+-- A phone number is an officer's login: one active officer per number
+CREATE UNIQUE INDEX idx_officers_active_phone ON officers(phone) WHERE active;
+CREATE INDEX idx_officers_supervisor_id ON officers(supervisor_id);
 CREATE INDEX idx_leads_officer_id ON leads(officer_id);
-CREATE INDEX idx_leads_created_at ON leads(created_at);
+CREATE INDEX idx_leads_captured_by ON leads(captured_by);
+CREATE INDEX idx_leads_created_at_id ON leads(created_at DESC, id DESC);
+CREATE INDEX idx_leads_officer_created_at ON leads(officer_id, created_at DESC, id DESC);
+CREATE INDEX idx_leads_next_contact_date ON leads(next_contact_date, id);
+CREATE INDEX idx_leads_status ON leads(status);
+CREATE INDEX idx_leads_phone_normalized ON leads(phone_normalized)
+  WHERE deleted_at IS NULL AND merged_into_id IS NULL;
+CREATE INDEX idx_leads_duplicate_of_id ON leads(duplicate_of_id)
+  WHERE duplicate_of_id IS NOT NULL;
+CREATE INDEX idx_leads_ward_mismatch ON leads(officer_id)
+  WHERE ward_mismatch AND deleted_at IS NULL AND merged_into_id IS NULL;
+CREATE INDEX idx_lead_status_history_lead_id ON lead_status_history(lead_id, created_at DESC);
+CREATE INDEX idx_lead_follow_ups_lead_id ON lead_follow_ups(lead_id, created_at DESC);
+CREATE INDEX idx_lead_activities_lead_id ON lead_activities(lead_id, created_at DESC);
+CREATE INDEX idx_lead_assignments_lead_id ON lead_assignments(lead_id, created_at DESC);
+CREATE INDEX idx_leads_follow_up_queue ON leads(officer_id, next_contact_date)
+  WHERE deleted_at IS NULL AND merged_into_id IS NULL AND status NOT IN ('won', 'lost');
+CREATE INDEX idx_otp_codes_identifier ON otp_codes(identifier, purpose, created_at DESC);
+
+-- Substring search on lead names and phone numbers
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+CREATE INDEX idx_leads_lead_name_trgm ON leads USING gin (lead_name gin_trgm_ops);
+CREATE INDEX idx_leads_phone_contact_trgm ON leads USING gin (phone_contact gin_trgm_ops);
 
 -- Insert sample dealer (for testing)
 INSERT INTO dealers (name, email, phone, company) VALUES 
@@ -57,8 +244,597 @@ SELECT 'G-Officer', '+255714276444', id FROM dealers WHERE phone = '+25571427611
 ALTER TABLE dealers ENABLE ROW LEVEL SECURITY;
 ALTER TABLE officers ENABLE ROW LEVEL SECURITY;
 ALTER TABLE leads ENABLE ROW LEVEL SECURITY;
+ALTER TABLE otp_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lead_status_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lead_follow_ups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lead_activities ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lead_assignments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE push_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE officer_targets ENABLE ROW LEVEL SECURITY;
+
+-- One-time codes are never exposed through the anon or authenticated roles
+REVOKE ALL ON otp_codes FROM anon, authenticated;
+
+-- Row level security policies
+-- Identity of the signed-in user. The API signs a short-lived JWT for every
+-- request (src/lib/supabase-server.ts); PostgREST exposes its claims here.
+CREATE OR REPLACE FUNCTION app_claim(claim TEXT) RETURNS TEXT
+LANGUAGE sql STABLE AS $$
+  SELECT NULLIF(current_setting('request.jwt.claims', true), '')::jsonb ->> claim
+$$;
+
+-- platform_admin, dealer, supervisor or officer
+CREATE OR REPLACE FUNCTION app_role() RETURNS TEXT
+LANGUAGE sql STABLE AS $$
+  SELECT app_claim('app_role')
+$$;
+
+-- The signed-in dealer (dealer roles) or officer (officer roles)
+CREATE OR REPLACE FUNCTION app_user_id() RETURNS UUID
+LANGUAGE sql STABLE AS $$
+  SELECT app_claim('sub')::uuid
+$$;
+
+-- The dealer the signed-in user belongs to
+CREATE OR REPLACE FUNCTION app_dealer_id() RETURNS UUID
+LANGUAGE sql STABLE AS $$
+  SELECT app_claim('dealer_id')::uuid
+$$;
+
+-- Whether the signed-in user can see an officer (and so their leads).
+-- Mirrors canAccessOfficer in src/lib/permissions.ts.
+CREATE OR REPLACE FUNCTION app_can_access_officer(
+  officer_id UUID,
+  officer_dealer_id UUID,
+  officer_supervisor_id UUID
+) RETURNS BOOLEAN
+LANGUAGE sql STABLE AS $$
+  SELECT CASE app_role()
+    WHEN 'platform_admin' THEN true
+    WHEN 'dealer' THEN officer_dealer_id = app_dealer_id()
+    WHEN 'supervisor' THEN officer_dealer_id = app_dealer_id()
+      AND (officer_id = app_user_id() OR officer_supervisor_id = app_user_id())
+    WHEN 'officer' THEN officer_id = app_user_id()
+    ELSE false
+  END
+$$;
+
+-- Leads at a dealer with the same number. Officers only see their own leads,
+-- so this runs as the table owner and returns just enough to recognise the
+-- customer. Platform admins name the dealer; everyone else gets their own.
+CREATE OR REPLACE FUNCTION find_duplicate_leads(
+  lookup_phone TEXT,
+  lookup_dealer_id UUID DEFAULT NULL,
+  exclude_lead_id UUID DEFAULT NULL
+) RETURNS TABLE (
+  id UUID,
+  lead_name TEXT,
+  ward TEXT,
+  status TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  officer_id UUID,
+  officer_name TEXT
+)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path FROM CURRENT AS $$
+  SELECT l.id, l.lead_name, l.ward, l.status, l.created_at, o.id, o.name
+  FROM leads l
+  JOIN officers o ON o.id = l.officer_id
+  WHERE l.phone_normalized = normalize_phone(lookup_phone)
+    AND l.deleted_at IS NULL
+    AND l.merged_into_id IS NULL
+    AND (exclude_lead_id IS NULL OR l.id <> exclude_lead_id)
+    AND o.dealer_id = CASE
+      WHEN app_role() = 'platform_admin' THEN lookup_dealer_id
+      ELSE app_dealer_id()
+    END
+  ORDER BY l.created_at
+  LIMIT 10
+$$;
+
+REVOKE EXECUTE ON FUNCTION find_duplicate_leads(TEXT, UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION find_duplicate_leads(TEXT, UUID, UUID) TO authenticated;
+
+-- Officers with any of the given numbers. A phone number is an officer's
+-- login, so numbers are checked across every dealer; this runs as the table
+-- owner, answers only the roles that add officers (dealers, supervisors and
+-- platform admins), and only names officers the caller can see.
+CREATE OR REPLACE FUNCTION find_officers_by_phone(
+  lookup_phones TEXT[]
+) RETURNS TABLE (
+  phone TEXT,
+  officer_id UUID,
+  officer_name TEXT,
+  active BOOLEAN
+)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path FROM CURRENT AS $$
+  SELECT o.phone,
+    CASE WHEN visible THEN o.id END,
+    CASE WHEN visible THEN o.name END,
+    o.active
+  FROM officers o
+  CROSS JOIN LATERAL (
+    SELECT app_role() = 'platform_admin' OR o.dealer_id = app_dealer_id() AS visible
+  ) v
+  WHERE o.phone = ANY(lookup_phones)
+    AND app_role() IN ('dealer', 'supervisor', 'platform_admin')
+$$;
+
+REVOKE EXECUTE ON FUNCTION find_officers_by_phone(TEXT[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION find_officers_by_phone(TEXT[]) TO authenticated;
+
+-- Count a PIN attempt, locking the officer on the attempt that reaches the
+-- limit. Returns the attempts so far, or NULL when the officer is already
+-- locked out. Only the server (service role) calls this.
+CREATE OR REPLACE FUNCTION claim_pin_attempt(
+  target_officer_id UUID,
+  max_attempts INTEGER
+) RETURNS INTEGER
+LANGUAGE sql VOLATILE AS $$
+  UPDATE officers
+  SET pin_failed_attempts = pin_failed_attempts + 1,
+    pin_locked_at = CASE WHEN pin_failed_attempts + 1 >= max_attempts THEN NOW() END
+  WHERE id = target_officer_id AND pin_locked_at IS NULL
+  RETURNING pin_failed_attempts
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_pin_attempt(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Count an attempt at a one-time code, before the code is compared. Returns
+-- the attempts so far, or NULL when the code is used up (consumed, or out of
+-- attempts). Only the server (service role) calls this.
+CREATE OR REPLACE FUNCTION claim_otp_attempt(
+  target_code_id UUID,
+  max_attempts INTEGER
+) RETURNS INTEGER
+LANGUAGE sql VOLATILE AS $$
+  UPDATE otp_codes
+  SET attempts = attempts + 1
+  WHERE id = target_code_id AND consumed_at IS NULL AND attempts < max_attempts
+  RETURNING attempts
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_otp_attempt(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Move an officer's leads (or just one of them) to another officer, with
+-- history and timeline rows, in one transaction. Runs as the caller, so RLS
+-- decides which leads may move and where to.
+CREATE OR REPLACE FUNCTION transfer_leads(
+  from_officer UUID,
+  to_officer UUID,
+  only_lead UUID DEFAULT NULL,
+  transfer_reason TEXT DEFAULT NULL
+) RETURNS SETOF UUID
+LANGUAGE sql AS $$
+  WITH moved AS (
+    UPDATE leads
+    SET officer_id = to_officer, updated_at = NOW()
+    WHERE officer_id = from_officer
+      AND (only_lead IS NULL OR id = only_lead)
+    RETURNING id
+  ), history AS (
+    INSERT INTO lead_assignments (lead_id, from_officer_id, to_officer_id, reason, changed_by, changed_by_role)
+    SELECT id, from_officer, to_officer, transfer_reason, app_user_id(), app_role() FROM moved
+  ), timeline AS (
+    INSERT INTO lead_activities (lead_id, type, note, from_officer_id, to_officer_id, created_by, created_by_role)
+    SELECT id, 'reassignment', transfer_reason, from_officer, to_officer, app_user_id(), app_role() FROM moved
+  )
+  SELECT id FROM moved
+$$;
+
+REVOKE EXECUTE ON FUNCTION transfer_leads(UUID, UUID, UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION transfer_leads(UUID, UUID, UUID, TEXT) TO authenticated;
+
+-- Move a lead from expected_status to new_status, with history and timeline
+-- rows, in one transaction. Returns the lead's ID, or nothing when the lead is
+-- no longer in expected_status (someone else moved it) or has been removed.
+-- Runs as the caller, so RLS decides which leads may change.
+CREATE OR REPLACE FUNCTION change_lead_status(
+  target_lead UUID,
+  expected_status TEXT,
+  new_status TEXT,
+  new_lost_reason TEXT DEFAULT NULL,
+  change_note TEXT DEFAULT NULL
+) RETURNS SETOF UUID
+LANGUAGE sql AS $$
+  WITH moved AS (
+    UPDATE leads
+    SET status = new_status, lost_reason = new_lost_reason, status_changed_at = NOW(), updated_at = NOW()
+    WHERE id = target_lead AND status = expected_status AND deleted_at IS NULL
+    RETURNING id
+  ), history AS (
+    INSERT INTO lead_status_history (lead_id, from_status, to_status, lost_reason, note, changed_by, changed_by_role)
+    SELECT id, expected_status, new_status, new_lost_reason, change_note, app_user_id(), app_role() FROM moved
+  ), timeline AS (
+    INSERT INTO lead_activities (lead_id, type, note, from_status, to_status, created_by, created_by_role)
+    SELECT id, 'status_change', NULLIF(concat_ws(' - ', new_lost_reason, change_note), ''),
+      expected_status, new_status, app_user_id(), app_role()
+    FROM moved
+  )
+  SELECT id FROM moved
+$$;
+
+REVOKE EXECUTE ON FUNCTION change_lead_status(UUID, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION change_lead_status(UUID, TEXT, TEXT, TEXT, TEXT) TO authenticated;
+
+-- Lead counts for a date range: totals, a series per day, week or month, and
+-- breakdowns by status, officer, ward and phone model. Runs as the caller, so
+-- RLS limits it to the leads they can see; scope_officer_ids narrows it
+-- further (NULL for every visible lead). Weeks start on Monday.
+CREATE OR REPLACE FUNCTION lead_analytics(
+  range_from DATE,
+  range_to DATE,
+  bucket TEXT,
+  today DATE,
+  scope_officer_ids UUID[] DEFAULT NULL,
+  top_count INTEGER DEFAULT 10
+) RETURNS JSONB
+LANGUAGE sql STABLE SET search_path FROM CURRENT AS $$
+  WITH scoped AS (
+    SELECT l.officer_id, l.status, l.ward, l.interested_phone_model,
+      (l.created_at AT TIME ZONE 'Africa/Dar_es_Salaam')::date AS created_on
+    FROM leads l
+    WHERE l.deleted_at IS NULL
+      AND l.merged_into_id IS NULL
+      AND (scope_officer_ids IS NULL OR l.officer_id = ANY(scope_officer_ids))
+  ),
+  ranged AS (
+    SELECT * FROM scoped WHERE created_on BETWEEN range_from AND range_to
+  ),
+  periods AS (
+    SELECT p::date AS period
+    FROM generate_series(
+      date_trunc(bucket, range_from::timestamp),
+      date_trunc(bucket, range_to::timestamp),
+      ('1 ' || bucket)::interval
+    ) p
+  ),
+  series AS (
+    SELECT periods.period, count(ranged.created_on) AS count
+    FROM periods
+    LEFT JOIN ranged ON date_trunc(bucket, ranged.created_on::timestamp)::date = periods.period
+    GROUP BY periods.period
+  ),
+  by_status AS (
+    SELECT status, count(*) AS count FROM ranged GROUP BY status
+  ),
+  by_officer AS (
+    SELECT r.officer_id, o.name AS officer_name, count(*) AS count
+    FROM ranged r
+    LEFT JOIN officers o ON o.id = r.officer_id
+    GROUP BY r.officer_id, o.name
+  ),
+  -- Wards and models are typed by hand, so spellings differing only in case
+  -- or spacing count together under the most common one
+  by_ward AS (
+    SELECT mode() WITHIN GROUP (ORDER BY btrim(ward)) AS ward, count(*) AS count
+    FROM ranged
+    GROUP BY lower(regexp_replace(btrim(ward), '\s+', ' ', 'g'))
+    ORDER BY count DESC, 1
+    LIMIT top_count
+  ),
+  by_phone_model AS (
+    SELECT mode() WITHIN GROUP (ORDER BY btrim(interested_phone_model)) AS phone_model, count(*) AS count
+    FROM ranged
+    GROUP BY lower(regexp_replace(btrim(interested_phone_model), '\s+', ' ', 'g'))
+    ORDER BY count DESC, 1
+    LIMIT top_count
+  )
+  SELECT jsonb_build_object(
+    'totals', (
+      SELECT jsonb_build_object(
+        'all_time', count(*),
+        'in_range', count(*) FILTER (WHERE created_on BETWEEN range_from AND range_to),
+        'today', count(*) FILTER (WHERE created_on = today),
+        'last_7_days', count(*) FILTER (WHERE created_on BETWEEN today - 6 AND today)
+      )
+      FROM scoped
+    ),
+    'series', (
+      SELECT coalesce(jsonb_agg(jsonb_build_object('period', period, 'count', count) ORDER BY period), '[]')
+      FROM series
+    ),
+    'by_status', (
+      SELECT coalesce(jsonb_agg(jsonb_build_object('status', status, 'count', count)), '[]')
+      FROM by_status
+    ),
+    'by_officer', (
+      SELECT coalesce(jsonb_agg(
+        jsonb_build_object('officer_id', officer_id, 'officer_name', officer_name, 'count', count)
+        ORDER BY count DESC, officer_name
+      ), '[]')
+      FROM by_officer
+    ),
+    'by_ward', (
+      SELECT coalesce(jsonb_agg(jsonb_build_object('ward', ward, 'count', count) ORDER BY count DESC, ward), '[]')
+      FROM by_ward
+    ),
+    'by_phone_model', (
+      SELECT coalesce(jsonb_agg(
+        jsonb_build_object('phone_model', phone_model, 'count', count)
+        ORDER BY count DESC, phone_model
+      ), '[]')
+      FROM by_phone_model
+    )
+  )
+$$;
+
+REVOKE EXECUTE ON FUNCTION lead_analytics(DATE, DATE, TEXT, DATE, UUID[], INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION lead_analytics(DATE, DATE, TEXT, DATE, UUID[], INTEGER) TO authenticated;
+
+-- Per officer in scope, for leads and follow-ups in a date range: leads they
+-- captured and how many had a GPS fix, follow-ups they logged and how many
+-- were logged by the contact date they were due, and leads they are working
+-- and how many of those were won. Runs as the caller, so RLS limits it to the
+-- leads and officers they can see; scope_officer_ids narrows it further (NULL
+-- for every visible officer). Deactivated officers are only listed when they
+-- have something in the range.
+CREATE OR REPLACE FUNCTION officer_performance(
+  range_from DATE,
+  range_to DATE,
+  scope_officer_ids UUID[] DEFAULT NULL
+) RETURNS TABLE (
+  officer_id UUID,
+  officer_name TEXT,
+  active BOOLEAN,
+  leads_captured BIGINT,
+  leads_with_gps BIGINT,
+  follow_ups_logged BIGINT,
+  follow_ups_on_time BIGINT,
+  leads_assigned BIGINT,
+  leads_won BIGINT
+)
+LANGUAGE sql STABLE SET search_path FROM CURRENT AS $$
+  WITH ranged_leads AS (
+    SELECT l.officer_id, coalesce(l.captured_by, l.officer_id) AS captured_by, l.status,
+      l.gps_latitude IS NOT NULL AND l.gps_longitude IS NOT NULL AS has_gps
+    FROM leads l
+    WHERE l.deleted_at IS NULL
+      AND l.merged_into_id IS NULL
+      AND (l.created_at AT TIME ZONE 'Africa/Dar_es_Salaam')::date BETWEEN range_from AND range_to
+  ),
+  captured AS (
+    SELECT captured_by AS officer_id, count(*) AS leads, count(*) FILTER (WHERE has_gps) AS with_gps
+    FROM ranged_leads
+    GROUP BY captured_by
+  ),
+  assigned AS (
+    SELECT officer_id, count(*) AS leads, count(*) FILTER (WHERE status = 'won') AS won
+    FROM ranged_leads
+    GROUP BY officer_id
+  ),
+  -- A follow-up logged after the day it was due is late; one with no due
+  -- date could not be
+  followed_up AS (
+    SELECT f.logged_by AS officer_id, count(*) AS logged,
+      count(*) FILTER (
+        WHERE f.previous_contact_date IS NULL
+          OR (f.created_at AT TIME ZONE 'Africa/Dar_es_Salaam')::date <= f.previous_contact_date
+      ) AS on_time
+    FROM lead_follow_ups f
+    WHERE f.logged_by_role IN ('officer', 'supervisor')
+      AND (f.created_at AT TIME ZONE 'Africa/Dar_es_Salaam')::date BETWEEN range_from AND range_to
+    GROUP BY f.logged_by
+  )
+  SELECT o.id, o.name, o.active,
+    coalesce(c.leads, 0), coalesce(c.with_gps, 0),
+    coalesce(f.logged, 0), coalesce(f.on_time, 0),
+    coalesce(a.leads, 0), coalesce(a.won, 0)
+  FROM officers o
+  LEFT JOIN captured c ON c.officer_id = o.id
+  LEFT JOIN assigned a ON a.officer_id = o.id
+  LEFT JOIN followed_up f ON f.officer_id = o.id
+  WHERE (scope_officer_ids IS NULL OR o.id = ANY(scope_officer_ids))
+    AND (o.active OR c.officer_id IS NOT NULL OR a.officer_id IS NOT NULL OR f.officer_id IS NOT NULL)
+  ORDER BY o.name
+$$;
+
+REVOKE EXECUTE ON FUNCTION officer_performance(DATE, DATE, UUID[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION officer_performance(DATE, DATE, UUID[]) TO authenticated;
+
+-- Every target in scope with the leads captured towards it in the period
+-- that contains on_date. Runs as the caller, so RLS limits it to the targets
+-- and leads they can see; scope_officer_ids narrows it further (NULL for
+-- every visible target).
+CREATE OR REPLACE FUNCTION target_attainment(
+  on_date DATE,
+  scope_officer_ids UUID[] DEFAULT NULL
+) RETURNS TABLE (
+  target_id UUID,
+  officer_id UUID,
+  officer_name TEXT,
+  active BOOLEAN,
+  applies_to TEXT,
+  period TEXT,
+  lead_count INTEGER,
+  period_start DATE,
+  period_end DATE,
+  achieved BIGINT
+)
+LANGUAGE sql STABLE SET search_path FROM CURRENT AS $$
+  WITH targets AS (
+    SELECT t.*, o.name, o.active,
+      date_trunc(t.period, on_date::timestamp)::date AS starts_on,
+      (date_trunc(t.period, on_date::timestamp) + ('1 ' || t.period)::interval)::date - 1 AS ends_on
+    FROM officer_targets t
+    JOIN officers o ON o.id = t.officer_id
+    WHERE scope_officer_ids IS NULL OR t.officer_id = ANY(scope_officer_ids)
+  )
+  SELECT t.id, t.officer_id, t.name, t.active, t.applies_to, t.period, t.lead_count,
+    t.starts_on, t.ends_on,
+    (
+      SELECT count(*)
+      FROM leads l
+      WHERE l.deleted_at IS NULL
+        AND l.merged_into_id IS NULL
+        AND (l.created_at AT TIME ZONE 'Africa/Dar_es_Salaam')::date BETWEEN t.starts_on AND t.ends_on
+        AND (
+          coalesce(l.captured_by, l.officer_id) = t.officer_id
+          OR (t.applies_to = 'team' AND coalesce(l.captured_by, l.officer_id) IN (
+            SELECT m.id FROM officers m WHERE m.supervisor_id = t.officer_id
+          ))
+        )
+    )
+  FROM targets t
+  ORDER BY t.name, t.applies_to, array_position(ARRAY['day', 'week', 'month'], t.period)
+$$;
+
+REVOKE EXECUTE ON FUNCTION target_attainment(DATE, UUID[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION target_attainment(DATE, UUID[]) TO authenticated;
+
+-- Dealers: platform admins see every dealer, everyone else their own
+CREATE POLICY "Dealers are visible to their own users" ON dealers
+  FOR SELECT TO authenticated
+  USING (app_role() = 'platform_admin' OR id = app_dealer_id());
+
+CREATE POLICY "Dealers update their own profile" ON dealers
+  FOR UPDATE TO authenticated
+  USING (app_role() = 'platform_admin' OR (app_role() = 'dealer' AND id = app_dealer_id()))
+  WITH CHECK (app_role() = 'platform_admin' OR (app_role() = 'dealer' AND id = app_dealer_id()));
+
+-- Officers: visible within the user's scope; supervisors manage their team only
+CREATE POLICY "Officers are visible within scope" ON officers
+  FOR SELECT TO authenticated
+  USING (app_can_access_officer(id, dealer_id, supervisor_id));
+
+CREATE POLICY "Managers add officers" ON officers
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    app_role() = 'platform_admin'
+    OR (app_role() = 'dealer' AND dealer_id = app_dealer_id())
+    OR (app_role() = 'supervisor' AND dealer_id = app_dealer_id()
+      AND role = 'officer' AND supervisor_id = app_user_id())
+  );
+
+CREATE POLICY "Managers update officers" ON officers
+  FOR UPDATE TO authenticated
+  USING (app_role() <> 'officer' AND app_can_access_officer(id, dealer_id, supervisor_id))
+  WITH CHECK (
+    app_role() = 'platform_admin'
+    OR (app_role() = 'dealer' AND dealer_id = app_dealer_id())
+    OR (app_role() = 'supervisor' AND dealer_id = app_dealer_id() AND (
+      (id = app_user_id() AND role = 'supervisor')
+      OR (supervisor_id = app_user_id() AND role = 'officer')
+    ))
+  );
+
+CREATE POLICY "Dealers remove officers" ON officers
+  FOR DELETE TO authenticated
+  USING (
+    app_role() = 'platform_admin'
+    OR (app_role() = 'dealer' AND dealer_id = app_dealer_id())
+  );
+
+-- Leads: visible when their officer is; officers only capture leads as
+-- themselves, and not once deactivated
+CREATE POLICY "Leads are visible within scope" ON leads
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM officers o WHERE o.id = leads.officer_id));
+
+CREATE POLICY "Officers capture their own leads" ON leads
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    app_role() IN ('officer', 'supervisor')
+    AND officer_id = app_user_id()
+    AND EXISTS (SELECT 1 FROM officers o WHERE o.id = app_user_id() AND o.active)
+  );
+
+CREATE POLICY "Dealers import leads" ON leads
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    app_role() IN ('platform_admin', 'dealer')
+    AND source = 'import'
+    AND EXISTS (SELECT 1 FROM officers o WHERE o.id = leads.officer_id AND o.active)
+  );
+
+CREATE POLICY "Leads are updated within scope" ON leads
+  FOR UPDATE TO authenticated
+  USING (EXISTS (SELECT 1 FROM officers o WHERE o.id = leads.officer_id))
+  WITH CHECK (EXISTS (SELECT 1 FROM officers o WHERE o.id = leads.officer_id));
+
+CREATE POLICY "Dealers remove leads" ON leads
+  FOR DELETE TO authenticated
+  USING (
+    app_role() IN ('platform_admin', 'dealer')
+    AND EXISTS (SELECT 1 FROM officers o WHERE o.id = leads.officer_id)
+  );
+
+-- Status history: visible with its lead; rows are written as the signed-in
+-- user and never changed afterwards
+CREATE POLICY "Status history is visible with its lead" ON lead_status_history
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM leads l WHERE l.id = lead_status_history.lead_id));
+
+CREATE POLICY "Users record their own status changes" ON lead_status_history
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    changed_by = app_user_id()
+    AND changed_by_role = app_role()
+    AND EXISTS (SELECT 1 FROM leads l WHERE l.id = lead_status_history.lead_id)
+  );
+
+-- Follow-ups: same rules as status history
+CREATE POLICY "Follow-ups are visible with their lead" ON lead_follow_ups
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM leads l WHERE l.id = lead_follow_ups.lead_id));
+
+CREATE POLICY "Users log their own follow-ups" ON lead_follow_ups
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    logged_by = app_user_id()
+    AND logged_by_role = app_role()
+    AND EXISTS (SELECT 1 FROM leads l WHERE l.id = lead_follow_ups.lead_id)
+  );
+
+-- Activities: same rules as status history
+CREATE POLICY "Activities are visible with their lead" ON lead_activities
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM leads l WHERE l.id = lead_activities.lead_id));
+
+CREATE POLICY "Users record their own activities" ON lead_activities
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    created_by = app_user_id()
+    AND created_by_role = app_role()
+    AND EXISTS (SELECT 1 FROM leads l WHERE l.id = lead_activities.lead_id)
+  );
+
+-- Assignments: same rules as status history
+CREATE POLICY "Assignments are visible with their lead" ON lead_assignments
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM leads l WHERE l.id = lead_assignments.lead_id));
+
+CREATE POLICY "Users record their own assignments" ON lead_assignments
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    changed_by = app_user_id()
+    AND changed_by_role = app_role()
+    AND EXISTS (SELECT 1 FROM leads l WHERE l.id = lead_assignments.lead_id)
+  );
+
+-- Push subscriptions: officers manage only their own; the reminder job uses
+-- the service role
+CREATE POLICY "Officers manage their own push subscriptions" ON push_subscriptions
+  FOR ALL TO authenticated
+  USING (app_role() IN ('officer', 'supervisor') AND officer_id = app_user_id())
+  WITH CHECK (app_role() IN ('officer', 'supervisor') AND officer_id = app_user_id());
+
+-- Targets: visible with their officer, so officers see their own and
+-- supervisors their team's; only dealers and platform admins set them
+CREATE POLICY "Targets are visible with their officer" ON officer_targets
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM officers o WHERE o.id = officer_targets.officer_id));
+
+CREATE POLICY "Dealers set their officers' targets" ON officer_targets
+  FOR ALL TO authenticated
+  USING (
+    app_role() IN ('dealer', 'platform_admin')
+    AND EXISTS (SELECT 1 FROM officers o WHERE o.id = officer_targets.officer_id)
+  )
+  WITH CHECK (
+    app_role() IN ('dealer', 'platform_admin')
+    AND set_by = app_user_id()
+    AND EXISTS (SELECT 1 FROM officers o WHERE o.id = officer_targets.officer_id)
+  );
 
--- Create policies (for now, allow all operations - you can restrict later)
-CREATE POLICY "Allow all operations on dealers" ON dealers FOR ALL USING (true);
-CREATE POLICY "Allow all operations on officers" ON officers FOR ALL USING (true);
-CREATE POLICY "Allow all operations on leads" ON leads FOR ALL USING (true);
\ No newline at end of file
+-- otp_codes has no policies: only the service role (login routes) can use it.
+-- The anon key has no policies on any table, so it can read and write nothing.
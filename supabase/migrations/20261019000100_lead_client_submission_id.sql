@@ -0,0 +1,8 @@
+-- Idempotent lead creation
+-- Clients send a generated submission ID with every create and retry;
+-- the unique constraint guarantees a replay never inserts a second row.
+
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS client_submission_id TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_leads_client_submission_id
+  ON leads(client_submission_id);
@@ -0,0 +1,22 @@
+-- Dealer OTP login
+-- One-time codes are stored as HMAC hashes; the API consumes a code on
+-- successful verification and counts wrong guesses in attempts.
+
+CREATE TABLE IF NOT EXISTS otp_codes (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  identifier TEXT NOT NULL,
+  purpose TEXT NOT NULL,
+  code_hash TEXT NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  consumed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_otp_codes_identifier
+  ON otp_codes(identifier, purpose, created_at DESC);
+
+ALTER TABLE otp_codes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all operations on otp_codes" ON otp_codes;
+CREATE POLICY "Allow all operations on otp_codes" ON otp_codes FOR ALL USING (true);
@@ -0,0 +1,7 @@
+-- Officer session login
+-- Officers sign in by phone on the server; an optional scrypt PIN hash adds
+-- a second factor. The phone index backs the login lookup.
+
+ALTER TABLE officers ADD COLUMN IF NOT EXISTS pin_hash TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_officers_phone ON officers(phone);
@@ -0,0 +1,16 @@
+-- Role-based access
+-- Dealer accounts are dealers or platform admins; officer accounts are officers
+-- or supervisors. A supervisor manages the officers whose supervisor_id points
+-- at them. Existing accounts keep their current access (dealer / officer).
+
+ALTER TABLE dealers ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'dealer'
+  CHECK (role IN ('dealer', 'platform_admin'));
+
+ALTER TABLE officers ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'officer'
+  CHECK (role IN ('officer', 'supervisor'));
+
+ALTER TABLE officers ADD COLUMN IF NOT EXISTS supervisor_id UUID
+  REFERENCES officers(id) ON DELETE SET NULL
+  CHECK (supervisor_id <> id);
+
+CREATE INDEX IF NOT EXISTS idx_officers_supervisor_id ON officers(supervisor_id);
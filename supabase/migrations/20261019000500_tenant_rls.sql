@@ -0,0 +1,122 @@
+-- Tenant-scoped row level security
+-- Replaces the allow-all policies. The API now queries as the signed-in user
+-- with a JWT carrying app_role and dealer_id claims (see SUPABASE_JWT_SECRET
+-- in SETUP.md); login lookups use the service role key, which bypasses RLS.
+
+DROP POLICY IF EXISTS "Allow all operations on dealers" ON dealers;
+DROP POLICY IF EXISTS "Allow all operations on officers" ON officers;
+DROP POLICY IF EXISTS "Allow all operations on leads" ON leads;
+DROP POLICY IF EXISTS "Allow all operations on otp_codes" ON otp_codes;
+
+-- One-time codes are never exposed through the anon or authenticated roles
+REVOKE ALL ON otp_codes FROM anon, authenticated;
+
+-- Identity of the signed-in user. The API signs a short-lived JWT for every
+-- request (src/lib/supabase-server.ts); PostgREST exposes its claims here.
+CREATE OR REPLACE FUNCTION app_claim(claim TEXT) RETURNS TEXT
+LANGUAGE sql STABLE AS $$
+  SELECT NULLIF(current_setting('request.jwt.claims', true), '')::jsonb ->> claim
+$$;
+
+-- platform_admin, dealer, supervisor or officer
+CREATE OR REPLACE FUNCTION app_role() RETURNS TEXT
+LANGUAGE sql STABLE AS $$
+  SELECT app_claim('app_role')
+$$;
+
+-- The signed-in dealer (dealer roles) or officer (officer roles)
+CREATE OR REPLACE FUNCTION app_user_id() RETURNS UUID
+LANGUAGE sql STABLE AS $$
+  SELECT app_claim('sub')::uuid
+$$;
+
+-- The dealer the signed-in user belongs to
+CREATE OR REPLACE FUNCTION app_dealer_id() RETURNS UUID
+LANGUAGE sql STABLE AS $$
+  SELECT app_claim('dealer_id')::uuid
+$$;
+
+-- Whether the signed-in user can see an officer (and so their leads).
+-- Mirrors canAccessOfficer in src/lib/permissions.ts.
+CREATE OR REPLACE FUNCTION app_can_access_officer(
+  officer_id UUID,
+  officer_dealer_id UUID,
+  officer_supervisor_id UUID
+) RETURNS BOOLEAN
+LANGUAGE sql STABLE AS $$
+  SELECT CASE app_role()
+    WHEN 'platform_admin' THEN true
+    WHEN 'dealer' THEN officer_dealer_id = app_dealer_id()
+    WHEN 'supervisor' THEN officer_dealer_id = app_dealer_id()
+      AND (officer_id = app_user_id() OR officer_supervisor_id = app_user_id())
+    WHEN 'officer' THEN officer_id = app_user_id()
+    ELSE false
+  END
+$$;
+
+-- Dealers: platform admins see every dealer, everyone else their own
+CREATE POLICY "Dealers are visible to their own users" ON dealers
+  FOR SELECT TO authenticated
+  USING (app_role() = 'platform_admin' OR id = app_dealer_id());
+
+CREATE POLICY "Dealers update their own profile" ON dealers
+  FOR UPDATE TO authenticated
+  USING (app_role() = 'platform_admin' OR (app_role() = 'dealer' AND id = app_dealer_id()))
+  WITH CHECK (app_role() = 'platform_admin' OR (app_role() = 'dealer' AND id = app_dealer_id()));
+
+-- Officers: visible within the user's scope; supervisors manage their team only
+CREATE POLICY "Officers are visible within scope" ON officers
+  FOR SELECT TO authenticated
+  USING (app_can_access_officer(id, dealer_id, supervisor_id));
+
+CREATE POLICY "Managers add officers" ON officers
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    app_role() = 'platform_admin'
+    OR (app_role() = 'dealer' AND dealer_id = app_dealer_id())
+    OR (app_role() = 'supervisor' AND dealer_id = app_dealer_id()
+      AND role = 'officer' AND supervisor_id = app_user_id())
+  );
+
+CREATE POLICY "Managers update officers" ON officers
+  FOR UPDATE TO authenticated
+  USING (app_role() <> 'officer' AND app_can_access_officer(id, dealer_id, supervisor_id))
+  WITH CHECK (
+    app_role() = 'platform_admin'
+    OR (app_role() = 'dealer' AND dealer_id = app_dealer_id())
+    OR (app_role() = 'supervisor' AND dealer_id = app_dealer_id() AND (
+      (id = app_user_id() AND role = 'supervisor')
+      OR (supervisor_id = app_user_id() AND role = 'officer')
+    ))
+  );
+
+CREATE POLICY "Dealers remove officers" ON officers
+  FOR DELETE TO authenticated
+  USING (
+    app_role() = 'platform_admin'
+    OR (app_role() = 'dealer' AND dealer_id = app_dealer_id())
+  );
+
+-- Leads: visible when their officer is; officers only capture leads as themselves
+CREATE POLICY "Leads are visible within scope" ON leads
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM officers o WHERE o.id = leads.officer_id));
+
+CREATE POLICY "Officers capture their own leads" ON leads
+  FOR INSERT TO authenticated
+  WITH CHECK (app_role() IN ('officer', 'supervisor') AND officer_id = app_user_id());
+
+CREATE POLICY "Leads are updated within scope" ON leads
+  FOR UPDATE TO authenticated
+  USING (EXISTS (SELECT 1 FROM officers o WHERE o.id = leads.officer_id))
+  WITH CHECK (EXISTS (SELECT 1 FROM officers o WHERE o.id = leads.officer_id));
+
+CREATE POLICY "Dealers remove leads" ON leads
+  FOR DELETE TO authenticated
+  USING (
+    app_role() IN ('platform_admin', 'dealer')
+    AND EXISTS (SELECT 1 FROM officers o WHERE o.id = leads.officer_id)
+  );
+
+-- otp_codes has no policies: only the service role (login routes) can use it.
+-- The anon key has no policies on any table, so it can read and write nothing.
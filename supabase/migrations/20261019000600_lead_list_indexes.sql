@@ -0,0 +1,16 @@
+-- Server-side lead lists
+-- GET /api/leads pages by (sort column, id) and filters by officer, dates and
+-- text. Cursor pagination needs created_at on every row.
+
+UPDATE leads SET created_at = NOW() WHERE created_at IS NULL;
+ALTER TABLE leads ALTER COLUMN created_at SET NOT NULL;
+
+-- Substring search on names and phone numbers
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+DROP INDEX IF EXISTS idx_leads_created_at;
+CREATE INDEX IF NOT EXISTS idx_leads_created_at_id ON leads(created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_leads_officer_created_at ON leads(officer_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_leads_next_contact_date ON leads(next_contact_date, id);
+CREATE INDEX IF NOT EXISTS idx_leads_lead_name_trgm ON leads USING gin (lead_name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_leads_phone_contact_trgm ON leads USING gin (phone_contact gin_trgm_ops);
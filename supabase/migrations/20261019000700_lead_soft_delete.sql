@@ -0,0 +1,5 @@
+-- Soft-deleted leads
+-- DELETE /api/leads/[id] sets deleted_at instead of removing the row, so a
+-- lead removed by mistake can be restored from the database.
+
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
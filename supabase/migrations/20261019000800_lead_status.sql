@@ -0,0 +1,42 @@
+-- Lead pipeline
+-- Every lead moves through new -> contacted -> follow_up -> negotiating and
+-- ends won or lost (with a reason). lead_status_history records each move and
+-- who made it. Existing leads start as new.
+
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'new'
+  CHECK (status IN ('new', 'contacted', 'follow_up', 'negotiating', 'won', 'lost'));
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS lost_reason TEXT;
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE leads ADD CONSTRAINT leads_lost_reason
+  CHECK ((status = 'lost') = (lost_reason IS NOT NULL));
+
+CREATE INDEX IF NOT EXISTS idx_leads_status ON leads(status);
+
+CREATE TABLE IF NOT EXISTS lead_status_history (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  lead_id UUID NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  lost_reason TEXT,
+  note TEXT,
+  changed_by UUID NOT NULL,
+  changed_by_role TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_status_history_lead_id
+  ON lead_status_history(lead_id, created_at DESC);
+
+ALTER TABLE lead_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Status history is visible with its lead" ON lead_status_history
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM leads l WHERE l.id = lead_status_history.lead_id));
+
+CREATE POLICY "Users record their own status changes" ON lead_status_history
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    changed_by = app_user_id()
+    AND changed_by_role = app_role()
+    AND EXISTS (SELECT 1 FROM leads l WHERE l.id = lead_status_history.lead_id)
+  );
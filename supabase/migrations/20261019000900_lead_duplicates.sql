@@ -0,0 +1,58 @@
+-- Duplicate leads
+-- Leads are matched on phone_normalized, the +255 form of phone_contact, within
+-- a dealer. A new lead whose number the dealer already has is flagged with
+-- duplicate_of_id. Merging keeps both rows: the merged one points at the lead
+-- that was kept (merged_into_id) and drops out of lists and counts.
+
+CREATE OR REPLACE FUNCTION normalize_phone(phone TEXT) RETURNS TEXT
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT '+255' || right(regexp_replace(phone, '\D', '', 'g'), 9)
+$$;
+
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS phone_normalized TEXT
+  GENERATED ALWAYS AS (normalize_phone(phone_contact)) STORED;
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS duplicate_of_id UUID REFERENCES leads(id) ON DELETE SET NULL;
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS merged_into_id UUID REFERENCES leads(id) ON DELETE SET NULL;
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS merged_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS merged_by UUID;
+ALTER TABLE leads ADD CONSTRAINT leads_not_merged_into_self CHECK (merged_into_id <> id);
+
+CREATE INDEX IF NOT EXISTS idx_leads_phone_normalized ON leads(phone_normalized)
+  WHERE deleted_at IS NULL AND merged_into_id IS NULL;
+CREATE INDEX IF NOT EXISTS idx_leads_duplicate_of_id ON leads(duplicate_of_id)
+  WHERE duplicate_of_id IS NOT NULL;
+
+-- Leads at a dealer with the same number. Officers only see their own leads,
+-- so this runs as the table owner and returns just enough to recognise the
+-- customer. Platform admins name the dealer; everyone else gets their own.
+CREATE OR REPLACE FUNCTION find_duplicate_leads(
+  lookup_phone TEXT,
+  lookup_dealer_id UUID DEFAULT NULL,
+  exclude_lead_id UUID DEFAULT NULL
+) RETURNS TABLE (
+  id UUID,
+  lead_name TEXT,
+  ward TEXT,
+  status TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  officer_id UUID,
+  officer_name TEXT
+)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path FROM CURRENT AS $$
+  SELECT l.id, l.lead_name, l.ward, l.status, l.created_at, o.id, o.name
+  FROM leads l
+  JOIN officers o ON o.id = l.officer_id
+  WHERE l.phone_normalized = normalize_phone(lookup_phone)
+    AND l.deleted_at IS NULL
+    AND l.merged_into_id IS NULL
+    AND (exclude_lead_id IS NULL OR l.id <> exclude_lead_id)
+    AND o.dealer_id = CASE
+      WHEN app_role() = 'platform_admin' THEN lookup_dealer_id
+      ELSE app_dealer_id()
+    END
+  ORDER BY l.created_at
+  LIMIT 10
+$$;
+
+REVOKE EXECUTE ON FUNCTION find_duplicate_leads(TEXT, UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION find_duplicate_leads(TEXT, UUID, UUID) TO authenticated;
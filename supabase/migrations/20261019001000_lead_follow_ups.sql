@@ -0,0 +1,41 @@
+-- Follow-ups
+-- Officers log what happened each time they follow a lead up and set the next
+-- contact date. lead_follow_ups keeps every outcome; the latest is copied onto
+-- the lead so the follow-up queue can show it without a join.
+
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS last_follow_up_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS last_follow_up_outcome TEXT;
+
+CREATE TABLE IF NOT EXISTS lead_follow_ups (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  lead_id UUID NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  outcome TEXT NOT NULL
+    CHECK (outcome IN ('reached', 'no_answer', 'switched_off', 'call_back', 'visited')),
+  note TEXT,
+  previous_contact_date DATE,
+  next_contact_date DATE NOT NULL,
+  logged_by UUID NOT NULL,
+  logged_by_role TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_follow_ups_lead_id
+  ON lead_follow_ups(lead_id, created_at DESC);
+
+-- Open leads by officer and due date, for the follow-up queue
+CREATE INDEX IF NOT EXISTS idx_leads_follow_up_queue ON leads(officer_id, next_contact_date)
+  WHERE deleted_at IS NULL AND merged_into_id IS NULL AND status NOT IN ('won', 'lost');
+
+ALTER TABLE lead_follow_ups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Follow-ups are visible with their lead" ON lead_follow_ups
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM leads l WHERE l.id = lead_follow_ups.lead_id));
+
+CREATE POLICY "Users log their own follow-ups" ON lead_follow_ups
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    logged_by = app_user_id()
+    AND logged_by_role = app_role()
+    AND EXISTS (SELECT 1 FROM leads l WHERE l.id = lead_follow_ups.lead_id)
+  );
@@ -0,0 +1,24 @@
+-- Push subscriptions
+-- Browsers that an officer turned follow-up reminders on in. The reminder job
+-- runs with the service role, reads every subscription and records the day it
+-- last reminded each one so a rerun does not notify twice.
+
+CREATE TABLE IF NOT EXISTS push_subscriptions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  officer_id UUID NOT NULL REFERENCES officers(id) ON DELETE CASCADE,
+  endpoint TEXT NOT NULL,
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  user_agent TEXT,
+  last_reminded_on DATE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT push_subscriptions_officer_endpoint UNIQUE (officer_id, endpoint)
+);
+
+ALTER TABLE push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Officers manage their own push subscriptions" ON push_subscriptions
+  FOR ALL TO authenticated
+  USING (app_role() IN ('officer', 'supervisor') AND officer_id = app_user_id())
+  WITH CHECK (app_role() IN ('officer', 'supervisor') AND officer_id = app_user_id());
@@ -0,0 +1,52 @@
+-- Lead activities
+-- A timeline of what happened to a lead after capture: notes, call attempts,
+-- visits (with optional GPS), SMS sent and status changes. Status changes and
+-- logged follow-ups are copied here by the API as they happen; existing ones
+-- are backfilled below so older leads have a complete timeline.
+
+CREATE TABLE IF NOT EXISTS lead_activities (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  lead_id UUID NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('note', 'call', 'visit', 'sms', 'status_change')),
+  note TEXT,
+  outcome TEXT
+    CHECK (outcome IN ('reached', 'no_answer', 'switched_off', 'call_back', 'visited')),
+  from_status TEXT,
+  to_status TEXT,
+  gps_latitude DECIMAL,
+  gps_longitude DECIMAL,
+  gps_accuracy DECIMAL,
+  created_by UUID NOT NULL,
+  created_by_role TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  -- Status changes say where the lead moved; only visits carry a location
+  CONSTRAINT lead_activities_status_change CHECK ((type = 'status_change') = (to_status IS NOT NULL)),
+  CONSTRAINT lead_activities_gps_on_visits CHECK (type = 'visit' OR gps_latitude IS NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_activities_lead_id
+  ON lead_activities(lead_id, created_at DESC);
+
+INSERT INTO lead_activities (lead_id, type, note, from_status, to_status, created_by, created_by_role, created_at)
+SELECT lead_id, 'status_change', NULLIF(CONCAT_WS(' - ', lost_reason, note), ''),
+  from_status, to_status, changed_by, changed_by_role, created_at
+FROM lead_status_history;
+
+INSERT INTO lead_activities (lead_id, type, note, outcome, created_by, created_by_role, created_at)
+SELECT lead_id, CASE WHEN outcome = 'visited' THEN 'visit' ELSE 'call' END, note, outcome,
+  logged_by, logged_by_role, created_at
+FROM lead_follow_ups;
+
+ALTER TABLE lead_activities ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Activities are visible with their lead" ON lead_activities
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM leads l WHERE l.id = lead_activities.lead_id));
+
+CREATE POLICY "Users record their own activities" ON lead_activities
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    created_by = app_user_id()
+    AND created_by_role = app_role()
+    AND EXISTS (SELECT 1 FROM leads l WHERE l.id = lead_activities.lead_id)
+  );
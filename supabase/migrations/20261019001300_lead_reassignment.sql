@@ -0,0 +1,85 @@
+-- Lead reassignment
+-- Leads can move to another officer, one at a time or an officer's whole
+-- book at once. officer_id is who works the lead now; captured_by keeps the
+-- officer who captured it. Each move is kept in lead_assignments and shown
+-- on the lead's timeline.
+
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS captured_by UUID REFERENCES officers(id) ON DELETE SET NULL;
+
+UPDATE leads SET captured_by = officer_id WHERE captured_by IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_leads_captured_by ON leads(captured_by);
+
+-- Deleting an officer no longer deletes their leads; they have to be
+-- transferred first
+ALTER TABLE leads DROP CONSTRAINT IF EXISTS leads_officer_id_fkey;
+ALTER TABLE leads ADD CONSTRAINT leads_officer_id_fkey
+  FOREIGN KEY (officer_id) REFERENCES officers(id) ON DELETE RESTRICT;
+
+CREATE TABLE IF NOT EXISTS lead_assignments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  lead_id UUID NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  from_officer_id UUID,
+  to_officer_id UUID NOT NULL,
+  reason TEXT,
+  changed_by UUID NOT NULL,
+  changed_by_role TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_assignments_lead_id
+  ON lead_assignments(lead_id, created_at DESC);
+
+-- Reassignments on the timeline
+ALTER TABLE lead_activities ADD COLUMN IF NOT EXISTS from_officer_id UUID;
+ALTER TABLE lead_activities ADD COLUMN IF NOT EXISTS to_officer_id UUID;
+
+ALTER TABLE lead_activities DROP CONSTRAINT IF EXISTS lead_activities_type_check;
+ALTER TABLE lead_activities ADD CONSTRAINT lead_activities_type_check
+  CHECK (type IN ('note', 'call', 'visit', 'sms', 'status_change', 'reassignment'));
+
+ALTER TABLE lead_activities ADD CONSTRAINT lead_activities_reassignment
+  CHECK ((type = 'reassignment') = (to_officer_id IS NOT NULL));
+
+ALTER TABLE lead_assignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Assignments are visible with their lead" ON lead_assignments
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM leads l WHERE l.id = lead_assignments.lead_id));
+
+CREATE POLICY "Users record their own assignments" ON lead_assignments
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    changed_by = app_user_id()
+    AND changed_by_role = app_role()
+    AND EXISTS (SELECT 1 FROM leads l WHERE l.id = lead_assignments.lead_id)
+  );
+
+-- Move an officer's leads (or just one of them) to another officer, with
+-- history and timeline rows, in one transaction. Runs as the caller, so RLS
+-- decides which leads may move and where to.
+CREATE OR REPLACE FUNCTION transfer_leads(
+  from_officer UUID,
+  to_officer UUID,
+  only_lead UUID DEFAULT NULL,
+  transfer_reason TEXT DEFAULT NULL
+) RETURNS SETOF UUID
+LANGUAGE sql AS $$
+  WITH moved AS (
+    UPDATE leads
+    SET officer_id = to_officer, updated_at = NOW()
+    WHERE officer_id = from_officer
+      AND (only_lead IS NULL OR id = only_lead)
+    RETURNING id
+  ), history AS (
+    INSERT INTO lead_assignments (lead_id, from_officer_id, to_officer_id, reason, changed_by, changed_by_role)
+    SELECT id, from_officer, to_officer, transfer_reason, app_user_id(), app_role() FROM moved
+  ), timeline AS (
+    INSERT INTO lead_activities (lead_id, type, note, from_officer_id, to_officer_id, created_by, created_by_role)
+    SELECT id, 'reassignment', transfer_reason, from_officer, to_officer, app_user_id(), app_role() FROM moved
+  )
+  SELECT id FROM moved
+$$;
+
+REVOKE EXECUTE ON FUNCTION transfer_leads(UUID, UUID, UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION transfer_leads(UUID, UUID, UUID, TEXT) TO authenticated;
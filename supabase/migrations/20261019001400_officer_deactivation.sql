@@ -0,0 +1,22 @@
+-- Officer deactivation
+-- Officers who leave are deactivated instead of deleted, so their leads and
+-- stats stay intact. Inactive officers cannot sign in or capture leads and
+-- are left out of officer pickers; a dealer can reactivate them.
+
+ALTER TABLE officers ADD COLUMN IF NOT EXISTS active BOOLEAN NOT NULL DEFAULT true;
+ALTER TABLE officers ADD COLUMN IF NOT EXISTS deactivated_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE officers ADD COLUMN IF NOT EXISTS deactivation_reason TEXT;
+
+ALTER TABLE officers ADD CONSTRAINT officers_deactivated_at
+  CHECK (active = (deactivated_at IS NULL));
+
+-- A session issued before deactivation can no longer capture leads
+DROP POLICY IF EXISTS "Officers capture their own leads" ON leads;
+
+CREATE POLICY "Officers capture their own leads" ON leads
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    app_role() IN ('officer', 'supervisor')
+    AND officer_id = app_user_id()
+    AND EXISTS (SELECT 1 FROM officers o WHERE o.id = app_user_id() AND o.active)
+  );
@@ -0,0 +1,32 @@
+-- Officer import
+-- Dealers onboard their officers from a spreadsheet. Officers gain an
+-- optional territory, and imports check which numbers already belong to an
+-- officer before anything is saved.
+
+ALTER TABLE officers ADD COLUMN IF NOT EXISTS territory TEXT;
+
+-- Officers with any of the given numbers. A phone number is an officer's
+-- login, so numbers are checked across every dealer; this runs as the table
+-- owner and only names officers the caller can see.
+CREATE OR REPLACE FUNCTION find_officers_by_phone(
+  lookup_phones TEXT[]
+) RETURNS TABLE (
+  phone TEXT,
+  officer_id UUID,
+  officer_name TEXT,
+  active BOOLEAN
+)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path FROM CURRENT AS $$
+  SELECT o.phone,
+    CASE WHEN visible THEN o.id END,
+    CASE WHEN visible THEN o.name END,
+    o.active
+  FROM officers o
+  CROSS JOIN LATERAL (
+    SELECT app_role() = 'platform_admin' OR o.dealer_id = app_dealer_id() AS visible
+  ) v
+  WHERE o.phone = ANY(lookup_phones)
+$$;
+
+REVOKE EXECUTE ON FUNCTION find_officers_by_phone(TEXT[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION find_officers_by_phone(TEXT[]) TO authenticated;
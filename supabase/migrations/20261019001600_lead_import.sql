@@ -0,0 +1,18 @@
+-- Lead import
+-- Dealers import leads collected on paper or in other tools. Imported leads
+-- are flagged with their source so they can be told apart from leads
+-- captured in the app.
+
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'app'
+  CHECK (source IN ('app', 'import'));
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS source_detail TEXT;
+
+-- Dealers and platform admins add imported leads for active officers they
+-- can see
+CREATE POLICY "Dealers import leads" ON leads
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    app_role() IN ('platform_admin', 'dealer')
+    AND source = 'import'
+    AND EXISTS (SELECT 1 FROM officers o WHERE o.id = leads.officer_id AND o.active)
+  );
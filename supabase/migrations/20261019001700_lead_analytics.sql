@@ -0,0 +1,108 @@
+-- Lead analytics
+-- Dashboards count leads in the database instead of downloading them. Days,
+-- weeks and months are Tanzania calendar periods (Africa/Dar_es_Salaam).
+
+-- Lead counts for a date range: totals, a series per day, week or month, and
+-- breakdowns by status, officer, ward and phone model. Runs as the caller, so
+-- RLS limits it to the leads they can see; scope_officer_ids narrows it
+-- further (NULL for every visible lead). Weeks start on Monday.
+CREATE OR REPLACE FUNCTION lead_analytics(
+  range_from DATE,
+  range_to DATE,
+  bucket TEXT,
+  today DATE,
+  scope_officer_ids UUID[] DEFAULT NULL,
+  top_count INTEGER DEFAULT 10
+) RETURNS JSONB
+LANGUAGE sql STABLE SET search_path FROM CURRENT AS $$
+  WITH scoped AS (
+    SELECT l.officer_id, l.status, l.ward, l.interested_phone_model,
+      (l.created_at AT TIME ZONE 'Africa/Dar_es_Salaam')::date AS created_on
+    FROM leads l
+    WHERE l.deleted_at IS NULL
+      AND l.merged_into_id IS NULL
+      AND (scope_officer_ids IS NULL OR l.officer_id = ANY(scope_officer_ids))
+  ),
+  ranged AS (
+    SELECT * FROM scoped WHERE created_on BETWEEN range_from AND range_to
+  ),
+  periods AS (
+    SELECT p::date AS period
+    FROM generate_series(
+      date_trunc(bucket, range_from::timestamp),
+      date_trunc(bucket, range_to::timestamp),
+      ('1 ' || bucket)::interval
+    ) p
+  ),
+  series AS (
+    SELECT periods.period, count(ranged.created_on) AS count
+    FROM periods
+    LEFT JOIN ranged ON date_trunc(bucket, ranged.created_on::timestamp)::date = periods.period
+    GROUP BY periods.period
+  ),
+  by_status AS (
+    SELECT status, count(*) AS count FROM ranged GROUP BY status
+  ),
+  by_officer AS (
+    SELECT r.officer_id, o.name AS officer_name, count(*) AS count
+    FROM ranged r
+    LEFT JOIN officers o ON o.id = r.officer_id
+    GROUP BY r.officer_id, o.name
+  ),
+  -- Wards and models are typed by hand, so spellings differing only in case
+  -- or spacing count together under the most common one
+  by_ward AS (
+    SELECT mode() WITHIN GROUP (ORDER BY btrim(ward)) AS ward, count(*) AS count
+    FROM ranged
+    GROUP BY lower(regexp_replace(btrim(ward), '\s+', ' ', 'g'))
+    ORDER BY count DESC, 1
+    LIMIT top_count
+  ),
+  by_phone_model AS (
+    SELECT mode() WITHIN GROUP (ORDER BY btrim(interested_phone_model)) AS phone_model, count(*) AS count
+    FROM ranged
+    GROUP BY lower(regexp_replace(btrim(interested_phone_model), '\s+', ' ', 'g'))
+    ORDER BY count DESC, 1
+    LIMIT top_count
+  )
+  SELECT jsonb_build_object(
+    'totals', (
+      SELECT jsonb_build_object(
+        'all_time', count(*),
+        'in_range', count(*) FILTER (WHERE created_on BETWEEN range_from AND range_to),
+        'today', count(*) FILTER (WHERE created_on = today),
+        'last_7_days', count(*) FILTER (WHERE created_on BETWEEN today - 6 AND today)
+      )
+      FROM scoped
+    ),
+    'series', (
+      SELECT coalesce(jsonb_agg(jsonb_build_object('period', period, 'count', count) ORDER BY period), '[]')
+      FROM series
+    ),
+    'by_status', (
+      SELECT coalesce(jsonb_agg(jsonb_build_object('status', status, 'count', count)), '[]')
+      FROM by_status
+    ),
+    'by_officer', (
+      SELECT coalesce(jsonb_agg(
+        jsonb_build_object('officer_id', officer_id, 'officer_name', officer_name, 'count', count)
+        ORDER BY count DESC, officer_name
+      ), '[]')
+      FROM by_officer
+    ),
+    'by_ward', (
+      SELECT coalesce(jsonb_agg(jsonb_build_object('ward', ward, 'count', count) ORDER BY count DESC, ward), '[]')
+      FROM by_ward
+    ),
+    'by_phone_model', (
+      SELECT coalesce(jsonb_agg(
+        jsonb_build_object('phone_model', phone_model, 'count', count)
+        ORDER BY count DESC, phone_model
+      ), '[]')
+      FROM by_phone_model
+    )
+  )
+$$;
+
+REVOKE EXECUTE ON FUNCTION lead_analytics(DATE, DATE, TEXT, DATE, UUID[], INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION lead_analytics(DATE, DATE, TEXT, DATE, UUID[], INTEGER) TO authenticated;
@@ -0,0 +1,73 @@
+-- Officer performance
+-- Counts behind the dealer leaderboard and officer scorecards. Periods are
+-- Tanzania calendar days (Africa/Dar_es_Salaam).
+
+-- Per officer in scope, for leads and follow-ups in a date range: leads they
+-- captured and how many had a GPS fix, follow-ups they logged and how many
+-- were logged by the contact date they were due, and leads they are working
+-- and how many of those were won. Runs as the caller, so RLS limits it to the
+-- leads and officers they can see; scope_officer_ids narrows it further (NULL
+-- for every visible officer). Deactivated officers are only listed when they
+-- have something in the range.
+CREATE OR REPLACE FUNCTION officer_performance(
+  range_from DATE,
+  range_to DATE,
+  scope_officer_ids UUID[] DEFAULT NULL
+) RETURNS TABLE (
+  officer_id UUID,
+  officer_name TEXT,
+  active BOOLEAN,
+  leads_captured BIGINT,
+  leads_with_gps BIGINT,
+  follow_ups_logged BIGINT,
+  follow_ups_on_time BIGINT,
+  leads_assigned BIGINT,
+  leads_won BIGINT
+)
+LANGUAGE sql STABLE SET search_path FROM CURRENT AS $$
+  WITH ranged_leads AS (
+    SELECT l.officer_id, coalesce(l.captured_by, l.officer_id) AS captured_by, l.status,
+      l.gps_latitude IS NOT NULL AND l.gps_longitude IS NOT NULL AS has_gps
+    FROM leads l
+    WHERE l.deleted_at IS NULL
+      AND l.merged_into_id IS NULL
+      AND (l.created_at AT TIME ZONE 'Africa/Dar_es_Salaam')::date BETWEEN range_from AND range_to
+  ),
+  captured AS (
+    SELECT captured_by AS officer_id, count(*) AS leads, count(*) FILTER (WHERE has_gps) AS with_gps
+    FROM ranged_leads
+    GROUP BY captured_by
+  ),
+  assigned AS (
+    SELECT officer_id, count(*) AS leads, count(*) FILTER (WHERE status = 'won') AS won
+    FROM ranged_leads
+    GROUP BY officer_id
+  ),
+  -- A follow-up logged after the day it was due is late; one with no due
+  -- date could not be
+  followed_up AS (
+    SELECT f.logged_by AS officer_id, count(*) AS logged,
+      count(*) FILTER (
+        WHERE f.previous_contact_date IS NULL
+          OR (f.created_at AT TIME ZONE 'Africa/Dar_es_Salaam')::date <= f.previous_contact_date
+      ) AS on_time
+    FROM lead_follow_ups f
+    WHERE f.logged_by_role IN ('officer', 'supervisor')
+      AND (f.created_at AT TIME ZONE 'Africa/Dar_es_Salaam')::date BETWEEN range_from AND range_to
+    GROUP BY f.logged_by
+  )
+  SELECT o.id, o.name, o.active,
+    coalesce(c.leads, 0), coalesce(c.with_gps, 0),
+    coalesce(f.logged, 0), coalesce(f.on_time, 0),
+    coalesce(a.leads, 0), coalesce(a.won, 0)
+  FROM officers o
+  LEFT JOIN captured c ON c.officer_id = o.id
+  LEFT JOIN assigned a ON a.officer_id = o.id
+  LEFT JOIN followed_up f ON f.officer_id = o.id
+  WHERE (scope_officer_ids IS NULL OR o.id = ANY(scope_officer_ids))
+    AND (o.active OR c.officer_id IS NOT NULL OR a.officer_id IS NOT NULL OR f.officer_id IS NOT NULL)
+  ORDER BY o.name
+$$;
+
+REVOKE EXECUTE ON FUNCTION officer_performance(DATE, DATE, UUID[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION officer_performance(DATE, DATE, UUID[]) TO authenticated;
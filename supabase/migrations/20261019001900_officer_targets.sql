@@ -0,0 +1,88 @@
+-- Officer targets
+-- Dealers set how many leads an officer, or a supervisor's team, should
+-- capture each day, week or month. Progress counts leads by who captured them,
+-- over Tanzania calendar periods (Africa/Dar_es_Salaam).
+
+-- A team target is held on the supervisor and counts the supervisor's leads
+-- and those of the officers reporting to them
+CREATE TABLE IF NOT EXISTS officer_targets (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  officer_id UUID NOT NULL REFERENCES officers(id) ON DELETE CASCADE,
+  applies_to TEXT NOT NULL DEFAULT 'officer' CHECK (applies_to IN ('officer', 'team')),
+  period TEXT NOT NULL CHECK (period IN ('day', 'week', 'month')),
+  lead_count INTEGER NOT NULL CHECK (lead_count > 0),
+  set_by UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT officer_targets_officer_period UNIQUE (officer_id, applies_to, period)
+);
+
+ALTER TABLE officer_targets ENABLE ROW LEVEL SECURITY;
+
+-- Targets: visible with their officer, so officers see their own and
+-- supervisors their team's; only dealers and platform admins set them
+CREATE POLICY "Targets are visible with their officer" ON officer_targets
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM officers o WHERE o.id = officer_targets.officer_id));
+
+CREATE POLICY "Dealers set their officers' targets" ON officer_targets
+  FOR ALL TO authenticated
+  USING (
+    app_role() IN ('dealer', 'platform_admin')
+    AND EXISTS (SELECT 1 FROM officers o WHERE o.id = officer_targets.officer_id)
+  )
+  WITH CHECK (
+    app_role() IN ('dealer', 'platform_admin')
+    AND set_by = app_user_id()
+    AND EXISTS (SELECT 1 FROM officers o WHERE o.id = officer_targets.officer_id)
+  );
+
+-- Every target in scope with the leads captured towards it in the period
+-- that contains on_date. Runs as the caller, so RLS limits it to the targets
+-- and leads they can see; scope_officer_ids narrows it further (NULL for
+-- every visible target).
+CREATE OR REPLACE FUNCTION target_attainment(
+  on_date DATE,
+  scope_officer_ids UUID[] DEFAULT NULL
+) RETURNS TABLE (
+  target_id UUID,
+  officer_id UUID,
+  officer_name TEXT,
+  active BOOLEAN,
+  applies_to TEXT,
+  period TEXT,
+  lead_count INTEGER,
+  period_start DATE,
+  period_end DATE,
+  achieved BIGINT
+)
+LANGUAGE sql STABLE SET search_path FROM CURRENT AS $$
+  WITH targets AS (
+    SELECT t.*, o.name, o.active,
+      date_trunc(t.period, on_date::timestamp)::date AS starts_on,
+      (date_trunc(t.period, on_date::timestamp) + ('1 ' || t.period)::interval)::date - 1 AS ends_on
+    FROM officer_targets t
+    JOIN officers o ON o.id = t.officer_id
+    WHERE scope_officer_ids IS NULL OR t.officer_id = ANY(scope_officer_ids)
+  )
+  SELECT t.id, t.officer_id, t.name, t.active, t.applies_to, t.period, t.lead_count,
+    t.starts_on, t.ends_on,
+    (
+      SELECT count(*)
+      FROM leads l
+      WHERE l.deleted_at IS NULL
+        AND l.merged_into_id IS NULL
+        AND (l.created_at AT TIME ZONE 'Africa/Dar_es_Salaam')::date BETWEEN t.starts_on AND t.ends_on
+        AND (
+          coalesce(l.captured_by, l.officer_id) = t.officer_id
+          OR (t.applies_to = 'team' AND coalesce(l.captured_by, l.officer_id) IN (
+            SELECT m.id FROM officers m WHERE m.supervisor_id = t.officer_id
+          ))
+        )
+    )
+  FROM targets t
+  ORDER BY t.name, t.applies_to, array_position(ARRAY['day', 'week', 'month'], t.period)
+$$;
+
+REVOKE EXECUTE ON FUNCTION target_attainment(DATE, UUID[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION target_attainment(DATE, UUID[]) TO authenticated;
@@ -0,0 +1,13 @@
+-- Ward from GPS
+-- When a lead is saved with a GPS fix, the app looks the fix up in the
+-- bundled ward boundaries and records the region, district and ward it falls
+-- in. ward_mismatch flags leads whose typed ward names a different ward, so
+-- dealers can find and correct them.
+
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS gps_region TEXT;
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS gps_district TEXT;
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS gps_ward TEXT;
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS ward_mismatch BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_leads_ward_mismatch ON leads(officer_id)
+  WHERE ward_mismatch AND deleted_at IS NULL AND merged_into_id IS NULL;
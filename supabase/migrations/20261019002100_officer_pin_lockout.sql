@@ -0,0 +1,24 @@
+-- Officer PIN lockout
+-- Wrong PINs are counted per officer, and an officer who reaches the limit is
+-- locked out until their dealer sets a new PIN. Each attempt is counted before
+-- the PIN is checked, so guesses sent in parallel cannot get past the limit.
+
+ALTER TABLE officers ADD COLUMN IF NOT EXISTS pin_failed_attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE officers ADD COLUMN IF NOT EXISTS pin_locked_at TIMESTAMP WITH TIME ZONE;
+
+-- Count a PIN attempt, locking the officer on the attempt that reaches the
+-- limit. Returns the attempts so far, or NULL when the officer is already
+-- locked out. Only the server (service role) calls this.
+CREATE OR REPLACE FUNCTION claim_pin_attempt(
+  target_officer_id UUID,
+  max_attempts INTEGER
+) RETURNS INTEGER
+LANGUAGE sql VOLATILE AS $$
+  UPDATE officers
+  SET pin_failed_attempts = pin_failed_attempts + 1,
+    pin_locked_at = CASE WHEN pin_failed_attempts + 1 >= max_attempts THEN NOW() END
+  WHERE id = target_officer_id AND pin_locked_at IS NULL
+  RETURNING pin_failed_attempts
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_pin_attempt(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,25 @@
+-- Officer lookup for the roles that add officers
+-- find_officers_by_phone checks numbers across every dealer, so it is limited
+-- to dealers, supervisors (who import into their own team) and platform
+-- admins; officers get no rows.
+
+CREATE OR REPLACE FUNCTION find_officers_by_phone(
+  lookup_phones TEXT[]
+) RETURNS TABLE (
+  phone TEXT,
+  officer_id UUID,
+  officer_name TEXT,
+  active BOOLEAN
+)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path FROM CURRENT AS $$
+  SELECT o.phone,
+    CASE WHEN visible THEN o.id END,
+    CASE WHEN visible THEN o.name END,
+    o.active
+  FROM officers o
+  CROSS JOIN LATERAL (
+    SELECT app_role() = 'platform_admin' OR o.dealer_id = app_dealer_id() AS visible
+  ) v
+  WHERE o.phone = ANY(lookup_phones)
+    AND app_role() IN ('dealer', 'supervisor', 'platform_admin')
+$$;
@@ -0,0 +1,19 @@
+-- One-time code attempts counted atomically
+-- Each guess at a code is counted before the code is compared, so guesses sent
+-- in parallel cannot get past the attempt limit.
+
+-- Count an attempt at a code. Returns the attempts so far, or NULL when the
+-- code is used up (consumed, or out of attempts). Only the server (service
+-- role) calls this.
+CREATE OR REPLACE FUNCTION claim_otp_attempt(
+  target_code_id UUID,
+  max_attempts INTEGER
+) RETURNS INTEGER
+LANGUAGE sql VOLATILE AS $$
+  UPDATE otp_codes
+  SET attempts = attempts + 1
+  WHERE id = target_code_id AND consumed_at IS NULL AND attempts < max_attempts
+  RETURNING attempts
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_otp_attempt(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,22 @@
+-- One active officer per phone number
+-- A phone number is an officer's login, so two active officers may not share
+-- one. Deactivated officers keep their number, so it can be given to someone
+-- new. Existing clashes must be resolved (deactivate or renumber one of each
+-- pair) before this runs.
+
+DO $$
+DECLARE
+  clashes TEXT;
+BEGIN
+  SELECT string_agg(phone, ', ') INTO clashes
+  FROM (
+    SELECT phone FROM officers WHERE active GROUP BY phone HAVING COUNT(*) > 1
+  ) shared;
+
+  IF clashes IS NOT NULL THEN
+    RAISE EXCEPTION 'Active officers share these phone numbers: %. Deactivate or renumber one of each before applying this migration.', clashes;
+  END IF;
+END
+$$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_officers_active_phone ON officers(phone) WHERE active;
@@ -0,0 +1,35 @@
+-- Lead status changes in one transaction
+-- The lead's new status, its history row and its timeline entry are written
+-- together, so a status change is never kept without its history.
+
+-- Move a lead from expected_status to new_status, with history and timeline
+-- rows. Returns the lead's ID, or nothing when the lead is no longer in
+-- expected_status (someone else moved it) or has been removed. Runs as the
+-- caller, so RLS decides which leads may change.
+CREATE OR REPLACE FUNCTION change_lead_status(
+  target_lead UUID,
+  expected_status TEXT,
+  new_status TEXT,
+  new_lost_reason TEXT DEFAULT NULL,
+  change_note TEXT DEFAULT NULL
+) RETURNS SETOF UUID
+LANGUAGE sql AS $$
+  WITH moved AS (
+    UPDATE leads
+    SET status = new_status, lost_reason = new_lost_reason, status_changed_at = NOW(), updated_at = NOW()
+    WHERE id = target_lead AND status = expected_status AND deleted_at IS NULL
+    RETURNING id
+  ), history AS (
+    INSERT INTO lead_status_history (lead_id, from_status, to_status, lost_reason, note, changed_by, changed_by_role)
+    SELECT id, expected_status, new_status, new_lost_reason, change_note, app_user_id(), app_role() FROM moved
+  ), timeline AS (
+    INSERT INTO lead_activities (lead_id, type, note, from_status, to_status, created_by, created_by_role)
+    SELECT id, 'status_change', NULLIF(concat_ws(' - ', new_lost_reason, change_note), ''),
+      expected_status, new_status, app_user_id(), app_role()
+    FROM moved
+  )
+  SELECT id FROM moved
+$$;
+
+REVOKE EXECUTE ON FUNCTION change_lead_status(UUID, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION change_lead_status(UUID, TEXT, TEXT, TEXT, TEXT) TO authenticated;
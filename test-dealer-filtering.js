@@ -9,46 +9,38 @@ async function testDealerFiltering() {
   console.log('🧪 Testing Dealer Filtering Implementation...\n');
 
   try {
-    // Test 1: Officers API without dealer ID should return empty array
-    console.log('1. Testing officers API without dealer ID...');
+    // Test 1: Officers API without a session is rejected
+    console.log('1. Testing officers API without a session...');
     const officersResponse = await fetch(`${BASE_URL}/api/officers`);
-    const officers = await officersResponse.json();
-    console.log(`   Officers returned: ${officers.length}`);
-    console.log(`   ✅ Expected: 0 (no dealer ID provided)`);
-
-    // Test 2: Officers API with dealer ID header
-    console.log('\n2. Testing officers API with dealer ID header...');
-    const dealerId = 'test-dealer-id'; // You'll need to use a real dealer ID
-    const officersWithDealerResponse = await fetch(`${BASE_URL}/api/officers`, {
+    console.log(`   Status: ${officersResponse.status}`);
+    console.log(`   ✅ Expected: 401 (not signed in)`);
+
+    // Test 2: A spoofed dealer header is ignored
+    console.log('\n2. Testing officers API with a spoofed x-dealer-id header...');
+    const dealerId = 'test-dealer-id';
+    const spoofedOfficersResponse = await fetch(`${BASE_URL}/api/officers`, {
       headers: {
         'x-dealer-id': dealerId
       }
     });
-    const officersWithDealer = await officersWithDealerResponse.json();
-    console.log(`   Officers returned: ${officersWithDealer.length}`);
-    console.log(`   ✅ Should only show officers for dealer: ${dealerId}`);
+    console.log(`   Status: ${spoofedOfficersResponse.status}`);
+    console.log(`   ✅ Expected: 401 (dealer comes from the session cookie only)`);
 
-    // Test 3: Leads API without dealer ID should return empty array
-    console.log('\n3. Testing leads API without dealer ID...');
+    // Test 3: Leads API without a session is rejected
+    console.log('\n3. Testing leads API without a session...');
     const leadsResponse = await fetch(`${BASE_URL}/api/leads`);
-    const leads = await leadsResponse.json();
-    console.log(`   Leads returned: ${leads.length}`);
-    console.log(`   ✅ Expected: 0 (no dealer ID provided)`);
+    console.log(`   Status: ${leadsResponse.status}`);
+    console.log(`   ✅ Expected: 401 (not signed in)`);
 
-    // Test 4: Leads API with dealer ID header
-    console.log('\n4. Testing leads API with dealer ID header...');
-    const leadsWithDealerResponse = await fetch(`${BASE_URL}/api/leads`, {
-      headers: {
-        'x-dealer-id': dealerId
-      }
-    });
-    const leadsWithDealer = await leadsWithDealerResponse.json();
-    console.log(`   Leads returned: ${leadsWithDealer.length}`);
-    console.log(`   ✅ Should only show leads for dealer: ${dealerId}`);
+    // Test 4: A spoofed dealer_id query parameter is ignored
+    console.log('\n4. Testing leads API with a spoofed dealer_id parameter...');
+    const spoofedLeadsResponse = await fetch(`${BASE_URL}/api/leads?dealer_id=${dealerId}`);
+    console.log(`   Status: ${spoofedLeadsResponse.status}`);
+    console.log(`   ✅ Expected: 401 (dealer comes from the session cookie only)`);
 
     console.log('\n🎉 Dealer filtering tests completed!');
     console.log('\n📝 Manual verification needed:');
-    console.log('   - Login with different dealer emails');
+    console.log('   - Login with different dealers (OTP codes are printed by the console provider)');
     console.log('   - Verify each dealer only sees their own data');
     console.log('   - Test lead submission associates with correct dealer');
     console.log('   - Test export only includes dealer-specific data');